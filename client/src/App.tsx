@@ -4,18 +4,43 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { LanguageProvider } from "@/components/LanguageProvider";
+import { AuthProvider } from "@/hooks/use-auth";
 import Game from "@/pages/game";
 import Constructor from "@/pages/constructor";
 import CustomBoards from "@/pages/custom-boards";
 import CustomGame from "@/pages/custom-game";
+import Player from "@/pages/player";
+import Collections from "@/pages/collections";
+import Collection from "@/pages/collection";
+import Play from "@/pages/play";
+import Race from "@/pages/race";
+import Watch from "@/pages/watch";
+import Tournaments from "@/pages/tournaments";
+import Tournament from "@/pages/tournament";
+import TournamentAdmin from "@/pages/tournament-admin";
+import Replay from "@/pages/replay";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Game} />
       <Route path="/constructor" component={Constructor} />
+      <Route path="/constructor/:id" component={Constructor} />
       <Route path="/custom-boards" component={CustomBoards} />
       <Route path="/game/custom/:id" component={CustomGame} />
+      <Route path="/player/:name" component={Player} />
+      <Route path="/collections" component={Collections} />
+      <Route path="/collections/:id" component={Collection} />
+      <Route path="/play" component={Play} />
+      <Route path="/race" component={Race} />
+      <Route path="/race/:code" component={Race} />
+      <Route path="/watch/:code" component={Watch} />
+      <Route path="/tournaments" component={Tournaments} />
+      <Route path="/tournaments/new" component={TournamentAdmin} />
+      <Route path="/tournaments/:id/manage" component={TournamentAdmin} />
+      <Route path="/tournaments/:id" component={Tournament} />
+      <Route path="/replay/custom/:boardId/:entryId" component={Replay} />
+      <Route path="/replay/:id" component={Replay} />
       <Route component={Game} />
     </Switch>
   );
@@ -24,12 +49,14 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <LanguageProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Router />
-        </TooltipProvider>
-      </LanguageProvider>
+      <AuthProvider>
+        <LanguageProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </LanguageProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useLanguage } from '@/lib/i18n';
+
+interface AuthDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AuthDialog({ open, onOpenChange }: AuthDialogProps) {
+  const { loginMutation, registerMutation } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const mutation = mode === 'login' ? loginMutation : registerMutation;
+
+  const getErrorMessage = (error: Error) => {
+    if (error.message.startsWith('401')) return t('auth.invalidCredentials');
+    if (error.message.startsWith('409')) return t('auth.usernameTaken');
+    if (error.message.startsWith('400')) return t('auth.invalidData');
+    return t('auth.failed');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate(
+      { username: username.trim(), password },
+      {
+        onSuccess: (user) => {
+          setPassword('');
+          onOpenChange(false);
+          toast({
+            title: t('auth.signedIn'),
+            description: user.username,
+          });
+        },
+        onError: (error) => {
+          toast({
+            title: t('auth.title'),
+            description: getErrorMessage(error),
+            variant: 'destructive',
+          });
+        },
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm mx-4">
+        <DialogHeader>
+          <DialogTitle>{t('auth.title')}</DialogTitle>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as 'login' | 'register')}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="login" data-testid="tab-login">{t('auth.login')}</TabsTrigger>
+            <TabsTrigger value="register" data-testid="tab-register">{t('auth.register')}</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('auth.username')}
+            </label>
+            <Input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              maxLength={20}
+              required
+              data-testid="input-username"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('auth.password')}
+            </label>
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              minLength={mode === 'register' ? 8 : undefined}
+              required
+              data-testid="input-password"
+            />
+            {mode === 'register' && (
+              <p className="text-xs text-gray-500 mt-1">{t('auth.passwordHint')}</p>
+            )}
+          </div>
+          <Button type="submit" className="w-full" disabled={mutation.isPending} data-testid="button-auth-submit">
+            {mode === 'login' ? t('auth.login') : t('auth.register')}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
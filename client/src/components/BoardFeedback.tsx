@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Star, MessageSquare } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { getAverageRating } from '@shared/board-rating';
+import {
+  COMMENT_MAX_LENGTH,
+  type CustomBoardComment,
+  type InsertCustomBoardComment,
+  type InsertCustomBoardRating,
+  type PublicCustomBoard,
+} from '@shared/schema';
+
+interface BoardFeedbackProps {
+  board: PublicCustomBoard;
+  nickname: string;
+  onNicknameChange: (nickname: string) => void;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+// Both rating and commenting answer 403 for a reserved name or a board the player has not completed
+const getFeedbackErrorMessage = (error: Error) => {
+  if (error.message.includes('registered player')) {
+    return 'Это имя принадлежит зарегистрированному игроку. Войдите или выберите другое имя';
+  }
+  if (error.message.startsWith('403')) {
+    return 'Оценивать и комментировать поле могут только игроки, прошедшие его';
+  }
+  return 'Не удалось сохранить отзыв';
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('ru-RU', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+
+/**
+ * Rating and comments of a custom board. Anyone can read them,
+ * players who completed the board can rate it and comment.
+ */
+export function BoardFeedback({ board, nickname, onNicknameChange }: BoardFeedbackProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [myStars, setMyStars] = useState<number | null>(null);
+  const [hoveredStars, setHoveredStars] = useState<number | null>(null);
+  const [commentText, setCommentText] = useState('');
+
+  const { data: comments = [] } = useQuery<CustomBoardComment[]>({
+    queryKey: [`/api/custom-boards/${board.id}/comments`],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Ошибка',
+      description: getFeedbackErrorMessage(error),
+      variant: 'destructive',
+    });
+  };
+
+  const rateMutation = useMutation({
+    mutationFn: (data: InsertCustomBoardRating) =>
+      apiRequest('PUT', `/api/custom-boards/${board.id}/rating`, data),
+    onSuccess: (_res, data) => {
+      setMyStars(data.stars);
+      queryClient.invalidateQueries({ queryKey: [`/api/custom-boards/${board.id}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/custom-boards'] });
+      toast({
+        title: 'Спасибо!',
+        description: 'Ваша оценка сохранена',
+      });
+    },
+    onError,
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: (data: InsertCustomBoardComment) =>
+      apiRequest('POST', `/api/custom-boards/${board.id}/comments`, data),
+    onSuccess: () => {
+      setCommentText('');
+      queryClient.invalidateQueries({ queryKey: [`/api/custom-boards/${board.id}/comments`] });
+    },
+    onError,
+  });
+
+  const average = getAverageRating(board.ratingSum, board.ratingCount);
+  const shownStars = hoveredStars ?? myStars ?? 0;
+  const canSend = nickname.trim() !== '';
+
+  return (
+    <Card data-testid="card-feedback">
+      <CardContent className="py-6 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h3 className="font-bold text-lg flex items-center gap-2">
+              <Star className="w-5 h-5" />
+              Рейтинг
+            </h3>
+            <div className="text-sm text-gray-600" data-testid="text-board-rating">
+              {average !== null ? `${average} из 5 • оценок: ${board.ratingCount}` : 'Ещё не оценено'}
+            </div>
+          </div>
+          <div className="flex gap-1" onMouseLeave={() => setHoveredStars(null)}>
+            {STARS.map((stars) => (
+              <button
+                key={stars}
+                type="button"
+                aria-label={`Оценить на ${stars}`}
+                disabled={!canSend || rateMutation.isPending}
+                onMouseEnter={() => setHoveredStars(stars)}
+                onClick={() => rateMutation.mutate({ nickname: nickname.trim(), stars })}
+                className="disabled:opacity-50"
+                data-testid={`button-rate-${stars}`}
+              >
+                <Star
+                  className={`w-7 h-7 ${stars <= shownStars ? 'fill-amber-400 text-amber-400' : 'text-gray-300'}`}
+                />
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {!user && (
+          <div>
+            <label className="text-sm font-medium mb-2 block">Ваш никнейм</label>
+            <Input
+              value={nickname}
+              onChange={(e) => onNicknameChange(e.target.value)}
+              placeholder="Никнейм, под которым вы прошли поле"
+              data-testid="input-feedback-nickname"
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <MessageSquare className="w-5 h-5" />
+            Комментарии
+          </h3>
+          <Textarea
+            value={commentText}
+            onChange={(e) => setCommentText(e.target.value)}
+            maxLength={COMMENT_MAX_LENGTH}
+            placeholder="Поделитесь впечатлениями о поле"
+            data-testid="input-comment"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">
+              {commentText.length}/{COMMENT_MAX_LENGTH}
+            </span>
+            <Button
+              onClick={() => commentMutation.mutate({ nickname: nickname.trim(), text: commentText.trim() })}
+              disabled={!canSend || !commentText.trim() || commentMutation.isPending}
+              data-testid="button-send-comment"
+            >
+              {commentMutation.isPending ? 'Отправка...' : 'Отправить'}
+            </Button>
+          </div>
+        </div>
+
+        {comments.length === 0 ? (
+          <p className="text-gray-500 text-sm">Комментариев пока нет</p>
+        ) : (
+          <div className="space-y-3">
+            {comments.map((comment) => (
+              <div key={comment.id} className="p-3 bg-gray-50 rounded-lg" data-testid={`comment-${comment.id}`}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <Link href={`/player/${encodeURIComponent(comment.nickname)}`} className="font-medium hover:underline">
+                    {comment.nickname}
+                  </Link>
+                  <span className="text-xs text-gray-500">{formatDate(comment.createdAt.toString())}</span>
+                </div>
+                <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">{comment.text}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
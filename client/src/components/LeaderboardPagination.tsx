@@ -0,0 +1,83 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+} from '@/components/ui/pagination';
+
+interface LeaderboardPaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+/**
+ * Pages to show: the first, the last and the neighbours of the current one;
+ * null marks a gap
+ */
+function getVisiblePages(page: number, pageCount: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+export function LeaderboardPagination({ page, pageSize, total, onPageChange }: LeaderboardPaginationProps) {
+  const pageCount = Math.ceil(total / pageSize);
+  if (pageCount <= 1) return null;
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationLink
+            href="#"
+            onClick={goTo(page - 1)}
+            aria-disabled={page === 1}
+            className={page === 1 ? 'pointer-events-none opacity-50' : undefined}
+            data-testid="button-page-previous"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </PaginationLink>
+        </PaginationItem>
+        {getVisiblePages(page, pageCount).map((p, index) => (
+          <PaginationItem key={p ?? `gap-${index}`}>
+            {p === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href="#" isActive={p === page} onClick={goTo(p)} data-testid={`button-page-${p}`}>
+                {p}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationLink
+            href="#"
+            onClick={goTo(page + 1)}
+            aria-disabled={page === pageCount}
+            className={page === pageCount ? 'pointer-events-none opacity-50' : undefined}
+            data-testid="button-page-next"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </PaginationLink>
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
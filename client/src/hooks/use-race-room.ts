@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  RACE_SOCKET_PATH,
+  type RaceClientMessage,
+  type RaceRoomState,
+  type RaceServerMessage,
+  type RaceTicket,
+} from "@shared/race";
+import type { Position } from "@shared/game-rules";
+
+type RoomMessage = Extract<RaceServerMessage, { type: "room" }>;
+type EventMessage = Exclude<RaceServerMessage, RoomMessage>;
+
+export type RaceConnection = "connecting" | "open" | "closed" | "replaced";
+
+// Close code the server uses when the same seat connects from another tab
+const REPLACED_CLOSE_CODE = 4000;
+
+/**
+ * Keeps a WebSocket to a race room open for the holder of a ticket.
+ * The server sends the whole room after every change; claim results
+ * and errors are passed to onEvent.
+ */
+export function useRaceRoom(ticket: RaceTicket | null, onEvent: (message: EventMessage) => void) {
+  const [room, setRoom] = useState<RaceRoomState | null>(null);
+  const [you, setYou] = useState<RoomMessage["you"] | null>(null);
+  // Server clock minus local clock, so the race timer matches the server's start time
+  const [clockOffset, setClockOffset] = useState(0);
+  const [connection, setConnection] = useState<RaceConnection>("connecting");
+  const [attempt, setAttempt] = useState(0);
+  const socketRef = useRef<WebSocket | null>(null);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!ticket) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const params = new URLSearchParams({ room: ticket.code, token: ticket.token });
+    const socket = new WebSocket(`${protocol}//${window.location.host}${RACE_SOCKET_PATH}?${params}`);
+    socketRef.current = socket;
+    setConnection("connecting");
+
+    socket.onopen = () => setConnection("open");
+    socket.onclose = (event) => setConnection(event.code === REPLACED_CLOSE_CODE ? "replaced" : "closed");
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data) as RaceServerMessage;
+      if (message.type === "room") {
+        setRoom(message.room);
+        setYou(message.you);
+        setClockOffset(message.serverTime - Date.now());
+      } else {
+        onEventRef.current(message);
+      }
+    };
+
+    return () => {
+      socketRef.current = null;
+      socket.close();
+    };
+  }, [ticket?.code, ticket?.token, attempt]);
+
+  const send = useCallback((message: RaceClientMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }, []);
+
+  return {
+    room,
+    you,
+    clockOffset,
+    connection,
+    start: useCallback(() => send({ type: "start" }), [send]),
+    select: useCallback((path: Position[]) => send({ type: "select", path }), [send]),
+    claim: useCallback((path: Position[]) => send({ type: "claim", path }), [send]),
+    reconnect: useCallback(() => setAttempt((value) => value + 1), []),
+  };
+}
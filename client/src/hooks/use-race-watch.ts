@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  RACE_SOCKET_PATH,
+  type RaceRoomState,
+  type RaceWatchDelay,
+  type RaceWatchedPlayer,
+  type RaceWatchMessage,
+} from "@shared/race";
+
+export type RaceWatchConnection = "connecting" | "open" | "closed";
+
+/**
+ * Watches a race room as a spectator. The server delays every message by
+ * the chosen delay, so the room, the players' selections and the clock
+ * offset all describe the room as it was that many seconds ago.
+ */
+export function useRaceWatch(code: string, delay: RaceWatchDelay) {
+  const [room, setRoom] = useState<RaceRoomState | null>(null);
+  const [players, setPlayers] = useState<RaceWatchedPlayer[]>([]);
+  // Server clock at the snapshot minus local clock at arrival; includes the delay
+  const [clockOffset, setClockOffset] = useState(0);
+  const [connection, setConnection] = useState<RaceWatchConnection>("connecting");
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const params = new URLSearchParams({ room: code, watch: String(delay) });
+    const socket = new WebSocket(`${protocol}//${window.location.host}${RACE_SOCKET_PATH}?${params}`);
+    setConnection("connecting");
+    setRoom(null);
+    setPlayers([]);
+
+    socket.onopen = () => setConnection("open");
+    socket.onclose = () => setConnection("closed");
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data) as RaceWatchMessage;
+      if (message.type === "room") {
+        setRoom(message.room);
+        setPlayers(message.players);
+        setClockOffset(message.serverTime - Date.now());
+      } else {
+        setPlayers((current) => current.map((player) => (
+          player.nickname === message.nickname ? { ...player, selection: message.path } : player
+        )));
+      }
+    };
+
+    return () => socket.close();
+  }, [code, delay, attempt]);
+
+  return {
+    room,
+    players,
+    clockOffset,
+    connection,
+    reconnect: useCallback(() => setAttempt((value) => value + 1), []),
+  };
+}
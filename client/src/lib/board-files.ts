@@ -0,0 +1,59 @@
+import {
+  boardFileSchema,
+  describeBoardFileError,
+  fromBoardFile,
+  toBoardFile,
+  type BoardFileSource,
+  type ImportedBoard,
+} from "@shared/board-file";
+import { validateCustomBoard } from "@shared/board-validation";
+
+// A board file picked outside the constructor is handed over to it through session storage
+const IMPORTED_BOARD_KEY = "imported-board-file";
+
+export function downloadBoardFile(source: BoardFileSource, fileName: string) {
+  const blob = new Blob([JSON.stringify(toBoardFile(source), null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Throws an Error that says why the file cannot be used. A board with
+// unreachable targets is still accepted so that its author can fix it
+export async function readBoardFile(file: File): Promise<ImportedBoard> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const parsed = boardFileSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(describeBoardFileError(data, parsed.error));
+  }
+
+  const imported = fromBoardFile(parsed.data);
+  const validation = validateCustomBoard(imported);
+  if (!validation.ok && validation.reason === "malformed") {
+    throw new Error(validation.errors.join("; "));
+  }
+  return imported;
+}
+
+export function stashImportedBoard(board: ImportedBoard) {
+  sessionStorage.setItem(IMPORTED_BOARD_KEY, JSON.stringify(board));
+}
+
+export function takeImportedBoard(): ImportedBoard | null {
+  const stored = sessionStorage.getItem(IMPORTED_BOARD_KEY);
+  sessionStorage.removeItem(IMPORTED_BOARD_KEY);
+  try {
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,24 @@
+// Edit tokens of custom boards created in this browser, by board id.
+// Anonymous authors need the token to edit or delete their boards later.
+const EDIT_TOKENS_KEY = "custom-board-edit-tokens";
+
+function readTokens(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(EDIT_TOKENS_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function getEditToken(boardId: number): string | undefined {
+  return readTokens()[boardId];
+}
+
+export function saveEditToken(boardId: number, token: string) {
+  localStorage.setItem(EDIT_TOKENS_KEY, JSON.stringify({ ...readTokens(), [boardId]: token }));
+}
+
+export function removeEditToken(boardId: number) {
+  const { [boardId]: _removed, ...tokens } = readTokens();
+  localStorage.setItem(EDIT_TOKENS_KEY, JSON.stringify(tokens));
+}
@@ -0,0 +1,36 @@
+import type { GameStart } from "@shared/schema";
+import { apiRequest } from "./queryClient";
+
+// The server signs the start and the finish of every game and times the result
+// by its own clock. The game does not wait for it: the board shows at once and
+// the token arrives in the background. null means the server could not be reached.
+export type GameToken = Promise<string | null>;
+
+export async function startServerGame(game: GameStart): Promise<string | null> {
+  try {
+    const res = await apiRequest("POST", "/api/games/start", game);
+    const { gameToken } = await res.json();
+    return gameToken;
+  } catch {
+    return null;
+  }
+}
+
+export async function finishServerGame(started: GameToken): Promise<string | null> {
+  const token = await started;
+  if (!token) return null;
+  try {
+    const res = await apiRequest("POST", "/api/games/finish", { gameToken: token });
+    const { gameToken } = await res.json();
+    return gameToken;
+  } catch {
+    return null;
+  }
+}
+
+// Waits for the finish token before a score is sent
+export async function requireGameToken(finished: GameToken): Promise<string> {
+  const token = await finished;
+  if (!token) throw new Error("The game was not started on the server");
+  return token;
+}
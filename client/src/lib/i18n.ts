@@ -45,6 +45,7 @@ export const translations = {
     'game.stats.remaining': 'Осталось',
     'game.solutions.title': 'Решения',
     'game.solutions.noSolutions': 'Не найдено решений для текущих целевых чисел.',
+    'game.solutions.count': 'решений:',
     'game.instructions.title': 'Как играть',
     'game.instructions.rule1': 'Выделяйте непрерывные линии (горизонтально или вертикально)',
     'game.instructions.rule2': 'Начинайте с числа, затем операция, затем число',
@@ -69,6 +70,7 @@ export const translations = {
     'leaderboard.quickJump': 'Быстрый переход',
     'leaderboard.noResults': 'Пока нет результатов для этой категории',
     'leaderboard.beFirst': 'Будьте первым!',
+    'leaderboard.replay': 'Повтор игры',
     'settings.title': 'Настройки игры',
     'settings.difficulty': 'Сложность',
     'settings.boardSize': 'Размер поля',
@@ -87,6 +89,44 @@ export const translations = {
     'game.invalidOperation': 'Некорректная операция',
     'game.divisionByZero': 'Деление на ноль недопустимо',
     'game.negativePower': 'Возведение отрицательного числа в степень недопустимо',
+    'game.seed': 'Поле',
+    'game.copyLink': 'Скопировать ссылку на поле',
+    'toast.linkCopied': 'Ссылка скопирована',
+    'settings.seed': 'Номер поля (seed)',
+    'settings.seedPlaceholder': 'Оставьте пустым для случайного поля',
+    'settings.invalidSeed': 'Допустимы латинские буквы, цифры, «_» и «-», не более 32 символов',
+    'leaderboard.sameBoard': 'Только это поле',
+    'leaderboard.classic': 'Обычные игры',
+    'leaderboard.sort': 'Сортировка',
+    'leaderboard.period.today': 'Сегодня',
+    'leaderboard.period.week': 'Неделя',
+    'leaderboard.period.month': 'Месяц',
+    'leaderboard.period.all': 'Всё время',
+    'leaderboard.sort.time': 'По времени',
+    'leaderboard.sort.attempts': 'По попыткам',
+    'leaderboard.sort.score': 'Время + 5 с за попытку',
+    'victory.placed': 'Вы заняли #{rank} из {total}',
+    'auth.title': 'Аккаунт',
+    'auth.login': 'Войти',
+    'auth.register': 'Регистрация',
+    'auth.logout': 'Выйти',
+    'auth.username': 'Имя игрока',
+    'auth.password': 'Пароль',
+    'auth.passwordHint': 'Не короче 8 символов',
+    'auth.signedIn': 'Вы вошли',
+    'auth.invalidCredentials': 'Неверное имя или пароль',
+    'auth.usernameTaken': 'Это имя уже занято',
+    'auth.invalidData': 'Имя: 3–20 букв, цифр, «_» или «-»; пароль: не короче 8 символов',
+    'auth.failed': 'Не удалось выполнить запрос',
+    'auth.verifiedName': 'Результат будет сохранён под вашим подтверждённым именем',
+    'auth.nameReserved': 'Это имя принадлежит зарегистрированному игроку. Войдите или выберите другое имя',
+    'daily.title': 'Эстафета дня',
+    'daily.practice': 'Вы уже играли это поле сегодня — эта попытка тренировочная и не попадёт в рейтинг',
+    'daily.loadFailed': 'Не удалось загрузить поле дня',
+    'daily.resumed': 'Рейтинговая попытка продолжается: время идёт с первого открытия поля',
+    'daily.alreadyUsed': 'Рейтинговая попытка на поле дня уже использована',
+    'daily.streak': 'Серия дней',
+    'daily.bestStreak': 'лучшая',
   },
   en: {
     'game.title': 'Arithmetic Relay',
@@ -106,6 +146,7 @@ export const translations = {
     'game.stats.remaining': 'Remaining',
     'game.solutions.title': 'Solutions',
     'game.solutions.noSolutions': 'No solutions found for current target numbers.',
+    'game.solutions.count': 'solutions:',
     'game.instructions.title': 'How to Play',
     'game.instructions.rule1': 'Select continuous lines (horizontally or vertically)',
     'game.instructions.rule2': 'Start with a number, then operation, then number',
@@ -130,6 +171,7 @@ export const translations = {
     'leaderboard.quickJump': 'Quick Jump',
     'leaderboard.noResults': 'No results yet for this category',
     'leaderboard.beFirst': 'Be the first!',
+    'leaderboard.replay': 'Game replay',
     'settings.title': 'Game Settings',
     'settings.difficulty': 'Difficulty',
     'settings.boardSize': 'Board Size',
@@ -148,5 +190,43 @@ export const translations = {
     'game.invalidOperation': 'Invalid operation',
     'game.divisionByZero': 'Division by zero is not allowed',
     'game.negativePower': 'Raising negative number to power is not allowed',
+    'game.seed': 'Board',
+    'game.copyLink': 'Copy link to this board',
+    'toast.linkCopied': 'Link copied',
+    'settings.seed': 'Board seed',
+    'settings.seedPlaceholder': 'Leave empty for a random board',
+    'settings.invalidSeed': 'Use Latin letters, digits, "_" and "-", up to 32 characters',
+    'leaderboard.sameBoard': 'This board only',
+    'leaderboard.classic': 'Regular games',
+    'leaderboard.sort': 'Sort by',
+    'leaderboard.period.today': 'Today',
+    'leaderboard.period.week': 'Week',
+    'leaderboard.period.month': 'Month',
+    'leaderboard.period.all': 'All time',
+    'leaderboard.sort.time': 'Time',
+    'leaderboard.sort.attempts': 'Attempts',
+    'leaderboard.sort.score': 'Time + 5 s per attempt',
+    'victory.placed': 'You placed #{rank} of {total}',
+    'auth.title': 'Account',
+    'auth.login': 'Sign in',
+    'auth.register': 'Sign up',
+    'auth.logout': 'Sign out',
+    'auth.username': 'Player name',
+    'auth.password': 'Password',
+    'auth.passwordHint': 'At least 8 characters',
+    'auth.signedIn': 'Signed in',
+    'auth.invalidCredentials': 'Wrong name or password',
+    'auth.usernameTaken': 'This name is already taken',
+    'auth.invalidData': 'Name: 3–20 letters, digits, "_" or "-"; password: at least 8 characters',
+    'auth.failed': 'Request failed',
+    'auth.verifiedName': 'Your result will be saved under your verified name',
+    'auth.nameReserved': 'This name belongs to a registered player. Sign in or pick another name',
+    'daily.title': 'Daily Relay',
+    'daily.practice': 'You have already played this board today — this run is practice and will not be ranked',
+    'daily.loadFailed': 'Failed to load the daily board',
+    'daily.resumed': 'Your ranked attempt continues: the clock runs from when you first opened the board',
+    'daily.alreadyUsed': 'Your ranked attempt on the daily board is already used',
+    'daily.streak': 'Day streak',
+    'daily.bestStreak': 'best',
   }
 };
\ No newline at end of file
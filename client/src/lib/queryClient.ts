@@ -31,21 +31,18 @@ export const getQueryFn: <T>(options: {
   async ({ queryKey }) => {
     let url = queryKey[0] as string;
     
-    // Handle leaderboard queries with filtering parameters
-    if (url === "/api/leaderboard" && queryKey.length > 1) {
-      const difficulty = queryKey[1];
-      const boardSize = queryKey[2];
-      url = `/api/leaderboard?difficulty=${difficulty}&boardSize=${boardSize}`;
-    }
-    
-    // Handle custom-boards queries with filtering parameters
-    if (url === "/api/custom-boards" && queryKey.length > 1) {
-      const params = queryKey[1] as { difficulty?: string; boardSize?: number };
+    // Handle queries with filtering parameters passed as an object,
+    // e.g. ["/api/leaderboard", { difficulty: "easy", page: 2 }]
+    const params = queryKey[1];
+    if (queryKey.length > 1 && typeof params === "object" && params !== null) {
       const queryParams = new URLSearchParams();
-      if (params.difficulty) queryParams.append("difficulty", params.difficulty);
-      if (params.boardSize !== undefined) queryParams.append("boardSize", params.boardSize.toString());
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== null && value !== "") {
+          queryParams.append(key, String(value));
+        }
+      }
       if (queryParams.toString()) {
-        url = `/api/custom-boards?${queryParams.toString()}`;
+        url = `${url}?${queryParams.toString()}`;
       }
     }
     
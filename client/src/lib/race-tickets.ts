@@ -0,0 +1,26 @@
+import type { RaceTicket } from "@shared/race";
+
+// Race tickets by room code, kept for the browser tab so that a reload
+// reconnects the player to their seat instead of asking them to join again
+const RACE_TICKETS_KEY = "race-tickets";
+
+function readTickets(): Record<string, RaceTicket> {
+  try {
+    return JSON.parse(sessionStorage.getItem(RACE_TICKETS_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function getRaceTicket(code: string): RaceTicket | undefined {
+  return readTickets()[code];
+}
+
+export function saveRaceTicket(ticket: RaceTicket) {
+  sessionStorage.setItem(RACE_TICKETS_KEY, JSON.stringify({ ...readTickets(), [ticket.code]: ticket }));
+}
+
+export function removeRaceTicket(code: string) {
+  const { [code]: _removed, ...tickets } = readTickets();
+  sessionStorage.setItem(RACE_TICKETS_KEY, JSON.stringify(tickets));
+}
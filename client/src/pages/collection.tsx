@@ -0,0 +1,189 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ListOrdered, Trophy, Trash2, User } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { BoardCollectionDetails, CollectionStanding, Ranked } from "@shared/schema";
+
+const difficultyLabels: Record<string, string> = {
+  easy: "Легко",
+  medium: "Средне",
+  hard: "Сложно",
+};
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+};
+
+export default function Collection() {
+  const params = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data: collection, isLoading, error } = useQuery<BoardCollectionDetails>({
+    queryKey: [`/api/collections/${params.id}`],
+  });
+
+  const { data: standings = [] } = useQuery<Ranked<CollectionStanding>[]>({
+    queryKey: [`/api/collections/${params.id}/leaderboard`],
+    enabled: !!collection,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/collections/${params.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      setLocation("/collections");
+    },
+    onError: () => {
+      toast({
+        title: "Ошибка",
+        description: "Не удалось удалить подборку",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isOwner = !!user && !!collection && collection.userId === user.id;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 p-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl md:text-4xl font-bold text-indigo-900 flex items-center gap-2" data-testid="text-collection-name">
+            <ListOrdered className="w-8 h-8" />
+            {collection?.name ?? "Подборка"}
+          </h1>
+          <div className="flex gap-2">
+            {isOwner && (
+              <Button
+                variant="outline"
+                onClick={() => deleteMutation.mutate()}
+                disabled={deleteMutation.isPending}
+                data-testid="button-delete-collection"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Удалить
+              </Button>
+            )}
+            <Link href="/collections">
+              <Button variant="outline" data-testid="button-collections">
+                Все подборки
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="text-gray-600">Загрузка...</div>
+          </div>
+        ) : error || !collection ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <ListOrdered className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+              <h3 className="text-xl font-semibold text-gray-700 mb-2">Подборка не найдена</h3>
+              <p className="text-gray-500">Возможно, автор её удалил</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <Card>
+              <CardContent className="py-6 space-y-2">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <User className="w-4 h-4" />
+                  <span>
+                    Автор:{" "}
+                    <Link href={`/player/${encodeURIComponent(collection.creatorName)}`} className="hover:underline">
+                      {collection.creatorName}
+                    </Link>
+                  </span>
+                </div>
+                {collection.description && (
+                  <p className="text-gray-700 whitespace-pre-wrap" data-testid="text-collection-description">
+                    {collection.description}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Поля по порядку</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {collection.boards.map((board, index) => (
+                  <div
+                    key={board.id}
+                    className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-lg"
+                    data-testid={`collection-board-${board.id}`}
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="font-bold text-indigo-900 w-6 text-right">{index + 1}</span>
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900 truncate">{board.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {difficultyLabels[board.difficulty] || board.difficulty} • {board.boardSize}×{board.boardSize} • целей: {board.targets.length}
+                        </div>
+                      </div>
+                    </div>
+                    <Link href={`/game/custom/${board.id}`}>
+                      <Button size="sm" data-testid={`button-play-${board.id}`}>
+                        Играть
+                      </Button>
+                    </Link>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Trophy className="w-5 h-5 text-amber-500" />
+                  Общий лидерборд
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-gray-600 mb-4">
+                  В таблицу попадают игроки, прошедшие все поля подборки. Места — по сумме лучших времён на каждом поле.
+                </p>
+                {standings.length === 0 ? (
+                  <p className="text-gray-500 text-sm">Подборку ещё никто не прошёл целиком</p>
+                ) : (
+                  <div className="space-y-2">
+                    {standings.map((standing) => (
+                      <div
+                        key={standing.nickname}
+                        className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+                        data-testid={`collection-standing-${standing.rank}`}
+                      >
+                        <div className="flex items-center gap-3">
+                          <Badge variant={standing.rank <= 3 ? "default" : "secondary"}>{standing.rank}</Badge>
+                          <Link href={`/player/${encodeURIComponent(standing.nickname)}`} className="font-medium hover:underline">
+                            {standing.nickname}
+                          </Link>
+                        </div>
+                        <div className="text-right">
+                          <div className="font-mono font-semibold text-indigo-900">{formatTime(standing.totalTime)}</div>
+                          <div className="text-xs text-gray-500">{standing.boardTimes.map(formatTime).join(" + ")}</div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ListOrdered, Home, Puzzle, User, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { MAX_COLLECTION_BOARDS, type BoardCollectionSummary, type InsertBoardCollection } from "@shared/schema";
+
+// Board ids are typed comma-separated, in playing order
+const parseBoardIds = (input: string): number[] =>
+  input
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => id !== "")
+    .map(Number);
+
+export default function Collections() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [boardIdsInput, setBoardIdsInput] = useState("");
+
+  const { data: collections = [], isLoading } = useQuery<BoardCollectionSummary[]>({
+    queryKey: ["/api/collections"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertBoardCollection) => {
+      const res = await apiRequest("POST", "/api/collections", data);
+      return (await res.json()) as BoardCollectionSummary;
+    },
+    onSuccess: (collection) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      setLocation(`/collections/${collection.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Ошибка",
+        description: error.message.includes("not available")
+          ? "Некоторых полей с такими номерами нет в каталоге"
+          : "Не удалось создать подборку",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    const boardIds = parseBoardIds(boardIdsInput);
+    if (!name.trim()) {
+      toast({
+        title: "Ошибка",
+        description: "Укажите название подборки",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (
+      boardIds.length === 0 ||
+      boardIds.length > MAX_COLLECTION_BOARDS ||
+      boardIds.some((id) => !Number.isInteger(id) || id <= 0) ||
+      new Set(boardIds).size !== boardIds.length
+    ) {
+      toast({
+        title: "Ошибка",
+        description: `Укажите от 1 до ${MAX_COLLECTION_BOARDS} разных номеров полей через запятую`,
+        variant: "destructive",
+      });
+      return;
+    }
+    createMutation.mutate({ name: name.trim(), description: description.trim(), boardIds });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 p-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl md:text-4xl font-bold text-indigo-900 flex items-center gap-2">
+            <ListOrdered className="w-8 h-8" />
+            Подборки полей
+          </h1>
+          <div className="flex gap-2">
+            <Link href="/custom-boards">
+              <Button variant="outline" data-testid="button-custom-boards">
+                <Puzzle className="w-4 h-4 mr-2" />
+                Все поля
+              </Button>
+            </Link>
+            <Link href="/">
+              <Button variant="outline" data-testid="button-home">
+                <Home className="w-4 h-4 mr-2" />
+                На главную
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        <Card className="mb-6" data-testid="card-create-collection">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Plus className="w-5 h-5" />
+              Новая подборка
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!user ? (
+              <p className="text-gray-600 text-sm">Войдите в аккаунт, чтобы собирать свои подборки</p>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Название</label>
+                    <Input
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      maxLength={80}
+                      placeholder="Разминка перед турниром"
+                      data-testid="input-collection-name"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Номера полей через запятую, по порядку</label>
+                    <Input
+                      value={boardIdsInput}
+                      onChange={(e) => setBoardIdsInput(e.target.value)}
+                      placeholder="12, 7, 31"
+                      data-testid="input-collection-boards"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Описание</label>
+                  <Textarea
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    maxLength={500}
+                    placeholder="Чем интересна подборка"
+                    data-testid="input-collection-description"
+                  />
+                </div>
+                <Button onClick={handleCreate} disabled={createMutation.isPending} data-testid="button-create-collection">
+                  {createMutation.isPending ? "Создание..." : "Создать подборку"}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="text-gray-600">Загрузка...</div>
+          </div>
+        ) : collections.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <ListOrdered className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+              <h3 className="text-xl font-semibold text-gray-700 mb-2">Подборок пока нет</h3>
+              <p className="text-gray-500">Соберите первую подборку из полей каталога</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {collections.map((collection) => (
+              <Card key={collection.id} className="hover:shadow-lg transition-shadow" data-testid={`collection-card-${collection.id}`}>
+                <CardHeader>
+                  <CardTitle className="truncate">{collection.name}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {collection.description && (
+                    <p className="text-sm text-gray-700 line-clamp-3">{collection.description}</p>
+                  )}
+                  <div className="space-y-2 text-sm text-gray-600">
+                    <div className="flex items-center gap-2">
+                      <User className="w-4 h-4" />
+                      <span>
+                        Автор:{" "}
+                        <Link href={`/player/${encodeURIComponent(collection.creatorName)}`} className="hover:underline">
+                          {collection.creatorName}
+                        </Link>
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Puzzle className="w-4 h-4" />
+                      <span>Полей: {collection.boardIds.length}</span>
+                    </div>
+                  </div>
+                  <Link href={`/collections/${collection.id}`}>
+                    <Button className="w-full" data-testid={`button-open-collection-${collection.id}`}>
+                      Открыть
+                    </Button>
+                  </Link>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState, useCallback } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,6 +8,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { getEditToken, saveEditToken } from "@/lib/edit-tokens";
+import { downloadBoardFile, readBoardFile, takeImportedBoard } from "@/lib/board-files";
 import { 
   Pencil, 
   Save, 
@@ -15,25 +18,53 @@ import {
   Target, 
   CheckCircle,
   Play,
-  Home
+  Home,
+  Download,
+  Upload,
+  Link2
 } from "lucide-react";
-import { Link } from "wouter";
-import type { InsertCustomBoard } from "@shared/schema";
-
-type CellType = "number" | "operation";
-type Operation = "+" | "-" | "*" | "/" | "^";
-type Difficulty = "easy" | "medium" | "hard";
-type BoardSize = 5 | 10 | 15;
-
-interface Cell {
-  value: number | Operation | null;
-  type: CellType;
-  row: number;
-  col: number;
-}
+import { Link, useLocation, useParams } from "wouter";
+import {
+  MAX_BOARD_TAGS,
+  customBoardTagsSchema,
+  type CreatedCustomBoard,
+  type InsertCustomBoard,
+  type PublicCustomBoard,
+  type UpdateCustomBoard,
+} from "@shared/schema";
+import {
+  evaluatePath,
+  buildLinePath,
+  isOperation,
+  getOperationsForDifficulty,
+  type Cell,
+  type DraftCell,
+  type Difficulty,
+  type BoardSize,
+  type Operation,
+  type Position,
+} from "@shared/game-rules";
+import { TARGET_RANGE, getExpectedCellType, validateCustomBoard } from "@shared/board-validation";
+import type { ImportedBoard } from "@shared/board-file";
+import { BOARD_CODE_PARAM, encodeBoardCode } from "@shared/board-code";
+
+const operationLabels: Record<Operation, string> = {
+  "+": "+ (сложение)",
+  "-": "- (вычитание)",
+  "*": "* (умножение)",
+  "/": "/ (деление)",
+  "^": "^ (степень)",
+};
+
+// The server answers 400 for a board that breaks the rules and 422 for unreachable targets
+const getBoardErrorMessage = (error: Error) => {
+  if (error.message.startsWith("422")) return "Некоторые цели недостижимы";
+  if (error.message.startsWith("400")) return "Поле не прошло проверку";
+  return "Не удалось сохранить поле";
+};
 
 interface TestGameState {
-  selectedCells: { row: number; col: number }[];
+  selectedCells: Position[];
   foundTargets: Set<number>;
   currentExpression: string;
   currentResult: number | null;
@@ -42,12 +73,25 @@ interface TestGameState {
 
 export default function Constructor() {
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  // /constructor/:id edits an existing board instead of creating a new one
+  const params = useParams<{ id?: string }>();
+  const editingId = params.id ? parseInt(params.id) : null;
+
+  const { data: existingBoard } = useQuery<PublicCustomBoard>({
+    queryKey: [`/api/custom-boards/${editingId}`],
+    enabled: editingId !== null,
+  });
   
   const [boardName, setBoardName] = useState("");
   const [creatorName, setCreatorName] = useState("");
+  const [tagInput, setTagInput] = useState("");
+  const { user } = useAuth();
+  // Signed-in authors always publish under their username; an edited board keeps its author
+  const authorName = existingBoard ? existingBoard.creatorName : user ? user.username : creatorName;
   const [difficulty, setDifficulty] = useState<Difficulty>("easy");
   const [boardSize, setBoardSize] = useState<BoardSize>(5);
-  const [board, setBoard] = useState<Cell[][]>([]);
+  const [board, setBoard] = useState<DraftCell[][]>([]);
   const [targets, setTargets] = useState<number[]>([]);
   const [targetInput, setTargetInput] = useState("");
   const [isTestMode, setIsTestMode] = useState(false);
@@ -58,19 +102,21 @@ export default function Constructor() {
     currentResult: null,
     attemptCount: 0,
   });
-  const [editingCell, setEditingCell] = useState<{ row: number; col: number } | null>(null);
+  const [editingCell, setEditingCell] = useState<Position | null>(null);
   const [isSelecting, setIsSelecting] = useState(false);
-  const [selectionStart, setSelectionStart] = useState<{ row: number; col: number } | null>(null);
+  const [selectionStart, setSelectionStart] = useState<Position | null>(null);
   const [isBoardDirty, setIsBoardDirty] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const createEmptyBoard = useCallback((size: BoardSize): Cell[][] => {
-    const newBoard: Cell[][] = [];
+  const createEmptyBoard = useCallback((size: BoardSize): DraftCell[][] => {
+    const newBoard: DraftCell[][] = [];
     for (let row = 0; row < size; row++) {
       newBoard[row] = [];
       for (let col = 0; col < size; col++) {
+        // Numbers and operations alternate like on generated boards
         newBoard[row][col] = {
           value: null,
-          type: "number",
+          type: getExpectedCellType(row, col),
           row,
           col,
         };
@@ -93,6 +139,55 @@ export default function Constructor() {
     setIsBoardDirty(false);
   }, [boardSize, createEmptyBoard]);
 
+  // Copy the saved board so that editing cells does not change the cached query data
+  useEffect(() => {
+    if (!existingBoard) return;
+    setBoardName(existingBoard.name);
+    setDifficulty(existingBoard.difficulty as Difficulty);
+    setBoardSize(existingBoard.boardSize as BoardSize);
+    setBoard((existingBoard.boardData as DraftCell[][]).map(row => row.map(cell => ({ ...cell }))));
+    setTargets([...existingBoard.targets]);
+    setTagInput(existingBoard.tags.join(", "));
+    setIsBoardDirty(false);
+  }, [existingBoard]);
+
+  // An imported board replaces the draft and has to be solved again before saving
+  const loadImportedBoard = useCallback((imported: ImportedBoard) => {
+    setBoardName(imported.name);
+    if (imported.creatorName) setCreatorName(imported.creatorName);
+    setDifficulty(imported.difficulty);
+    setBoardSize(imported.boardSize);
+    setBoard(imported.boardData.map(row => row.map(cell => ({ ...cell }))));
+    setTargets([...imported.targets]);
+    setTagInput(imported.tags.join(", "));
+    setIsTestMode(false);
+    setTestState({
+      selectedCells: [],
+      foundTargets: new Set(),
+      currentExpression: "",
+      currentResult: null,
+      attemptCount: 0,
+    });
+    setIsBoardDirty(true);
+  }, []);
+
+  // A file imported from a board page arrives here through session storage
+  useEffect(() => {
+    if (editingId !== null) return;
+    const imported = takeImportedBoard();
+    if (imported) loadImportedBoard(imported);
+  }, [editingId, loadImportedBoard]);
+
+  // Tags are typed comma-separated; the server normalises them the same way
+  const parsedTags = customBoardTagsSchema.safeParse({
+    tags: tagInput.split(",").map(tag => tag.trim()).filter(tag => tag !== ""),
+  });
+
+  // Renaming a board or changing its difficulty label does not require solving it again
+  const isContentUnchanged = !!existingBoard &&
+    JSON.stringify(board) === JSON.stringify(existingBoard.boardData) &&
+    JSON.stringify(targets) === JSON.stringify(existingBoard.targets);
+
   const handleCellClick = (row: number, col: number) => {
     if (isTestMode) {
       handleTestCellClick(row, col);
@@ -114,8 +209,8 @@ export default function Constructor() {
         newBoard[row][col] = { ...cell, value: num };
       }
     } else {
-      if (["+", "-", "*", "/", "^"].includes(value)) {
-        newBoard[row][col] = { ...cell, value: value as Operation };
+      if (isOperation(value)) {
+        newBoard[row][col] = { ...cell, value };
       }
     }
     
@@ -136,83 +231,24 @@ export default function Constructor() {
     }
   };
 
-  const evaluateExpression = (expression: (number | Operation)[]): number | null => {
-    if (expression.length < 1) return null;
-    
-    try {
-      let result = expression[0] as number;
-      
-      for (let i = 1; i < expression.length; i += 2) {
-        if (i + 1 >= expression.length) break;
-        const operation = expression[i] as Operation;
-        const operand = expression[i + 1] as number;
-        
-        switch (operation) {
-          case "+":
-            result += operand;
-            break;
-          case "-":
-            result -= operand;
-            break;
-          case "*":
-            result *= operand;
-            break;
-          case "/":
-            if (operand === 0) return null;
-            result /= operand;
-            break;
-          case "^":
-            if (result < 0) return null;
-            result = Math.pow(result, operand);
-            break;
-        }
-      }
-      
-      return Math.round(result * 100) / 100;
-    } catch {
-      return null;
-    }
-  };
-
-  const updateSelection = (newPath: { row: number; col: number }[]) => {
-    const expression: (number | Operation)[] = [];
-    
-    for (const cell of newPath) {
-      const cellData = board[cell.row][cell.col];
-      if (cellData.value === null) {
-        setTestState(prev => ({
-          ...prev,
-          selectedCells: [],
-          currentExpression: "",
-          currentResult: null,
-        }));
-        return;
-      }
-      expression.push(cellData.value as number | Operation);
-    }
+  const updateSelection = (newPath: Position[]) => {
+    const evaluation = evaluatePath(board, newPath);
 
-    let concatenatedExpression = expression.slice();
-    for (let i = 0; i < concatenatedExpression.length - 1; i++) {
-      if (
-        typeof concatenatedExpression[i] === "number" &&
-        typeof concatenatedExpression[i + 1] === "number"
-      ) {
-        const concatenated = parseInt(
-          String(concatenatedExpression[i]) + String(concatenatedExpression[i + 1])
-        );
-        concatenatedExpression.splice(i, 2, concatenated);
-        i--;
-      }
+    if (!evaluation.ok) {
+      setTestState(prev => ({
+        ...prev,
+        selectedCells: [],
+        currentExpression: "",
+        currentResult: null,
+      }));
+      return;
     }
 
-    const result = evaluateExpression(concatenatedExpression);
-    const expressionString = concatenatedExpression.join(" ");
-
     setTestState(prev => ({
       ...prev,
       selectedCells: newPath,
-      currentExpression: expressionString,
-      currentResult: result,
+      currentExpression: evaluation.expression,
+      currentResult: evaluation.result.ok ? evaluation.result.value : null,
     }));
   };
 
@@ -230,31 +266,7 @@ export default function Constructor() {
   const handleCellSelectionMove = (row: number, col: number) => {
     if (!isSelecting || !selectionStart) return;
 
-    const newPath: { row: number; col: number }[] = [];
-    
-    if (selectionStart.row === row) {
-      if (selectionStart.col <= col) {
-        for (let c = selectionStart.col; c <= col; c++) {
-          newPath.push({ row, col: c });
-        }
-      } else {
-        for (let c = selectionStart.col; c >= col; c--) {
-          newPath.push({ row, col: c });
-        }
-      }
-    } else if (selectionStart.col === col) {
-      if (selectionStart.row <= row) {
-        for (let r = selectionStart.row; r <= row; r++) {
-          newPath.push({ row: r, col });
-        }
-      } else {
-        for (let r = selectionStart.row; r >= row; r--) {
-          newPath.push({ row: r, col });
-        }
-      }
-    } else {
-      newPath.push(selectionStart);
-    }
+    const newPath = buildLinePath(selectionStart, { row, col });
 
     updateSelection(newPath);
   };
@@ -327,32 +339,15 @@ export default function Constructor() {
         ...prev,
         selectedCells: [{ row, col }],
         currentExpression: String(clickedCell.value),
-        currentResult: clickedCell.value as number,
-      }));
-      return;
-    }
-
-    const lastCell = selectedCells[selectedCells.length - 1];
-    const isAdjacent = 
-      (Math.abs(lastCell.row - row) === 1 && lastCell.col === col) ||
-      (Math.abs(lastCell.col - col) === 1 && lastCell.row === row);
-
-    if (!isAdjacent) {
-      setTestState(prev => ({
-        ...prev,
-        selectedCells: [],
-        currentExpression: "",
         currentResult: null,
       }));
       return;
     }
 
-    const allInLine = selectedCells.every(cell => 
-      (cell.row === lastCell.row && cell.row === row) ||
-      (cell.col === lastCell.col && cell.col === col)
-    );
+    const newSelectedCells = [...selectedCells, { row, col }];
+    const evaluation = evaluatePath(board, newSelectedCells);
 
-    if (!allInLine) {
+    if (!evaluation.ok) {
       setTestState(prev => ({
         ...prev,
         selectedCells: [],
@@ -362,44 +357,12 @@ export default function Constructor() {
       return;
     }
 
-    const newSelectedCells = [...selectedCells, { row, col }];
-    const expression: (number | Operation)[] = [];
-    
-    for (const cell of newSelectedCells) {
-      const cellData = board[cell.row][cell.col];
-      if (cellData.value === null) {
-        setTestState(prev => ({
-          ...prev,
-          selectedCells: [],
-          currentExpression: "",
-          currentResult: null,
-        }));
-        return;
-      }
-      expression.push(cellData.value as number | Operation);
-    }
-
-    let concatenatedExpression = expression.slice();
-    for (let i = 0; i < concatenatedExpression.length - 1; i++) {
-      if (
-        typeof concatenatedExpression[i] === "number" &&
-        typeof concatenatedExpression[i + 1] === "number"
-      ) {
-        const concatenated = parseInt(
-          String(concatenatedExpression[i]) + String(concatenatedExpression[i + 1])
-        );
-        concatenatedExpression.splice(i, 2, concatenated);
-        i--;
-      }
-    }
-
-    const result = evaluateExpression(concatenatedExpression);
-    const expressionString = concatenatedExpression.join(" ");
+    const result = evaluation.result.ok ? evaluation.result.value : null;
 
     setTestState(prev => ({
       ...prev,
       selectedCells: newSelectedCells,
-      currentExpression: expressionString,
+      currentExpression: evaluation.expression,
       currentResult: result,
     }));
 
@@ -435,10 +398,7 @@ export default function Constructor() {
         if (cell.type === "number") {
           return { ...cell, value: Math.floor(Math.random() * 10) };
         } else {
-          const operations: Operation[] = ["+", "-", "*", "/"];
-          if (difficulty === "medium" || difficulty === "hard") {
-            operations.push("^");
-          }
+          const operations = getOperationsForDifficulty(difficulty);
           return { ...cell, value: operations[Math.floor(Math.random() * operations.length)] };
         }
       })
@@ -464,7 +424,7 @@ export default function Constructor() {
         const maxLength = Math.min(7, boardSize);
         const pathLength = Math.floor(Math.random() * (maxLength - minLength + 1)) + minLength;
         
-        let path: { row: number; col: number }[] = [];
+        let path: Position[] = [];
         
         if (isHorizontal) {
           const row = Math.floor(Math.random() * boardSize);
@@ -484,31 +444,17 @@ export default function Constructor() {
           }
         }
         
-        const expression: (number | Operation)[] = [];
-        for (const cell of path) {
-          const cellData = newBoard[cell.row][cell.col];
-          if (cellData.value !== null) {
-            expression.push(cellData.value as number | Operation);
-          }
-        }
-        
-        let concatenatedExpression = expression.slice();
-        for (let j = 0; j < concatenatedExpression.length - 1; j++) {
-          if (
-            typeof concatenatedExpression[j] === "number" &&
-            typeof concatenatedExpression[j + 1] === "number"
-          ) {
-            const concatenated = parseInt(
-              String(concatenatedExpression[j]) + String(concatenatedExpression[j + 1])
-            );
-            concatenatedExpression.splice(j, 2, concatenated);
-            j--;
-          }
-        }
-        
-        const result = evaluateExpression(concatenatedExpression);
-        if (result !== null && !generatedTargets.includes(result)) {
-          generatedTargets.push(result);
+        const evaluation = evaluatePath(newBoard, path);
+        // Fractional results from division cannot be saved as targets
+        if (
+          evaluation.ok &&
+          evaluation.result.ok &&
+          Number.isInteger(evaluation.result.value) &&
+          evaluation.result.value >= TARGET_RANGE.min &&
+          evaluation.result.value <= TARGET_RANGE.max &&
+          !generatedTargets.includes(evaluation.result.value)
+        ) {
+          generatedTargets.push(evaluation.result.value);
         }
       }
       
@@ -524,8 +470,16 @@ export default function Constructor() {
   };
 
   const handleAddTarget = () => {
-    const num = parseFloat(targetInput);
-    if (!isNaN(num) && !targets.includes(num)) {
+    const num = Number(targetInput);
+    if (targetInput.trim() !== "" && !Number.isInteger(num)) {
+      toast({
+        title: "Цель должна быть целым числом",
+        description: `Допустимы числа от ${TARGET_RANGE.min} до ${TARGET_RANGE.max}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (targetInput.trim() !== "" && !targets.includes(num)) {
       setTargets([...targets, num]);
       setTargetInput("");
       
@@ -589,7 +543,7 @@ export default function Constructor() {
       return false;
     }
 
-    if (!creatorName.trim()) {
+    if (!authorName.trim()) {
       toast({
         title: "Ошибка",
         description: "Укажите ваше имя",
@@ -598,6 +552,15 @@ export default function Constructor() {
       return false;
     }
 
+    if (!parsedTags.success) {
+      toast({
+        title: "Ошибка",
+        description: `Не больше ${MAX_BOARD_TAGS} тегов; тег — от 2 до 24 букв или цифр, слова через дефис`,
+        variant: "destructive",
+      });
+      return false;
+    }
+
     if (targets.length === 0) {
       toast({
         title: "Ошибка",
@@ -620,7 +583,20 @@ export default function Constructor() {
       }
     }
 
-    if (testState.foundTargets.size !== targets.length || isBoardDirty) {
+    // The same check runs on the server, which rejects a board that breaks the rules
+    const validation = validateCustomBoard({ boardData: board, boardSize, difficulty, targets });
+    if (!validation.ok) {
+      toast({
+        title: "Ошибка",
+        description: validation.reason === "unsolvable"
+          ? `Недостижимые цели: ${validation.unreachableTargets.join(", ")}`
+          : "Поле не соответствует правилам: числа от 0 до 99 и операции выбранной сложности должны чередоваться в шахматном порядке",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (!isContentUnchanged && (testState.foundTargets.size !== targets.length || isBoardDirty)) {
       toast({
         title: "Ошибка",
         description: "Вы должны решить головоломку перед сохранением",
@@ -633,9 +609,13 @@ export default function Constructor() {
   };
 
   const saveBoardMutation = useMutation({
-    mutationFn: (data: InsertCustomBoard) =>
-      apiRequest("POST", "/api/custom-boards", data),
-    onSuccess: () => {
+    mutationFn: async (data: InsertCustomBoard & { tags: string[] }) => {
+      const res = await apiRequest("POST", "/api/custom-boards", data);
+      return (await res.json()) as CreatedCustomBoard;
+    },
+    onSuccess: (created) => {
+      // The token is returned only once; without it an anonymous author cannot edit the board
+      saveEditToken(created.id, created.editToken);
       queryClient.invalidateQueries({ queryKey: ["/api/custom-boards"] });
       toast({
         title: "Сохранено!",
@@ -643,33 +623,149 @@ export default function Constructor() {
       });
       setBoardName("");
       setCreatorName("");
+      setTagInput("");
       setIsBoardDirty(false);
       initializeBoard();
     },
-    onError: () => {
+    onError: (error) => {
+      toast({
+        title: "Ошибка",
+        description: error.message.startsWith("403")
+          ? "Это имя принадлежит зарегистрированному игроку. Войдите или выберите другое имя"
+          : getBoardErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateBoardMutation = useMutation({
+    mutationFn: (data: UpdateCustomBoard & { tags: string[] }) =>
+      apiRequest("PATCH", `/api/custom-boards/${editingId}`, { ...data, editToken: getEditToken(editingId!) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-boards"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/custom-boards/${editingId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/custom-boards/${editingId}/leaderboard`] });
+      toast({
+        title: "Сохранено!",
+        description: "Создана новая версия поля",
+      });
+      setLocation(`/game/custom/${editingId}`);
+    },
+    onError: (error) => {
       toast({
         title: "Ошибка",
-        description: "Не удалось сохранить поле",
+        description: error.message.startsWith("403")
+          ? "Изменять поле может только его автор"
+          : getBoardErrorMessage(error),
         variant: "destructive",
       });
     },
   });
 
+  const isSaving = saveBoardMutation.isPending || updateBoardMutation.isPending;
+
   const handleSave = () => {
-    if (!validateBoard()) return;
+    if (!validateBoard() || !parsedTags.success) return;
+    const { tags } = parsedTags.data;
+
+    if (editingId !== null) {
+      updateBoardMutation.mutate(
+        isContentUnchanged
+          ? { name: boardName, difficulty, tags }
+          : { name: boardName, difficulty, boardSize, boardData: board, targets, tags },
+      );
+      return;
+    }
 
     saveBoardMutation.mutate({
       name: boardName,
-      creatorName,
+      creatorName: authorName,
       difficulty,
       boardSize,
       boardData: board,
       targets,
-      isSolved: true,
+      tags,
+    });
+  };
+
+  const handleExport = () => {
+    if (board.some(row => row.some(cell => cell.value === null))) {
+      toast({
+        title: "Ошибка",
+        description: "Заполните все ячейки поля перед экспортом",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    downloadBoardFile(
+      {
+        name: boardName.trim() || "Без названия",
+        creatorName: authorName.trim() || undefined,
+        difficulty,
+        boardSize,
+        boardData: board as Cell[][],
+        targets,
+        tags: parsedTags.success ? parsedTags.data.tags : [],
+      },
+      editingId !== null ? `board-${editingId}.json` : "board.json",
+    );
+  };
+
+  // The whole board travels in the link, so it can be shared without saving it
+  const handleCopyBoardLink = () => {
+    if (board.some(row => row.some(cell => cell.value === null))) {
+      toast({
+        title: "Ошибка",
+        description: "Заполните все ячейки поля",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const validation = validateCustomBoard({ boardData: board, boardSize, difficulty, targets });
+    if (!validation.ok) {
+      toast({
+        title: "Ошибка",
+        description: validation.reason === "unsolvable"
+          ? `Недостижимые цели: ${validation.unreachableTargets.join(", ")}`
+          : "Поле не соответствует правилам, по ссылке его нельзя будет сыграть",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const code = encodeBoardCode({ difficulty, boardSize, board: validation.board, targets });
+    const link = `${window.location.origin}/play#${BOARD_CODE_PARAM}=${code}`;
+    navigator.clipboard.writeText(link).then(() => {
+      toast({
+        title: "Ссылка скопирована",
+        description: "Поле откроется по ссылке без сохранения на сервере",
+      });
     });
   };
 
-  const getCellClasses = (cell: Cell, row: number, col: number) => {
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      loadImportedBoard(await readBoardFile(file));
+      toast({
+        title: "Поле загружено",
+        description: "Решите головоломку перед сохранением",
+      });
+    } catch (error) {
+      toast({
+        title: "Не удалось загрузить файл поля",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getCellClasses = (cell: DraftCell, row: number, col: number) => {
     const isSelected = testState.selectedCells.some(c => c.row === row && c.col === col);
     const baseClasses = "w-12 h-12 md:w-16 md:h-16 flex items-center justify-center font-bold text-lg rounded-lg transition-all cursor-pointer border-2 select-none";
     
@@ -705,14 +801,41 @@ export default function Constructor() {
         <div className="flex justify-between items-center mb-6">
           <h1 className="text-3xl md:text-4xl font-bold text-indigo-900 flex items-center gap-2">
             <Pencil className="w-8 h-8" />
-            Конструктор полей
+            {editingId !== null ? "Редактирование поля" : "Конструктор полей"}
           </h1>
-          <Link href="/">
-            <Button variant="outline" data-testid="button-home">
-              <Home className="w-4 h-4 mr-2" />
-              На главную
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isTestMode}
+              data-testid="button-import-board"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Импорт
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+              data-testid="input-import-board"
+            />
+            <Button variant="outline" onClick={handleExport} data-testid="button-export-board">
+              <Download className="w-4 h-4 mr-2" />
+              Экспорт
+            </Button>
+            <Button variant="outline" onClick={handleCopyBoardLink} disabled={isTestMode} data-testid="button-copy-board-link">
+              <Link2 className="w-4 h-4 mr-2" />
+              Ссылка
             </Button>
-          </Link>
+            <Link href="/">
+              <Button variant="outline" data-testid="button-home">
+                <Home className="w-4 h-4 mr-2" />
+                На главную
+              </Button>
+            </Link>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -822,13 +945,24 @@ export default function Constructor() {
                   />
                 </div>
 
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Теги через запятую</label>
+                  <Input
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    placeholder="beginner, division-heavy"
+                    disabled={isTestMode}
+                    data-testid="input-board-tags"
+                  />
+                </div>
+
                 <div>
                   <label className="text-sm font-medium mb-2 block">Ваше имя</label>
                   <Input
-                    value={creatorName}
+                    value={authorName}
                     onChange={(e) => setCreatorName(e.target.value)}
                     placeholder="Игрок"
-                    disabled={isTestMode}
+                    disabled={isTestMode || !!user || editingId !== null}
                     data-testid="input-creator-name"
                   />
                 </div>
@@ -885,6 +1019,9 @@ export default function Constructor() {
                 <div className="flex gap-2">
                   <Input
                     type="number"
+                    step={1}
+                    min={TARGET_RANGE.min}
+                    max={TARGET_RANGE.max}
                     value={targetInput}
                     onChange={(e) => setTargetInput(e.target.value)}
                     placeholder="Число"
@@ -932,12 +1069,12 @@ export default function Constructor() {
 
                 <Button
                   onClick={handleSave}
-                  disabled={isTestMode || saveBoardMutation.isPending}
+                  disabled={isTestMode || isSaving}
                   className="w-full"
                   data-testid="button-save-board"
                 >
                   <Save className="w-4 h-4 mr-2" />
-                  {saveBoardMutation.isPending ? "Сохранение..." : "Сохранить поле"}
+                  {isSaving ? "Сохранение..." : editingId !== null ? "Сохранить новую версию" : "Сохранить поле"}
                 </Button>
               </CardContent>
             </Card>
@@ -953,45 +1090,6 @@ export default function Constructor() {
             </DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
-            <div>
-              <label className="text-sm font-medium mb-2 block">Тип ячейки</label>
-              <Select 
-                value={editingCell ? board[editingCell.row]?.[editingCell.col]?.type : "number"}
-                onValueChange={(value: CellType) => {
-                  if (editingCell) {
-                    const newBoard = [...board];
-                    newBoard[editingCell.row][editingCell.col] = {
-                      ...newBoard[editingCell.row][editingCell.col],
-                      type: value,
-                      value: null,
-                    };
-                    setBoard(newBoard);
-                    
-                    if (testState.foundTargets.size > 0) {
-                      setIsBoardDirty(true);
-                      setTestState(prev => ({
-                        ...prev,
-                        foundTargets: new Set(),
-                      }));
-                      toast({
-                        title: "Поле изменено",
-                        description: "Решите головоломку заново перед сохранением",
-                        variant: "destructive",
-                      });
-                    }
-                  }
-                }}
-              >
-                <SelectTrigger data-testid="select-cell-type">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="number">Число</SelectItem>
-                  <SelectItem value="operation">Операция</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            
             {editingCell && board[editingCell.row]?.[editingCell.col]?.type === "number" ? (
               <div>
                 <label className="text-sm font-medium mb-2 block">Число (0-99)</label>
@@ -1017,11 +1115,9 @@ export default function Constructor() {
                     <SelectValue placeholder="Выберите операцию" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="+">+ (сложение)</SelectItem>
-                    <SelectItem value="-">- (вычитание)</SelectItem>
-                    <SelectItem value="*">* (умножение)</SelectItem>
-                    <SelectItem value="/">/ (деление)</SelectItem>
-                    <SelectItem value="^">^ (степень)</SelectItem>
+                    {getOperationsForDifficulty(difficulty).map(operation => (
+                      <SelectItem key={operation} value={operation}>{operationLabels[operation]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
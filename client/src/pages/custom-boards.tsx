@@ -1,37 +1,110 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { Puzzle, Home, User, Target, Calendar, TrendingUp, Search } from "lucide-react";
+import { Puzzle, Home, User, Target, Calendar, TrendingUp, Search, Gauge, Star, Tag, ListOrdered, Swords } from "lucide-react";
 import { Link, useLocation } from "wouter";
-import type { CustomBoard } from "@shared/schema";
+import type { CustomBoardPage, CustomBoardSort, PublicCustomBoard, TagCount } from "@shared/schema";
+import { getDifficultyForScore } from "@shared/difficulty";
+import { getAverageRating } from "@shared/board-rating";
+import { apiRequest } from "@/lib/queryClient";
 
 type Difficulty = "easy" | "medium" | "hard";
 type BoardSize = 5 | 10 | 15;
 
+const difficultyLabels: Record<string, string> = {
+  easy: "легко",
+  medium: "средне",
+  hard: "сложно",
+};
+
+// Поиск уходит на сервер, когда пользователь перестал печатать
+const SEARCH_DEBOUNCE_MS = 300;
+
 export default function CustomBoards() {
   const [, setLocation] = useLocation();
   const [filterDifficulty, setFilterDifficulty] = useState<string>("all");
   const [filterBoardSize, setFilterBoardSize] = useState<string>("all");
-  const [showTop100, setShowTop100] = useState(false);
-  const [searchName, setSearchName] = useState<string>("");
-  const [searchAuthor, setSearchAuthor] = useState<string>("");
+  const [minTargets, setMinTargets] = useState<string>("");
+  const [maxTargets, setMaxTargets] = useState<string>("");
+  const [minRating, setMinRating] = useState<string>("all");
+  const [minCompletions, setMinCompletions] = useState<string>("all");
+  const [sort, setSort] = useState<CustomBoardSort>("newest");
+  const [searchInput, setSearchInput] = useState<string>("");
+  const [search, setSearch] = useState<string>("");
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const { data: popularTags = [] } = useQuery<TagCount[]>({
+    queryKey: ["/api/custom-boards/tags"],
+  });
+  const shownTags = selectedTag && !popularTags.some(({ tag }) => tag === selectedTag)
+    ? [selectedTag, ...popularTags.map(({ tag }) => tag)]
+    : popularTags.map(({ tag }) => tag);
+
+  const filters = {
+    search: search || undefined,
+    tag: selectedTag ?? undefined,
+    difficulty: filterDifficulty !== "all" ? filterDifficulty : undefined,
+    boardSize: filterBoardSize !== "all" ? filterBoardSize : undefined,
+    minTargets: minTargets || undefined,
+    maxTargets: maxTargets || undefined,
+    minRating: minRating !== "all" ? minRating : undefined,
+    minCompletions: minCompletions !== "all" ? minCompletions : undefined,
+    sort,
+  };
+  const hasFilters = Object.entries(filters).some(([key, value]) => key !== "sort" && value !== undefined);
 
-  const { data: boards = [], isLoading } = useQuery<CustomBoard[]>({
-    queryKey: showTop100 
-      ? ["/api/custom-boards/top"]
-      : [
-          "/api/custom-boards",
-          {
-            difficulty: filterDifficulty !== "all" ? filterDifficulty : undefined,
-            boardSize: filterBoardSize !== "all" ? parseInt(filterBoardSize) : undefined,
-          },
-        ],
+  const {
+    data,
+    isLoading,
+    isError,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery<CustomBoardPage<PublicCustomBoard>>({
+    queryKey: ["/api/custom-boards", filters],
+    initialPageParam: null,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) {
+        if (value !== undefined) {
+          params.append(key, value);
+        }
+      }
+      if (typeof pageParam === "string") {
+        params.append("cursor", pageParam);
+      }
+      const res = await apiRequest("GET", `/api/custom-boards?${params.toString()}`);
+      return res.json();
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
 
+  const boards = data?.pages.flatMap((page) => page.boards) ?? [];
+
+  // Следующая страница подгружается, когда низ списка показался на экране
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "200px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
   const getDifficultyBadge = (difficulty: string) => {
     const variants: Record<string, string> = {
       easy: "bg-green-100 text-green-800",
@@ -63,12 +136,6 @@ export default function CustomBoards() {
     setLocation(`/game/custom/${boardId}`);
   };
 
-  const filteredBoards = boards.filter((board) => {
-    const nameMatch = !searchName.trim() || board.name.toLowerCase().includes(searchName.toLowerCase());
-    const authorMatch = !searchAuthor.trim() || board.creatorName.toLowerCase().includes(searchAuthor.toLowerCase());
-    return nameMatch && authorMatch;
-  });
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 p-4">
       <div className="max-w-6xl mx-auto">
@@ -77,12 +144,26 @@ export default function CustomBoards() {
             <Puzzle className="w-8 h-8" />
             Пользовательские поля
           </h1>
-          <Link href="/">
-            <Button variant="outline" data-testid="button-home">
-              <Home className="w-4 h-4 mr-2" />
-              На главную
-            </Button>
-          </Link>
+          <div className="flex gap-2">
+            <Link href="/collections">
+              <Button variant="outline" data-testid="button-collections">
+                <ListOrdered className="w-4 h-4 mr-2" />
+                Подборки
+              </Button>
+            </Link>
+            <Link href="/tournaments">
+              <Button variant="outline" data-testid="button-tournaments">
+                <Swords className="w-4 h-4 mr-2" />
+                Турниры
+              </Button>
+            </Link>
+            <Link href="/">
+              <Button variant="outline" data-testid="button-home">
+                <Home className="w-4 h-4 mr-2" />
+                На главную
+              </Button>
+            </Link>
+          </div>
         </div>
 
         <Card className="mb-6" data-testid="card-filters">
@@ -91,85 +172,143 @@ export default function CustomBoards() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-2 block flex items-center gap-2">
+                  <Search className="w-4 h-4" />
+                  Поиск по названию или автору
+                </label>
+                <Input
+                  type="text"
+                  placeholder="Название поля или имя автора..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  maxLength={100}
+                  data-testid="input-search"
+                  className="w-full"
+                />
+              </div>
+
+              {shownTags.length > 0 && (
                 <div>
                   <label className="text-sm font-medium mb-2 block flex items-center gap-2">
-                    <Search className="w-4 h-4" />
-                    Поиск по названию
+                    <Tag className="w-4 h-4" />
+                    Теги
                   </label>
-                  <Input
-                    type="text"
-                    placeholder="Название поля..."
-                    value={searchName}
-                    onChange={(e) => setSearchName(e.target.value)}
-                    data-testid="input-search-name"
-                    className="w-full"
-                  />
+                  <div className="flex flex-wrap gap-2">
+                    {shownTags.map((tag) => (
+                      <Badge
+                        key={tag}
+                        variant={tag === selectedTag ? "default" : "outline"}
+                        className="cursor-pointer"
+                        onClick={() => setSelectedTag(tag === selectedTag ? null : tag)}
+                        data-testid={`filter-tag-${tag}`}
+                      >
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
                 </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div>
-                  <label className="text-sm font-medium mb-2 block flex items-center gap-2">
-                    <User className="w-4 h-4" />
-                    Поиск по автору
-                  </label>
-                  <Input
-                    type="text"
-                    placeholder="Имя автора..."
-                    value={searchAuthor}
-                    onChange={(e) => setSearchAuthor(e.target.value)}
-                    data-testid="input-search-author"
-                    className="w-full"
-                  />
+                  <label className="text-sm font-medium mb-2 block">Сложность</label>
+                  <Select value={filterDifficulty} onValueChange={setFilterDifficulty}>
+                    <SelectTrigger data-testid="select-filter-difficulty">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Все</SelectItem>
+                      <SelectItem value="easy">Легко</SelectItem>
+                      <SelectItem value="medium">Средне</SelectItem>
+                      <SelectItem value="hard">Сложно</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
-              </div>
 
-              <div className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  id="top100"
-                  checked={showTop100}
-                  onChange={(e) => setShowTop100(e.target.checked)}
-                  className="rounded border-gray-300"
-                  data-testid="checkbox-top100"
-                />
-                <label htmlFor="top100" className="text-sm font-medium flex items-center gap-2">
-                  <TrendingUp className="w-4 h-4" />
-                  Показать только топ-100 популярных
-                </label>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Размер поля</label>
+                  <Select value={filterBoardSize} onValueChange={setFilterBoardSize}>
+                    <SelectTrigger data-testid="select-filter-board-size">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Все</SelectItem>
+                      <SelectItem value="5">5×5</SelectItem>
+                      <SelectItem value="10">10×10</SelectItem>
+                      <SelectItem value="15">15×15</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Сортировка</label>
+                  <Select value={sort} onValueChange={(value: CustomBoardSort) => setSort(value)}>
+                    <SelectTrigger data-testid="select-sort">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="newest">Сначала новые</SelectItem>
+                      <SelectItem value="rating">По рейтингу</SelectItem>
+                      <SelectItem value="popular">Популярные</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
-              
-              {!showTop100 && (
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label className="text-sm font-medium mb-2 block">Сложность</label>
-                    <Select value={filterDifficulty} onValueChange={setFilterDifficulty}>
-                      <SelectTrigger data-testid="select-filter-difficulty">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="all">Все</SelectItem>
-                        <SelectItem value="easy">Легко</SelectItem>
-                        <SelectItem value="medium">Средне</SelectItem>
-                        <SelectItem value="hard">Сложно</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
 
-                  <div>
-                    <label className="text-sm font-medium mb-2 block">Размер поля</label>
-                    <Select value={filterBoardSize} onValueChange={setFilterBoardSize}>
-                      <SelectTrigger data-testid="select-filter-board-size">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="all">Все</SelectItem>
-                        <SelectItem value="5">5×5</SelectItem>
-                        <SelectItem value="10">10×10</SelectItem>
-                        <SelectItem value="15">15×15</SelectItem>
-                      </SelectContent>
-                    </Select>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Количество целей</label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="от"
+                      value={minTargets}
+                      onChange={(e) => setMinTargets(e.target.value)}
+                      data-testid="input-min-targets"
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="до"
+                      value={maxTargets}
+                      onChange={(e) => setMaxTargets(e.target.value)}
+                      data-testid="input-max-targets"
+                    />
                   </div>
                 </div>
-              )}
+
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Рейтинг</label>
+                  <Select value={minRating} onValueChange={setMinRating}>
+                    <SelectTrigger data-testid="select-min-rating">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Любой</SelectItem>
+                      <SelectItem value="3">От 3</SelectItem>
+                      <SelectItem value="4">От 4</SelectItem>
+                      <SelectItem value="4.5">От 4.5</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Решений</label>
+                  <Select value={minCompletions} onValueChange={setMinCompletions}>
+                    <SelectTrigger data-testid="select-min-completions">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Любое количество</SelectItem>
+                      <SelectItem value="1">От 1</SelectItem>
+                      <SelectItem value="10">От 10</SelectItem>
+                      <SelectItem value="100">От 100</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -178,20 +317,26 @@ export default function CustomBoards() {
           <div className="text-center py-12">
             <div className="text-gray-600">Загрузка...</div>
           </div>
-        ) : filteredBoards.length === 0 ? (
+        ) : isError ? (
+          <Card>
+            <CardContent className="py-12 text-center text-gray-600">
+              Не удалось загрузить поля. Проверьте параметры фильтров
+            </CardContent>
+          </Card>
+        ) : boards.length === 0 ? (
           <Card>
             <CardContent className="py-12 text-center">
               <Puzzle className="w-16 h-16 mx-auto text-gray-400 mb-4" />
               <h3 className="text-xl font-semibold text-gray-700 mb-2">
-                {(searchName || searchAuthor) ? "Ничего не найдено" : "Нет доступных полей"}
+                {hasFilters ? "Ничего не найдено" : "Нет доступных полей"}
               </h3>
               <p className="text-gray-500 mb-4">
-                {(searchName || searchAuthor)
+                {hasFilters
                   ? "Попробуйте изменить параметры поиска"
                   : "Создайте своё первое поле в конструкторе!"
                 }
               </p>
-              {!searchName && !searchAuthor && (
+              {!hasFilters && (
                 <Link href="/constructor">
                   <Button data-testid="button-create-board">
                     Создать поле
@@ -201,56 +346,98 @@ export default function CustomBoards() {
             </CardContent>
           </Card>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {filteredBoards.map((board) => (
-              <Card
-                key={board.id}
-                className="hover:shadow-lg transition-shadow"
-                data-testid={`board-card-${board.id}`}
-              >
-                <CardHeader>
-                  <CardTitle className="flex items-center justify-between">
-                    <span className="truncate">{board.name}</span>
-                    {getDifficultyBadge(board.difficulty)}
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="space-y-2 text-sm">
-                    <div className="flex items-center gap-2 text-gray-600">
-                      <User className="w-4 h-4" />
-                      <span>Автор: {board.creatorName}</span>
-                    </div>
-                    <div className="flex items-center gap-2 text-gray-600">
-                      <Target className="w-4 h-4" />
-                      <span>
-                        Размер: {board.boardSize}×{board.boardSize}
-                      </span>
-                    </div>
-                    <div className="flex items-center gap-2 text-gray-600">
-                      <Target className="w-4 h-4" />
-                      <span>Целей: {board.targets.length}</span>
-                    </div>
-                    <div className="flex items-center gap-2 text-gray-600">
-                      <TrendingUp className="w-4 h-4" />
-                      <span>Решений: {board.completionCount}</span>
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {boards.map((board) => (
+                <Card
+                  key={board.id}
+                  className="hover:shadow-lg transition-shadow"
+                  data-testid={`board-card-${board.id}`}
+                >
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                      <span className="truncate">{board.name}</span>
+                      {getDifficultyBadge(board.difficulty)}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2 text-sm">
+                      <div className="flex items-center gap-2 text-gray-600">
+                        <User className="w-4 h-4" />
+                        <span>
+                          Автор:{" "}
+                          <Link href={`/player/${encodeURIComponent(board.creatorName)}`} className="hover:underline">
+                            {board.creatorName}
+                          </Link>
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2 text-gray-600">
+                        <Target className="w-4 h-4" />
+                        <span>
+                          Размер: {board.boardSize}×{board.boardSize}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2 text-gray-600">
+                        <Target className="w-4 h-4" />
+                        <span>Целей: {board.targets.length}</span>
+                      </div>
+                      <div className="flex items-center gap-2 text-gray-600">
+                        <TrendingUp className="w-4 h-4" />
+                        <span>Решений: {board.completionCount}</span>
+                      </div>
+                      <div className="flex items-center gap-2 text-gray-600" data-testid={`text-rating-${board.id}`}>
+                        <Star className="w-4 h-4" />
+                        <span>
+                          {board.ratingCount > 0
+                            ? `Рейтинг: ${getAverageRating(board.ratingSum, board.ratingCount)} (оценок: ${board.ratingCount})`
+                            : "Ещё не оценено"}
+                        </span>
+                      </div>
+                      {board.difficultyScore !== null && (
+                        <div className="flex items-center gap-2 text-gray-600" data-testid={`text-difficulty-score-${board.id}`}>
+                          <Gauge className="w-4 h-4" />
+                          <span>
+                            Оценка сложности: {board.difficultyScore}/100
+                            {" "}({difficultyLabels[getDifficultyForScore(board.difficultyScore)]})
+                          </span>
+                        </div>
+                      )}
+                      <div className="flex items-center gap-2 text-gray-600">
+                        <Calendar className="w-4 h-4" />
+                        <span>{formatDate(board.createdAt.toString())}</span>
+                      </div>
                     </div>
-                    <div className="flex items-center gap-2 text-gray-600">
-                      <Calendar className="w-4 h-4" />
-                      <span>{formatDate(board.createdAt.toString())}</span>
-                    </div>
-                  </div>
 
-                  <Button
-                    onClick={() => handlePlayBoard(board.id)}
-                    className="w-full"
-                    data-testid={`button-play-${board.id}`}
-                  >
-                    Играть
-                  </Button>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+                    {board.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1" data-testid={`tags-${board.id}`}>
+                        {board.tags.map((tag) => (
+                          <Badge
+                            key={tag}
+                            variant="secondary"
+                            className="cursor-pointer"
+                            onClick={() => setSelectedTag(tag)}
+                          >
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+  
+                    <Button
+                      onClick={() => handlePlayBoard(board.id)}
+                      className="w-full"
+                      data-testid={`button-play-${board.id}`}
+                    >
+                      Играть
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            <div ref={loadMoreRef} className="text-center py-6 text-gray-600" data-testid="load-more">
+              {isFetchingNextPage && "Загрузка..."}
+            </div>
+          </>
         )}
       </div>
     </div>
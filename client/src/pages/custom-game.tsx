@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { useParams, Link } from "wouter";
+import { useParams, useLocation, Link } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,8 +8,25 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { finishServerGame, requireGameToken, startServerGame, type GameToken } from "@/lib/game-tokens";
+import { useAuth } from "@/hooks/use-auth";
+import { LeaderboardPagination } from "@/components/LeaderboardPagination";
+import { BoardFeedback } from "@/components/BoardFeedback";
+import { getEditToken, removeEditToken } from "@/lib/edit-tokens";
+import { readBoardFile, stashImportedBoard } from "@/lib/board-files";
 import { 
   Calculator, 
   Trophy, 
@@ -18,40 +35,54 @@ import {
   CheckCircle, 
   Circle,
   Home,
-  ArrowLeft
+  ArrowLeft,
+  Pencil,
+  Trash2,
+  Download,
+  Upload,
+  Film
 } from "lucide-react";
-import type { CustomBoard, CustomBoardLeaderboard, InsertCustomBoardLeaderboard } from "@shared/schema";
-
-type CellType = "number" | "operation";
-type Operation = "+" | "-" | "*" | "/" | "^";
-
-interface Cell {
-  value: number | Operation;
-  type: CellType;
-  row: number;
-  col: number;
-}
+import {
+  type PublicCustomBoard,
+  type PublicCustomBoardLeaderboard,
+  type InsertCustomBoardLeaderboard,
+  type LeaderboardPage,
+  type LeaderboardPlacement,
+  type Move,
+  type ReplayEvent,
+} from "@shared/schema";
+import { evaluatePath, type Cell, type Position } from "@shared/game-rules";
+import { fitTimeline } from "@shared/replay";
 
 interface GameState {
-  selectedCells: { row: number; col: number }[];
+  selectedCells: Position[];
   foundTargets: Set<number>;
   gameTime: number;
   isPlaying: boolean;
   attemptCount: number;
+  moveLog: Move[];
+  timeline: ReplayEvent[];
   currentExpression: string;
   currentResult: number | null;
 }
 
+// Adds an event to the replay recording while the game is on
+const recordEvent = (state: GameState, event: ReplayEvent): ReplayEvent[] =>
+  state.isPlaying ? [...state.timeline, event] : state.timeline;
+
 export default function CustomGame() {
   const { toast } = useToast();
   const params = useParams<{ id: string }>();
   const boardId = parseInt(params.id || "0");
 
-  const { data: customBoard, isLoading } = useQuery<CustomBoard>({
+  const [, setLocation] = useLocation();
+
+  const { data: customBoard, isLoading } = useQuery<PublicCustomBoard>({
     queryKey: [`/api/custom-boards/${boardId}`],
   });
 
   const [board, setBoard] = useState<Cell[][]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [targets, setTargets] = useState<number[]>([]);
   const [gameState, setGameState] = useState<GameState>({
     selectedCells: [],
@@ -59,6 +90,8 @@ export default function CustomGame() {
     gameTime: 0,
     isPlaying: false,
     attemptCount: 0,
+    moveLog: [],
+    timeline: [],
     currentExpression: "",
     currentResult: null,
   });
@@ -66,31 +99,81 @@ export default function CustomGame() {
   const [showVictoryModal, setShowVictoryModal] = useState(false);
   const [showLeaderboard, setShowLeaderboard] = useState(false);
   const [playerNickname, setPlayerNickname] = useState("");
+  const { user } = useAuth();
+  // Signed-in players always play under their username
+  const nickname = user ? user.username : playerNickname;
   const isDraggingRef = useRef(false);
-  const selectionStartRef = useRef<{ row: number; col: number } | null>(null);
+  const selectionStartRef = useRef<Position | null>(null);
   const lastFoundTargetRef = useRef<number | null>(null);
+  const startedAtRef = useRef(Date.now());
+  const gameTokenRef = useRef<GameToken>(Promise.resolve(null));
+
+  const [leaderboardPage, setLeaderboardPage] = useState(1);
+  const [placement, setPlacement] = useState<LeaderboardPlacement<PublicCustomBoardLeaderboard> | null>(null);
 
-  const { data: leaderboard = [] } = useQuery<CustomBoardLeaderboard[]>({
-    queryKey: [`/api/custom-boards/${boardId}/leaderboard`],
+  const { data: leaderboard } = useQuery<LeaderboardPage<PublicCustomBoardLeaderboard>>({
+    queryKey: [`/api/custom-boards/${boardId}/leaderboard`, { page: leaderboardPage }],
     enabled: !!boardId,
   });
+  const leaderboardEntries = leaderboard?.entries ?? [];
 
-  const submitScoreMutation = useMutation({
-    mutationFn: (data: InsertCustomBoardLeaderboard) =>
-      apiRequest("POST", `/api/custom-boards/${boardId}/leaderboard`, data),
+  // The author edits from their account or from the browser the board was created in
+  const canEdit = !!customBoard &&
+    ((user !== null && customBoard.userId === user.id) || getEditToken(customBoard.id) !== undefined);
+
+  const deleteBoardMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("DELETE", `/api/custom-boards/${boardId}`, { editToken: getEditToken(boardId) }),
     onSuccess: () => {
+      removeEditToken(boardId);
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-boards"] });
+      toast({
+        title: "Поле удалено",
+        description: "Результаты игроков сохранятся в их профилях",
+      });
+      setLocation("/custom-boards");
+    },
+    onError: (error) => {
+      toast({
+        title: "Ошибка",
+        description: error.message.startsWith("403")
+          ? "Удалить поле может только его автор"
+          : "Не удалось удалить поле",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const submitScoreMutation = useMutation({
+    mutationFn: async (data: InsertCustomBoardLeaderboard) =>
+      apiRequest("POST", `/api/custom-boards/${boardId}/leaderboard`, {
+        ...data,
+        gameToken: await requireGameToken(gameTokenRef.current),
+      }),
+    onSuccess: async (res) => {
       queryClient.invalidateQueries({ queryKey: [`/api/custom-boards/${boardId}/leaderboard`] });
-      setShowVictoryModal(false);
-      setShowLeaderboard(true);
+
+      // Show where the result placed; flagged results are not ranked
+      const entry: PublicCustomBoardLeaderboard = await res.json();
+      try {
+        const rankRes = await apiRequest("GET", `/api/custom-boards/${boardId}/leaderboard/${entry.id}/rank`);
+        setPlacement(await rankRes.json());
+      } catch {
+        setShowVictoryModal(false);
+        setShowLeaderboard(true);
+      }
+
       toast({
         title: "Результат сохранён!",
         description: "Ваш результат добавлен в лидерборд.",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Ошибка",
-        description: "Не удалось сохранить результат.",
+        description: error.message.startsWith("403")
+          ? "Это имя принадлежит зарегистрированному игроку. Войдите или выберите другое имя"
+          : "Не удалось сохранить результат.",
         variant: "destructive",
       });
     },
@@ -101,12 +184,16 @@ export default function CustomGame() {
       const boardData = customBoard.boardData as unknown as Cell[][];
       setBoard(boardData);
       setTargets(customBoard.targets);
+      startedAtRef.current = Date.now();
+      gameTokenRef.current = startServerGame({ customBoardId: customBoard.id });
       setGameState(prev => ({
         ...prev,
         isPlaying: true,
         gameTime: 0,
         foundTargets: new Set(),
         attemptCount: 0,
+        moveLog: [],
+        timeline: [],
       }));
     }
   }, [customBoard]);
@@ -126,6 +213,7 @@ export default function CustomGame() {
 
   useEffect(() => {
     if (gameState.foundTargets.size === targets.length && targets.length > 0 && gameState.isPlaying) {
+      gameTokenRef.current = finishServerGame(gameTokenRef.current);
       setGameState(prev => ({ ...prev, isPlaying: false }));
       setShowVictoryModal(true);
     }
@@ -145,44 +233,6 @@ export default function CustomGame() {
     }
   }, [gameState.foundTargets, toast]);
 
-  const evaluateExpression = (expression: (number | Operation)[]): number | null => {
-    if (expression.length < 1) return null;
-
-    try {
-      let result = expression[0] as number;
-
-      for (let i = 1; i < expression.length; i += 2) {
-        if (i + 1 >= expression.length) break;
-        const operation = expression[i] as Operation;
-        const operand = expression[i + 1] as number;
-
-        switch (operation) {
-          case "+":
-            result += operand;
-            break;
-          case "-":
-            result -= operand;
-            break;
-          case "*":
-            result *= operand;
-            break;
-          case "/":
-            if (operand === 0) return null;
-            result /= operand;
-            break;
-          case "^":
-            if (result < 0) return null;
-            result = Math.pow(result, operand);
-            break;
-        }
-      }
-
-      return Math.round(result * 100) / 100;
-    } catch {
-      return null;
-    }
-  };
-
   const handleCellSelectionStart = (row: number, col: number) => {
     const clickedCell = board[row][col];
     if (clickedCell.type !== "number" || !gameState.isPlaying) return;
@@ -195,7 +245,8 @@ export default function CustomGame() {
       ...prev,
       selectedCells: [{ row, col }],
       currentExpression: String(clickedCell.value),
-      currentResult: clickedCell.value as number,
+      currentResult: null,
+      timeline: recordEvent(prev, { type: "start", at: Date.now() - startedAtRef.current, cell: { row, col } }),
     }));
   };
 
@@ -212,55 +263,21 @@ export default function CustomGame() {
         return prev;
       }
 
-      const lastCell = selectedCells[selectedCells.length - 1];
-      const isAdjacent =
-        (Math.abs(lastCell.row - row) === 1 && lastCell.col === col) ||
-        (Math.abs(lastCell.col - col) === 1 && lastCell.row === row);
-
-      if (!isAdjacent) {
-        return prev;
-      }
-
-      const allInLine = selectedCells.every(cell =>
-        (cell.row === lastCell.row && cell.row === row) ||
-        (cell.col === lastCell.col && cell.col === col)
-      );
-
-      if (!allInLine) {
-        return prev;
-      }
-
       const newSelectedCells = [...selectedCells, { row, col }];
-      const expression: (number | Operation)[] = [];
-
-      for (const cell of newSelectedCells) {
-        const cellData = board[cell.row][cell.col];
-        expression.push(cellData.value as number | Operation);
-      }
+      const evaluation = evaluatePath(board, newSelectedCells);
 
-      let concatenatedExpression = expression.slice();
-      for (let i = 0; i < concatenatedExpression.length - 1; i++) {
-        if (
-          typeof concatenatedExpression[i] === "number" &&
-          typeof concatenatedExpression[i + 1] === "number"
-        ) {
-          const concatenated = parseInt(
-            String(concatenatedExpression[i]) + String(concatenatedExpression[i + 1])
-          );
-          concatenatedExpression.splice(i, 2, concatenated);
-          i--;
-        }
+      if (!evaluation.ok) {
+        return prev;
       }
 
-      const result = evaluateExpression(concatenatedExpression);
-      const expressionString = concatenatedExpression.join(" ");
-
       return {
         ...prev,
         selectedCells: newSelectedCells,
-        currentExpression: expressionString,
-        currentResult: result,
+        currentExpression: evaluation.expression,
+        currentResult: evaluation.result.ok ? evaluation.result.value : null,
         attemptCount: prev.attemptCount + 1,
+        moveLog: [...prev.moveLog, { path: newSelectedCells, at: Date.now() - startedAtRef.current }],
+        timeline: recordEvent(prev, { type: "move", at: Date.now() - startedAtRef.current, path: newSelectedCells }),
       };
     });
     
@@ -270,6 +287,7 @@ export default function CustomGame() {
         return {
           ...prev,
           foundTargets: new Set([...Array.from(prev.foundTargets), result]),
+          timeline: recordEvent(prev, { type: "found", at: Date.now() - startedAtRef.current, target: result }),
         };
       }
       return prev;
@@ -305,32 +323,15 @@ export default function CustomGame() {
         ...prev,
         selectedCells: [{ row, col }],
         currentExpression: String(clickedCell.value),
-        currentResult: clickedCell.value as number,
-      }));
-      return;
-    }
-
-    const lastCell = selectedCells[selectedCells.length - 1];
-    const isAdjacent =
-      (Math.abs(lastCell.row - row) === 1 && lastCell.col === col) ||
-      (Math.abs(lastCell.col - col) === 1 && lastCell.row === row);
-
-    if (!isAdjacent) {
-      setGameState(prev => ({
-        ...prev,
-        selectedCells: [],
-        currentExpression: "",
         currentResult: null,
       }));
       return;
     }
 
-    const allInLine = selectedCells.every(cell =>
-      (cell.row === lastCell.row && cell.row === row) ||
-      (cell.col === lastCell.col && cell.col === col)
-    );
+    const newSelectedCells = [...selectedCells, { row, col }];
+    const evaluation = evaluatePath(board, newSelectedCells);
 
-    if (!allInLine) {
+    if (!evaluation.ok) {
       setGameState(prev => ({
         ...prev,
         selectedCells: [],
@@ -340,37 +341,15 @@ export default function CustomGame() {
       return;
     }
 
-    const newSelectedCells = [...selectedCells, { row, col }];
-    const expression: (number | Operation)[] = [];
-
-    for (const cell of newSelectedCells) {
-      const cellData = board[cell.row][cell.col];
-      expression.push(cellData.value as number | Operation);
-    }
-
-    let concatenatedExpression = expression.slice();
-    for (let i = 0; i < concatenatedExpression.length - 1; i++) {
-      if (
-        typeof concatenatedExpression[i] === "number" &&
-        typeof concatenatedExpression[i + 1] === "number"
-      ) {
-        const concatenated = parseInt(
-          String(concatenatedExpression[i]) + String(concatenatedExpression[i + 1])
-        );
-        concatenatedExpression.splice(i, 2, concatenated);
-        i--;
-      }
-    }
-
-    const result = evaluateExpression(concatenatedExpression);
-    const expressionString = concatenatedExpression.join(" ");
+    const result = evaluation.result.ok ? evaluation.result.value : null;
 
     setGameState(prev => ({
       ...prev,
       selectedCells: newSelectedCells,
-      currentExpression: expressionString,
+      currentExpression: evaluation.expression,
       currentResult: result,
       attemptCount: prev.attemptCount + 1,
+      moveLog: [...prev.moveLog, { path: newSelectedCells, at: Date.now() - startedAtRef.current }],
     }));
 
     if (result !== null && targets.includes(result) && !gameState.foundTargets.has(result)) {
@@ -383,26 +362,34 @@ export default function CustomGame() {
 
   const handleRestart = () => {
     lastFoundTargetRef.current = null;
+    startedAtRef.current = Date.now();
+    gameTokenRef.current = startServerGame({ customBoardId: boardId });
     setGameState({
       selectedCells: [],
       foundTargets: new Set(),
       gameTime: 0,
       isPlaying: true,
       attemptCount: 0,
+      moveLog: [],
+      timeline: [],
       currentExpression: "",
       currentResult: null,
     });
     setShowVictoryModal(false);
+    setPlacement(null);
   };
 
   const handleSaveScore = () => {
-    if (!playerNickname.trim() || !customBoard) return;
+    if (!nickname.trim() || !customBoard) return;
 
     submitScoreMutation.mutate({
       customBoardId: customBoard.id,
-      nickname: playerNickname,
+      nickname: nickname.trim(),
       time: gameState.gameTime,
       attempts: gameState.attemptCount,
+      moveLog: gameState.moveLog,
+      // Too long a recording is left out; the replay is then rebuilt from the move log
+      timeline: fitTimeline(gameState.timeline),
     });
   };
 
@@ -445,6 +432,24 @@ export default function CustomGame() {
     }`;
   };
 
+  // An imported file opens in the constructor, where it can be checked and published
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      stashImportedBoard(await readBoardFile(file));
+      setLocation("/constructor");
+    } catch (error) {
+      toast({
+        title: "Не удалось загрузить файл поля",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 flex items-center justify-center">
@@ -480,9 +485,65 @@ export default function CustomGame() {
             </h1>
             <p className="text-gray-600 mt-1">
               Автор: {customBoard.creatorName} • Размер: {customBoard.boardSize}×{customBoard.boardSize}
+              {customBoard.version > 1 && <> • Версия {customBoard.version}</>}
             </p>
           </div>
           <div className="flex gap-2">
+            {canEdit && (
+              <>
+                <Link href={`/constructor/${customBoard.id}`}>
+                  <Button variant="outline" data-testid="button-edit-board">
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Изменить
+                  </Button>
+                </Link>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" data-testid="button-delete-board">
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Удалить
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Удалить поле?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Поле исчезнет из списка, и сыграть на нём больше не получится.
+                        Результаты игроков останутся в их профилях.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Отмена</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => deleteBoardMutation.mutate()}
+                        disabled={deleteBoardMutation.isPending}
+                        data-testid="button-confirm-delete-board"
+                      >
+                        Удалить
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </>
+            )}
+            <Button variant="outline" asChild data-testid="button-export-board">
+              <a href={`/api/custom-boards/${customBoard.id}/export`} download>
+                <Download className="w-4 h-4 mr-2" />
+                Экспорт
+              </a>
+            </Button>
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} data-testid="button-import-board">
+              <Upload className="w-4 h-4 mr-2" />
+              Импорт
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+              data-testid="input-import-board"
+            />
             <Link href="/custom-boards">
               <Button variant="outline" data-testid="button-back">
                 <ArrowLeft className="w-4 h-4 mr-2" />
@@ -538,6 +599,10 @@ export default function CustomGame() {
                 )}
               </CardContent>
             </Card>
+
+            <div className="mt-6">
+              <BoardFeedback board={customBoard} nickname={nickname} onNicknameChange={setPlayerNickname} />
+            </div>
           </div>
 
           <div className="space-y-6">
@@ -635,26 +700,60 @@ export default function CustomGame() {
               </div>
             </div>
 
+            {placement ? (
+              <div className="space-y-2">
+                <div className="text-center text-lg font-semibold text-indigo-900" data-testid="text-placement">
+                  Вы заняли #{placement.rank} из {placement.total}
+                </div>
+                {placement.neighbours.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className={`flex items-center justify-between px-3 py-2 rounded-lg text-sm ${
+                      entry.rank === placement.rank ? "bg-indigo-50 border border-indigo-200 font-semibold" : "bg-gray-50"
+                    }`}
+                  >
+                    <span className="truncate">#{entry.rank} {entry.nickname}</span>
+                    <span className="font-mono flex-shrink-0">{formatTime(entry.time)}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
             <div>
               <label className="text-sm font-medium mb-2 block">Ваш никнейм</label>
               <Input
-                value={playerNickname}
+                value={nickname}
                 onChange={(e) => setPlayerNickname(e.target.value)}
                 placeholder="Введите никнейм"
+                disabled={!!user}
                 data-testid="input-nickname"
               />
             </div>
+            )}
 
             <div className="flex gap-2">
+              {placement ? (
+                <Button
+                  onClick={() => {
+                    setShowVictoryModal(false);
+                    setShowLeaderboard(true);
+                  }}
+                  className="flex-1"
+                  data-testid="button-show-leaderboard"
+                >
+                  <Trophy className="w-4 h-4 mr-2" />
+                  Лидерборд
+                </Button>
+              ) : (
               <Button
                 onClick={handleSaveScore}
-                disabled={!playerNickname.trim() || submitScoreMutation.isPending}
+                disabled={!nickname.trim() || submitScoreMutation.isPending}
                 className="flex-1"
                 data-testid="button-save-score"
               >
                 <Trophy className="w-4 h-4 mr-2" />
                 {submitScoreMutation.isPending ? "Сохранение..." : "Сохранить результат"}
               </Button>
+              )}
               <Button
                 onClick={handleRestart}
                 variant="outline"
@@ -678,37 +777,57 @@ export default function CustomGame() {
             </DialogTitle>
           </DialogHeader>
           <div className="space-y-4 max-h-96 overflow-y-auto">
-            {leaderboard.length === 0 ? (
+            {leaderboardEntries.length === 0 ? (
               <div className="text-center text-gray-600 py-8">
                 Пока нет результатов
               </div>
             ) : (
-              leaderboard.map((entry, index) => (
+              leaderboardEntries.map((entry, index) => (
                 <div
                   key={entry.id}
                   className={`flex items-center justify-between p-3 rounded-lg ${
-                    index < 3 ? "bg-amber-50" : "bg-gray-50"
+                    entry.rank <= 3 ? "bg-amber-50" : "bg-gray-50"
                   }`}
                   data-testid={`leaderboard-entry-${index}`}
                 >
                   <div className="flex items-center gap-3">
                     <div className="text-2xl font-bold text-gray-400">
-                      #{index + 1}
+                      #{entry.rank}
                     </div>
                     <div>
-                      <div className="font-medium">{entry.nickname}</div>
+                      <Link href={`/player/${encodeURIComponent(entry.nickname)}`} className="font-medium hover:underline">
+                        {entry.nickname}
+                      </Link>
                       <div className="text-sm text-gray-600">
                         {entry.attempts} попыток
                       </div>
                     </div>
                   </div>
-                  <div className="text-xl font-bold text-indigo-900">
-                    {formatTime(entry.time)}
+                  <div className="flex items-center gap-3">
+                    <Link
+                      href={`/replay/custom/${boardId}/${entry.id}`}
+                      title="Повтор игры"
+                      className="text-gray-400 hover:text-indigo-600"
+                      data-testid={`link-replay-${entry.id}`}
+                    >
+                      <Film className="w-5 h-5" />
+                    </Link>
+                    <div className="text-xl font-bold text-indigo-900">
+                      {formatTime(entry.time)}
+                    </div>
                   </div>
                 </div>
               ))
             )}
           </div>
+          {leaderboard && (
+            <LeaderboardPagination
+              page={leaderboard.page}
+              pageSize={leaderboard.pageSize}
+              total={leaderboard.total}
+              onPageChange={setLeaderboardPage}
+            />
+          )}
         </DialogContent>
       </Dialog>
     </div>
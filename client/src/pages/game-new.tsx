@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -9,33 +9,34 @@ import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { finishServerGame, requireGameToken, startServerGame, type GameToken } from "@/lib/game-tokens";
 import { Calculator, Trophy, RotateCcw, Target, BarChart3, Info, CheckCircle, Circle, Settings } from "lucide-react";
-import type { LeaderboardEntry, InsertLeaderboardEntry } from "@shared/schema";
-
-type CellType = "number" | "operation";
-type Operation = "+" | "-" | "*" | "/" | "^";
-type Difficulty = "easy" | "medium" | "hard";
-type BoardSize = 5 | 10 | 15;
-
-interface Cell {
-  value: number | Operation;
-  type: CellType;
-  row: number;
-  col: number;
-}
+import type { PublicLeaderboardEntry, InsertLeaderboardEntry, LeaderboardPage, Move } from "@shared/schema";
+import {
+  evaluatePath,
+  buildLinePath,
+  type Cell,
+  type Difficulty,
+  type BoardSize,
+  type Position,
+} from "@shared/game-rules";
+import { generateGame, generateSeed } from "@shared/board-generator";
 
 interface GameState {
   board: Cell[][];
   targets: number[];
   foundTargets: Set<number>;
-  selectedCells: { row: number; col: number }[];
+  selectedCells: Position[];
   gameTime: number;
   isPlaying: boolean;
   attemptCount: number;
+  moveLog: Move[];
+  startedAt: number;
   currentExpression: string;
   currentResult: number | null;
   difficulty: Difficulty;
   boardSize: BoardSize;
+  seed: string;
 }
 
 const DIFFICULTY_LABELS = {
@@ -60,10 +61,13 @@ export default function Game() {
     gameTime: 0,
     isPlaying: false,
     attemptCount: 0,
+    moveLog: [],
+    startedAt: Date.now(),
     currentExpression: "",
     currentResult: null,
     difficulty: "easy",
     boardSize: 5,
+    seed: "",
   });
 
   const [showVictoryModal, setShowVictoryModal] = useState(false);
@@ -71,19 +75,22 @@ export default function Game() {
   const [showSettings, setShowSettings] = useState(false);
   const [playerNickname, setPlayerNickname] = useState("");
   const [isSelecting, setIsSelecting] = useState(false);
-  const [selectionStart, setSelectionStart] = useState<{ row: number; col: number } | null>(null);
+  const [selectionStart, setSelectionStart] = useState<Position | null>(null);
   const [tempDifficulty, setTempDifficulty] = useState<Difficulty>(gameState.difficulty);
   const [tempBoardSize, setTempBoardSize] = useState<BoardSize>(gameState.boardSize);
 
+  const gameTokenRef = useRef<GameToken>(Promise.resolve(null));
+
   // Fetch leaderboard
-  const { data: leaderboard = [] } = useQuery<LeaderboardEntry[]>({
-    queryKey: ["/api/leaderboard", gameState.difficulty, gameState.boardSize],
+  const { data: leaderboardPage } = useQuery<LeaderboardPage<PublicLeaderboardEntry>>({
+    queryKey: ["/api/leaderboard", { difficulty: gameState.difficulty, boardSize: gameState.boardSize }],
   });
+  const leaderboard = leaderboardPage?.entries ?? [];
 
   // Submit score mutation
   const submitScoreMutation = useMutation({
-    mutationFn: (data: InsertLeaderboardEntry) => 
-      apiRequest("POST", "/api/leaderboard", data),
+    mutationFn: async (data: InsertLeaderboardEntry) =>
+      apiRequest("POST", "/api/leaderboard", { ...data, gameToken: await requireGameToken(gameTokenRef.current) }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/leaderboard"] });
       setShowVictoryModal(false);
@@ -102,133 +109,12 @@ export default function Game() {
     },
   });
 
-  // Generate operations based on difficulty
-  const getOperationsForDifficulty = (difficulty: Difficulty): Operation[] => {
-    switch (difficulty) {
-      case "easy":
-        return ["+", "-", "*"];
-      case "medium":
-        return ["+", "-", "*", "/"];
-      case "hard":
-        return ["+", "-", "*", "/", "^"];
-      default:
-        return ["+", "-", "*"];
-    }
-  };
-
-  // Generate random board
-  const generateBoard = useCallback((boardSize: BoardSize, difficulty: Difficulty): Cell[][] => {
-    const board: Cell[][] = [];
-    const numbers = [1, 2, 3, 4, 5, 6, 7, 8, 9];
-    const operations = getOperationsForDifficulty(difficulty);
-
-    for (let row = 0; row < boardSize; row++) {
-      board[row] = [];
-      for (let col = 0; col < boardSize; col++) {
-        const isNumberCell = (row + col) % 2 === 0;
-        if (isNumberCell) {
-          board[row][col] = {
-            value: numbers[Math.floor(Math.random() * numbers.length)],
-            type: "number",
-            row,
-            col,
-          };
-        } else {
-          board[row][col] = {
-            value: operations[Math.floor(Math.random() * operations.length)],
-            type: "operation",
-            row,
-            col,
-          };
-        }
-      }
-    }
-    return board;
-  }, []);
-
-  // Generate target numbers based on board
-  const generateTargets = useCallback((board: Cell[][], boardSize: BoardSize): number[] => {
-    const targets: number[] = [];
-    const usedResults = new Set<number>();
-    const targetCount = Math.max(4, Math.floor(boardSize / 2));
-
-    // Generate targets from rows and columns
-    for (let i = 0; i < boardSize && targets.length < targetCount; i++) {
-      // Row targets
-      for (let startCol = 0; startCol < boardSize && targets.length < targetCount; startCol += 2) {
-        for (let endCol = startCol + 2; endCol < boardSize && targets.length < targetCount; endCol += 2) {
-          const expression: (number | Operation)[] = [];
-          for (let col = startCol; col <= endCol; col++) {
-            expression.push(board[i][col].value as number | Operation);
-          }
-          const result = evaluateExpression(expression);
-          if (result !== null && result > 0 && result <= 1000 && !usedResults.has(result)) {
-            targets.push(result);
-            usedResults.add(result);
-          }
-        }
-      }
-
-      // Column targets
-      for (let startRow = 0; startRow < boardSize && targets.length < targetCount; startRow += 2) {
-        for (let endRow = startRow + 2; endRow < boardSize && targets.length < targetCount; endRow += 2) {
-          const expression: (number | Operation)[] = [];
-          for (let row = startRow; row <= endRow; row++) {
-            expression.push(board[row][i].value as number | Operation);
-          }
-          const result = evaluateExpression(expression);
-          if (result !== null && result > 0 && result <= 1000 && !usedResults.has(result)) {
-            targets.push(result);
-            usedResults.add(result);
-          }
-        }
-      }
-    }
-
-    return targets.slice(0, targetCount);
-  }, []);
-
-  // Evaluate mathematical expression
-  const evaluateExpression = (expression: (number | Operation)[]): number | null => {
-    if (expression.length < 3 || expression.length % 2 === 0) return null;
-    
-    try {
-      let result = expression[0] as number;
-      for (let i = 1; i < expression.length; i += 2) {
-        const operation = expression[i] as Operation;
-        const operand = expression[i + 1] as number;
-        
-        switch (operation) {
-          case "+":
-            result += operand;
-            break;
-          case "-":
-            result -= operand;
-            break;
-          case "*":
-            result *= operand;
-            break;
-          case "/":
-            if (operand === 0) return null;
-            result /= operand;
-            break;
-          case "^":
-            result = Math.pow(result, operand);
-            break;
-        }
-      }
-      return Math.round(result * 100) / 100;
-    } catch {
-      return null;
-    }
-  };
-
   // Initialize new game
   const initializeGame = useCallback((difficulty?: Difficulty, boardSize?: BoardSize) => {
     const newDifficulty = difficulty || gameState.difficulty;
     const newBoardSize = boardSize || gameState.boardSize;
-    const board = generateBoard(newBoardSize, newDifficulty);
-    const targets = generateTargets(board, newBoardSize);
+    const { board, targets, seed } = generateGame(generateSeed(), newBoardSize, newDifficulty);
+    gameTokenRef.current = startServerGame({ seed, difficulty: newDifficulty, boardSize: newBoardSize });
     
     setGameState({
       board,
@@ -238,16 +124,19 @@ export default function Game() {
       gameTime: 0,
       isPlaying: true,
       attemptCount: 0,
+      moveLog: [],
+      startedAt: Date.now(),
       currentExpression: "",
       currentResult: null,
       difficulty: newDifficulty,
       boardSize: newBoardSize,
+      seed,
     });
     setShowVictoryModal(false);
     setShowLeaderboard(false);
     setShowSettings(false);
     setPlayerNickname("");
-  }, [generateBoard, generateTargets, gameState.difficulty, gameState.boardSize]);
+  }, [gameState.difficulty, gameState.boardSize]);
 
   // Timer effect
   useEffect(() => {
@@ -260,28 +149,6 @@ export default function Game() {
     return () => clearInterval(interval);
   }, [gameState.isPlaying]);
 
-  // Check if path is valid
-  const isValidPath = (cells: { row: number; col: number }[]): boolean => {
-    if (cells.length < 2) return true;
-
-    const allSameRow = cells.every(cell => cell.row === cells[0].row);
-    const allSameCol = cells.every(cell => cell.col === cells[0].col);
-
-    if (!allSameRow && !allSameCol) return false;
-
-    if (allSameRow) {
-      for (let i = 1; i < cells.length; i++) {
-        if (Math.abs(cells[i].col - cells[i - 1].col) !== 1) return false;
-      }
-    } else {
-      for (let i = 1; i < cells.length; i++) {
-        if (Math.abs(cells[i].row - cells[i - 1].row) !== 1) return false;
-      }
-    }
-
-    return true;
-  };
-
   // Handle cell selection
   const handleCellMouseDown = (row: number, col: number) => {
     setIsSelecting(true);
@@ -297,67 +164,20 @@ export default function Game() {
   const handleCellMouseEnter = (row: number, col: number) => {
     if (!isSelecting || !selectionStart) return;
 
-    const newPath = [];
-    
-    if (selectionStart.row === row) {
-      if (selectionStart.col <= col) {
-        for (let c = selectionStart.col; c <= col; c++) {
-          newPath.push({ row, col: c });
-        }
-      } else {
-        for (let c = selectionStart.col; c >= col; c--) {
-          newPath.push({ row, col: c });
-        }
-      }
-    } else if (selectionStart.col === col) {
-      if (selectionStart.row <= row) {
-        for (let r = selectionStart.row; r <= row; r++) {
-          newPath.push({ row: r, col });
-        }
-      } else {
-        for (let r = selectionStart.row; r >= row; r--) {
-          newPath.push({ row: r, col });
-        }
-      }
-    } else {
-      newPath.push(selectionStart);
-    }
+    const newPath = buildLinePath(selectionStart, { row, col });
 
     updateSelection(newPath);
   };
 
-  const updateSelection = (cells: { row: number; col: number }[]) => {
-    if (!isValidPath(cells) && cells.length > 1) return;
-
-    if (cells.length > 0) {
-      const startCell = gameState.board[cells[0].row][cells[0].col];
-      if (startCell.type !== "number") return;
-    }
-
-    const expression: (number | Operation)[] = [];
-    let validExpression = true;
-
-    for (let i = 0; i < cells.length; i++) {
-      const cell = gameState.board[cells[i].row][cells[i].col];
-      const expectedType = i % 2 === 0 ? "number" : "operation";
-      
-      if (cell.type !== expectedType) {
-        validExpression = false;
-        break;
-      }
-      expression.push(cell.value as number | Operation);
-    }
-
-    if (!validExpression && cells.length > 1) return;
-
-    const expressionString = expression.join(" ");
-    const result = expression.length >= 3 ? evaluateExpression(expression) : null;
+  const updateSelection = (cells: Position[]) => {
+    const evaluation = evaluatePath(gameState.board, cells);
+    if (!evaluation.ok) return;
 
     setGameState(prev => ({
       ...prev,
       selectedCells: cells,
-      currentExpression: expressionString,
-      currentResult: result,
+      currentExpression: evaluation.expression,
+      currentResult: evaluation.result.ok ? evaluation.result.value : null,
     }));
   };
 
@@ -370,7 +190,12 @@ export default function Game() {
     if (gameState.currentResult !== null && gameState.selectedCells.length >= 3) {
       const result = gameState.currentResult;
       
-      setGameState(prev => ({ ...prev, attemptCount: prev.attemptCount + 1 }));
+      const move: Move = { path: gameState.selectedCells, at: Date.now() - gameState.startedAt };
+      setGameState(prev => ({
+        ...prev,
+        attemptCount: prev.attemptCount + 1,
+        moveLog: [...prev.moveLog, move],
+      }));
 
       if (gameState.targets.includes(result) && !gameState.foundTargets.has(result)) {
         const newFoundTargets = new Set(gameState.foundTargets);
@@ -384,6 +209,7 @@ export default function Game() {
         });
 
         if (newFoundTargets.size === gameState.targets.length) {
+          gameTokenRef.current = finishServerGame(gameTokenRef.current);
           setGameState(prev => ({ ...prev, isPlaying: false }));
           setShowVictoryModal(true);
         }
@@ -410,6 +236,8 @@ export default function Game() {
         attempts: gameState.attemptCount,
         difficulty: gameState.difficulty,
         boardSize: gameState.boardSize,
+        seed: gameState.seed,
+        moveLog: gameState.moveLog,
       });
     }
   };
@@ -756,7 +584,7 @@ export default function Game() {
             <div className="max-h-96 overflow-y-auto">
               {leaderboard && leaderboard.length > 0 ? (
                 <div className="space-y-2">
-                  {leaderboard.map((entry: LeaderboardEntry, index: number) => (
+                  {leaderboard.map((entry: PublicLeaderboardEntry, index: number) => (
                     <div 
                       key={entry.id} 
                       className={`flex items-center justify-between p-3 rounded-lg ${
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,44 +7,78 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { finishServerGame, requireGameToken, startServerGame, type GameToken } from "@/lib/game-tokens";
 import { useLanguage, type Language } from "@/lib/i18n";
-import { Calculator, Trophy, RotateCcw, Target, BarChart3, Info, CheckCircle, Circle, Settings, Flag, Languages, Pencil, Puzzle } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { AuthDialog } from "@/components/AuthDialog";
+import { LeaderboardPagination } from "@/components/LeaderboardPagination";
+import { Calculator, Trophy, RotateCcw, Target, BarChart3, Info, CheckCircle, Circle, Settings, Flag, Languages, Pencil, Puzzle, Link2, CalendarDays, Flame, LogIn, LogOut, BadgeCheck, Film } from "lucide-react";
 import { Link } from "wouter";
-import type { LeaderboardEntry, InsertLeaderboardEntry } from "@shared/schema";
-
-// Типы для игровой логики
-type CellType = "number" | "operation"; // Тип ячейки: число или операция
-type Operation = "+" | "-" | "*" | "/" | "^"; // Доступные математические операции
-type Difficulty = "easy" | "medium" | "hard"; // Уровни сложности игры
-type BoardSize = 5 | 10 | 15; // Доступные размеры игрового поля
-
-// Интерфейс для ячейки игрового поля
-interface Cell {
-  value: number | Operation; // Значение: число или математическая операция
-  type: CellType; // Тип ячейки
-  row: number; // Позиция по вертикали
-  col: number; // Позиция по горизонтали
-}
+import {
+  type PublicLeaderboardEntry,
+  type InsertLeaderboardEntry,
+  type Move,
+  type ReplayEvent,
+  type DailyAttempt,
+  type DailyStreak,
+  type LeaderboardPage,
+  type LeaderboardPlacement,
+  type LeaderboardSort,
+  type LeaderboardPeriod,
+} from "@shared/schema";
+import {
+  evaluatePath,
+  buildLinePath,
+  isBoardSize,
+  isDifficulty,
+  type Cell,
+  type Difficulty,
+  type BoardSize,
+  type Position,
+} from "@shared/game-rules";
+import { generateGame, generateGameInBand, generateSeed, isValidSeed, type GeneratedGame } from "@shared/board-generator";
+import { DIFFICULTY_BANDS } from "@shared/difficulty";
+import { solveBoard, type Solution } from "@shared/solver";
+import { fitTimeline } from "@shared/replay";
 
 // Основное состояние игры
 interface GameState {
   board: Cell[][]; // Двумерный массив игрового поля
   targets: number[]; // Целевые числа для поиска
   foundTargets: Set<number>; // Найденные целевые числа
-  selectedCells: { row: number; col: number }[]; // Выбранные ячейки
+  selectedCells: Position[]; // Выбранные ячейки
   gameTime: number; // Время игры в секундах
   isPlaying: boolean; // Статус игры (идёт/завершена)
   attemptCount: number; // Количество попыток
+  moveLog: Move[]; // Журнал выборов для проверки результата на сервере
+  timeline: ReplayEvent[]; // Запись хода игры для повтора
+  startedAt: number; // Момент начала игры (мс)
   currentExpression: string; // Текущее математическое выражение
   currentResult: number | null; // Результат текущего выражения
   difficulty: Difficulty; // Уровень сложности
   boardSize: BoardSize; // Размер игрового поля
+  seed: string; // Seed, по которому сгенерировано поле
+  dailyDate: string | null; // Дата ежедневного испытания, если попытка ранговая
   showSolutions: boolean; // Показывать ли подсказки
-  solutions: { cells: { row: number; col: number }[]; target: number; expression: string }[]; // Найденные решения
+  solutions: Solution[]; // Найденные решения
+  solutionCounts: Record<number, number>; // Количество решений для каждой цели
 }
 
+// Добавляет событие в запись хода игры, пока игра идёт
+const recordEvent = (state: GameState, event: ReplayEvent): ReplayEvent[] =>
+  state.isPlaying ? [...state.timeline, event] : state.timeline;
+
+// Ключ localStorage с ником, под которым игрок проходит ежедневные поля
+const DAILY_NICKNAME_KEY = "daily-nickname";
+
+// Результаты за поле дня принимаются в его день и на следующий (UTC),
+// до тех пор сервер не отдаёт повторы: они раскрыли бы решения
+const hasReplay = (entry: PublicLeaderboardEntry) =>
+  entry.dailyDate === null || entry.dailyDate < new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
 export default function Game() {
   const { toast } = useToast();
   const { t, language, setLanguage } = useLanguage();
@@ -56,319 +90,232 @@ export default function Game() {
     gameTime: 0,
     isPlaying: false,
     attemptCount: 0,
+    moveLog: [],
+    timeline: [],
+    startedAt: Date.now(),
     currentExpression: "",
     currentResult: null,
     difficulty: "easy",
     boardSize: 5,
+    seed: "",
+    dailyDate: null,
     showSolutions: false,
     solutions: [],
+    solutionCounts: {},
   });
 
   const [showVictoryModal, setShowVictoryModal] = useState(false);
   const [showLeaderboard, setShowLeaderboard] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [playerNickname, setPlayerNickname] = useState("");
+  const [showAuth, setShowAuth] = useState(false);
+  const { user, logoutMutation } = useAuth();
   const [isSelecting, setIsSelecting] = useState(false);
-  const [selectionStart, setSelectionStart] = useState<{ row: number; col: number } | null>(null);
+  const [selectionStart, setSelectionStart] = useState<Position | null>(null);
   const [tempDifficulty, setTempDifficulty] = useState<Difficulty>(gameState.difficulty);
   const [tempBoardSize, setTempBoardSize] = useState<BoardSize>(gameState.boardSize);
+  const [tempSeed, setTempSeed] = useState("");
   const [leaderboardDifficulty, setLeaderboardDifficulty] = useState<Difficulty>(gameState.difficulty);
   const [leaderboardBoardSize, setLeaderboardBoardSize] = useState<BoardSize>(gameState.boardSize);
+  const [leaderboardSameBoard, setLeaderboardSameBoard] = useState(false);
+  const [leaderboardTab, setLeaderboardTab] = useState<"classic" | "daily">("classic");
+  const [leaderboardSort, setLeaderboardSort] = useState<LeaderboardSort>("time");
+  const [leaderboardPeriod, setLeaderboardPeriod] = useState<LeaderboardPeriod>("all");
+  const [leaderboardPage, setLeaderboardPage] = useState(1);
+  const [placement, setPlacement] = useState<LeaderboardPlacement<PublicLeaderboardEntry> | null>(null);
+  const [dailyNickname, setDailyNickname] = useState(() => localStorage.getItem(DAILY_NICKNAME_KEY) || "");
+  // Токен игры от сервера: по нему сервер считает время результата
+  const gameTokenRef = useRef<GameToken>(Promise.resolve(null));
+
+  // Fetch one page of the leaderboard for current category
+  const { data: leaderboard } = useQuery<LeaderboardPage<PublicLeaderboardEntry>>({
+    queryKey: ["/api/leaderboard", {
+      difficulty: leaderboardDifficulty,
+      boardSize: leaderboardBoardSize,
+      seed: leaderboardSameBoard ? gameState.seed : undefined,
+      sort: leaderboardSort,
+      period: leaderboardPeriod,
+      page: leaderboardPage,
+    }],
+    enabled: leaderboardTab === "classic",
+  });
+
+  // Fetch one page of today's daily leaderboard for current category
+  const { data: dailyLeaderboard } = useQuery<LeaderboardPage<PublicLeaderboardEntry>>({
+    queryKey: ["/api/daily/leaderboard", {
+      difficulty: leaderboardDifficulty,
+      boardSize: leaderboardBoardSize,
+      sort: leaderboardSort,
+      page: leaderboardPage,
+    }],
+    enabled: leaderboardTab === "daily",
+  });
 
-  // Fetch leaderboard for current category
-  const { data: leaderboard = [] } = useQuery<LeaderboardEntry[]>({
-    queryKey: ["/api/leaderboard", leaderboardDifficulty, leaderboardBoardSize],
+  // Fetch the daily streak of the player who last submitted a daily result
+  const { data: dailyStreak } = useQuery<DailyStreak>({
+    queryKey: [`/api/daily/streak/${encodeURIComponent(dailyNickname)}`],
+    enabled: !!dailyNickname && leaderboardTab === "daily",
   });
 
+  const visibleLeaderboard = leaderboardTab === "daily" ? dailyLeaderboard : leaderboard;
+  const visibleEntries = visibleLeaderboard?.entries ?? [];
+
+  // Any change of the ranking starts it from the first page
+  useEffect(() => {
+    setLeaderboardPage(1);
+  }, [leaderboardTab, leaderboardDifficulty, leaderboardBoardSize, leaderboardSameBoard, leaderboardSort, leaderboardPeriod]);
+
   // Submit score mutation
   const submitScoreMutation = useMutation({
-    mutationFn: (data: InsertLeaderboardEntry) => 
-      apiRequest("POST", "/api/leaderboard", data),
-    onSuccess: (_, data) => {
+    mutationFn: async (data: InsertLeaderboardEntry) =>
+      apiRequest("POST", "/api/leaderboard", { ...data, gameToken: await requireGameToken(gameTokenRef.current) }),
+    onSuccess: async (res, data) => {
       // Invalidate all leaderboard queries to ensure fresh data
       queryClient.invalidateQueries({ queryKey: ["/api/leaderboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/daily/leaderboard"] });
       // Set leaderboard view to the category where the score was submitted
       setLeaderboardDifficulty(data.difficulty as Difficulty);
       setLeaderboardBoardSize(data.boardSize as BoardSize);
-      setShowVictoryModal(false);
-      setShowLeaderboard(true);
+      setLeaderboardTab(data.dailyDate ? "daily" : "classic");
+
+      const entry: PublicLeaderboardEntry & { streak?: DailyStreak } = await res.json();
+
+      // Show where the result placed; flagged results are not ranked
+      try {
+        const rankRes = await apiRequest("GET", `/api/leaderboard/${entry.id}/rank?sort=${leaderboardSort}&period=${leaderboardPeriod}`);
+        setPlacement(await rankRes.json());
+      } catch {
+        setShowVictoryModal(false);
+        setShowLeaderboard(true);
+      }
+
+      if (entry.streak) {
+        localStorage.setItem(DAILY_NICKNAME_KEY, entry.nickname);
+        setDailyNickname(entry.nickname);
+        queryClient.setQueryData([`/api/daily/streak/${encodeURIComponent(entry.nickname)}`], entry.streak);
+        toast({
+          title: "Результат сохранён!",
+          description: `${t('daily.streak')}: ${entry.streak.current}`,
+        });
+        return;
+      }
+
       toast({
         title: "Результат сохранён!",
         description: "Ваш результат добавлен в лидерборд.",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Ошибка",
-        description: "Не удалось сохранить результат.",
+        description: error.message.startsWith("409")
+          ? t('daily.alreadyUsed')
+          : error.message.startsWith("403")
+            ? t('auth.nameReserved')
+            : "Не удалось сохранить результат.",
         variant: "destructive",
       });
     },
   });
 
-  // Generate random board
-  const generateBoard = useCallback((boardSize: BoardSize, difficulty: Difficulty): Cell[][] => {
-    const board: Cell[][] = [];
-    const numbers = [1, 2, 3, 4, 5, 6, 7, 8, 9];
-    
-    // Get operations based on difficulty
-    const getOperations = (diff: Difficulty): Operation[] => {
-      switch (diff) {
-        case "easy":
-          return ["+", "-", "*"];
-        case "medium":
-          return ["+", "-", "*", "/"];
-        case "hard":
-          return ["+", "-", "*", "/", "^"];
-        default:
-          return ["+", "-", "*"];
-      }
-    };
-    
-    const operations = getOperations(difficulty);
-
-    for (let row = 0; row < boardSize; row++) {
-      board[row] = [];
-      for (let col = 0; col < boardSize; col++) {
-        const isNumberCell = (row + col) % 2 === 0;
-        if (isNumberCell) {
-          board[row][col] = {
-            value: numbers[Math.floor(Math.random() * numbers.length)],
-            type: "number",
-            row,
-            col,
-          };
-        } else {
-          board[row][col] = {
-            value: operations[Math.floor(Math.random() * operations.length)],
-            type: "operation",
-            row,
-            col,
-          };
-        }
-      }
-    }
-    return board;
-  }, []);
-
-  // Generate target numbers based on board
-  const generateTargets = useCallback((board: Cell[][], boardSize: BoardSize): number[] => {
-    const targets: number[] = [];
-    const usedResults = new Set<number>();
-    const targetCount = Math.max(4, Math.floor(boardSize / 2));
-
-    // Generate targets from rows and columns
-    for (let i = 0; i < boardSize && targets.length < targetCount; i++) {
-      // Row targets
-      for (let startCol = 0; startCol < boardSize && targets.length < targetCount; startCol += 2) {
-        for (let endCol = startCol + 2; endCol < boardSize && targets.length < targetCount; endCol += 2) {
-          const expression: (number | Operation)[] = [];
-          for (let col = startCol; col <= endCol; col++) {
-            expression.push(board[i][col].value as number | Operation);
-          }
-          const result = evaluateExpression(expression);
-          if (result !== null && result > 0 && result <= 1000 && !usedResults.has(result)) {
-            targets.push(result);
-            usedResults.add(result);
-          }
-        }
-      }
-
-      // Column targets
-      for (let startRow = 0; startRow < boardSize && targets.length < targetCount; startRow += 2) {
-        for (let endRow = startRow + 2; endRow < boardSize && targets.length < targetCount; endRow += 2) {
-          const expression: (number | Operation)[] = [];
-          for (let row = startRow; row <= endRow; row++) {
-            expression.push(board[row][i].value as number | Operation);
-          }
-          const result = evaluateExpression(expression);
-          if (result !== null && result > 0 && result <= 1000 && !usedResults.has(result)) {
-            targets.push(result);
-            usedResults.add(result);
-          }
-        }
-      }
-    }
-
-    return targets.slice(0, targetCount);
-  }, []);
-
-  /**
-   * Вычисляет математическое выражение с проверкой на ошибки
-   * @param expression - Массив чисел и операций (число, операция, число, операция, ...)
-   * @returns Результат вычисления или null при ошибке
-   */
-  const evaluateExpression = (expression: (number | Operation)[]): number | null => {
-    // Проверяем, что выражение имеет правильную структуру (минимум 3 элемента, нечётное количество)
-    if (expression.length < 3 || expression.length % 2 === 0) return null;
-    
-    try {
-      let result = expression[0] as number; // Начинаем с первого числа
-      
-      // Обрабатываем каждую пару операция-число
-      for (let i = 1; i < expression.length; i += 2) {
-        const operation = expression[i] as Operation;
-        const operand = expression[i + 1] as number;
-        
-        switch (operation) {
-          case "+":
-            result += operand;
-            break;
-          case "-":
-            result -= operand;
-            break;
-          case "*":
-            result *= operand;
-            break;
-          case "/":
-            // Проверка деления на ноль
-            if (operand === 0) {
-              toast({
-                title: t('game.invalidOperation'),
-                description: t('game.divisionByZero'),
-                variant: "destructive",
-              });
-              return null;
-            }
-            result /= operand;
-            break;
-          case "^":
-            // Проверка возведения отрицательного числа в степень
-            if (result < 0) {
-              toast({
-                title: t('game.invalidOperation'),
-                description: t('game.negativePower'),
-                variant: "destructive",
-              });
-              return null;
-            }
-            result = Math.pow(result, operand);
-            break;
-        }
-      }
-      // Округляем результат до 2 знаков после запятой для избежания проблем с плавающей точкой
-      return Math.round(result * 100) / 100;
-    } catch {
-      // В случае любой другой ошибки возвращаем null
-      return null;
-    }
-  };
-
-  const findAllSolutions = useCallback((board: Cell[][], targets: number[], boardSize: BoardSize) => {
-    const solutions: { cells: { row: number; col: number }[]; target: number; expression: string }[] = [];
-    
-    // Check all possible paths on the board
-    for (let startRow = 0; startRow < boardSize; startRow++) {
-      for (let startCol = 0; startCol < boardSize; startCol++) {
-        if (board[startRow][startCol].type === "number") {
-          // Try paths in all 8 directions
-          const directions = [
-            [0, 1], [1, 0], [0, -1], [-1, 0], // horizontal/vertical
-            [1, 1], [1, -1], [-1, 1], [-1, -1] // diagonal
-          ];
-          
-          for (const [dRow, dCol] of directions) {
-            for (let length = 3; length <= Math.min(boardSize, 7); length += 2) {
-              const cells: { row: number; col: number }[] = [];
-              const expression: (number | Operation)[] = [];
-              let valid = true;
-              
-              for (let i = 0; i < length; i++) {
-                const row = startRow + i * dRow;
-                const col = startCol + i * dCol;
-                
-                if (row < 0 || row >= boardSize || col < 0 || col >= boardSize) {
-                  valid = false;
-                  break;
-                }
-                
-                const cell = board[row][col];
-                const expectedType = i % 2 === 0 ? "number" : "operation";
-                
-                if (cell.type !== expectedType) {
-                  valid = false;
-                  break;
-                }
-                
-                cells.push({ row, col });
-                expression.push(cell.value as number | Operation);
-              }
-              
-              if (valid && expression.length >= 3) {
-                const result = evaluateExpression(expression);
-                if (result !== null && targets.includes(result)) {
-                  // Format expression for display
-                  let expressionString = "";
-                  if (expression.length === 3) {
-                    expressionString = expression.join(" ");
-                  } else {
-                    let formatted = `${expression[0]}`;
-                    for (let i = 1; i < expression.length - 1; i += 2) {
-                      const operation = expression[i];
-                      const operand = expression[i + 1];
-                      if (i === 1) {
-                        formatted = `(${formatted} ${operation} ${operand})`;
-                      } else {
-                        formatted = `(${formatted} ${operation} ${operand})`;
-                      }
-                    }
-                    expressionString = formatted;
-                  }
-                  
-                  solutions.push({
-                    cells,
-                    target: result,
-                    expression: expressionString
-                  });
-                }
-              }
-            }
-          }
-        }
-      }
-    }
-    
-    return solutions;
-  }, []);
-
   // Handle give up
   const handleGiveUp = () => {
-    const solutions = findAllSolutions(gameState.board, gameState.targets, gameState.boardSize);
+    const { solutions, solutionCounts } = solveBoard(gameState.board, gameState.targets);
     setGameState(prev => ({
       ...prev,
       isPlaying: false,
       showSolutions: true,
-      solutions
+      solutions,
+      solutionCounts
     }));
   };
 
-  // Initialize new game
-  const initializeGame = useCallback((difficulty?: Difficulty, boardSize?: BoardSize) => {
-    const newDifficulty = difficulty || gameState.difficulty;
-    const newBoardSize = boardSize || gameState.boardSize;
-    const board = generateBoard(newBoardSize, newDifficulty);
-    const targets = generateTargets(board, newBoardSize);
+  // Start a game on the given board
+  const startGame = useCallback((
+    { board, targets, seed }: GeneratedGame,
+    difficulty: Difficulty,
+    boardSize: BoardSize,
+    dailyDate: string | null = null,
+    serverStart?: { gameToken: string; elapsedMs: number },
+  ) => {
+    // Keep the board in the URL so it can be shared and replayed
+    window.history.replaceState(null, "", `/?seed=${seed}&size=${boardSize}&d=${difficulty}`);
+    // A ranked daily attempt comes started by the server and may already be running
+    const elapsedMs = serverStart?.elapsedMs ?? 0;
+    gameTokenRef.current = serverStart
+      ? Promise.resolve(serverStart.gameToken)
+      : startServerGame({ seed, difficulty, boardSize });
     
     setGameState({
       board,
       targets,
       foundTargets: new Set(),
       selectedCells: [],
-      gameTime: 0,
+      gameTime: Math.floor(elapsedMs / 1000),
       isPlaying: true,
       attemptCount: 0,
+      moveLog: [],
+      timeline: [],
+      startedAt: Date.now() - elapsedMs,
       currentExpression: "",
       currentResult: null,
-      difficulty: newDifficulty,
-      boardSize: newBoardSize,
+      difficulty,
+      boardSize,
+      seed,
+      dailyDate,
       showSolutions: false,
       solutions: [],
+      solutionCounts: {},
     });
     setShowVictoryModal(false);
     setShowLeaderboard(false);
     setShowSettings(false);
     setPlayerNickname("");
-  }, [generateBoard, generateTargets, gameState.difficulty, gameState.boardSize]);
+    setPlacement(null);
+  }, []);
+
+  // Initialize new game, on a fresh board unless a seed is given.
+  // Fresh boards are picked so that their rated difficulty matches the chosen level
+  const initializeGame = useCallback((difficulty?: Difficulty, boardSize?: BoardSize, seed?: string) => {
+    const newDifficulty = difficulty || gameState.difficulty;
+    const newBoardSize = boardSize || gameState.boardSize;
+    const game = seed
+      ? generateGame(seed, newBoardSize, newDifficulty)
+      : generateGameInBand(generateSeed(), newBoardSize, newDifficulty, DIFFICULTY_BANDS[newDifficulty]);
+    startGame(game, newDifficulty, newBoardSize);
+  }, [startGame, gameState.difficulty, gameState.boardSize]);
+
+  // Start today's daily board; the server decides whether the attempt is ranked
+  // and times it from the first time it handed the board out
+  const startDailyGame = async () => {
+    try {
+      const res = await apiRequest("POST", "/api/daily/start", {
+        difficulty: gameState.difficulty,
+        boardSize: gameState.boardSize,
+      });
+      const daily: DailyAttempt = await res.json();
+
+      startGame(daily, daily.difficulty, daily.boardSize, daily.ranked ? daily.date : null, daily);
+
+      if (!daily.ranked) {
+        toast({
+          title: t('daily.title'),
+          description: t('daily.practice'),
+        });
+      } else if (daily.elapsedMs > 0) {
+        toast({
+          title: t('daily.title'),
+          description: t('daily.resumed'),
+        });
+      }
+    } catch {
+      toast({
+        title: "Ошибка",
+        description: t('daily.loadFailed'),
+        variant: "destructive",
+      });
+    }
+  };
 
   // Timer effect
   useEffect(() => {
@@ -381,30 +328,6 @@ export default function Game() {
     return () => clearInterval(interval);
   }, [gameState.isPlaying]);
 
-  // Check if path is valid (continuous horizontal or vertical)
-  const isValidPath = (cells: { row: number; col: number }[]): boolean => {
-    if (cells.length < 2) return true;
-
-    // Check if all cells are in the same row or column
-    const allSameRow = cells.every(cell => cell.row === cells[0].row);
-    const allSameCol = cells.every(cell => cell.col === cells[0].col);
-
-    if (!allSameRow && !allSameCol) return false;
-
-    // Check if cells are continuous in the order they were selected
-    if (allSameRow) {
-      for (let i = 1; i < cells.length; i++) {
-        if (Math.abs(cells[i].col - cells[i - 1].col) !== 1) return false;
-      }
-    } else {
-      for (let i = 1; i < cells.length; i++) {
-        if (Math.abs(cells[i].row - cells[i - 1].row) !== 1) return false;
-      }
-    }
-
-    return true;
-  };
-
   // Handle cell selection - both mouse and touch
   const handleCellSelectionStart = (row: number, col: number) => {
     setIsSelecting(true);
@@ -414,6 +337,7 @@ export default function Game() {
       selectedCells: [{ row, col }],
       currentExpression: "",
       currentResult: null,
+      timeline: recordEvent(prev, { type: "start", at: Date.now() - prev.startedAt, cell: { row, col } }),
     }));
   };
 
@@ -429,39 +353,7 @@ export default function Game() {
   const handleCellSelectionMove = (row: number, col: number) => {
     if (!isSelecting || !selectionStart) return;
 
-    const newPath = [];
-    
-    // Determine if we're selecting horizontally or vertically
-    if (selectionStart.row === row) {
-      // Horizontal selection - maintain direction based on start and end
-      if (selectionStart.col <= col) {
-        // Left to right
-        for (let c = selectionStart.col; c <= col; c++) {
-          newPath.push({ row, col: c });
-        }
-      } else {
-        // Right to left
-        for (let c = selectionStart.col; c >= col; c--) {
-          newPath.push({ row, col: c });
-        }
-      }
-    } else if (selectionStart.col === col) {
-      // Vertical selection - maintain direction based on start and end
-      if (selectionStart.row <= row) {
-        // Top to bottom
-        for (let r = selectionStart.row; r <= row; r++) {
-          newPath.push({ row: r, col });
-        }
-      } else {
-        // Bottom to top
-        for (let r = selectionStart.row; r >= row; r--) {
-          newPath.push({ row: r, col });
-        }
-      }
-    } else {
-      // Invalid selection (diagonal), keep only start cell
-      newPath.push(selectionStart);
-    }
+    const newPath = buildLinePath(selectionStart, { row, col });
 
     updateSelection(newPath);
   };
@@ -495,86 +387,26 @@ export default function Game() {
     }
   };
 
-  const updateSelection = (cells: { row: number; col: number }[]) => {
-    if (!isValidPath(cells) && cells.length > 1) return;
-
-    // Check if path starts with number and alternates correctly
-    if (cells.length > 0) {
-      const startCell = gameState.board[cells[0].row][cells[0].col];
-      if (startCell.type !== "number") return;
-    }
-
-    const expression: (number | Operation)[] = [];
-    let validExpression = true;
+  const updateSelection = (cells: Position[]) => {
+    // Path must be a straight line that starts with a number and alternates correctly
+    const evaluation = evaluatePath(gameState.board, cells);
+    if (!evaluation.ok) return;
 
-    for (let i = 0; i < cells.length; i++) {
-      const cell = gameState.board[cells[i].row][cells[i].col];
-      const expectedType = i % 2 === 0 ? "number" : "operation";
-      
-      if (cell.type !== expectedType) {
-        validExpression = false;
-        break;
-      }
-      expression.push(cell.value as number | Operation);
-    }
-
-    if (!validExpression && cells.length > 1) return;
-
-    // Format expression with proper parentheses for clarity
-    let expressionString = "";
-    
-    // Only show complete number-operation-number patterns
-    if (expression.length >= 3 && expression.length % 2 === 1) {
-      if (expression.length === 3) {
-        expressionString = expression.join(" ");
-      } else {
-        // For longer expressions, add parentheses to show order of operations
-        let formatted = `${expression[0]}`;
-        for (let i = 1; i < expression.length - 1; i += 2) {
-          const operation = expression[i];
-          const operand = expression[i + 1];
-          
-          if (operand !== undefined) {
-            if (i === 1) {
-              formatted = `(${formatted} ${operation} ${operand})`;
-            } else {
-              formatted = `(${formatted} ${operation} ${operand})`;
-            }
-          }
-        }
-        expressionString = formatted;
-      }
-    } else if (expression.length === 1) {
-      // Show single number
-      expressionString = `${expression[0]}`;
-    } else if (expression.length === 2) {
-      // Show number and operation, but wait for next number
-      expressionString = `${expression[0]} ${expression[1]} ...`;
-    } else {
-      // For incomplete expressions, show what we have so far
-      const completeTerms = [];
-      for (let i = 0; i < expression.length; i += 2) {
-        if (expression[i] !== undefined) {
-          completeTerms.push(expression[i]);
-          if (expression[i + 1] !== undefined && expression[i + 2] !== undefined) {
-            completeTerms.push(expression[i + 1]);
-          } else if (expression[i + 1] !== undefined) {
-            completeTerms.push(expression[i + 1]);
-            completeTerms.push("...");
-            break;
-          }
-        }
-      }
-      expressionString = completeTerms.join(" ");
+    const { result } = evaluation;
+    if (!result.ok && (result.error === "division-by-zero" || result.error === "negative-power")) {
+      toast({
+        title: t('game.invalidOperation'),
+        description: t(result.error === "division-by-zero" ? 'game.divisionByZero' : 'game.negativePower'),
+        variant: "destructive",
+      });
     }
-    
-    const result = expression.length >= 3 ? evaluateExpression(expression) : null;
 
     setGameState(prev => ({
       ...prev,
       selectedCells: cells,
-      currentExpression: expressionString,
-      currentResult: result,
+      currentExpression: evaluation.expression,
+      currentResult: result.ok ? result.value : null,
+      timeline: recordEvent(prev, { type: "move", at: Date.now() - prev.startedAt, path: cells }),
     }));
   };
 
@@ -583,17 +415,30 @@ export default function Game() {
     
     setIsSelecting(false);
     setSelectionStart(null);
+    setGameState(prev => ({
+      ...prev,
+      timeline: recordEvent(prev, { type: "end", at: Date.now() - prev.startedAt }),
+    }));
 
     if (gameState.currentResult !== null && gameState.selectedCells.length >= 3) {
       const result = gameState.currentResult;
       
-      setGameState(prev => ({ ...prev, attemptCount: prev.attemptCount + 1 }));
+      const move: Move = { path: gameState.selectedCells, at: Date.now() - gameState.startedAt };
+      setGameState(prev => ({
+        ...prev,
+        attemptCount: prev.attemptCount + 1,
+        moveLog: [...prev.moveLog, move],
+      }));
 
       if (gameState.targets.includes(result) && !gameState.foundTargets.has(result)) {
         const newFoundTargets = new Set(gameState.foundTargets);
         newFoundTargets.add(result);
         
-        setGameState(prev => ({ ...prev, foundTargets: newFoundTargets }));
+        setGameState(prev => ({
+          ...prev,
+          foundTargets: newFoundTargets,
+          timeline: recordEvent(prev, { type: "found", at: Date.now() - prev.startedAt, target: result }),
+        }));
         
         toast({
           title: t('toast.found'),
@@ -601,6 +446,7 @@ export default function Game() {
         });
 
         if (newFoundTargets.size === gameState.targets.length) {
+          gameTokenRef.current = finishServerGame(gameTokenRef.current);
           setGameState(prev => ({ ...prev, isPlaying: false }));
           setShowVictoryModal(true);
         }
@@ -630,20 +476,47 @@ export default function Game() {
   // Handle score submission
   const handleSubmitScore = (e: React.FormEvent) => {
     e.preventDefault();
-    if (playerNickname.trim()) {
+    // Signed-in players always play under their username
+    const nickname = user ? user.username : playerNickname.trim();
+    if (nickname) {
       submitScoreMutation.mutate({
-        nickname: playerNickname.trim(),
+        nickname,
         time: gameState.gameTime,
         attempts: gameState.attemptCount,
         difficulty: gameState.difficulty,
         boardSize: gameState.boardSize,
+        seed: gameState.seed,
+        dailyDate: gameState.dailyDate,
+        moveLog: gameState.moveLog,
+        // Too long a recording is left out; the replay is then rebuilt from the move log
+        timeline: fitTimeline(gameState.timeline),
       });
     }
   };
 
   // Handle settings save
   const handleSaveSettings = () => {
-    initializeGame(tempDifficulty, tempBoardSize);
+    const seed = tempSeed.trim();
+    if (seed && !isValidSeed(seed)) {
+      toast({
+        title: t('settings.seed'),
+        description: t('settings.invalidSeed'),
+        variant: "destructive",
+      });
+      return;
+    }
+    initializeGame(tempDifficulty, tempBoardSize, seed || undefined);
+    setTempSeed("");
+  };
+
+  // Copy a link to the current board
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href).then(() => {
+      toast({
+        title: t('toast.linkCopied'),
+        description: `${t('game.seed')}: ${gameState.seed}`,
+      });
+    });
   };
 
   // Format time
@@ -653,10 +526,18 @@ export default function Game() {
     return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
   };
 
-  // Initialize game on mount
+  // Initialize game on mount, opening the board from the URL if it names one
   useEffect(() => {
-    initializeGame();
-  }, [initializeGame]);
+    const params = new URLSearchParams(window.location.search);
+    const seed = params.get("seed");
+    const difficulty = params.get("d");
+    const boardSize = Number(params.get("size"));
+    initializeGame(
+      isDifficulty(difficulty) ? difficulty : undefined,
+      isBoardSize(boardSize) ? boardSize : undefined,
+      isValidSeed(seed) ? seed : undefined,
+    );
+  }, []);
 
   const isCellSelected = (row: number, col: number) => {
     return gameState.selectedCells.some(cell => cell.row === row && cell.col === col);
@@ -708,8 +589,22 @@ export default function Game() {
               </div>
               <div>
                 <h1 className="text-lg sm:text-2xl font-bold text-gray-900">{t('game.title')}</h1>
-                <div className="text-xs sm:text-sm text-gray-600">
-                  {t(`difficulty.${gameState.difficulty}`)} • {t(`boardSize.${gameState.boardSize}`)}
+                <div className="text-xs sm:text-sm text-gray-600 flex items-center gap-1">
+                  {t(`difficulty.${gameState.difficulty}`)} • {t(`boardSize.${gameState.boardSize}`)} • {t('game.seed')}:
+                  <span className="font-mono" data-testid="text-seed">{gameState.seed}</span>
+                  {gameState.dailyDate && (
+                    <Badge variant="secondary" className="ml-1" data-testid="badge-daily">
+                      {t('daily.title')} • {gameState.dailyDate}
+                    </Badge>
+                  )}
+                  <button
+                    onClick={handleCopyLink}
+                    className="text-indigo-500 hover:text-indigo-600"
+                    title={t('game.copyLink')}
+                    data-testid="button-copy-link"
+                  >
+                    <Link2 className="h-4 w-4" />
+                  </button>
                 </div>
               </div>
             </div>
@@ -725,6 +620,16 @@ export default function Game() {
                   <span className="hidden sm:inline">Конструктор</span>
                 </Button>
               </Link>
+              <Button 
+                variant="outline" 
+                size="sm"
+                className="flex-shrink-0"
+                onClick={startDailyGame}
+                data-testid="button-daily"
+              >
+                <CalendarDays className="h-4 w-4 sm:mr-2" />
+                <span className="hidden sm:inline">{t('daily.title')}</span>
+              </Button>
               <Link href="/custom-boards">
                 <Button 
                   variant="outline" 
@@ -736,6 +641,17 @@ export default function Game() {
                   <span className="hidden sm:inline">Пользовательские</span>
                 </Button>
               </Link>
+              <Link href="/race">
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  className="flex-shrink-0"
+                  data-testid="button-race"
+                >
+                  <Flag className="h-4 w-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Гонка</span>
+                </Button>
+              </Link>
             </div>
             <div className="flex flex-wrap items-center gap-2 w-full sm:w-auto">
               <div className="bg-gray-100 px-2 sm:px-4 py-1 sm:py-2 rounded-lg">
@@ -743,6 +659,29 @@ export default function Game() {
                   {formatTime(gameState.gameTime)}
                 </span>
               </div>
+              {user ? (
+                <Button
+                  onClick={() => logoutMutation.mutate()}
+                  variant="outline"
+                  size="sm"
+                  title={t('auth.logout')}
+                  data-testid="button-logout"
+                >
+                  <BadgeCheck className="h-4 w-4 mr-1 text-indigo-500" />
+                  <span className="max-w-24 truncate" data-testid="text-username">{user.username}</span>
+                  <LogOut className="h-4 w-4 ml-2" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => setShowAuth(true)}
+                  variant="outline"
+                  size="sm"
+                  data-testid="button-login"
+                >
+                  <LogIn className="h-4 w-4 sm:mr-2" />
+                  <span className="hidden sm:inline">{t('auth.login')}</span>
+                </Button>
+              )}
               <Select value={language} onValueChange={(value: Language) => setLanguage(value)}>
                 <SelectTrigger className="w-16 sm:w-20">
                   <SelectValue />
@@ -948,6 +887,14 @@ export default function Game() {
                     {t('game.solutions.title')}
                   </h3>
 
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {gameState.targets.map(target => (
+                      <Badge key={target} variant="outline" className="bg-white border-green-300 text-green-800">
+                        {target}: {t('game.solutions.count')} {gameState.solutionCounts[target] ?? 0}
+                      </Badge>
+                    ))}
+                  </div>
+
                   <div className="space-y-3 max-h-64 overflow-y-auto">
                     {gameState.solutions.map((solution, index) => (
                       <div 
@@ -1018,6 +965,8 @@ export default function Game() {
         </div>
       </footer>
 
+      <AuthDialog open={showAuth} onOpenChange={setShowAuth} />
+
       {/* Victory Modal */}
       <Dialog open={showVictoryModal} onOpenChange={setShowVictoryModal}>
         <DialogContent className="max-w-md mx-4 max-h-[90vh] overflow-y-auto">
@@ -1036,19 +985,66 @@ export default function Game() {
             <p className="text-gray-600 text-sm sm:text-base">{t('victory.yourTime')}</p>
           </div>
 
+          {placement ? (
+            <div className="space-y-4">
+              <div className="text-center text-lg font-semibold text-indigo-900" data-testid="text-placement">
+                {t('victory.placed').replace('{rank}', String(placement.rank)).replace('{total}', String(placement.total))}
+              </div>
+              <div className="space-y-1">
+                {placement.neighbours.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className={`flex items-center justify-between px-3 py-2 rounded-lg text-sm ${
+                      entry.rank === placement.rank ? "bg-indigo-50 border border-indigo-200 font-semibold" : "bg-gray-50"
+                    }`}
+                  >
+                    <span className="truncate">#{entry.rank} {entry.nickname}</span>
+                    <span className="font-mono flex-shrink-0">{formatTime(entry.time)}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <Button
+                  className="flex-1 w-full"
+                  onClick={() => {
+                    setShowVictoryModal(false);
+                    setShowLeaderboard(true);
+                  }}
+                  data-testid="button-show-leaderboard"
+                >
+                  {t('leaderboard.title')}
+                </Button>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  className="flex-1 w-full"
+                  onClick={() => initializeGame()}
+                >
+                  {t('game.newGame')}
+                </Button>
+              </div>
+            </div>
+          ) : (
           <form onSubmit={handleSubmitScore} className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 {t('victory.enterNickname')}:
               </label>
               <Input
-                value={playerNickname}
+                value={user ? user.username : playerNickname}
                 onChange={(e) => setPlayerNickname(e.target.value)}
                 placeholder={t('victory.nicknamePlaceholder')}
                 maxLength={20}
                 required
+                disabled={!!user}
                 className="w-full"
               />
+              {user && (
+                <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                  <BadgeCheck className="h-3 w-3 text-indigo-500" />
+                  {t('auth.verifiedName')}
+                </p>
+              )}
             </div>
 
             <div className="flex flex-col sm:flex-row gap-3">
@@ -1069,6 +1065,7 @@ export default function Game() {
               </Button>
             </div>
           </form>
+          )}
         </DialogContent>
       </Dialog>
 
@@ -1083,6 +1080,24 @@ export default function Game() {
           </DialogHeader>
 
           <div className="space-y-4">
+            <Tabs value={leaderboardTab} onValueChange={(value) => setLeaderboardTab(value as "classic" | "daily")}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="classic" data-testid="tab-leaderboard-classic">{t('leaderboard.classic')}</TabsTrigger>
+                <TabsTrigger value="daily" data-testid="tab-leaderboard-daily">{t('daily.title')}</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {leaderboardTab === "classic" && (
+              <Tabs value={leaderboardPeriod} onValueChange={(value) => setLeaderboardPeriod(value as LeaderboardPeriod)}>
+                <TabsList className="grid w-full grid-cols-4">
+                  <TabsTrigger value="today" data-testid="tab-period-today">{t('leaderboard.period.today')}</TabsTrigger>
+                  <TabsTrigger value="week" data-testid="tab-period-week">{t('leaderboard.period.week')}</TabsTrigger>
+                  <TabsTrigger value="month" data-testid="tab-period-month">{t('leaderboard.period.month')}</TabsTrigger>
+                  <TabsTrigger value="all" data-testid="tab-period-all">{t('leaderboard.period.all')}</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            )}
+
             {/* Category Selection */}
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               <div className="space-y-2">
@@ -1114,6 +1129,49 @@ export default function Game() {
               </div>
             </div>
 
+            <div className="flex items-center justify-between gap-3">
+              <label className="text-sm font-medium text-gray-700">{t('leaderboard.sort')}</label>
+              <Select value={leaderboardSort} onValueChange={(value: LeaderboardSort) => setLeaderboardSort(value)}>
+                <SelectTrigger className="w-48" data-testid="select-leaderboard-sort">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="time">{t('leaderboard.sort.time')}</SelectItem>
+                  <SelectItem value="attempts">{t('leaderboard.sort.attempts')}</SelectItem>
+                  <SelectItem value="score">{t('leaderboard.sort.score')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {leaderboardTab === "daily" && dailyNickname && dailyStreak && (
+              <div className="flex items-center justify-center gap-2 text-sm text-orange-700 bg-orange-50 rounded-lg p-2" data-testid="text-daily-streak">
+                <Flame className="h-4 w-4" />
+                {dailyNickname}: {t('daily.streak')} {dailyStreak.current} • {t('daily.bestStreak')} {dailyStreak.best}
+              </div>
+            )}
+
+            {leaderboardTab === "classic" && (
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="leaderboard-same-board"
+                checked={leaderboardSameBoard}
+                onChange={(e) => {
+                  setLeaderboardSameBoard(e.target.checked);
+                  if (e.target.checked) {
+                    setLeaderboardDifficulty(gameState.difficulty);
+                    setLeaderboardBoardSize(gameState.boardSize);
+                  }
+                }}
+                className="rounded border-gray-300"
+                data-testid="checkbox-same-board"
+              />
+              <label htmlFor="leaderboard-same-board" className="text-sm font-medium text-gray-700">
+                {t('leaderboard.sameBoard')} (<span className="font-mono">{gameState.seed}</span>)
+              </label>
+            </div>
+            )}
+
             <div className="text-center text-sm text-gray-600 bg-gray-50 rounded-lg p-2">
               {t(`difficulty.${leaderboardDifficulty}`)} • {t(`boardSize.${leaderboardBoardSize}`)}
             </div>
@@ -1121,22 +1179,22 @@ export default function Game() {
             {/* Leaderboard List */}
             <div className="overflow-y-auto max-h-60 sm:max-h-96">
               <div className="space-y-2">
-                {leaderboard.length === 0 ? (
+                {visibleEntries.length === 0 ? (
                   <div className="text-center py-8 text-gray-500">
                     <Trophy className="mx-auto h-12 w-12 text-gray-300 mb-4" />
                     <p>{t('leaderboard.noResults')}</p>
                     <p className="text-sm">{t('leaderboard.beFirst')}</p>
                   </div>
                 ) : (
-                  leaderboard.map((entry, index) => (
+                  visibleEntries.map((entry) => (
                     <div
                       key={entry.id}
                       className={`flex items-center justify-between p-3 rounded-lg transition-all ${
-                        index === 0
+                        entry.rank === 1
                           ? "bg-amber-50 border border-amber-200"
-                          : index === 1
+                          : entry.rank === 2
                           ? "bg-gray-50 border border-gray-200"
-                          : index === 2
+                          : entry.rank === 3
                           ? "bg-orange-50 border border-orange-200"
                           : "bg-white border border-gray-100"
                       }`}
@@ -1144,35 +1202,64 @@ export default function Game() {
                       <div className="flex items-center space-x-2 sm:space-x-3 flex-1 min-w-0">
                         <span
                           className={`text-sm sm:text-lg font-bold flex-shrink-0 ${
-                            index === 0
+                            entry.rank === 1
                               ? "text-amber-600"
-                              : index === 1
+                              : entry.rank === 2
                               ? "text-gray-600"
-                              : index === 2
+                              : entry.rank === 3
                               ? "text-orange-600"
                               : "text-gray-400"
                           }`}
                         >
-                          #{index + 1}
+                          #{entry.rank}
                         </span>
                         <div className="min-w-0 flex-1">
-                          <div className="text-gray-900 font-medium text-sm sm:text-base truncate">
-                            {entry.nickname}
+                          <div className="text-gray-900 font-medium text-sm sm:text-base truncate flex items-center gap-1">
+                            <Link href={`/player/${encodeURIComponent(entry.nickname)}`} className="hover:underline truncate">
+                              {entry.nickname}
+                            </Link>
+                            {entry.userId !== null && (
+                              <BadgeCheck className="h-3 w-3 text-indigo-500 flex-shrink-0" />
+                            )}
                           </div>
                           <div className="text-xs text-gray-500">
                             {t('leaderboard.attempts')}: {entry.attempts}
+                            {entry.seed && (
+                              <> • {t('game.seed')}: <span className="font-mono">{entry.seed}</span></>
+                            )}
                           </div>
                         </div>
                       </div>
-                      <span className="text-gray-700 font-mono font-semibold text-sm sm:text-base flex-shrink-0">
-                        {formatTime(entry.time)}
-                      </span>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {hasReplay(entry) && (
+                          <Link
+                            href={`/replay/${entry.id}`}
+                            title={t('leaderboard.replay')}
+                            className="text-gray-400 hover:text-indigo-600"
+                            data-testid={`link-replay-${entry.id}`}
+                          >
+                            <Film className="h-4 w-4" />
+                          </Link>
+                        )}
+                        <span className="text-gray-700 font-mono font-semibold text-sm sm:text-base">
+                          {formatTime(entry.time)}
+                        </span>
+                      </div>
                     </div>
                   ))
                 )}
               </div>
             </div>
 
+            {visibleLeaderboard && (
+              <LeaderboardPagination
+                page={visibleLeaderboard.page}
+                pageSize={visibleLeaderboard.pageSize}
+                total={visibleLeaderboard.total}
+                onPageChange={setLeaderboardPage}
+              />
+            )}
+
             {/* Quick Category Buttons */}
             <div className="border-t pt-4">
               <div className="text-xs text-gray-500 mb-2 text-center">{t('leaderboard.quickJump')}:</div>
@@ -1196,6 +1283,7 @@ export default function Game() {
                           onClick={() => {
                             setLeaderboardDifficulty(difficulty);
                             setLeaderboardBoardSize(size);
+                            setLeaderboardSameBoard(false);
                           }}
                         >
                           {t(`boardSize.${size}`)}
@@ -1245,6 +1333,18 @@ export default function Game() {
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">{t('settings.seed')}</label>
+              <Input
+                value={tempSeed}
+                onChange={(e) => setTempSeed(e.target.value)}
+                placeholder={t('settings.seedPlaceholder')}
+                maxLength={32}
+                className="w-full font-mono"
+                data-testid="input-seed"
+              />
+            </div>
+
             <div className="flex flex-col sm:flex-row gap-2 pt-4">
               <Button 
                 onClick={() => setShowSettings(false)} 
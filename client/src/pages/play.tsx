@@ -0,0 +1,426 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Calculator,
+  RotateCcw,
+  Target,
+  CheckCircle,
+  Circle,
+  Home,
+  Link2,
+} from "lucide-react";
+import { evaluatePath, type Position } from "@shared/game-rules";
+import { BOARD_CODE_PARAM, decodeBoardCode, type CodedBoard } from "@shared/board-code";
+import { validateCustomBoard } from "@shared/board-validation";
+
+interface GameState {
+  selectedCells: Position[];
+  foundTargets: Set<number>;
+  gameTime: number;
+  isPlaying: boolean;
+  attemptCount: number;
+  currentExpression: string;
+  currentResult: number | null;
+}
+
+const initialGameState: GameState = {
+  selectedCells: [],
+  foundTargets: new Set(),
+  gameTime: 0,
+  isPlaying: true,
+  attemptCount: 0,
+  currentExpression: "",
+  currentResult: null,
+};
+
+const difficultyLabels: Record<string, string> = {
+  easy: "Легко",
+  medium: "Средне",
+  hard: "Сложно",
+};
+
+const readBoardCode = () => new URLSearchParams(window.location.hash.slice(1)).get(BOARD_CODE_PARAM) ?? "";
+
+// Why a link does not open: the code is damaged, from another format version, or not a playable board
+const decodeSharedBoard = (code: string): { board: CodedBoard } | { error: string } => {
+  const decoding = decodeBoardCode(code);
+  if (!decoding.ok) {
+    return {
+      error: decoding.reason === "checksum"
+        ? "Ссылка повреждена — проверьте, что она скопирована целиком"
+        : decoding.reason === "version"
+          ? "Ссылка создана в другой версии игры"
+          : "В ссылке нет поля",
+    };
+  }
+
+  const { difficulty, boardSize, board, targets } = decoding.board;
+  const validation = validateCustomBoard({ boardData: board, boardSize, difficulty, targets });
+  if (!validation.ok) {
+    return { error: "Поле из ссылки не соответствует правилам игры" };
+  }
+  return { board: decoding.board };
+};
+
+// Boards shared by link are played entirely in the browser; results are not saved
+export default function Play() {
+  const { toast } = useToast();
+  const [code, setCode] = useState(readBoardCode);
+  const shared = useMemo(() => decodeSharedBoard(code), [code]);
+  const codedBoard = "board" in shared ? shared.board : null;
+
+  const [gameState, setGameState] = useState<GameState>(initialGameState);
+  const [showVictoryModal, setShowVictoryModal] = useState(false);
+  const isDraggingRef = useRef(false);
+  const lastFoundTargetRef = useRef<number | null>(null);
+
+  const board = codedBoard?.board ?? [];
+  const targets = codedBoard?.targets ?? [];
+
+  // A new link pasted into the address bar changes only the fragment, so the page stays mounted
+  useEffect(() => {
+    const handleHashChange = () => setCode(readBoardCode());
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, []);
+
+  useEffect(() => {
+    lastFoundTargetRef.current = null;
+    setGameState({ ...initialGameState, foundTargets: new Set() });
+    setShowVictoryModal(false);
+  }, [codedBoard]);
+
+  useEffect(() => {
+    if (!gameState.isPlaying || !codedBoard) return;
+
+    const timer = setInterval(() => {
+      setGameState(prev => ({
+        ...prev,
+        gameTime: prev.gameTime + 1,
+      }));
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [gameState.isPlaying, codedBoard]);
+
+  useEffect(() => {
+    if (gameState.foundTargets.size === targets.length && targets.length > 0 && gameState.isPlaying) {
+      setGameState(prev => ({ ...prev, isPlaying: false }));
+      setShowVictoryModal(true);
+    }
+  }, [gameState.foundTargets.size, targets.length, gameState.isPlaying]);
+
+  useEffect(() => {
+    const foundTargetsArray = Array.from(gameState.foundTargets);
+    if (foundTargetsArray.length > 0) {
+      const lastFound = foundTargetsArray[foundTargetsArray.length - 1];
+      if (lastFound !== lastFoundTargetRef.current) {
+        lastFoundTargetRef.current = lastFound;
+        toast({
+          title: "Цель найдена!",
+          description: `Вы нашли ${lastFound}`,
+        });
+      }
+    }
+  }, [gameState.foundTargets, toast]);
+
+  const extendSelection = (prev: GameState, row: number, col: number): GameState => {
+    const newSelectedCells = [...prev.selectedCells, { row, col }];
+    const evaluation = evaluatePath(board, newSelectedCells);
+    if (!evaluation.ok) {
+      return { ...prev, selectedCells: [], currentExpression: "", currentResult: null };
+    }
+
+    const result = evaluation.result.ok ? evaluation.result.value : null;
+    const isNewTarget = result !== null && targets.includes(result) && !prev.foundTargets.has(result);
+    return {
+      ...prev,
+      selectedCells: newSelectedCells,
+      currentExpression: evaluation.expression,
+      currentResult: result,
+      attemptCount: prev.attemptCount + 1,
+      foundTargets: isNewTarget ? new Set([...Array.from(prev.foundTargets), result]) : prev.foundTargets,
+    };
+  };
+
+  const handleCellSelectionStart = (row: number, col: number) => {
+    const clickedCell = board[row][col];
+    if (clickedCell.type !== "number" || !gameState.isPlaying) return;
+
+    isDraggingRef.current = true;
+    setGameState(prev => ({
+      ...prev,
+      selectedCells: [{ row, col }],
+      currentExpression: String(clickedCell.value),
+      currentResult: null,
+    }));
+  };
+
+  const handleCellSelectionMove = (row: number, col: number) => {
+    if (!isDraggingRef.current || !gameState.isPlaying) return;
+
+    setGameState(prev => {
+      const isAlreadySelected = prev.selectedCells.some(c => c.row === row && c.col === col);
+      if (isAlreadySelected || prev.selectedCells.length === 0) return prev;
+
+      const next = extendSelection(prev, row, col);
+      // While dragging, a cell that breaks the line is skipped instead of dropping the selection
+      return next.selectedCells.length === 0 ? prev : next;
+    });
+  };
+
+  const handleSelectionEnd = () => {
+    isDraggingRef.current = false;
+  };
+
+  const handleRestart = () => {
+    lastFoundTargetRef.current = null;
+    setGameState({ ...initialGameState, foundTargets: new Set() });
+    setShowVictoryModal(false);
+  };
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href).then(() => {
+      toast({
+        title: "Ссылка скопирована",
+        description: "Поле откроется у любого, кто перейдёт по ней",
+      });
+    });
+  };
+
+  const formatTime = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  };
+
+  const getCellClasses = (type: string, row: number, col: number) => {
+    const isSelected = gameState.selectedCells.some(c => c.row === row && c.col === col);
+    const baseClasses = "w-12 h-12 md:w-16 md:h-16 flex items-center justify-center font-bold text-lg rounded-lg transition-all cursor-pointer border-2 select-none";
+
+    if (isSelected) {
+      return `${baseClasses} bg-indigo-500 text-white border-indigo-600 scale-110 shadow-lg`;
+    }
+
+    return `${baseClasses} ${
+      type === "number"
+        ? "bg-blue-100 hover:bg-blue-200 text-blue-900 border-blue-300"
+        : "bg-amber-100 hover:bg-amber-200 text-amber-900 border-amber-300"
+    }`;
+  };
+
+  if (!codedBoard) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 flex items-center justify-center">
+        <Card className="max-w-md">
+          <CardContent className="py-12 text-center">
+            <div className="text-xl text-gray-600 mb-4" data-testid="text-board-code-error">
+              {"error" in shared ? shared.error : "В ссылке нет поля"}
+            </div>
+            <Link href="/">
+              <Button>На главную</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 p-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-indigo-900 flex items-center gap-2">
+              <Calculator className="w-8 h-8" />
+              Поле по ссылке
+              <Badge variant="secondary">{difficultyLabels[codedBoard.difficulty]}</Badge>
+            </h1>
+            <p className="text-gray-600 mt-1">
+              Размер: {codedBoard.boardSize}×{codedBoard.boardSize} • Результаты на таком поле не сохраняются
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleCopyLink} data-testid="button-copy-link">
+              <Link2 className="w-4 h-4 mr-2" />
+              Ссылка
+            </Button>
+            <Link href="/">
+              <Button variant="outline" data-testid="button-home">
+                <Home className="w-4 h-4 mr-2" />
+                На главную
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <Card data-testid="card-board">
+              <CardContent className="py-6">
+                <div className="flex justify-center mb-4">
+                  <div
+                    className="inline-grid gap-1"
+                    style={{
+                      gridTemplateColumns: `repeat(${codedBoard.boardSize}, minmax(0, 1fr))`,
+                    }}
+                    onMouseUp={handleSelectionEnd}
+                    onMouseLeave={handleSelectionEnd}
+                  >
+                    {board.map((row, rowIndex) =>
+                      row.map((cell, colIndex) => (
+                        <div
+                          key={`${rowIndex}-${colIndex}`}
+                          className={getCellClasses(cell.type, rowIndex, colIndex)}
+                          onMouseDown={() => handleCellSelectionStart(rowIndex, colIndex)}
+                          onMouseEnter={() => handleCellSelectionMove(rowIndex, colIndex)}
+                          data-testid={`cell-${rowIndex}-${colIndex}`}
+                        >
+                          {cell.value}
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </div>
+
+                {gameState.currentExpression && (
+                  <div className="bg-white p-4 rounded-lg border-2 border-indigo-200">
+                    <div className="text-center">
+                      <div className="text-sm text-gray-600 mb-1">Выражение:</div>
+                      <div className="text-2xl font-bold text-indigo-900">
+                        {gameState.currentExpression} = {gameState.currentResult ?? "?"}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            <Card data-testid="card-stats">
+              <CardContent className="py-6 space-y-4">
+                <div className="text-center">
+                  <div className="text-3xl font-bold text-indigo-900">
+                    {formatTime(gameState.gameTime)}
+                  </div>
+                  <div className="text-sm text-gray-600">Время</div>
+                </div>
+
+                <div className="text-center">
+                  <div className="text-3xl font-bold text-indigo-900">
+                    {gameState.attemptCount}
+                  </div>
+                  <div className="text-sm text-gray-600">Попытки</div>
+                </div>
+
+                <Button
+                  onClick={handleRestart}
+                  variant="outline"
+                  className="w-full"
+                  data-testid="button-restart"
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Начать заново
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card data-testid="card-targets">
+              <CardContent className="py-6">
+                <h3 className="font-bold text-lg mb-4 flex items-center gap-2">
+                  <Target className="w-5 h-5" />
+                  Целевые числа
+                </h3>
+                <ScrollArea className="h-64">
+                  <div className="space-y-2 pr-4">
+                    {targets.map((target) => (
+                      <div
+                        key={target}
+                        className={`flex items-center justify-between p-3 rounded-lg ${
+                          gameState.foundTargets.has(target)
+                            ? "bg-green-100 text-green-800"
+                            : "bg-gray-100 text-gray-800"
+                        }`}
+                        data-testid={`target-${target}`}
+                      >
+                        <span className="font-bold text-lg">{target}</span>
+                        {gameState.foundTargets.has(target) ? (
+                          <CheckCircle className="w-5 h-5" />
+                        ) : (
+                          <Circle className="w-5 h-5" />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+                <div className="mt-4">
+                  <Progress
+                    value={(gameState.foundTargets.size / targets.length) * 100}
+                    className="h-2"
+                  />
+                  <div className="text-center text-sm text-gray-600 mt-2">
+                    {gameState.foundTargets.size} из {targets.length} найдено
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={showVictoryModal} onOpenChange={setShowVictoryModal}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="text-2xl text-center">
+              🎉 Поздравляем!
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-6 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="text-center">
+                <div className="text-3xl font-bold text-indigo-900">
+                  {formatTime(gameState.gameTime)}
+                </div>
+                <div className="text-sm text-gray-600">Время</div>
+              </div>
+              <div className="text-center">
+                <div className="text-3xl font-bold text-indigo-900">
+                  {gameState.attemptCount}
+                </div>
+                <div className="text-sm text-gray-600">Попытки</div>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                onClick={handleCopyLink}
+                className="flex-1"
+                data-testid="button-share-link"
+              >
+                <Link2 className="w-4 h-4 mr-2" />
+                Поделиться полем
+              </Button>
+              <Button
+                onClick={handleRestart}
+                variant="outline"
+                className="flex-1"
+                data-testid="button-play-again"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Играть ещё
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
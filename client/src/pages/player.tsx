@@ -0,0 +1,301 @@
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Home, User, BadgeCheck, Trophy, Timer, Target, Puzzle, TrendingUp, Gamepad2 } from "lucide-react";
+import type { PlayerHistoryPage, PlayerProfile } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+const difficultyLabels: Record<string, string> = {
+  easy: "Легко",
+  medium: "Средне",
+  hard: "Сложно",
+};
+
+const modeLabels: Record<string, string> = {
+  classic: "Обычная игра",
+  daily: "Эстафета дня",
+  custom: "Пользовательское поле",
+};
+
+const chartConfig = {
+  time: {
+    label: "Время, с",
+    color: "hsl(239 84% 67%)",
+  },
+  attempts: {
+    label: "Попытки",
+    color: "hsl(38 92% 50%)",
+  },
+} satisfies ChartConfig;
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+};
+
+// The router already decodes most of the path, so decoding again may fail on a literal "%"
+const decodeName = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("ru-RU", {
+    day: "numeric",
+    month: "short",
+  });
+
+export default function Player() {
+  const params = useParams<{ name: string }>();
+  const name = decodeName(params.name || "");
+
+  const { data: profile, isLoading, error } = useQuery<PlayerProfile>({
+    queryKey: [`/api/players/${encodeURIComponent(name)}`],
+    enabled: !!name,
+  });
+
+  // History comes newest first, one page at a time
+  const {
+    data: historyData,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery<PlayerHistoryPage>({
+    queryKey: [`/api/players/${encodeURIComponent(name)}/history`],
+    initialPageParam: null,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams();
+      if (typeof pageParam === "string") {
+        params.append("cursor", pageParam);
+      }
+      const res = await apiRequest("GET", `/api/players/${encodeURIComponent(name)}/history?${params.toString()}`);
+      return res.json();
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!profile,
+  });
+
+  const history = historyData?.pages.flatMap((page) => page.results) ?? [];
+
+  // Progress over the loaded games: one point per finished game, oldest first
+  const chartData = [...history].reverse().map((result, index) => ({
+    game: index + 1,
+    date: formatDate(result.completedAt),
+    time: result.time,
+    attempts: result.attempts,
+  }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 p-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl md:text-4xl font-bold text-indigo-900 flex items-center gap-2" data-testid="text-player-name">
+            <User className="w-8 h-8" />
+            {profile?.name ?? name}
+            {profile?.verified && (
+              <BadgeCheck className="w-6 h-6 text-indigo-500" aria-label="Подтверждённый игрок" />
+            )}
+          </h1>
+          <Link href="/">
+            <Button variant="outline" data-testid="button-home">
+              <Home className="w-4 h-4 mr-2" />
+              На главную
+            </Button>
+          </Link>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="text-gray-600">Загрузка...</div>
+          </div>
+        ) : error || !profile ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <User className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+              <h3 className="text-xl font-semibold text-gray-700 mb-2">Игрок не найден</h3>
+              <p className="text-gray-500">У игрока с таким именем ещё нет результатов</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <Card>
+                <CardContent className="p-6 text-center">
+                  <Gamepad2 className="w-6 h-6 mx-auto text-indigo-500 mb-2" />
+                  <div className="text-3xl font-bold text-indigo-900" data-testid="text-total-games">{profile.totalGames}</div>
+                  <div className="text-sm text-gray-600">Игр сыграно</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-6 text-center">
+                  <Timer className="w-6 h-6 mx-auto text-indigo-500 mb-2" />
+                  <div className="text-3xl font-bold text-indigo-900" data-testid="text-average-time">
+                    {profile.averageTime !== null ? formatTime(profile.averageTime) : "—"}
+                  </div>
+                  <div className="text-sm text-gray-600">Среднее время</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-6 text-center">
+                  <Target className="w-6 h-6 mx-auto text-indigo-500 mb-2" />
+                  <div className="text-3xl font-bold text-indigo-900" data-testid="text-average-attempts">
+                    {profile.averageAttempts ?? "—"}
+                  </div>
+                  <div className="text-sm text-gray-600">Среднее число попыток</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Trophy className="w-5 h-5 text-amber-500" />
+                  Личные рекорды
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {profile.personalBests.length === 0 ? (
+                  <p className="text-gray-500 text-sm">Пока нет завершённых игр</p>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                    {profile.personalBests.map((best) => (
+                      <div
+                        key={`${best.difficulty}-${best.boardSize}`}
+                        className="p-3 bg-gray-50 rounded-lg"
+                        data-testid={`personal-best-${best.difficulty}-${best.boardSize}`}
+                      >
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="font-medium text-gray-900">
+                            {difficultyLabels[best.difficulty] || best.difficulty} • {best.boardSize}×{best.boardSize}
+                          </span>
+                          <Badge variant="secondary">{best.games} игр</Badge>
+                        </div>
+                        <div className="font-mono text-lg font-semibold text-indigo-900">{formatTime(best.time)}</div>
+                        <div className="text-xs text-gray-500">
+                          Попыток: {best.attempts} • {formatDate(best.completedAt)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <TrendingUp className="w-5 h-5 text-indigo-500" />
+                  Прогресс
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {chartData.length < 2 ? (
+                  <p className="text-gray-500 text-sm">График появится после второй игры</p>
+                ) : (
+                  <ChartContainer config={chartConfig} className="h-64 w-full" data-testid="chart-progress">
+                    <LineChart data={chartData} margin={{ left: 0, right: 12, top: 8 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+                      <YAxis yAxisId="time" tickLine={false} axisLine={false} width={40} />
+                      <YAxis yAxisId="attempts" orientation="right" tickLine={false} axisLine={false} width={30} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Line yAxisId="time" dataKey="time" type="monotone" stroke="var(--color-time)" strokeWidth={2} dot={false} />
+                      <Line yAxisId="attempts" dataKey="attempts" type="monotone" stroke="var(--color-attempts)" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Последние игры</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {history.length === 0 ? (
+                  <p className="text-gray-500 text-sm">Пока нет завершённых игр</p>
+                ) : (
+                  <div className="space-y-2">
+                    {history.map((result, index) => (
+                      <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                        <div>
+                          <div className="font-medium text-gray-900">
+                            {result.customBoardId !== null ? (
+                              <Link href={`/game/custom/${result.customBoardId}`} className="hover:underline">
+                                {modeLabels[result.mode]}
+                              </Link>
+                            ) : (
+                              modeLabels[result.mode]
+                            )}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {difficultyLabels[result.difficulty] || result.difficulty} • {result.boardSize}×{result.boardSize} •
+                            {" "}Попыток: {result.attempts} • {formatDate(result.completedAt)}
+                          </div>
+                        </div>
+                        <span className="font-mono font-semibold text-gray-700">{formatTime(result.time)}</span>
+                      </div>
+                    ))}
+                    {hasNextPage && (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => fetchNextPage()}
+                        disabled={isFetchingNextPage}
+                        data-testid="button-load-more-history"
+                      >
+                        {isFetchingNextPage ? "Загрузка..." : "Показать ещё"}
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Puzzle className="w-5 h-5 text-indigo-500" />
+                  Созданные поля
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {profile.authoredBoards.length === 0 ? (
+                  <p className="text-gray-500 text-sm">Игрок ещё не создал ни одного поля</p>
+                ) : (
+                  <div className="space-y-2">
+                    {profile.authoredBoards.map((board) => (
+                      <Link key={board.id} href={`/game/custom/${board.id}`}>
+                        <div
+                          className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 cursor-pointer"
+                          data-testid={`authored-board-${board.id}`}
+                        >
+                          <div>
+                            <div className="font-medium text-gray-900">{board.name}</div>
+                            <div className="text-xs text-gray-500">
+                              {difficultyLabels[board.difficulty] || board.difficulty} • {board.boardSize}×{board.boardSize}
+                            </div>
+                          </div>
+                          <Badge variant="secondary">Решений: {board.completionCount}</Badge>
+                        </div>
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,656 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Flag, Home, Link2, Play, RefreshCw, Swords, Trophy, Tv, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useRaceRoom } from "@/hooks/use-race-room";
+import { apiRequest } from "@/lib/queryClient";
+import { getRaceTicket, removeRaceTicket, saveRaceTicket } from "@/lib/race-tickets";
+import { evaluatePath, type BoardSize, type Difficulty, type Position } from "@shared/game-rules";
+import {
+  MAX_RACE_PLAYERS,
+  RACE_WATCH_DELAYS,
+  type CreateRace,
+  type RaceMode,
+  type RaceRoomState,
+  type RaceTicket,
+  type RaceWatchDelay,
+} from "@shared/race";
+
+const difficultyLabels: Record<string, string> = {
+  easy: "Легко",
+  medium: "Средне",
+  hard: "Сложно",
+};
+
+const modeLabels: Record<RaceMode, string> = {
+  race: "Гонка",
+  claim: "Захват",
+};
+
+const claimRejections: Record<string, string> = {
+  "not-playing": "Игра для вас уже закончилась",
+  "invalid-path": "Такой путь нельзя выбрать",
+  "not-a-target": "Это число не среди целей",
+  "already-found": "Эта цель уже найдена",
+  "already-claimed": "Эту цель уже захватил другой игрок",
+};
+
+// Race times are shown to a tenth of a second: places are often decided by less than a second
+const formatRaceTime = (ms: number): string => {
+  const totalSeconds = Math.max(0, ms) / 1000;
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = (totalSeconds % 60).toFixed(1);
+  return `${mins.toString().padStart(2, "0")}:${secs.padStart(4, "0")}`;
+};
+
+const getJoinErrorMessage = (error: Error) => {
+  if (error.message.startsWith("403")) return "Это имя принадлежит зарегистрированному игроку. Войдите или выберите другое имя";
+  if (error.message.startsWith("404")) return "Комната не найдена";
+  if (error.message.includes("name-taken")) return "Это имя уже занято в комнате";
+  if (error.message.includes("full")) return `В комнате уже ${MAX_RACE_PLAYERS} игроков`;
+  if (error.message.includes("started")) return "Гонка уже началась";
+  return "Не удалось войти в комнату";
+};
+
+function RaceLobby() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [playerNickname, setPlayerNickname] = useState("");
+  const nickname = user ? user.username : playerNickname;
+  const [mode, setMode] = useState<RaceMode>("race");
+  const [difficulty, setDifficulty] = useState<Difficulty>("easy");
+  const [boardSize, setBoardSize] = useState<BoardSize>(5);
+  const [watchDelay, setWatchDelay] = useState<RaceWatchDelay>(0);
+  const [joinCode, setJoinCode] = useState("");
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateRace) => {
+      const res = await apiRequest("POST", "/api/race/rooms", data);
+      return (await res.json()) as RaceTicket;
+    },
+    onSuccess: (ticket) => {
+      saveRaceTicket(ticket);
+      setLocation(`/race/${ticket.code}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Ошибка",
+        description: getJoinErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <Card data-testid="card-create-race">
+        <CardHeader>
+          <CardTitle>Новая гонка</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Ваше имя</label>
+            <Input
+              value={nickname}
+              onChange={(e) => setPlayerNickname(e.target.value)}
+              placeholder="Игрок"
+              maxLength={32}
+              disabled={!!user}
+              data-testid="input-race-nickname"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Режим</label>
+            <Select value={mode} onValueChange={(value: RaceMode) => setMode(value)}>
+              <SelectTrigger data-testid="select-race-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="race">Гонка — каждый ищет все цели сам</SelectItem>
+                <SelectItem value="claim">Захват — цель достаётся первому</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Сложность</label>
+              <Select value={difficulty} onValueChange={(value: Difficulty) => setDifficulty(value)}>
+                <SelectTrigger data-testid="select-race-difficulty">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="easy">Легко</SelectItem>
+                  <SelectItem value="medium">Средне</SelectItem>
+                  <SelectItem value="hard">Сложно</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Размер поля</label>
+              <Select value={boardSize.toString()} onValueChange={(value) => setBoardSize(parseInt(value) as BoardSize)}>
+                <SelectTrigger data-testid="select-race-board-size">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="5">5×5</SelectItem>
+                  <SelectItem value="10">10×10</SelectItem>
+                  <SelectItem value="15">15×15</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Задержка трансляции</label>
+            <Select value={String(watchDelay)} onValueChange={(value) => setWatchDelay(Number(value) as RaceWatchDelay)}>
+              <SelectTrigger data-testid="select-race-watch-delay">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RACE_WATCH_DELAYS.map((value) => (
+                  <SelectItem key={value} value={String(value)}>
+                    {value === 0 ? "Без задержки" : `${value} с — игроки не подсмотрят`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => createMutation.mutate({ nickname: nickname.trim(), mode, difficulty, boardSize, watchDelay })}
+            disabled={!nickname.trim() || createMutation.isPending}
+            data-testid="button-create-race"
+          >
+            {createMutation.isPending ? "Создание..." : "Создать комнату"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-join-race">
+        <CardHeader>
+          <CardTitle>Войти по коду</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            value={joinCode}
+            onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+            placeholder="ABC234"
+            maxLength={6}
+            className="font-mono tracking-widest"
+            data-testid="input-race-code"
+          />
+          <Button
+            className="w-full"
+            variant="outline"
+            onClick={() => setLocation(`/race/${joinCode.trim()}`)}
+            disabled={!joinCode.trim()}
+            data-testid="button-open-race"
+          >
+            Открыть комнату
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function RaceJoin({ code, onJoined }: { code: string; onJoined: (ticket: RaceTicket) => void }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [playerNickname, setPlayerNickname] = useState("");
+  const nickname = user ? user.username : playerNickname;
+
+  const { data: room, isLoading, error } = useQuery<RaceRoomState>({
+    queryKey: [`/api/race/rooms/${code}`],
+    retry: false,
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/race/rooms/${code}/join`, { nickname: nickname.trim() });
+      return (await res.json()) as RaceTicket;
+    },
+    onSuccess: (ticket) => {
+      saveRaceTicket(ticket);
+      onJoined(ticket);
+    },
+    onError: (joinError) => {
+      toast({
+        title: "Ошибка",
+        description: getJoinErrorMessage(joinError),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-12 text-gray-600">Загрузка...</div>;
+  }
+
+  if (error || !room) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-gray-600">Комната {code} не найдена</CardContent>
+      </Card>
+    );
+  }
+
+  if (room.status !== "lobby") {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-gray-600">В комнате {code} гонка уже началась</CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="max-w-md mx-auto" data-testid="card-join-race">
+      <CardHeader>
+        <CardTitle>Комната {code}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          {modeLabels[room.mode]} • {difficultyLabels[room.difficulty]} • {room.boardSize}×{room.boardSize} • игроков: {room.players.length} из {MAX_RACE_PLAYERS}
+        </p>
+        <Input
+          value={nickname}
+          onChange={(e) => setPlayerNickname(e.target.value)}
+          placeholder="Ваше имя"
+          maxLength={32}
+          disabled={!!user}
+          data-testid="input-race-nickname"
+        />
+        <Button
+          className="w-full"
+          onClick={() => joinMutation.mutate()}
+          disabled={!nickname.trim() || joinMutation.isPending}
+          data-testid="button-join-race"
+        >
+          {joinMutation.isPending ? "Вход..." : "Войти в комнату"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RaceRoomView({ ticket }: { ticket: RaceTicket }) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { room, you, clockOffset, connection, start, select, claim, reconnect } = useRaceRoom(ticket, (message) => {
+    if (message.type === "claim") {
+      if (!message.ok) {
+        toast({ title: "Не засчитано", description: claimRejections[message.reason], variant: "destructive" });
+      } else if (message.points > 0) {
+        toast({ title: "Цель захвачена!", description: `${message.target}: +${message.points} очк.` });
+      } else {
+        toast({ title: "Цель найдена!", description: `Вы нашли ${message.target}` });
+      }
+    } else {
+      toast({ title: "Ошибка", description: message.message, variant: "destructive" });
+    }
+  });
+
+  const [selectedCells, setSelectedCells] = useState<Position[]>([]);
+  const [currentExpression, setCurrentExpression] = useState("");
+  const [currentResult, setCurrentResult] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const isDraggingRef = useRef(false);
+  // Targets already sent to the server, so that dragging over a path twice claims it once
+  const claimedRef = useRef(new Set<number>());
+
+  const board = room?.board ?? [];
+  const targets = room?.targets ?? [];
+  const foundTargets = new Set(you?.foundTargets ?? []);
+  // In claim mode a target belongs to whoever the server accepted first
+  const claimedBy = new Map((room?.claims ?? []).map((c) => [c.target, c.nickname] as const));
+  const me = room?.players.find((player) => player.nickname === you?.nickname);
+  const isClaimMode = room?.mode === "claim";
+  const hasStarted = room?.status === "playing" || room?.status === "finished";
+  const isRacing = room?.status === "playing" && me?.finishedIn === null;
+
+  useEffect(() => {
+    if (room?.status !== "playing" && room?.status !== "countdown") return;
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [room?.status]);
+
+  const elapsed = room?.startedAt ? (me?.finishedIn ?? now + clockOffset - room.startedAt) : 0;
+  const countdown = Math.max(1, Math.ceil(-elapsed / 1000));
+
+  const handleCellSelectionStart = (row: number, col: number) => {
+    if (!isRacing || board[row][col].type !== "number") return;
+    isDraggingRef.current = true;
+    setSelectedCells([{ row, col }]);
+    select([{ row, col }]);
+    setCurrentExpression(String(board[row][col].value));
+    setCurrentResult(null);
+  };
+
+  const handleCellSelectionMove = (row: number, col: number) => {
+    if (!isDraggingRef.current || !isRacing || selectedCells.length === 0) return;
+    if (selectedCells.some((cell) => cell.row === row && cell.col === col)) return;
+
+    const newSelectedCells = [...selectedCells, { row, col }];
+    const evaluation = evaluatePath(board, newSelectedCells);
+    if (!evaluation.ok) return;
+
+    const result = evaluation.result.ok ? evaluation.result.value : null;
+    setSelectedCells(newSelectedCells);
+    setCurrentExpression(evaluation.expression);
+    setCurrentResult(result);
+    select(newSelectedCells);
+
+    // The server checks the path again on its own copy of the board
+    if (
+      result !== null &&
+      targets.includes(result) &&
+      !foundTargets.has(result) &&
+      !claimedBy.has(result) &&
+      !claimedRef.current.has(result)
+    ) {
+      claimedRef.current.add(result);
+      claim(newSelectedCells);
+    }
+  };
+
+  const handleSelectionEnd = () => {
+    if (selectedCells.length > 0) select([]);
+    isDraggingRef.current = false;
+    setSelectedCells([]);
+  };
+
+  const handleCopyInvite = () => {
+    navigator.clipboard.writeText(`${window.location.origin}/race/${ticket.code}`).then(() => {
+      toast({
+        title: "Ссылка скопирована",
+        description: `Код комнаты: ${ticket.code}`,
+      });
+    });
+  };
+
+  const handleLeave = () => {
+    removeRaceTicket(ticket.code);
+    setLocation("/race");
+  };
+
+  if (connection === "replaced") {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-gray-600">Эта комната открыта в другой вкладке</CardContent>
+      </Card>
+    );
+  }
+
+  if (!room || !you) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-4">
+          <div className="text-gray-600">
+            {connection === "closed" ? "Не удалось подключиться к комнате" : "Подключение..."}
+          </div>
+          {connection === "closed" && (
+            <div className="flex gap-2 justify-center">
+              <Button onClick={reconnect} data-testid="button-reconnect">
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Переподключиться
+              </Button>
+              <Button variant="outline" onClick={handleLeave} data-testid="button-leave-race">
+                Выйти
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-4">
+        {connection === "closed" && (
+          <div className="flex items-center justify-between p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+            Соединение потеряно
+            <Button size="sm" variant="outline" onClick={reconnect} data-testid="button-reconnect">
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Переподключиться
+            </Button>
+          </div>
+        )}
+
+        {room.status === "lobby" ? (
+          <Card data-testid="card-race-lobby">
+            <CardContent className="py-12 text-center space-y-4">
+              <div className="text-sm text-gray-600">Код комнаты</div>
+              <div className="text-5xl font-mono font-bold tracking-widest text-indigo-900" data-testid="text-race-code">
+                {room.code}
+              </div>
+              <div className="text-gray-600">
+                {modeLabels[room.mode]} • {difficultyLabels[room.difficulty]} • {room.boardSize}×{room.boardSize}
+                {room.watchDelay > 0 && ` • трансляция с задержкой ${room.watchDelay} с`}
+              </div>
+              <div className="flex gap-2 justify-center">
+                <Button variant="outline" onClick={handleCopyInvite} data-testid="button-copy-invite">
+                  <Link2 className="w-4 h-4 mr-2" />
+                  Пригласить
+                </Button>
+                <Link href={`/watch/${room.code}`}>
+                  <Button variant="outline" data-testid="button-watch-race">
+                    <Tv className="w-4 h-4 mr-2" />
+                    Трансляция
+                  </Button>
+                </Link>
+                {you.isHost && (
+                  <Button onClick={start} disabled={connection !== "open"} data-testid="button-start-race">
+                    <Play className="w-4 h-4 mr-2" />
+                    Начать гонку
+                  </Button>
+                )}
+              </div>
+              {!you.isHost && <p className="text-sm text-gray-500">Гонку начнёт хозяин комнаты</p>}
+            </CardContent>
+          </Card>
+        ) : room.status === "countdown" ? (
+          <Card data-testid="card-race-countdown">
+            <CardContent className="py-16 text-center space-y-2">
+              <div className="text-gray-600">До старта</div>
+              <div className="text-7xl font-bold text-indigo-900" data-testid="text-race-countdown">
+                {countdown}
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card data-testid="card-board">
+            <CardContent className="py-6">
+              <div className="flex justify-center mb-4">
+                <div
+                  className="inline-grid gap-1"
+                  style={{ gridTemplateColumns: `repeat(${room.boardSize}, minmax(0, 1fr))` }}
+                  onMouseUp={handleSelectionEnd}
+                  onMouseLeave={handleSelectionEnd}
+                >
+                  {board.map((row, rowIndex) =>
+                    row.map((cell, colIndex) => {
+                      const isSelected = selectedCells.some((c) => c.row === rowIndex && c.col === colIndex);
+                      return (
+                        <div
+                          key={`${rowIndex}-${colIndex}`}
+                          className={`w-10 h-10 md:w-14 md:h-14 flex items-center justify-center font-bold text-lg rounded-lg transition-all border-2 select-none ${
+                            isRacing ? "cursor-pointer" : "opacity-60"
+                          } ${
+                            isSelected
+                              ? "bg-indigo-500 text-white border-indigo-600 scale-110 shadow-lg"
+                              : cell.type === "number"
+                                ? "bg-blue-100 hover:bg-blue-200 text-blue-900 border-blue-300"
+                                : "bg-amber-100 hover:bg-amber-200 text-amber-900 border-amber-300"
+                          }`}
+                          onMouseDown={() => handleCellSelectionStart(rowIndex, colIndex)}
+                          onMouseEnter={() => handleCellSelectionMove(rowIndex, colIndex)}
+                          data-testid={`cell-${rowIndex}-${colIndex}`}
+                        >
+                          {cell.value}
+                        </div>
+                      );
+                    })
+                  )}
+                </div>
+              </div>
+
+              {currentExpression && (
+                <div className="bg-white p-4 rounded-lg border-2 border-indigo-200 text-center text-2xl font-bold text-indigo-900">
+                  {currentExpression} = {currentResult ?? "?"}
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2 justify-center mt-4">
+                {targets.map((target) => {
+                  const owner = claimedBy.get(target);
+                  const isLost = owner !== undefined && owner !== you.nickname;
+                  return (
+                    <Badge
+                      key={target}
+                      variant={foundTargets.has(target) ? "default" : "outline"}
+                      className={`text-base ${isLost ? "text-gray-400" : ""}`}
+                      title={owner}
+                      data-testid={`target-${target}`}
+                    >
+                      <span className={isLost ? "line-through" : ""}>{target}</span>
+                      {isLost && <span className="ml-1 text-xs">{owner}</span>}
+                    </Badge>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <div className="space-y-6">
+        {hasStarted && (
+          <Card data-testid="card-race-time">
+            <CardContent className="py-6 text-center">
+              <div className="text-3xl font-bold font-mono text-indigo-900">{formatRaceTime(elapsed)}</div>
+              <div className="text-sm text-gray-600">
+                {isClaimMode
+                  ? `Ваши очки: ${me?.score ?? 0} • свободно целей: ${targets.length - claimedBy.size}`
+                  : me && me.finishedIn !== null
+                    ? "Вы финишировали"
+                    : `Найдено ${foundTargets.size} из ${targets.length}`}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card data-testid="card-race-players">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {room.status === "finished" ? <Trophy className="w-5 h-5 text-amber-500" /> : <Users className="w-5 h-5" />}
+              {room.status === "finished" ? `Итоги: ${modeLabels[room.mode].toLowerCase()}` : `Игроки (${room.players.length}/${MAX_RACE_PLAYERS})`}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {room.players.map((player) => (
+              <div key={player.nickname} className="space-y-1" data-testid={`race-player-${player.rank}`}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className={`flex items-center gap-2 ${player.connected ? "" : "text-gray-400"}`}>
+                    {hasStarted && <Badge variant="secondary">{player.rank}</Badge>}
+                    <span className={player.nickname === you.nickname ? "font-semibold" : ""}>{player.nickname}</span>
+                    {player.isHost && <span className="text-xs text-gray-500">хозяин</span>}
+                  </span>
+                  {isClaimMode ? (
+                    hasStarted && (
+                      <span className="flex items-center gap-1 text-gray-600">
+                        <Swords className="w-4 h-4" />
+                        {player.score} очк. • {player.found}
+                      </span>
+                    )
+                  ) : player.finishedIn !== null ? (
+                    <span className="flex items-center gap-1 font-mono text-green-700">
+                      <Flag className="w-4 h-4" />
+                      {formatRaceTime(player.finishedIn)}
+                    </span>
+                  ) : (
+                    hasStarted && (
+                      <span className="text-gray-600">{player.found}/{targets.length}</span>
+                    )
+                  )}
+                </div>
+                {hasStarted && targets.length > 0 && (
+                  <Progress value={(player.found / targets.length) * 100} className="h-2" />
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {room.status === "finished" && isClaimMode && room.claims.length > 0 && (
+          <Card data-testid="card-race-claims">
+            <CardHeader>
+              <CardTitle>Захваченные цели</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {room.claims.map((c) => (
+                <div key={c.target} className="flex justify-between text-sm" data-testid={`race-claim-${c.target}`}>
+                  <span>
+                    <span className="font-semibold">{c.target}</span> — {c.nickname}
+                  </span>
+                  <span className="text-gray-600">+{c.points}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {room.status === "finished" && (
+          <Button className="w-full" onClick={handleLeave} data-testid="button-new-race">
+            Новая гонка
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function Race() {
+  const params = useParams<{ code?: string }>();
+  const code = params.code?.toUpperCase();
+  const [ticket, setTicket] = useState<RaceTicket | null>(() => (code ? getRaceTicket(code) ?? null : null));
+
+  useEffect(() => {
+    setTicket(code ? getRaceTicket(code) ?? null : null);
+  }, [code]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 p-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl md:text-4xl font-bold text-indigo-900 flex items-center gap-2">
+            <Flag className="w-8 h-8" />
+            Гонка
+          </h1>
+          <Link href="/">
+            <Button variant="outline" data-testid="button-home">
+              <Home className="w-4 h-4 mr-2" />
+              На главную
+            </Button>
+          </Link>
+        </div>
+
+        {!code ? (
+          <RaceLobby />
+        ) : ticket ? (
+          <RaceRoomView ticket={ticket} />
+        ) : (
+          <RaceJoin code={code} onJoined={setTicket} />
+        )}
+      </div>
+    </div>
+  );
+}
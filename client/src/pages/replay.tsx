@@ -0,0 +1,293 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Film, Home, Pause, Play, RotateCcw, Target, User } from "lucide-react";
+import { evaluatePath } from "@shared/game-rules";
+import { getReplayDuration, getReplayFrame } from "@shared/replay";
+import type { GameReplayDetails } from "@shared/schema";
+
+const difficultyLabels: Record<string, string> = {
+  easy: "Легко",
+  medium: "Средне",
+  hard: "Сложно",
+};
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4, 8];
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+};
+
+const formatReplayTime = (ms: number): string => {
+  const totalSeconds = Math.max(0, ms) / 1000;
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = (totalSeconds % 60).toFixed(1);
+  return `${mins.toString().padStart(2, "0")}:${secs.padStart(4, "0")}`;
+};
+
+export default function Replay() {
+  // /replay/:id for classic games, /replay/custom/:boardId/:entryId for custom boards
+  const params = useParams<{ id?: string; boardId?: string; entryId?: string }>();
+  const replayUrl = params.boardId
+    ? `/api/custom-boards/${params.boardId}/leaderboard/${params.entryId}/replay`
+    : `/api/leaderboard/${params.id}/replay`;
+
+  const { data: replay, isLoading, error } = useQuery<GameReplayDetails>({
+    queryKey: [replayUrl],
+  });
+
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const timeline = replay?.timeline ?? [];
+  const duration = getReplayDuration(timeline);
+
+  // Advance by the real time passed, scaled by the speed
+  useEffect(() => {
+    if (!isPlaying) return;
+    let last = Date.now();
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const step = (now - last) * speed;
+      last = now;
+      setPosition((current) => Math.min(duration, current + step));
+    }, 50);
+    return () => clearInterval(timer);
+  }, [isPlaying, speed, duration]);
+
+  useEffect(() => {
+    if (isPlaying && position >= duration) setIsPlaying(false);
+  }, [isPlaying, position, duration]);
+
+  const handlePlayPause = () => {
+    if (!isPlaying && position >= duration) setPosition(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const frame = getReplayFrame(timeline, position);
+  const evaluation = replay && frame.selection.length > 0 ? evaluatePath(replay.board, frame.selection) : null;
+  const foundEvents = timeline.flatMap((event) => (event.type === "found" ? [event] : []));
+  const isSelected = (row: number, col: number) => frame.selection.some((cell) => cell.row === row && cell.col === col);
+
+  const boardLink = replay
+    ? replay.customBoardId !== null
+      ? `/game/custom/${replay.customBoardId}`
+      : `/?seed=${replay.seed}&size=${replay.boardSize}&d=${replay.difficulty}`
+    : "/";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 p-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl md:text-4xl font-bold text-indigo-900 flex items-center gap-2">
+            <Film className="w-8 h-8" />
+            Повтор игры
+          </h1>
+          <div className="flex gap-2">
+            {replay && (
+              <Link href={boardLink}>
+                <Button variant="outline" data-testid="button-play-board">
+                  <Target className="w-4 h-4 mr-2" />
+                  Сыграть это поле
+                </Button>
+              </Link>
+            )}
+            <Link href="/">
+              <Button variant="outline" data-testid="button-home">
+                <Home className="w-4 h-4 mr-2" />
+                На главную
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="text-gray-600">Загрузка...</div>
+          </div>
+        ) : error || !replay ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <Film className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+              {error?.message.startsWith("403") ? (
+                <>
+                  <h3 className="text-xl font-semibold text-gray-700 mb-2">Повтор пока закрыт</h3>
+                  <p className="text-gray-500">Повторы поля дня открываются, когда результаты за него больше не принимаются</p>
+                </>
+              ) : (
+                <>
+                  <h3 className="text-xl font-semibold text-gray-700 mb-2">Повтор не найден</h3>
+                  <p className="text-gray-500">Для этой игры нет записи</p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-4">
+              <Card data-testid="card-replay-board">
+                <CardContent className="py-6">
+                  <div className="flex justify-center mb-4">
+                    <div
+                      className="inline-grid gap-1"
+                      style={{ gridTemplateColumns: `repeat(${replay.boardSize}, minmax(0, 1fr))` }}
+                    >
+                      {replay.board.map((row, rowIndex) =>
+                        row.map((cell, colIndex) => (
+                          <div
+                            key={`${rowIndex}-${colIndex}`}
+                            className={`w-12 h-12 md:w-16 md:h-16 flex items-center justify-center font-bold text-xl rounded-lg border-2 select-none ${
+                              isSelected(rowIndex, colIndex)
+                                ? "bg-indigo-500 text-white border-indigo-600"
+                                : cell.type === "number"
+                                  ? "bg-blue-100 text-blue-900 border-blue-300"
+                                  : "bg-amber-100 text-amber-900 border-amber-300"
+                            }`}
+                            data-testid={`cell-${rowIndex}-${colIndex}`}
+                          >
+                            {cell.value}
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="h-10 text-center text-2xl font-bold text-indigo-900" data-testid="text-replay-expression">
+                    {evaluation?.ok && `${evaluation.expression} = ${evaluation.result.ok ? evaluation.result.value : "?"}`}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 justify-center">
+                    {replay.targets.map((target) => {
+                      const found = frame.foundTargets.includes(target);
+                      return (
+                        <Badge
+                          key={target}
+                          variant={found ? "secondary" : "outline"}
+                          className={`text-lg ${found ? "bg-green-100 text-green-800" : ""}`}
+                          data-testid={`target-${target}`}
+                        >
+                          {target}
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card data-testid="card-replay-controls">
+                <CardContent className="py-4 space-y-4">
+                  <Slider
+                    value={[position]}
+                    max={Math.max(duration, 1)}
+                    step={100}
+                    onValueChange={([value]) => setPosition(value)}
+                    data-testid="slider-replay-position"
+                  />
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2">
+                      <Button size="sm" onClick={handlePlayPause} data-testid="button-replay-play">
+                        {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setPosition(0);
+                          setIsPlaying(false);
+                        }}
+                        data-testid="button-replay-restart"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                      <span className="font-mono text-indigo-900" data-testid="text-replay-position">
+                        {formatReplayTime(position)} / {formatReplayTime(duration)}
+                      </span>
+                    </div>
+                    <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+                      <SelectTrigger className="w-28" data-testid="select-replay-speed">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PLAYBACK_SPEEDS.map((value) => (
+                          <SelectItem key={value} value={String(value)}>
+                            ×{value}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-6">
+              <Card data-testid="card-replay-result">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <User className="w-5 h-5" />
+                    <Link href={`/player/${encodeURIComponent(replay.nickname)}`} className="hover:underline">
+                      {replay.nickname}
+                    </Link>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm text-gray-700">
+                  <div>
+                    {replay.boardName ?? (replay.dailyDate ? `Эстафета дня ${replay.dailyDate}` : `Seed ${replay.seed}`)}
+                  </div>
+                  <div>
+                    {difficultyLabels[replay.difficulty] || replay.difficulty} • {replay.boardSize}×{replay.boardSize}
+                  </div>
+                  <div>
+                    Время: <span className="font-mono font-semibold">{formatTime(replay.time)}</span> • попыток: {replay.attempts}
+                  </div>
+                  <div className="text-gray-500">{new Date(replay.completedAt).toLocaleString("ru-RU")}</div>
+                  {replay.flagged && (
+                    <div className="flex items-center gap-2 p-2 rounded-lg bg-red-50 border border-red-200 text-red-800" data-testid="text-replay-flagged">
+                      <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                      Результат помечен как подозрительный и не попал в рейтинг
+                    </div>
+                  )}
+                  {!replay.recorded && (
+                    <p className="text-gray-500">
+                      Игра сыграна до появления записи повторов: ход игры восстановлен по засчитанным путям
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card data-testid="card-replay-found">
+                <CardHeader>
+                  <CardTitle>Найденные цели</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  {foundEvents.map((event) => (
+                    <button
+                      key={event.target}
+                      type="button"
+                      onClick={() => setPosition(event.at)}
+                      className={`w-full flex items-center justify-between p-2 rounded-lg text-left hover:bg-indigo-50 ${
+                        event.at <= position ? "text-gray-900" : "text-gray-400"
+                      }`}
+                      data-testid={`replay-found-${event.target}`}
+                    >
+                      <span className="font-semibold">{event.target}</span>
+                      <span className="font-mono">{formatReplayTime(event.at)}</span>
+                    </button>
+                  ))}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,513 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Settings, Swords, Trash2, Users, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { generateSeed, isValidSeed } from "@shared/board-generator";
+import { BOARD_SIZES, DIFFICULTIES, type BoardSize, type Difficulty } from "@shared/game-rules";
+import {
+  MAX_TOURNAMENT_ROUNDS,
+  type InsertTournament,
+  type Tournament,
+  type TournamentDetails,
+  type TournamentRound,
+  type TournamentRoundInput,
+} from "@shared/schema";
+
+const difficultyLabels: Record<string, string> = {
+  easy: "Легко",
+  medium: "Средне",
+  hard: "Сложно",
+};
+
+// A round as typed into the form; inputs stay strings until saving
+interface RoundDraft {
+  source: "board" | "seed";
+  boardId: string;
+  seed: string;
+  difficulty: Difficulty;
+  boardSize: string;
+  startsAt: string;
+  endsAt: string;
+  advancing: string;
+}
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (date: Date | string) => {
+  const value = new Date(date);
+  return new Date(value.getTime() - value.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const emptyRound = (): RoundDraft => ({
+  source: "seed",
+  boardId: "",
+  seed: generateSeed(),
+  difficulty: "medium",
+  boardSize: "10",
+  startsAt: "",
+  endsAt: "",
+  advancing: "",
+});
+
+const toDraft = (round: TournamentRound): RoundDraft => ({
+  source: round.customBoardId !== null ? "board" : "seed",
+  boardId: round.customBoardId !== null ? String(round.customBoardId) : "",
+  seed: round.seed ?? generateSeed(),
+  difficulty: (round.difficulty ?? "medium") as Difficulty,
+  boardSize: String(round.boardSize ?? 10),
+  startsAt: toLocalInput(round.startsAt),
+  endsAt: toLocalInput(round.endsAt),
+  advancing: round.advancing !== null ? String(round.advancing) : "",
+});
+
+// Returns the round for the API, or an error to show for the round
+const fromDraft = (draft: RoundDraft, isFinal: boolean): TournamentRoundInput | string => {
+  const startsAt = new Date(draft.startsAt);
+  const endsAt = new Date(draft.endsAt);
+  if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) return "укажите начало и конец";
+  if (endsAt <= startsAt) return "конец должен быть позже начала";
+  if (startsAt <= new Date()) return "начало не может быть в прошлом";
+
+  const advancing = Number(draft.advancing);
+  if (!isFinal && (!Number.isInteger(advancing) || advancing < 1)) return "укажите, сколько игроков проходит дальше";
+
+  const common = { startsAt, endsAt, advancing: isFinal ? null : advancing };
+  if (draft.source === "board") {
+    const boardId = Number(draft.boardId);
+    if (!Number.isInteger(boardId) || boardId <= 0) return "укажите номер поля";
+    return { ...common, customBoardId: boardId };
+  }
+  if (!isValidSeed(draft.seed)) return "seed — до 32 латинских букв, цифр, «-» или «_»";
+  return { ...common, seed: draft.seed, difficulty: draft.difficulty, boardSize: Number(draft.boardSize) as BoardSize };
+};
+
+export default function TournamentAdmin() {
+  const params = useParams<{ id?: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isNew = !params.id;
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [rounds, setRounds] = useState<RoundDraft[]>(() => [emptyRound()]);
+  const [loaded, setLoaded] = useState(false);
+
+  const { data: tournament, isLoading, error } = useQuery<TournamentDetails>({
+    queryKey: [`/api/tournaments/${params.id}`],
+    enabled: !isNew,
+  });
+
+  // Fill the form once with the saved tournament
+  useEffect(() => {
+    if (!tournament || loaded) return;
+    setName(tournament.name);
+    setDescription(tournament.description);
+    setRounds(tournament.rounds.map(toDraft));
+    setLoaded(true);
+  }, [tournament, loaded]);
+
+  const roundsLocked = !!tournament && tournament.status !== "registration";
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] });
+    if (params.id) queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${params.id}`] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: Partial<InsertTournament>) => {
+      const res = isNew
+        ? await apiRequest("POST", "/api/tournaments", data)
+        : await apiRequest("PATCH", `/api/tournaments/${params.id}`, data);
+      return (await res.json()) as Tournament;
+    },
+    onSuccess: (saved) => {
+      invalidate();
+      if (isNew) {
+        setLocation(`/tournaments/${saved.id}`);
+      } else {
+        toast({ title: "Турнир сохранён" });
+      }
+    },
+    onError: (saveError) => {
+      toast({
+        title: "Ошибка",
+        description: saveError.message.includes("not available")
+          ? "Некоторых полей с такими номерами нет в каталоге"
+          : saveError.message.includes("overlap")
+            ? "Раунды должны идти друг за другом и не пересекаться"
+            : saveError.message.startsWith("409")
+              ? "Турнир уже начался, раунды менять нельзя"
+              : "Не удалось сохранить турнир",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removePlayerMutation = useMutation({
+    mutationFn: (userId: number) => apiRequest("DELETE", `/api/tournaments/${params.id}/players/${userId}`),
+    onSuccess: invalidate,
+    onError: () => {
+      toast({
+        title: "Ошибка",
+        description: "Не удалось убрать игрока",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/tournaments/${params.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] });
+      setLocation("/tournaments");
+    },
+    onError: () => {
+      toast({
+        title: "Ошибка",
+        description: "Не удалось удалить турнир",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRound = (index: number, changes: Partial<RoundDraft>) => {
+    setRounds((current) => current.map((round, i) => (i === index ? { ...round, ...changes } : round)));
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast({
+        title: "Ошибка",
+        description: "Укажите название турнира",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (roundsLocked) {
+      saveMutation.mutate({ name: name.trim(), description: description.trim() });
+      return;
+    }
+
+    const parsed: TournamentRoundInput[] = [];
+    for (let i = 0; i < rounds.length; i++) {
+      const round = fromDraft(rounds[i], i === rounds.length - 1);
+      if (typeof round === "string") {
+        toast({
+          title: "Ошибка",
+          description: `Раунд ${i + 1}: ${round}`,
+          variant: "destructive",
+        });
+        return;
+      }
+      parsed.push(round);
+    }
+    saveMutation.mutate({ name: name.trim(), description: description.trim(), rounds: parsed });
+  };
+
+  const renderContent = () => {
+    if (!user) {
+      return (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-600">Войдите в аккаунт, чтобы проводить турниры</CardContent>
+        </Card>
+      );
+    }
+    if (!isNew && isLoading) {
+      return (
+        <div className="text-center py-12">
+          <div className="text-gray-600">Загрузка...</div>
+        </div>
+      );
+    }
+    if (!isNew && (error || !tournament)) {
+      return (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-600">Турнир не найден</CardContent>
+        </Card>
+      );
+    }
+    if (tournament && tournament.userId !== user.id) {
+      return (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-600">Управлять турниром может только организатор</CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <Card data-testid="card-tournament-form">
+          <CardHeader>
+            <CardTitle>Описание</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Название</label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={80}
+                placeholder="Осенний кубок"
+                data-testid="input-tournament-name"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Описание</label>
+              <Textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={1000}
+                placeholder="Правила, призы, кто может участвовать"
+                data-testid="input-tournament-description"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card data-testid="card-tournament-rounds">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-2">
+              Раунды
+              {!roundsLocked && rounds.length < MAX_TOURNAMENT_ROUNDS && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setRounds((current) => [...current, emptyRound()])}
+                  data-testid="button-add-round"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Добавить раунд
+                </Button>
+              )}
+            </CardTitle>
+            {roundsLocked && (
+              <p className="text-sm text-gray-600">Турнир уже начался: раунды менять нельзя, только название и описание</p>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {rounds.map((round, index) => {
+              const isFinal = index === rounds.length - 1;
+              return (
+                <div key={index} className="p-4 border rounded-lg space-y-3" data-testid={`round-form-${index + 1}`}>
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold">{isFinal && rounds.length > 1 ? "Финал" : `Раунд ${index + 1}`}</span>
+                    {!roundsLocked && rounds.length > 1 && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setRounds((current) => current.filter((_, i) => i !== index))}
+                        data-testid={`button-remove-round-${index + 1}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">Поле</label>
+                      <Select
+                        value={round.source}
+                        onValueChange={(value) => updateRound(index, { source: value as RoundDraft["source"] })}
+                        disabled={roundsLocked}
+                      >
+                        <SelectTrigger data-testid={`select-round-source-${index + 1}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="seed">По seed</SelectItem>
+                          <SelectItem value="board">Из каталога</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {round.source === "board" ? (
+                      <div>
+                        <label className="text-sm font-medium mb-2 block">Номер поля</label>
+                        <Input
+                          value={round.boardId}
+                          onChange={(e) => updateRound(index, { boardId: e.target.value })}
+                          placeholder="12"
+                          disabled={roundsLocked}
+                          data-testid={`input-round-board-${index + 1}`}
+                        />
+                      </div>
+                    ) : (
+                      <>
+                        <div>
+                          <label className="text-sm font-medium mb-2 block">Seed</label>
+                          <Input
+                            value={round.seed}
+                            onChange={(e) => updateRound(index, { seed: e.target.value })}
+                            maxLength={32}
+                            disabled={roundsLocked}
+                            data-testid={`input-round-seed-${index + 1}`}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-sm font-medium mb-2 block">Сложность</label>
+                          <Select
+                            value={round.difficulty}
+                            onValueChange={(value) => updateRound(index, { difficulty: value as Difficulty })}
+                            disabled={roundsLocked}
+                          >
+                            <SelectTrigger data-testid={`select-round-difficulty-${index + 1}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {DIFFICULTIES.map((difficulty) => (
+                                <SelectItem key={difficulty} value={difficulty}>
+                                  {difficultyLabels[difficulty]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <label className="text-sm font-medium mb-2 block">Размер</label>
+                          <Select
+                            value={round.boardSize}
+                            onValueChange={(value) => updateRound(index, { boardSize: value })}
+                            disabled={roundsLocked}
+                          >
+                            <SelectTrigger data-testid={`select-round-size-${index + 1}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {BOARD_SIZES.map((size) => (
+                                <SelectItem key={size} value={String(size)}>
+                                  {size}×{size}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">Начало</label>
+                      <Input
+                        type="datetime-local"
+                        value={round.startsAt}
+                        onChange={(e) => updateRound(index, { startsAt: e.target.value })}
+                        disabled={roundsLocked}
+                        data-testid={`input-round-starts-${index + 1}`}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">Конец</label>
+                      <Input
+                        type="datetime-local"
+                        value={round.endsAt}
+                        onChange={(e) => updateRound(index, { endsAt: e.target.value })}
+                        disabled={roundsLocked}
+                        data-testid={`input-round-ends-${index + 1}`}
+                      />
+                    </div>
+                    {!isFinal && (
+                      <div>
+                        <label className="text-sm font-medium mb-2 block">Проходят дальше</label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={round.advancing}
+                          onChange={(e) => updateRound(index, { advancing: e.target.value })}
+                          placeholder="8"
+                          disabled={roundsLocked}
+                          data-testid={`input-round-advancing-${index + 1}`}
+                        />
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+
+        <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-tournament">
+          {saveMutation.isPending ? "Сохранение..." : isNew ? "Создать турнир" : "Сохранить"}
+        </Button>
+
+        {tournament && (
+          <>
+            <Card data-testid="card-tournament-players">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Users className="w-5 h-5" />
+                  Участники ({tournament.players.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {tournament.players.length === 0 ? (
+                  <p className="text-sm text-gray-500">Пока никто не записался</p>
+                ) : (
+                  tournament.players.map((player) => (
+                    <div
+                      key={player.userId}
+                      className="flex items-center justify-between p-2 rounded-lg bg-gray-50"
+                      data-testid={`tournament-player-${player.userId}`}
+                    >
+                      <Link href={`/player/${encodeURIComponent(player.nickname)}`} className="font-medium hover:underline">
+                        {player.nickname}
+                      </Link>
+                      {!roundsLocked && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => removePlayerMutation.mutate(player.userId)}
+                          disabled={removePlayerMutation.isPending}
+                          data-testid={`button-remove-player-${player.userId}`}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <Button
+              variant="destructive"
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+              data-testid="button-delete-tournament"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Удалить турнир
+            </Button>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 p-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl md:text-4xl font-bold text-indigo-900 flex items-center gap-2">
+            {isNew ? <Swords className="w-8 h-8" /> : <Settings className="w-8 h-8" />}
+            {isNew ? "Новый турнир" : "Управление турниром"}
+          </h1>
+          <Link href={isNew ? "/tournaments" : `/tournaments/${params.id}`}>
+            <Button variant="outline" data-testid="button-back">
+              {isNew ? "Все турниры" : "К сетке"}
+            </Button>
+          </Link>
+        </div>
+
+        {renderContent()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, Crown, Settings, Swords, User, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  TournamentDetails,
+  TournamentRound,
+  TournamentRoundStatus,
+  TournamentStatus,
+} from "@shared/schema";
+
+const difficultyLabels: Record<string, string> = {
+  easy: "Легко",
+  medium: "Средне",
+  hard: "Сложно",
+};
+
+const statusLabels: Record<TournamentStatus, string> = {
+  registration: "Идёт запись",
+  running: "Идёт турнир",
+  finished: "Завершён",
+};
+
+const roundStatusLabels: Record<TournamentRoundStatus, string> = {
+  upcoming: "Скоро",
+  active: "Идёт",
+  finished: "Завершён",
+};
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+};
+
+const formatDateTime = (date: Date | string) =>
+  new Date(date).toLocaleString("ru-RU", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Rounds on generated boards open through the usual seed link
+const getRoundLink = (round: TournamentRound) =>
+  round.customBoardId !== null
+    ? `/game/custom/${round.customBoardId}`
+    : `/?seed=${round.seed}&size=${round.boardSize}&d=${round.difficulty}`;
+
+// The server sends the seed or the custom board of a round only once the round has started;
+// a hidden round on a custom board comes without difficulty and size either
+const getRoundBoardLabel = (round: TournamentRound) => {
+  if (round.customBoardId !== null) return `Поле №${round.customBoardId}`;
+  const board = round.seed !== null ? `Seed ${round.seed}` : "Поле откроется в начале раунда";
+  if (round.difficulty === null) return board;
+  return `${board} • ${difficultyLabels[round.difficulty] || round.difficulty} • ${round.boardSize}×${round.boardSize}`;
+};
+
+export default function Tournament() {
+  const params = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data: tournament, isLoading, error } = useQuery<TournamentDetails>({
+    queryKey: [`/api/tournaments/${params.id}`],
+    // Standings change as players finish their games
+    refetchInterval: 30000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${params.id}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] });
+  };
+
+  const registerMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/tournaments/${params.id}/players`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Вы записаны на турнир" });
+    },
+    onError: (registerError) => {
+      toast({
+        title: "Ошибка",
+        description: registerError.message.startsWith("409") ? "Запись на турнир закрыта" : "Не удалось записаться",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: (userId: number) => apiRequest("DELETE", `/api/tournaments/${params.id}/players/${userId}`),
+    onSuccess: invalidate,
+    onError: () => {
+      toast({
+        title: "Ошибка",
+        description: "Не удалось отменить запись",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isOrganiser = !!user && !!tournament && tournament.userId === user.id;
+  const isRegistered = !!user && !!tournament && tournament.players.some((player) => player.userId === user.id);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 p-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl md:text-4xl font-bold text-indigo-900 flex items-center gap-2" data-testid="text-tournament-name">
+            <Swords className="w-8 h-8" />
+            {tournament?.name ?? "Турнир"}
+          </h1>
+          <div className="flex gap-2">
+            {isOrganiser && (
+              <Link href={`/tournaments/${params.id}/manage`}>
+                <Button variant="outline" data-testid="button-manage-tournament">
+                  <Settings className="w-4 h-4 mr-2" />
+                  Управление
+                </Button>
+              </Link>
+            )}
+            <Link href="/tournaments">
+              <Button variant="outline" data-testid="button-tournaments">
+                Все турниры
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="text-gray-600">Загрузка...</div>
+          </div>
+        ) : error || !tournament ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <Swords className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+              <h3 className="text-xl font-semibold text-gray-700 mb-2">Турнир не найден</h3>
+              <p className="text-gray-500">Возможно, организатор его удалил</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <Card>
+              <CardContent className="py-6 space-y-3">
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+                  <Badge variant={tournament.status === "finished" ? "secondary" : "default"}>
+                    {statusLabels[tournament.status]}
+                  </Badge>
+                  <span className="flex items-center gap-2">
+                    <User className="w-4 h-4" />
+                    Организатор:{" "}
+                    <Link href={`/player/${encodeURIComponent(tournament.creatorName)}`} className="hover:underline">
+                      {tournament.creatorName}
+                    </Link>
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <Users className="w-4 h-4" />
+                    Участников: {tournament.players.length}
+                  </span>
+                </div>
+                {tournament.description && (
+                  <p className="text-gray-700 whitespace-pre-wrap" data-testid="text-tournament-description">
+                    {tournament.description}
+                  </p>
+                )}
+                {tournament.status === "registration" && (
+                  <div className="flex flex-wrap items-center gap-3 pt-2">
+                    {!user ? (
+                      <p className="text-sm text-gray-600">Войдите в аккаунт, чтобы записаться на турнир</p>
+                    ) : isRegistered ? (
+                      <>
+                        <span className="text-sm text-green-700">Вы записаны</span>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => withdrawMutation.mutate(user.id)}
+                          disabled={withdrawMutation.isPending}
+                          data-testid="button-withdraw"
+                        >
+                          Отменить запись
+                        </Button>
+                      </>
+                    ) : (
+                      <Button onClick={() => registerMutation.mutate()} disabled={registerMutation.isPending} data-testid="button-register">
+                        Записаться
+                      </Button>
+                    )}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500">
+                  Засчитываются игры, сыгранные из аккаунта участника во время раунда. Дальше проходят лучшие по времени.
+                </p>
+              </CardContent>
+            </Card>
+
+            {tournament.winner && (
+              <Card className="border-amber-300 bg-amber-50" data-testid="card-tournament-winner">
+                <CardContent className="py-6 flex items-center justify-center gap-3 text-2xl font-bold text-amber-900">
+                  <Crown className="w-8 h-8 text-amber-500" />
+                  Победитель: {tournament.winner}
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="flex gap-4 overflow-x-auto pb-2" data-testid="tournament-bracket">
+              {tournament.bracket.map(({ round, status, entrants }, index) => {
+                const isFinal = index === tournament.bracket.length - 1;
+                const isEntrant = !!user && !!entrants?.some((entrant) => entrant.nickname === user.username);
+                return (
+                  <Card key={round.id} className="min-w-72 flex-1" data-testid={`tournament-round-${index + 1}`}>
+                    <CardHeader>
+                      <CardTitle className="flex items-center justify-between gap-2">
+                        {isFinal ? "Финал" : `Раунд ${index + 1}`}
+                        <Badge variant={status === "active" ? "default" : "secondary"}>{roundStatusLabels[status]}</Badge>
+                      </CardTitle>
+                      <div className="space-y-1 text-sm text-gray-600">
+                        <div>{getRoundBoardLabel(round)}</div>
+                        <div className="flex items-center gap-2">
+                          <CalendarClock className="w-4 h-4" />
+                          {formatDateTime(round.startsAt)} — {formatDateTime(round.endsAt)}
+                        </div>
+                        {!isFinal && <div>Дальше проходят: {round.advancing}</div>}
+                      </div>
+                      {status === "active" && isEntrant && (
+                        <Link href={getRoundLink(round)}>
+                          <Button size="sm" className="w-full mt-2" data-testid={`button-play-round-${index + 1}`}>
+                            Играть
+                          </Button>
+                        </Link>
+                      )}
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      {entrants === null ? (
+                        <p className="text-sm text-gray-500">Участники станут известны после предыдущего раунда</p>
+                      ) : entrants.length === 0 ? (
+                        <p className="text-sm text-gray-500">Участников нет</p>
+                      ) : (
+                        entrants.map((entrant) => (
+                          <div
+                            key={entrant.nickname}
+                            className={`flex items-center justify-between p-2 rounded-lg ${
+                              entrant.advanced || (isFinal && status === "finished" && entrant.rank === 1)
+                                ? "bg-green-50 border border-green-200"
+                                : "bg-gray-50"
+                            }`}
+                            data-testid={`round-${index + 1}-entrant-${entrant.nickname}`}
+                          >
+                            <div className="flex items-center gap-2">
+                              <Badge variant="secondary">{entrant.rank ?? "—"}</Badge>
+                              <Link href={`/player/${encodeURIComponent(entrant.nickname)}`} className="font-medium hover:underline">
+                                {entrant.nickname}
+                              </Link>
+                            </div>
+                            <span className="font-mono text-indigo-900">
+                              {entrant.time !== null ? formatTime(entrant.time) : "—"}
+                            </span>
+                          </div>
+                        ))
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, Home, Plus, Puzzle, Swords, User, Users } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import type { TournamentStatus, TournamentSummary } from "@shared/schema";
+
+const statusLabels: Record<TournamentStatus, string> = {
+  registration: "Идёт запись",
+  running: "Идёт турнир",
+  finished: "Завершён",
+};
+
+const formatDateTime = (date: Date | string) =>
+  new Date(date).toLocaleString("ru-RU", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function Tournaments() {
+  const { user } = useAuth();
+
+  const { data: tournaments = [], isLoading } = useQuery<TournamentSummary[]>({
+    queryKey: ["/api/tournaments"],
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 p-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl md:text-4xl font-bold text-indigo-900 flex items-center gap-2">
+            <Swords className="w-8 h-8" />
+            Турниры
+          </h1>
+          <div className="flex gap-2">
+            {user && (
+              <Link href="/tournaments/new">
+                <Button data-testid="button-new-tournament">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Новый турнир
+                </Button>
+              </Link>
+            )}
+            <Link href="/custom-boards">
+              <Button variant="outline" data-testid="button-custom-boards">
+                <Puzzle className="w-4 h-4 mr-2" />
+                Все поля
+              </Button>
+            </Link>
+            <Link href="/">
+              <Button variant="outline" data-testid="button-home">
+                <Home className="w-4 h-4 mr-2" />
+                На главную
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="text-gray-600">Загрузка...</div>
+          </div>
+        ) : tournaments.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <Swords className="w-16 h-16 mx-auto text-gray-400 mb-4" />
+              <h3 className="text-xl font-semibold text-gray-700 mb-2">Турниров пока нет</h3>
+              <p className="text-gray-500">
+                {user ? "Проведите первый турнир на полях из каталога" : "Войдите в аккаунт, чтобы проводить турниры"}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {tournaments.map((tournament) => (
+              <Card key={tournament.id} className="hover:shadow-lg transition-shadow" data-testid={`tournament-card-${tournament.id}`}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <CardTitle className="truncate">{tournament.name}</CardTitle>
+                    <Badge variant={tournament.status === "finished" ? "secondary" : "default"}>
+                      {statusLabels[tournament.status]}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {tournament.description && (
+                    <p className="text-sm text-gray-700 line-clamp-3">{tournament.description}</p>
+                  )}
+                  <div className="space-y-2 text-sm text-gray-600">
+                    <div className="flex items-center gap-2">
+                      <User className="w-4 h-4" />
+                      <span>
+                        Организатор:{" "}
+                        <Link href={`/player/${encodeURIComponent(tournament.creatorName)}`} className="hover:underline">
+                          {tournament.creatorName}
+                        </Link>
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <CalendarClock className="w-4 h-4" />
+                      <span>
+                        {formatDateTime(tournament.startsAt)} — {formatDateTime(tournament.endsAt)}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Users className="w-4 h-4" />
+                      <span>
+                        Участников: {tournament.playerCount} • раундов: {tournament.roundCount}
+                      </span>
+                    </div>
+                  </div>
+                  <Link href={`/tournaments/${tournament.id}`}>
+                    <Button className="w-full" data-testid={`button-open-tournament-${tournament.id}`}>
+                      Открыть
+                    </Button>
+                  </Link>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useParams, useSearch } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Flag, Home, RefreshCw, Swords, Trophy, Tv } from "lucide-react";
+import { useRaceWatch } from "@/hooks/use-race-watch";
+import { evaluatePath } from "@shared/game-rules";
+import { RACE_WATCH_DELAYS, isRaceWatchDelay, type RaceMode, type RaceWatchDelay } from "@shared/race";
+
+const difficultyLabels: Record<string, string> = {
+  easy: "Легко",
+  medium: "Средне",
+  hard: "Сложно",
+};
+
+const modeLabels: Record<RaceMode, string> = {
+  race: "Гонка",
+  claim: "Захват",
+};
+
+// One color per seat in join order; a room holds at most 8 players
+const playerColors = [
+  { dot: "bg-rose-500", border: "border-rose-500" },
+  { dot: "bg-sky-500", border: "border-sky-500" },
+  { dot: "bg-emerald-500", border: "border-emerald-500" },
+  { dot: "bg-violet-500", border: "border-violet-500" },
+  { dot: "bg-orange-500", border: "border-orange-500" },
+  { dot: "bg-teal-500", border: "border-teal-500" },
+  { dot: "bg-fuchsia-500", border: "border-fuchsia-500" },
+  { dot: "bg-lime-500", border: "border-lime-500" },
+];
+
+const formatRaceTime = (ms: number): string => {
+  const totalSeconds = Math.max(0, ms) / 1000;
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = (totalSeconds % 60).toFixed(1);
+  return `${mins.toString().padStart(2, "0")}:${secs.padStart(4, "0")}`;
+};
+
+export default function Watch() {
+  const params = useParams<{ code: string }>();
+  const code = params.code.toUpperCase();
+  const search = useSearch();
+  const [, setLocation] = useLocation();
+  const requestedDelay = Number(new URLSearchParams(search).get("delay") ?? 0);
+  const chosenDelay: RaceWatchDelay = isRaceWatchDelay(requestedDelay) ? requestedDelay : 0;
+
+  const { room, players, clockOffset, connection, reconnect } = useRaceWatch(code, chosenDelay);
+  // The server never delays less than the host chose for the room
+  const delay = Math.max(chosenDelay, room?.watchDelay ?? 0);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (room?.status !== "playing" && room?.status !== "countdown") return;
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [room?.status]);
+
+  const board = room?.board ?? [];
+  const targets = room?.targets ?? [];
+  const hasStarted = room?.status === "playing" || room?.status === "finished";
+  const elapsed = room?.startedAt ? now + clockOffset - room.startedAt : 0;
+  const colorOf = (nickname: string) =>
+    playerColors[Math.max(0, players.findIndex((player) => player.nickname === nickname)) % playerColors.length];
+  const claimedBy = new Map((room?.claims ?? []).map((c) => [c.target, c.nickname] as const));
+
+  // Who is selecting each cell right now, so several players' paths can overlap
+  const selectingCell = (row: number, col: number) =>
+    players.filter((player) => player.selection.some((cell) => cell.row === row && cell.col === col));
+
+  const handleDelayChange = (value: string) => {
+    setLocation(value === "0" ? `/watch/${code}` : `/watch/${code}?delay=${value}`);
+  };
+
+  const renderRoom = () => {
+    if (!room) {
+      return (
+        <Card>
+          <CardContent className="py-12 text-center space-y-4">
+            <div className="text-gray-600">
+              {connection === "closed"
+                ? `Комната ${code} не найдена или трансляция недоступна`
+                : delay > 0
+                  ? `Подключение... Трансляция идёт с задержкой ${delay} с`
+                  : "Подключение..."}
+            </div>
+            {connection === "closed" && (
+              <Button onClick={reconnect} data-testid="button-reconnect">
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Переподключиться
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-4">
+          {connection === "closed" && (
+            <div className="flex items-center justify-between p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+              Соединение потеряно
+              <Button size="sm" variant="outline" onClick={reconnect} data-testid="button-reconnect">
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Переподключиться
+              </Button>
+            </div>
+          )}
+
+          {room.status === "lobby" ? (
+            <Card data-testid="card-watch-lobby">
+              <CardContent className="py-16 text-center space-y-4">
+                <div className="text-sm text-gray-600">Код комнаты</div>
+                <div className="text-6xl font-mono font-bold tracking-widest text-indigo-900">{room.code}</div>
+                <div className="text-gray-600">Ждём, пока хозяин начнёт игру</div>
+              </CardContent>
+            </Card>
+          ) : room.status === "countdown" ? (
+            <Card data-testid="card-watch-countdown">
+              <CardContent className="py-16 text-center space-y-2">
+                <div className="text-gray-600">До старта</div>
+                <div className="text-8xl font-bold text-indigo-900">{Math.max(1, Math.ceil(-elapsed / 1000))}</div>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card data-testid="card-watch-board">
+              <CardContent className="py-6">
+                <div className="flex justify-center mb-4">
+                  <div
+                    className="inline-grid gap-1"
+                    style={{ gridTemplateColumns: `repeat(${room.boardSize}, minmax(0, 1fr))` }}
+                  >
+                    {board.map((row, rowIndex) =>
+                      row.map((cell, colIndex) => {
+                        const selecting = selectingCell(rowIndex, colIndex);
+                        return (
+                          <div
+                            key={`${rowIndex}-${colIndex}`}
+                            className={`relative w-12 h-12 md:w-16 md:h-16 flex items-center justify-center font-bold text-xl rounded-lg select-none ${
+                              cell.type === "number" ? "bg-blue-100 text-blue-900" : "bg-amber-100 text-amber-900"
+                            } ${
+                              selecting.length > 0
+                                ? `border-4 ${colorOf(selecting[0].nickname).border}`
+                                : `border-2 ${cell.type === "number" ? "border-blue-300" : "border-amber-300"}`
+                            }`}
+                            data-testid={`cell-${rowIndex}-${colIndex}`}
+                          >
+                            {cell.value}
+                            {selecting.length > 0 && (
+                              <div className="absolute top-0.5 right-0.5 flex gap-0.5">
+                                {selecting.map((player) => (
+                                  <span key={player.nickname} className={`w-2 h-2 rounded-full ${colorOf(player.nickname).dot}`} />
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2 justify-center">
+                  {targets.map((target) => {
+                    const owner = claimedBy.get(target);
+                    return (
+                      <Badge
+                        key={target}
+                        variant={owner ? "secondary" : "outline"}
+                        className="text-lg gap-1"
+                        data-testid={`target-${target}`}
+                      >
+                        {owner && <span className={`w-2 h-2 rounded-full ${colorOf(owner).dot}`} />}
+                        <span className={owner ? "line-through" : ""}>{target}</span>
+                      </Badge>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          {room.status === "playing" && (
+            <Card data-testid="card-watch-time">
+              <CardContent className="py-6 text-center">
+                <div className="text-4xl font-bold font-mono text-indigo-900">{formatRaceTime(elapsed)}</div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card data-testid="card-watch-players">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {room.status === "finished" && <Trophy className="w-5 h-5 text-amber-500" />}
+                {room.status === "finished" ? "Итоги" : `Игроки (${room.players.length})`}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {room.players.map((player) => {
+                const watched = players.find((candidate) => candidate.nickname === player.nickname);
+                const selection = watched?.selection ?? [];
+                const evaluation = selection.length > 0 && board.length > 0 ? evaluatePath(board, selection) : null;
+                return (
+                  <div key={player.nickname} className="space-y-1" data-testid={`watch-player-${player.rank}`}>
+                    <div className="flex items-center justify-between">
+                      <span className={`flex items-center gap-2 ${player.connected ? "" : "text-gray-400"}`}>
+                        {hasStarted && <Badge variant="secondary">{player.rank}</Badge>}
+                        <span className={`w-3 h-3 rounded-full ${colorOf(player.nickname).dot}`} />
+                        <span className="font-semibold">{player.nickname}</span>
+                      </span>
+                      {room.mode === "claim" ? (
+                        hasStarted && (
+                          <span className="flex items-center gap-1 text-gray-600">
+                            <Swords className="w-4 h-4" />
+                            {player.score} очк. • {player.found}
+                          </span>
+                        )
+                      ) : player.finishedIn !== null ? (
+                        <span className="flex items-center gap-1 font-mono text-green-700">
+                          <Flag className="w-4 h-4" />
+                          {formatRaceTime(player.finishedIn)}
+                        </span>
+                      ) : (
+                        hasStarted && <span className="text-gray-600">{player.found}/{targets.length}</span>
+                      )}
+                    </div>
+                    {evaluation?.ok && (
+                      <div className="text-sm font-mono text-indigo-900">
+                        {evaluation.expression} = {evaluation.result.ok ? evaluation.result.value : "?"}
+                      </div>
+                    )}
+                    {room.mode === "race" && hasStarted && (
+                      <>
+                        <div className="flex flex-wrap gap-1">
+                          {(watched?.foundTargets ?? []).map((target) => (
+                            <Badge key={target} variant="outline" className="text-xs">{target}</Badge>
+                          ))}
+                        </div>
+                        {targets.length > 0 && <Progress value={(player.found / targets.length) * 100} className="h-2" />}
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 p-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+          <h1 className="text-3xl md:text-4xl font-bold text-indigo-900 flex items-center gap-2">
+            <Tv className="w-8 h-8" />
+            Трансляция {code}
+          </h1>
+          <div className="flex items-center gap-2">
+            {room && (
+              <span className="text-sm text-gray-600">
+                {modeLabels[room.mode]} • {difficultyLabels[room.difficulty]} • {room.boardSize}×{room.boardSize}
+              </span>
+            )}
+            <Select value={String(delay)} onValueChange={handleDelayChange}>
+              <SelectTrigger className="w-40" data-testid="select-watch-delay">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RACE_WATCH_DELAYS.map((value) => (
+                  <SelectItem key={value} value={String(value)} disabled={value < (room?.watchDelay ?? 0)}>
+                    {value === 0 ? "Без задержки" : `Задержка ${value} с`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Link href="/">
+              <Button variant="outline" data-testid="button-home">
+                <Home className="w-4 h-4 mr-2" />
+                На главную
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        {renderRoom()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { defineConfig } from "drizzle-kit";
+
+const url = process.env.DATABASE_URL ?? "sqlite:./data.db";
+
+export default defineConfig({
+  out: "./migrations/sqlite",
+  schema: "./shared/sqlite-schema.ts",
+  dialect: "sqlite",
+  dbCredentials: {
+    url: url.replace(/^sqlite:/, "file:"),
+  },
+});
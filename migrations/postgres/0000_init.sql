@@ -0,0 +1,47 @@
+-- Baseline: the schema as it was applied with "drizzle-kit push" before migrations.
+-- Every statement is idempotent, so databases created that way adopt migrations as is;
+-- columns and indexes added since then come in the following migrations.
+CREATE TABLE IF NOT EXISTS "custom_board_leaderboards" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"custom_board_id" integer NOT NULL,
+	"nickname" text NOT NULL,
+	"time" integer NOT NULL,
+	"attempts" integer NOT NULL,
+	"completed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "custom_boards" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"creator_name" text NOT NULL,
+	"difficulty" text NOT NULL,
+	"board_size" integer NOT NULL,
+	"board_data" jsonb NOT NULL,
+	"targets" integer[] NOT NULL,
+	"is_solved" boolean DEFAULT false NOT NULL,
+	"completion_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "leaderboard_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"nickname" text NOT NULL,
+	"time" integer NOT NULL,
+	"attempts" integer NOT NULL,
+	"difficulty" text NOT NULL,
+	"board_size" integer NOT NULL,
+	"completed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "custom_board_leaderboards" ADD CONSTRAINT "custom_board_leaderboards_custom_board_id_custom_boards_id_fk" FOREIGN KEY ("custom_board_id") REFERENCES "public"."custom_boards"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,30 @@
+-- Columns added after the baseline: accounts, seeds, daily runs, move logs and difficulty
+-- scores. ADD COLUMN IF NOT EXISTS keeps this safe for databases that already have them.
+ALTER TABLE "custom_board_leaderboards" ADD COLUMN IF NOT EXISTS "user_id" integer;--> statement-breakpoint
+ALTER TABLE "custom_board_leaderboards" ADD COLUMN IF NOT EXISTS "move_log" jsonb;--> statement-breakpoint
+ALTER TABLE "custom_board_leaderboards" ADD COLUMN IF NOT EXISTS "flagged" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "custom_boards" ADD COLUMN IF NOT EXISTS "user_id" integer;--> statement-breakpoint
+ALTER TABLE "custom_boards" ADD COLUMN IF NOT EXISTS "difficulty_score" integer;--> statement-breakpoint
+ALTER TABLE "leaderboard_entries" ADD COLUMN IF NOT EXISTS "user_id" integer;--> statement-breakpoint
+ALTER TABLE "leaderboard_entries" ADD COLUMN IF NOT EXISTS "seed" text;--> statement-breakpoint
+ALTER TABLE "leaderboard_entries" ADD COLUMN IF NOT EXISTS "daily_date" text;--> statement-breakpoint
+ALTER TABLE "leaderboard_entries" ADD COLUMN IF NOT EXISTS "move_log" jsonb;--> statement-breakpoint
+ALTER TABLE "leaderboard_entries" ADD COLUMN IF NOT EXISTS "flagged" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "custom_board_leaderboards" ADD CONSTRAINT "custom_board_leaderboards_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "custom_boards" ADD CONSTRAINT "custom_boards_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "leaderboard_entries" ADD CONSTRAINT "leaderboard_entries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "custom_board_leaderboards_board_idx" ON "custom_board_leaderboards" USING btree ("custom_board_id","completed_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "leaderboard_entries_category_idx" ON "leaderboard_entries" USING btree ("difficulty","board_size","completed_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "leaderboard_entries_daily_idx" ON "leaderboard_entries" USING btree ("daily_date","difficulty","board_size");
\ No newline at end of file
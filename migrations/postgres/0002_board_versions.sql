@@ -0,0 +1,22 @@
+CREATE TABLE "custom_board_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"custom_board_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"name" text NOT NULL,
+	"difficulty" text NOT NULL,
+	"board_size" integer NOT NULL,
+	"board_data" jsonb NOT NULL,
+	"targets" integer[] NOT NULL,
+	"difficulty_score" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "custom_board_leaderboards" ADD COLUMN "board_version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "custom_boards" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "custom_boards" ADD COLUMN "edit_token_hash" text;--> statement-breakpoint
+ALTER TABLE "custom_boards" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "custom_board_versions" ADD CONSTRAINT "custom_board_versions_custom_board_id_custom_boards_id_fk" FOREIGN KEY ("custom_board_id") REFERENCES "public"."custom_boards"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "custom_board_versions_board_version_idx" ON "custom_board_versions" USING btree ("custom_board_id","version");--> statement-breakpoint
+-- Existing boards start their history with version 1
+INSERT INTO "custom_board_versions" ("custom_board_id", "version", "name", "difficulty", "board_size", "board_data", "targets", "difficulty_score", "created_at")
+SELECT "id", 1, "name", "difficulty", "board_size", "board_data", "targets", "difficulty_score", "created_at" FROM "custom_boards";
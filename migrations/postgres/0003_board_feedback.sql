@@ -0,0 +1,26 @@
+CREATE TABLE "custom_board_comments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"custom_board_id" integer NOT NULL,
+	"nickname" text NOT NULL,
+	"user_id" integer,
+	"text" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "custom_board_ratings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"custom_board_id" integer NOT NULL,
+	"nickname" text NOT NULL,
+	"user_id" integer,
+	"stars" integer NOT NULL,
+	"rated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "custom_boards" ADD COLUMN "rating_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "custom_boards" ADD COLUMN "rating_sum" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "custom_board_comments" ADD CONSTRAINT "custom_board_comments_custom_board_id_custom_boards_id_fk" FOREIGN KEY ("custom_board_id") REFERENCES "public"."custom_boards"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_board_comments" ADD CONSTRAINT "custom_board_comments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_board_ratings" ADD CONSTRAINT "custom_board_ratings_custom_board_id_custom_boards_id_fk" FOREIGN KEY ("custom_board_id") REFERENCES "public"."custom_boards"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_board_ratings" ADD CONSTRAINT "custom_board_ratings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "custom_board_comments_board_idx" ON "custom_board_comments" USING btree ("custom_board_id","created_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "custom_board_ratings_board_nickname_idx" ON "custom_board_ratings" USING btree ("custom_board_id","nickname");
\ No newline at end of file
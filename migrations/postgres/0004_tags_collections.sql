@@ -0,0 +1,29 @@
+CREATE TABLE "board_collection_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"collection_id" integer NOT NULL,
+	"custom_board_id" integer NOT NULL,
+	"position" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "board_collections" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"creator_name" text NOT NULL,
+	"user_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "custom_board_tags" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"custom_board_id" integer NOT NULL,
+	"tag" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "board_collection_items" ADD CONSTRAINT "board_collection_items_collection_id_board_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."board_collections"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "board_collection_items" ADD CONSTRAINT "board_collection_items_custom_board_id_custom_boards_id_fk" FOREIGN KEY ("custom_board_id") REFERENCES "public"."custom_boards"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "board_collections" ADD CONSTRAINT "board_collections_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_board_tags" ADD CONSTRAINT "custom_board_tags_custom_board_id_custom_boards_id_fk" FOREIGN KEY ("custom_board_id") REFERENCES "public"."custom_boards"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "board_collection_items_collection_board_idx" ON "board_collection_items" USING btree ("collection_id","custom_board_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "custom_board_tags_board_tag_idx" ON "custom_board_tags" USING btree ("custom_board_id","tag");--> statement-breakpoint
+CREATE INDEX "custom_board_tags_tag_idx" ON "custom_board_tags" USING btree ("tag");
\ No newline at end of file
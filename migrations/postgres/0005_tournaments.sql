@@ -0,0 +1,37 @@
+CREATE TABLE "tournament_players" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tournament_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"nickname" text NOT NULL,
+	"registered_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tournament_rounds" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tournament_id" integer NOT NULL,
+	"position" integer NOT NULL,
+	"custom_board_id" integer,
+	"seed" text,
+	"difficulty" text,
+	"board_size" integer,
+	"starts_at" timestamp NOT NULL,
+	"ends_at" timestamp NOT NULL,
+	"advancing" integer
+);
+--> statement-breakpoint
+CREATE TABLE "tournaments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"creator_name" text NOT NULL,
+	"user_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tournament_players" ADD CONSTRAINT "tournament_players_tournament_id_tournaments_id_fk" FOREIGN KEY ("tournament_id") REFERENCES "public"."tournaments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tournament_players" ADD CONSTRAINT "tournament_players_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tournament_rounds" ADD CONSTRAINT "tournament_rounds_tournament_id_tournaments_id_fk" FOREIGN KEY ("tournament_id") REFERENCES "public"."tournaments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tournament_rounds" ADD CONSTRAINT "tournament_rounds_custom_board_id_custom_boards_id_fk" FOREIGN KEY ("custom_board_id") REFERENCES "public"."custom_boards"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tournaments" ADD CONSTRAINT "tournaments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "tournament_players_tournament_user_idx" ON "tournament_players" USING btree ("tournament_id","user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "tournament_rounds_tournament_position_idx" ON "tournament_rounds" USING btree ("tournament_id","position");
\ No newline at end of file
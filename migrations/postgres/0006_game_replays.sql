@@ -0,0 +1,12 @@
+CREATE TABLE "game_replays" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"leaderboard_entry_id" integer,
+	"custom_board_leaderboard_id" integer,
+	"timeline" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "game_replays" ADD CONSTRAINT "game_replays_leaderboard_entry_id_leaderboard_entries_id_fk" FOREIGN KEY ("leaderboard_entry_id") REFERENCES "public"."leaderboard_entries"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "game_replays" ADD CONSTRAINT "game_replays_custom_board_leaderboard_id_custom_board_leaderboards_id_fk" FOREIGN KEY ("custom_board_leaderboard_id") REFERENCES "public"."custom_board_leaderboards"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "game_replays_leaderboard_entry_idx" ON "game_replays" USING btree ("leaderboard_entry_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "game_replays_custom_board_leaderboard_idx" ON "game_replays" USING btree ("custom_board_leaderboard_id");
\ No newline at end of file
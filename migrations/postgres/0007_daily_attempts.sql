@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "leaderboard_entries_daily_player_idx" ON "leaderboard_entries" USING btree ("nickname","daily_date","difficulty","board_size") WHERE "leaderboard_entries"."daily_date" is not null;
\ No newline at end of file
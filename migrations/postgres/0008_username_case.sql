@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "users_username_lower_idx" ON "users" USING btree (lower("username"));
\ No newline at end of file
@@ -0,0 +1,57 @@
+-- Every statement is idempotent, so databases created with "drizzle-kit push" can adopt migrations as is.
+CREATE TABLE IF NOT EXISTS `custom_board_leaderboards` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`custom_board_id` integer NOT NULL,
+	`nickname` text NOT NULL,
+	`user_id` integer,
+	`time` integer NOT NULL,
+	`attempts` integer NOT NULL,
+	`move_log` text,
+	`flagged` integer DEFAULT false NOT NULL,
+	`completed_at` integer NOT NULL,
+	FOREIGN KEY (`custom_board_id`) REFERENCES `custom_boards`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `custom_board_leaderboards_board_idx` ON `custom_board_leaderboards` (`custom_board_id`,`completed_at`);--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS `custom_boards` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`creator_name` text NOT NULL,
+	`user_id` integer,
+	`difficulty` text NOT NULL,
+	`board_size` integer NOT NULL,
+	`board_data` text NOT NULL,
+	`targets` text NOT NULL,
+	`is_solved` integer DEFAULT false NOT NULL,
+	`completion_count` integer DEFAULT 0 NOT NULL,
+	`difficulty_score` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS `leaderboard_entries` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`nickname` text NOT NULL,
+	`user_id` integer,
+	`time` integer NOT NULL,
+	`attempts` integer NOT NULL,
+	`difficulty` text NOT NULL,
+	`board_size` integer NOT NULL,
+	`seed` text,
+	`daily_date` text,
+	`move_log` text,
+	`flagged` integer DEFAULT false NOT NULL,
+	`completed_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `leaderboard_entries_category_idx` ON `leaderboard_entries` (`difficulty`,`board_size`,`completed_at`);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `leaderboard_entries_daily_idx` ON `leaderboard_entries` (`daily_date`,`difficulty`,`board_size`);--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS `users` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`username` text NOT NULL,
+	`password` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS `users_username_unique` ON `users` (`username`);
\ No newline at end of file
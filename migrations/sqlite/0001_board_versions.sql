@@ -0,0 +1,22 @@
+CREATE TABLE `custom_board_versions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`custom_board_id` integer NOT NULL,
+	`version` integer NOT NULL,
+	`name` text NOT NULL,
+	`difficulty` text NOT NULL,
+	`board_size` integer NOT NULL,
+	`board_data` text NOT NULL,
+	`targets` text NOT NULL,
+	`difficulty_score` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`custom_board_id`) REFERENCES `custom_boards`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `custom_board_versions_board_version_idx` ON `custom_board_versions` (`custom_board_id`,`version`);--> statement-breakpoint
+ALTER TABLE `custom_board_leaderboards` ADD `board_version` integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `custom_boards` ADD `version` integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `custom_boards` ADD `edit_token_hash` text;--> statement-breakpoint
+ALTER TABLE `custom_boards` ADD `deleted_at` integer;--> statement-breakpoint
+-- Existing boards start their history with version 1
+INSERT INTO `custom_board_versions` (`custom_board_id`, `version`, `name`, `difficulty`, `board_size`, `board_data`, `targets`, `difficulty_score`, `created_at`)
+SELECT `id`, 1, `name`, `difficulty`, `board_size`, `board_data`, `targets`, `difficulty_score`, `created_at` FROM `custom_boards`;
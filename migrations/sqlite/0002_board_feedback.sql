@@ -0,0 +1,26 @@
+CREATE TABLE `custom_board_comments` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`custom_board_id` integer NOT NULL,
+	`nickname` text NOT NULL,
+	`user_id` integer,
+	`text` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`custom_board_id`) REFERENCES `custom_boards`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `custom_board_comments_board_idx` ON `custom_board_comments` (`custom_board_id`,`created_at`);--> statement-breakpoint
+CREATE TABLE `custom_board_ratings` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`custom_board_id` integer NOT NULL,
+	`nickname` text NOT NULL,
+	`user_id` integer,
+	`stars` integer NOT NULL,
+	`rated_at` integer NOT NULL,
+	FOREIGN KEY (`custom_board_id`) REFERENCES `custom_boards`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `custom_board_ratings_board_nickname_idx` ON `custom_board_ratings` (`custom_board_id`,`nickname`);--> statement-breakpoint
+ALTER TABLE `custom_boards` ADD `rating_count` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `custom_boards` ADD `rating_sum` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TABLE `board_collection_items` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`collection_id` integer NOT NULL,
+	`custom_board_id` integer NOT NULL,
+	`position` integer NOT NULL,
+	FOREIGN KEY (`collection_id`) REFERENCES `board_collections`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`custom_board_id`) REFERENCES `custom_boards`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `board_collection_items_collection_board_idx` ON `board_collection_items` (`collection_id`,`custom_board_id`);--> statement-breakpoint
+CREATE TABLE `board_collections` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`description` text DEFAULT '' NOT NULL,
+	`creator_name` text NOT NULL,
+	`user_id` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `custom_board_tags` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`custom_board_id` integer NOT NULL,
+	`tag` text NOT NULL,
+	FOREIGN KEY (`custom_board_id`) REFERENCES `custom_boards`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `custom_board_tags_board_tag_idx` ON `custom_board_tags` (`custom_board_id`,`tag`);--> statement-breakpoint
+CREATE INDEX `custom_board_tags_tag_idx` ON `custom_board_tags` (`tag`);
\ No newline at end of file
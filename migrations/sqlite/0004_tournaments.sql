@@ -0,0 +1,36 @@
+CREATE TABLE `tournament_players` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`tournament_id` integer NOT NULL,
+	`user_id` integer NOT NULL,
+	`nickname` text NOT NULL,
+	`registered_at` integer NOT NULL,
+	FOREIGN KEY (`tournament_id`) REFERENCES `tournaments`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `tournament_players_tournament_user_idx` ON `tournament_players` (`tournament_id`,`user_id`);--> statement-breakpoint
+CREATE TABLE `tournament_rounds` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`tournament_id` integer NOT NULL,
+	`position` integer NOT NULL,
+	`custom_board_id` integer,
+	`seed` text,
+	`difficulty` text,
+	`board_size` integer,
+	`starts_at` integer NOT NULL,
+	`ends_at` integer NOT NULL,
+	`advancing` integer,
+	FOREIGN KEY (`tournament_id`) REFERENCES `tournaments`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`custom_board_id`) REFERENCES `custom_boards`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `tournament_rounds_tournament_position_idx` ON `tournament_rounds` (`tournament_id`,`position`);--> statement-breakpoint
+CREATE TABLE `tournaments` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`description` text DEFAULT '' NOT NULL,
+	`creator_name` text NOT NULL,
+	`user_id` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,12 @@
+CREATE TABLE `game_replays` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`leaderboard_entry_id` integer,
+	`custom_board_leaderboard_id` integer,
+	`timeline` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`leaderboard_entry_id`) REFERENCES `leaderboard_entries`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`custom_board_leaderboard_id`) REFERENCES `custom_board_leaderboards`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `game_replays_leaderboard_entry_idx` ON `game_replays` (`leaderboard_entry_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `game_replays_custom_board_leaderboard_idx` ON `game_replays` (`custom_board_leaderboard_id`);
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `tournament_rounds` ADD `board_version` integer;--> statement-breakpoint
+-- Existing rounds count the results of the board version they are played on now
+UPDATE `tournament_rounds` SET `board_version` = (
+  SELECT `version` FROM `custom_boards` WHERE `custom_boards`.`id` = `tournament_rounds`.`custom_board_id`
+) WHERE `custom_board_id` IS NOT NULL;
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { isReservedName, resolveSessionSecret } from "./auth";
+import { storage } from "./storage";
+
+describe("resolveSessionSecret", () => {
+  it("uses SESSION_SECRET when it is set", () => {
+    expect(resolveSessionSecret({ SESSION_SECRET: "s3cret", NODE_ENV: "production" })).toBe("s3cret");
+  });
+
+  it("falls back to the development secret outside production", () => {
+    expect(resolveSessionSecret({ NODE_ENV: "development" })).toBe("arithmetic-relay-session");
+  });
+
+  it("refuses to start in production without SESSION_SECRET", () => {
+    expect(() => resolveSessionSecret({ NODE_ENV: "production" })).toThrow(/SESSION_SECRET/);
+  });
+});
+
+describe("isReservedName", () => {
+  it("reserves the names of registered players regardless of case", async () => {
+    await storage.createUser({ username: "Registered", password: "hash" });
+
+    expect(await isReservedName("registered")).toBe(true);
+    expect(await isReservedName(" Registered ")).toBe(true);
+    expect(await isReservedName("guest")).toBe(false);
+  });
+});
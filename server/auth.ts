@@ -0,0 +1,210 @@
+import type { Express, Request } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isUniqueViolation } from "./db";
+import { insertUserSchema, type PublicUser, type User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+/**
+ * Хеширует пароль через scrypt со случайной солью.
+ * Результат хранится в виде "хеш.соль".
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Сравнивает пароль с сохранённым хешем за постоянное время
+ */
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+/**
+ * Убирает хеш пароля из данных пользователя перед отправкой клиенту
+ */
+function toPublicUser({ password, ...user }: SelectUser): PublicUser {
+  return user;
+}
+
+export type PlayerIdentity = { nickname: string; userId: number | null };
+
+/**
+ * Определяет, под каким именем сохранить результат или поле.
+ * Вошедший игрок всегда выступает под своим именем пользователя.
+ * Анонимный игрок может взять любое имя, кроме занятых зарегистрированными
+ * игроками; для занятого имени возвращается null.
+ */
+export async function resolvePlayer(req: Request, nickname: string): Promise<PlayerIdentity | null> {
+  if (req.isAuthenticated()) {
+    return { nickname: req.user.username, userId: req.user.id };
+  }
+
+  if (await isReservedName(nickname)) return null;
+
+  return { nickname, userId: null };
+}
+
+/**
+ * Занято ли имя зарегистрированным игроком. Регистр не учитывается,
+ * как и при поиске пользователя по имени
+ */
+export async function isReservedName(nickname: string): Promise<boolean> {
+  return !!(await storage.getUserByUsername(nickname.trim()));
+}
+
+// Модераторы задаются списком имён пользователей через запятую, без учёта регистра
+const moderatorNames = new Set(
+  (process.env.MODERATOR_USERNAMES ?? "")
+    .split(",")
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name !== "")
+);
+
+/**
+ * Вошёл ли в аккаунт модератор
+ */
+export function isModerator(req: Request): boolean {
+  return req.isAuthenticated() && moderatorNames.has(req.user.username.toLowerCase());
+}
+
+/**
+ * Секрет подписи cookie сессий. Запасное значение лежит в открытом коде
+ * и позволило бы подделать сессию, поэтому в production без SESSION_SECRET
+ * сервер не запускается.
+ */
+export function resolveSessionSecret(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.SESSION_SECRET) return env.SESSION_SECRET;
+  if (env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production, otherwise session cookies can be forged");
+  }
+  return "arithmetic-relay-session";
+}
+
+/**
+ * Подключает сессии, стратегию входа по паролю и маршруты
+ * регистрации, входа, выхода и GET /api/me
+ */
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    secret: resolveSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Register a new account and sign in
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const validatedData = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(validatedData.username)) {
+        res.status(409).json({ message: "Username already taken" });
+        return;
+      }
+
+      const user = await storage.createUser({
+        ...validatedData,
+        password: await hashPassword(validatedData.password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else if (isUniqueViolation(error)) {
+        // The same name was registered by a simultaneous request
+        res.status(409).json({ message: "Username already taken" });
+      } else {
+        res.status(500).json({ message: "Failed to register" });
+      }
+    }
+  });
+
+  // Sign in with username and password
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        res.status(401).json({ message: "Invalid username or password" });
+        return;
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  // Sign out
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  // Get the signed-in user
+  app.get("/api/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ message: "Not signed in" });
+      return;
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
@@ -0,0 +1,223 @@
+import {
+  and,
+  desc,
+  eq,
+  gte,
+  isNull,
+  lt,
+  lte,
+  or,
+  sql,
+  type AnyColumn,
+  type SQL,
+  type Table,
+} from "drizzle-orm";
+import { z } from "zod";
+import type { CustomBoard, CustomBoardPage, CustomBoardQuery, CustomBoardSort, CustomBoardTag } from "@shared/schema";
+import { RATING_PRIOR_MEAN, RATING_PRIOR_WEIGHT, compareBayesianRatings } from "@shared/board-rating";
+
+/**
+ * Каталог пользовательских полей: поиск, фильтры, сортировка и курсорная
+ * пагинация. Условия общие для PostgreSQL и SQLite; MemStorage повторяет их в памяти.
+ *
+ * Курсор хранит значения колонок сортировки у последнего показанного поля,
+ * а порядок всегда заканчивается id, поэтому следующая страница начинается
+ * сразу после него, даже если между запросами появились новые поля.
+ */
+
+// Колонки каталога, одинаковые в PostgreSQL и SQLite
+export interface CatalogueTable {
+  id: AnyColumn;
+  name: AnyColumn;
+  creatorName: AnyColumn;
+  difficulty: AnyColumn;
+  boardSize: AnyColumn;
+  isSolved: AnyColumn;
+  completionCount: AnyColumn;
+  ratingSum: AnyColumn;
+  ratingCount: AnyColumn;
+  deletedAt: AnyColumn;
+}
+
+// Таблица тегов полей
+export type CatalogueTagTable = Table & {
+  customBoardId: AnyColumn;
+  tag: AnyColumn;
+};
+
+export type BoardCursor = Pick<CustomBoard, "id" | "completionCount" | "ratingSum" | "ratingCount">;
+
+const PRIOR_SUM = RATING_PRIOR_MEAN * RATING_PRIOR_WEIGHT;
+
+// Курсор — base64url от [id, completionCount, ratingSum, ratingCount]; ошибка разбора — ZodError
+const boardCursorSchema = z
+  .string()
+  .transform((cursor, ctx) => {
+    try {
+      return JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+      return z.NEVER;
+    }
+  })
+  .pipe(z.tuple([z.number().int(), z.number().int(), z.number().int(), z.number().int()]));
+
+export function encodeBoardCursor(board: BoardCursor): string {
+  const values = [board.id, board.completionCount, board.ratingSum, board.ratingCount];
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+export function decodeBoardCursor(cursor: string): BoardCursor {
+  const [id, completionCount, ratingSum, ratingCount] = boardCursorSchema.parse(cursor);
+  return { id, completionCount, ratingSum, ratingCount };
+}
+
+// Экранирует % и _ для LIKE ... ESCAPE '\'
+function likePattern(search: string): string {
+  return `%${search.toLowerCase().replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+/**
+ * Условия каталога: опубликованные поля, поиск и фильтры запроса
+ * и, если есть курсор, только поля после него.
+ * targetCount — число целей поля, в каждой базе вычисляется по-своему.
+ * tags — таблица тегов той же базы, нужна для фильтра по тегу.
+ * В SQLite lower() меняет регистр только у латиницы, поэтому там поиск
+ * по кириллице чувствителен к регистру.
+ */
+export function catalogueConditions(
+  table: CatalogueTable,
+  query: CustomBoardQuery,
+  targetCount: SQL,
+  tags: CatalogueTagTable,
+): SQL {
+  const conditions: (SQL | undefined)[] = [
+    eq(table.isSolved, true),
+    isNull(table.deletedAt),
+  ];
+
+  if (query.search) {
+    const pattern = likePattern(query.search);
+    conditions.push(or(
+      sql`lower(${table.name}) like ${pattern} escape '\\'`,
+      sql`lower(${table.creatorName}) like ${pattern} escape '\\'`,
+    ));
+  }
+  if (query.tag) {
+    conditions.push(sql`${table.id} in (select ${tags.customBoardId} from ${tags} where ${tags.tag} = ${query.tag})`);
+  }
+  if (query.difficulty) {
+    conditions.push(eq(table.difficulty, query.difficulty));
+  }
+  if (query.boardSize !== undefined) {
+    conditions.push(eq(table.boardSize, query.boardSize));
+  }
+  if (query.minTargets !== undefined) {
+    conditions.push(gte(targetCount, query.minTargets));
+  }
+  if (query.maxTargets !== undefined) {
+    conditions.push(lte(targetCount, query.maxTargets));
+  }
+  if (query.minRating !== undefined) {
+    // Средняя оценка не ниже minRating, без деления на число оценок
+    conditions.push(sql`${table.ratingCount} > 0 and ${table.ratingSum} >= cast(${query.minRating} as real) * ${table.ratingCount}`);
+  }
+  if (query.minCompletions !== undefined) {
+    conditions.push(gte(table.completionCount, query.minCompletions));
+  }
+  if (query.cursor) {
+    conditions.push(catalogueAfter(table, query.sort, decodeBoardCursor(query.cursor)));
+  }
+
+  return and(...conditions) as SQL;
+}
+
+/**
+ * Порядок каталога: новые сверху, по байесовскому среднему оценок
+ * или по числу прохождений. При равенстве выше более новое поле.
+ */
+export function catalogueOrder(table: CatalogueTable, sort: CustomBoardSort): SQL[] {
+  switch (sort) {
+    case "rating":
+      return [
+        desc(sql`(${table.ratingSum} + ${PRIOR_SUM}) * 1.0 / (${table.ratingCount} + ${RATING_PRIOR_WEIGHT})`),
+        desc(table.id),
+      ];
+    case "popular":
+      return [desc(table.completionCount), desc(table.id)];
+    case "newest":
+    default:
+      return [desc(table.id)];
+  }
+}
+
+// Поля, которые в порядке catalogueOrder идут после курсора
+function catalogueAfter(table: CatalogueTable, sort: CustomBoardSort, cursor: BoardCursor): SQL {
+  switch (sort) {
+    case "rating": {
+      // Сравнение байесовских средних перекрёстным умножением, как в compareBayesianRatings
+      const row = sql`(${table.ratingSum} + ${PRIOR_SUM}) * ${cursor.ratingCount + RATING_PRIOR_WEIGHT}`;
+      const last = sql`${cursor.ratingSum + PRIOR_SUM} * (${table.ratingCount} + ${RATING_PRIOR_WEIGHT})`;
+      return sql`(${row} < ${last} or (${row} = ${last} and ${table.id} < ${cursor.id}))`;
+    }
+    case "popular":
+      return or(
+        lt(table.completionCount, cursor.completionCount),
+        and(eq(table.completionCount, cursor.completionCount), lt(table.id, cursor.id)),
+      ) as SQL;
+    case "newest":
+    default:
+      return lt(table.id, cursor.id);
+  }
+}
+
+/**
+ * Тот же порядок, что и catalogueOrder, для полей в памяти
+ */
+export function compareCatalogue(sort: CustomBoardSort) {
+  switch (sort) {
+    case "rating":
+      return (a: BoardCursor, b: BoardCursor) => compareBayesianRatings(a, b) || b.id - a.id;
+    case "popular":
+      return (a: BoardCursor, b: BoardCursor) => b.completionCount - a.completionCount || b.id - a.id;
+    case "newest":
+    default:
+      return (a: BoardCursor, b: BoardCursor) => b.id - a.id;
+  }
+}
+
+/**
+ * Те же условия, что и catalogueConditions, для полей в памяти
+ */
+export function catalogueFilter(query: CustomBoardQuery, tags: CustomBoardTag[]) {
+  const search = query.search?.toLowerCase();
+  const tagged = query.tag
+    ? new Set(tags.filter(row => row.tag === query.tag).map(row => row.customBoardId))
+    : null;
+  const cursor = query.cursor ? decodeBoardCursor(query.cursor) : null;
+  const compare = compareCatalogue(query.sort);
+  return (board: CustomBoard) =>
+    board.isSolved &&
+    board.deletedAt === null &&
+    (!search || board.name.toLowerCase().includes(search) || board.creatorName.toLowerCase().includes(search)) &&
+    (!tagged || tagged.has(board.id)) &&
+    (!query.difficulty || board.difficulty === query.difficulty) &&
+    (query.boardSize === undefined || board.boardSize === query.boardSize) &&
+    (query.minTargets === undefined || board.targets.length >= query.minTargets) &&
+    (query.maxTargets === undefined || board.targets.length <= query.maxTargets) &&
+    (query.minRating === undefined || (board.ratingCount > 0 && board.ratingSum >= query.minRating * board.ratingCount)) &&
+    (query.minCompletions === undefined || board.completionCount >= query.minCompletions) &&
+    (!cursor || compare(cursor, board) < 0);
+}
+
+/**
+ * Собирает страницу из limit + 1 полей: лишнее поле только показывает,
+ * что есть следующая страница
+ */
+export function toCataloguePage(boards: CustomBoard[], limit: number): CustomBoardPage<CustomBoard> {
+  const page = boards.slice(0, limit);
+  return {
+    boards: page,
+    nextCursor: boards.length > limit ? encodeBoardCursor(page[page.length - 1]) : null,
+  };
+}
@@ -0,0 +1,13 @@
+import { runMigrations } from "../migrate";
+
+// npm run db:migrate — применяет миграции к базе из DATABASE_URL
+(async () => {
+  try {
+    const applied = await runMigrations();
+    console.log(applied ? "Migrations applied" : "DATABASE_URL is not set, nothing to migrate");
+    process.exit(0);
+  } catch (error) {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,21 @@
+import { storage } from "../storage";
+import { seedDemoData } from "../seed";
+
+// npm run db:seed — заполняет выбранное хранилище демонстрационными данными
+(async () => {
+  try {
+    const summary = await seedDemoData(storage);
+    if (summary) {
+      console.log(
+        `Seeded ${summary.customBoards} custom boards, ${summary.leaderboardEntries} leaderboard entries, ` +
+        `${summary.customBoardEntries} custom board results and ${summary.customBoardRatings} ratings`,
+      );
+    } else {
+      console.log("Demo data is already present, nothing to seed");
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error("Seeding failed:", error);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,75 @@
+import type { Request } from "express";
+import type {
+  BoardCollection,
+  BoardCollectionItem,
+  BoardCollectionSummary,
+  CollectionStanding,
+  Ranked,
+} from "@shared/schema";
+import type { BestBoardTime } from "./storage";
+import { withRanks } from "./ranking";
+
+// Сколько игроков показывает общий лидерборд подборки
+export const COLLECTION_LEADERBOARD_SIZE = 100;
+
+/**
+ * Может ли автор запроса менять подборку: подборки создаются только
+ * из аккаунта, поэтому достаточно сравнить пользователя
+ */
+export function canEditCollection(req: Request, collection: BoardCollection): boolean {
+  return req.isAuthenticated() && collection.userId === req.user.id;
+}
+
+/**
+ * Строки подборки для списка полей: позиция — порядок поля в списке
+ */
+export function toCollectionItems(collectionId: number, boardIds: number[]): Omit<BoardCollectionItem, "id">[] {
+  return boardIds.map((customBoardId, position) => ({ collectionId, customBoardId, position }));
+}
+
+/**
+ * Добавляет к подборкам id их полей; items должны идти по позиции
+ */
+export function attachBoardIds(
+  collections: BoardCollection[],
+  items: Pick<BoardCollectionItem, "collectionId" | "customBoardId">[],
+): BoardCollectionSummary[] {
+  return collections.map(collection => ({
+    ...collection,
+    boardIds: items.filter(item => item.collectionId === collection.id).map(item => item.customBoardId),
+  }));
+}
+
+/**
+ * Общий лидерборд подборки. В него попадают игроки, прошедшие все её поля;
+ * на каждом поле берётся лучшее время игрока, места — по сумме этих времён.
+ * При равной сумме игроки идут по имени.
+ */
+export function rankCollection(boardIds: number[], bests: BestBoardTime[]): Ranked<CollectionStanding>[] {
+  const positions = new Map(boardIds.map((id, index) => [id, index]));
+  const players = new Map<string, (number | null)[]>();
+
+  for (const best of bests) {
+    const position = positions.get(best.customBoardId);
+    if (position === undefined) continue;
+
+    const times = players.get(best.nickname) ?? new Array<number | null>(boardIds.length).fill(null);
+    const current = times[position];
+    times[position] = current === null ? best.time : Math.min(current, best.time);
+    players.set(best.nickname, times);
+  }
+
+  const standings: CollectionStanding[] = [];
+  players.forEach((times, nickname) => {
+    if (times.some(time => time === null)) return;
+    const boardTimes = times as number[];
+    standings.push({
+      nickname,
+      totalTime: boardTimes.reduce((sum, time) => sum + time, 0),
+      boardTimes,
+    });
+  });
+
+  standings.sort((a, b) => a.totalTime - b.totalTime || (a.nickname < b.nickname ? -1 : a.nickname > b.nickname ? 1 : 0));
+  return withRanks(standings.slice(0, COLLECTION_LEADERBOARD_SIZE), 0);
+}
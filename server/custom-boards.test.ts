@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { Request } from "express";
+import type { CustomBoard } from "@shared/schema";
+import { canEditBoard, createEditToken, toPublicBoard } from "./custom-boards";
+
+const { token, hash } = createEditToken();
+
+const board: CustomBoard = {
+  id: 1,
+  name: "Board",
+  creatorName: "author",
+  userId: null,
+  difficulty: "easy",
+  boardSize: 5,
+  boardData: [],
+  targets: [1],
+  isSolved: true,
+  completionCount: 0,
+  ratingCount: 0,
+  ratingSum: 0,
+  difficultyScore: null,
+  version: 1,
+  editTokenHash: hash,
+  deletedAt: null,
+  createdAt: new Date("2026-05-01T12:00:00Z"),
+};
+
+// Запрос гостя или вошедшего пользователя с этим id
+function request(userId?: number): Request {
+  return {
+    isAuthenticated: () => userId !== undefined,
+    user: userId !== undefined ? { id: userId } : undefined,
+  } as unknown as Request;
+}
+
+describe("createEditToken", () => {
+  it("keeps only a hash of the token", () => {
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(hash).not.toContain(token);
+  });
+
+  it("gives every board its own token", () => {
+    const other = createEditToken();
+    expect(other.token).not.toBe(token);
+    expect(other.hash).not.toBe(hash);
+  });
+});
+
+describe("canEditBoard", () => {
+  it("accepts the token issued at creation", () => {
+    expect(canEditBoard(request(), board, token)).toBe(true);
+  });
+
+  it("rejects a wrong, missing or non-string token", () => {
+    expect(canEditBoard(request(), board, createEditToken().token)).toBe(false);
+    expect(canEditBoard(request(), board, hash)).toBe(false);
+    expect(canEditBoard(request(), board, undefined)).toBe(false);
+    expect(canEditBoard(request(), board, [token])).toBe(false);
+  });
+
+  it("rejects any token for a board created without one", () => {
+    expect(canEditBoard(request(), { ...board, editTokenHash: null }, token)).toBe(false);
+  });
+
+  it("lets the account that created the board edit it without a token", () => {
+    const owned = { ...board, userId: 7, editTokenHash: null };
+    expect(canEditBoard(request(7), owned, undefined)).toBe(true);
+    expect(canEditBoard(request(8), owned, undefined)).toBe(false);
+  });
+});
+
+describe("toPublicBoard", () => {
+  it("drops the token hash", () => {
+    expect(toPublicBoard(board, ["quick"])).not.toHaveProperty("editTokenHash");
+    expect(toPublicBoard(board, ["quick"])).toMatchObject({ id: 1, tags: ["quick"] });
+  });
+});
@@ -0,0 +1,83 @@
+import type { Request, Response } from "express";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type { CustomBoard, CustomBoardTag, CustomBoardVersion, PublicCustomBoard } from "@shared/schema";
+import type { BoardValidation } from "@shared/board-validation";
+
+/**
+ * Создаёт токен редактирования поля и его хеш.
+ * Токен показывается автору один раз, в базе хранится только хеш.
+ */
+export function createEditToken(): { token: string; hash: string } {
+  const token = randomBytes(24).toString("base64url");
+  return { token, hash: hashEditToken(token) };
+}
+
+// Токен случайный и длинный, поэтому соль и медленный хеш не нужны
+function hashEditToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Может ли автор запроса менять поле: поле создано его аккаунтом
+ * или он прислал токен редактирования, выданный при создании
+ */
+export function canEditBoard(req: Request, board: CustomBoard, editToken: unknown): boolean {
+  if (req.isAuthenticated() && board.userId !== null && board.userId === req.user.id) {
+    return true;
+  }
+
+  if (typeof editToken !== "string" || !board.editTokenHash) {
+    return false;
+  }
+  const supplied = Buffer.from(hashEditToken(editToken), "hex");
+  const stored = Buffer.from(board.editTokenHash, "hex");
+  return supplied.length === stored.length && timingSafeEqual(supplied, stored);
+}
+
+/**
+ * Убирает хеш токена редактирования перед отправкой клиенту и добавляет теги
+ */
+export function toPublicBoard({ editTokenHash, ...board }: CustomBoard, tags: string[]): PublicCustomBoard {
+  return { ...board, tags };
+}
+
+/**
+ * Снимок поля для истории версий
+ */
+export function snapshotBoard(board: CustomBoard): Omit<CustomBoardVersion, "id" | "createdAt"> {
+  return {
+    customBoardId: board.id,
+    version: board.version,
+    name: board.name,
+    difficulty: board.difficulty,
+    boardSize: board.boardSize,
+    boardData: board.boardData,
+    targets: board.targets,
+    difficultyScore: board.difficultyScore,
+  };
+}
+
+/**
+ * Отвечает на непрошедшую проверку поле: 400 для неверно устроенного поля,
+ * 422 для поля, у которого есть недостижимые цели
+ */
+export function sendBoardValidationError(res: Response, validation: Exclude<BoardValidation, { ok: true }>): void {
+  if (validation.reason === "malformed") {
+    res.status(400).json({ message: "Invalid board", errors: validation.errors });
+  } else {
+    res.status(422).json({ message: "Some targets cannot be reached", unreachableTargets: validation.unreachableTargets });
+  }
+}
+
+/**
+ * Раскладывает строки тегов по полям, сохраняя порядок строк
+ */
+export function groupBoardTags(rows: Pick<CustomBoardTag, "customBoardId" | "tag">[]): Map<number, string[]> {
+  const tags = new Map<number, string[]>();
+  for (const row of rows) {
+    const boardTags = tags.get(row.customBoardId) ?? [];
+    boardTags.push(row.tag);
+    tags.set(row.customBoardId, boardTags);
+  }
+  return tags;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeStreak,
+  getDailySeed,
+  isAcceptedDailyDate,
+  isDailyClosed,
+  isOpenDailySeed,
+  recordDailyStart,
+  resolveDailySecret,
+  type DailyStart,
+} from "./daily";
+
+describe("resolveDailySecret", () => {
+  it("uses DAILY_SEED_SECRET when it is set", () => {
+    expect(resolveDailySecret({ DAILY_SEED_SECRET: "s3cret", NODE_ENV: "production" })).toBe("s3cret");
+  });
+
+  it("refuses to run in production without a secret", () => {
+    expect(() => resolveDailySecret({ NODE_ENV: "production" })).toThrow(/DAILY_SEED_SECRET/);
+  });
+
+  it("falls back to a development secret outside production", () => {
+    expect(resolveDailySecret({ NODE_ENV: "development" })).toBeTruthy();
+  });
+});
+
+describe("isAcceptedDailyDate", () => {
+  const now = new Date("2026-03-10T00:30:00Z");
+
+  it("accepts today and yesterday", () => {
+    expect(isAcceptedDailyDate("2026-03-10", now)).toBe(true);
+    expect(isAcceptedDailyDate("2026-03-09", now)).toBe(true);
+  });
+
+  it("rejects older and future dates", () => {
+    expect(isAcceptedDailyDate("2026-03-08", now)).toBe(false);
+    expect(isAcceptedDailyDate("2026-03-11", now)).toBe(false);
+  });
+});
+
+describe("isDailyClosed", () => {
+  const now = new Date("2026-03-10T00:30:00Z");
+
+  it("keeps a board open while its results are accepted", () => {
+    expect(isDailyClosed("2026-03-10", now)).toBe(false);
+    expect(isDailyClosed("2026-03-09", now)).toBe(false);
+    expect(isDailyClosed("2026-03-11", now)).toBe(false);
+  });
+
+  it("closes older boards", () => {
+    expect(isDailyClosed("2026-03-08", now)).toBe(true);
+  });
+});
+
+describe("isOpenDailySeed", () => {
+  const now = new Date("2026-03-10T00:30:00Z");
+
+  it("recognises the board of a day whose results are accepted", () => {
+    expect(isOpenDailySeed(getDailySeed("2026-03-10"), now)).toBe(true);
+    expect(isOpenDailySeed(getDailySeed("2026-03-09"), now)).toBe(true);
+  });
+
+  it("lets closed days and other seeds through", () => {
+    expect(isOpenDailySeed(getDailySeed("2026-03-08"), now)).toBe(false);
+    expect(isOpenDailySeed("20260310-000000000000", now)).toBe(false);
+    expect(isOpenDailySeed("practice", now)).toBe(false);
+  });
+});
+
+describe("recordDailyStart", () => {
+  const now = new Date("2026-03-10T00:30:00Z");
+
+  it("keeps the first start when the board is opened again", () => {
+    const starts: Record<string, DailyStart> = {};
+    const first = recordDailyStart(starts, "daily:2026-03-10:easy:5", "2026-03-10", now);
+    const again = recordDailyStart(starts, "daily:2026-03-10:easy:5", "2026-03-10", new Date(now.getTime() + 60_000));
+    expect(again).toBe(first);
+    expect(again).toEqual({ date: "2026-03-10", startedAt: now.getTime(), used: false });
+  });
+
+  it("drops starts of days that no longer take results", () => {
+    const starts: Record<string, DailyStart> = {
+      "daily:2026-03-08:easy:5": { date: "2026-03-08", startedAt: 0, used: true },
+      "daily:2026-03-09:easy:5": { date: "2026-03-09", startedAt: 0, used: true },
+    };
+    recordDailyStart(starts, "daily:2026-03-10:easy:5", "2026-03-10", now);
+    expect(Object.keys(starts)).toEqual(["daily:2026-03-09:easy:5", "daily:2026-03-10:easy:5"]);
+  });
+});
+
+describe("computeStreak", () => {
+  it("counts consecutive days up to yesterday", () => {
+    expect(computeStreak(["2026-03-07", "2026-03-08", "2026-03-09"], "2026-03-10")).toEqual({
+      current: 3,
+      best: 3,
+      lastPlayed: "2026-03-09",
+    });
+  });
+
+  it("resets the current streak after a missed day", () => {
+    expect(computeStreak(["2026-03-01", "2026-03-02", "2026-03-08"], "2026-03-10")).toEqual({
+      current: 0,
+      best: 2,
+      lastPlayed: "2026-03-08",
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { createHmac } from "crypto";
+import type { DailyStreak } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    dailyStarts?: Record<string, DailyStart>; // ранговые попытки по dailyGameKey
+  }
+}
+
+/**
+ * Секрет, из которого выводятся seed ежедневных полей: без него поле
+ * на завтра нельзя узнать заранее. Запасное значение лежит в открытом коде,
+ * поэтому в production сервер без DAILY_SEED_SECRET не запускается.
+ */
+export function resolveDailySecret(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.DAILY_SEED_SECRET) return env.DAILY_SEED_SECRET;
+  if (env.NODE_ENV === "production") {
+    throw new Error("DAILY_SEED_SECRET must be set in production, otherwise anyone can compute future daily boards");
+  }
+  return "arithmetic-relay-daily";
+}
+
+const DAILY_SECRET = resolveDailySecret();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Возвращает дату ежедневного испытания (UTC) в формате YYYY-MM-DD
+ */
+export function getDailyDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Seed ежедневного поля для даты. Один seed на дату: поля разных размеров
+ * и сложностей различаются, потому что генератор учитывает их в ключе
+ */
+export function getDailySeed(date: string): string {
+  const digest = createHmac("sha256", DAILY_SECRET).update(date).digest("hex").slice(0, 12);
+  return `${date.replace(/-/g, "")}-${digest}`;
+}
+
+/**
+ * Результат за ежедневное поле принимается в тот же день по UTC
+ * или на следующий — для игр, закончившихся после полуночи
+ */
+export function isAcceptedDailyDate(date: string, now: Date = new Date()): boolean {
+  const today = getDailyDate(now);
+  const yesterday = getDailyDate(new Date(now.getTime() - DAY_MS));
+  return date === today || date === yesterday;
+}
+
+/**
+ * Поле дня закрыто, когда результаты за него больше не принимаются.
+ * До этого повторы ежедневных игр не показываются: они раскрывают решения
+ * поля, которое другие игроки ещё могут сыграть
+ */
+export function isDailyClosed(date: string, now: Date = new Date()): boolean {
+  return date < getDailyDate(now) && !isAcceptedDailyDate(date, now);
+}
+
+/**
+ * Seed открытого поля дня. Тренировка на поле дня сохраняется как обычная
+ * игра без dailyDate, поэтому дату приходится узнавать по самому seed
+ */
+export function isOpenDailySeed(seed: string, now: Date = new Date()): boolean {
+  const match = /^(\d{4})(\d{2})(\d{2})-/.exec(seed);
+  if (!match) return false;
+
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return seed === getDailySeed(date) && !isDailyClosed(date, now);
+}
+
+// Ранговая попытка на поле дня: когда поле впервые выдано сессии и сохранён ли результат
+export interface DailyStart {
+  date: string;
+  startedAt: number;
+  used: boolean;
+}
+
+/**
+ * Ранговая попытка на поле дня начинается, когда поле впервые выдано сессии,
+ * и время результата считается от этого момента: повторное открытие поля
+ * продолжает ту же попытку. Попытки за дни, результаты которых больше
+ * не принимаются, из сессии удаляются.
+ *
+ * @param starts - Попытки сессии по ключу игры, меняются на месте
+ * @param key - Ключ игры из dailyGameKey
+ */
+export function recordDailyStart(
+  starts: Record<string, DailyStart>,
+  key: string,
+  date: string,
+  now: Date = new Date(),
+): DailyStart {
+  for (const [other, start] of Object.entries(starts)) {
+    if (!isAcceptedDailyDate(start.date, now)) delete starts[other];
+  }
+  starts[key] ??= { date, startedAt: now.getTime(), used: false };
+  return starts[key];
+}
+
+/**
+ * Считает серию дней подряд, в которые игрок проходил ежедневное поле
+ *
+ * @param dates - Даты сыгранных ежедневных полей (YYYY-MM-DD), в любом порядке
+ * @param today - Текущая дата ежедневного испытания
+ */
+export function computeStreak(dates: string[], today: string = getDailyDate()): DailyStreak {
+  const days = Array.from(new Set(dates))
+    .map(date => Date.parse(`${date}T00:00:00Z`) / DAY_MS)
+    .filter(day => Number.isFinite(day))
+    .sort((a, b) => a - b);
+
+  if (days.length === 0) {
+    return { current: 0, best: 0, lastPlayed: null };
+  }
+
+  let best = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    run = days[i] - days[i - 1] === 1 ? run + 1 : 1;
+    best = Math.max(best, run);
+  }
+
+  // Серия не прерывается, пока сегодняшнее поле ещё не сыграно
+  const todayDay = Date.parse(`${today}T00:00:00Z`) / DAY_MS;
+  const lastDay = days[days.length - 1];
+  const current = todayDay - lastDay <= 1 ? run : 0;
+
+  return {
+    current,
+    best,
+    lastPlayed: getDailyDate(new Date(lastDay * DAY_MS)),
+  };
+}
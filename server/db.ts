@@ -1,15 +1,54 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { drizzle as drizzleSqlite } from 'drizzle-orm/libsql';
+import { createClient } from '@libsql/client';
 import ws from "ws";
 import * as schema from "@shared/schema";
+import * as sqliteSchema from "@shared/sqlite-schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+// Connects lazily, so the server can run on in-memory storage without a database
+export function connectDatabase(connectionString = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  const pool = new Pool({ connectionString });
+  const db = drizzle({ client: pool, schema });
+  return { pool, db };
+}
+
+// Any PostgreSQL driver fits: Neon in production, PGlite in the storage tests
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Both "sqlite:" and libSQL's own "file:" scheme point at a local database file
+export function isSqliteUrl(connectionString: string): boolean {
+  return /^(sqlite|file):/.test(connectionString);
+}
+
+export function connectSqliteDatabase(connectionString: string) {
+  const client = createClient({ url: connectionString.replace(/^sqlite:/, "file:") });
+  const db = drizzleSqlite({ client, schema: sqliteSchema });
+  return { client, db };
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+export type SqliteDatabase = ReturnType<typeof connectSqliteDatabase>["db"];
+
+// Thrown by the in-memory storage where a database would reject a row by a unique index
+export class UniqueViolationError extends Error {}
+
+// A row was rejected by a unique index: PostgreSQL code 23505, SQLite's UNIQUE constraint
+// or the same check in the in-memory storage
+export function isUniqueViolation(error: unknown): boolean {
+  if (error instanceof UniqueViolationError) return true;
+  if (typeof error !== "object" || error === null) return false;
+
+  const { code, message, cause } = error as { code?: unknown; message?: unknown; cause?: unknown };
+  if (code === "23505") return true;
+  if (typeof message === "string" && message.includes("UNIQUE constraint failed")) return true;
+  return cause !== undefined && cause !== error && isUniqueViolation(cause);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { classicGameKey, customGameKey, readFinishedGame, signGameFinish, signGameStart } from "./game-starts";
+
+const game = classicGameKey("abc123", "easy", 5);
+
+describe("game tokens", () => {
+  it("time a game by the server clock", () => {
+    const finished = signGameFinish(signGameStart(game, 10_000), 42_000);
+    expect(readFinishedGame(finished!, game)).toEqual({ startedAt: 10_000, finishedAt: 42_000, durationMs: 32_000 });
+  });
+
+  it("do not accept a game that has not finished", () => {
+    expect(readFinishedGame(signGameStart(game, 10_000), game)).toBeNull();
+  });
+
+  it("cannot be finished twice", () => {
+    const finished = signGameFinish(signGameStart(game, 10_000), 42_000)!;
+    expect(signGameFinish(finished, 50_000)).toBeNull();
+  });
+
+  it("belong to one game", () => {
+    const finished = signGameFinish(signGameStart(customGameKey(7), 10_000), 42_000)!;
+    expect(readFinishedGame(finished, customGameKey(8))).toBeNull();
+    expect(readFinishedGame(finished, classicGameKey("abc123", "easy", 10))).toBeNull();
+  });
+
+  it("reject a changed start time", () => {
+    const [, signature] = signGameStart(game, 10_000).split(".");
+    const forged = Buffer.from(JSON.stringify({ game, startedAt: 0 })).toString("base64url");
+    expect(signGameFinish(`${forged}.${signature}`, 42_000)).toBeNull();
+    expect(signGameFinish("not-a-token", 42_000)).toBeNull();
+  });
+});
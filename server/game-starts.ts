@@ -0,0 +1,98 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { resolveSessionSecret } from "./auth";
+
+/**
+ * Подписанные начало и конец игры. Игра идёт в браузере, поэтому время из
+ * журнала ходов присылает клиент; чтобы его нельзя было просто выдумать,
+ * сервер выдаёт в начале игры токен со своим временем, а в конце — токен
+ * с временем начала и конца. Результат принимается только с токеном конца,
+ * и его время отсчитывается по часам сервера.
+ */
+
+// Подпись тем же секретом, что и cookie сессий: он обязателен в production
+const GAME_SECRET = resolveSessionSecret();
+
+/**
+ * Какая игра начата: классическое поле по seed или пользовательское поле.
+ * Токен одной игры не подходит для результата другой
+ */
+export function classicGameKey(seed: string, difficulty: string, boardSize: number): string {
+  return `classic:${seed}:${difficulty}:${boardSize}`;
+}
+
+// Ранговая попытка на поле дня; тренировки на нём же идут как классические игры
+export function dailyGameKey(date: string, difficulty: string, boardSize: number): string {
+  return `daily:${date}:${difficulty}:${boardSize}`;
+}
+
+export function customGameKey(customBoardId: number): string {
+  return `custom:${customBoardId}`;
+}
+
+interface GameTokenPayload {
+  game: string;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export interface FinishedGame {
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+}
+
+function sign(body: string): string {
+  return createHmac("sha256", GAME_SECRET).update(body).digest("base64url");
+}
+
+function encode(payload: GameTokenPayload): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${sign(body)}`;
+}
+
+function decode(token: string): GameTokenPayload | null {
+  const [body, signature, ...rest] = token.split(".");
+  if (!body || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(body));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString());
+    return typeof payload.game === "string" && Number.isInteger(payload.startedAt) ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Токен начала игры с временем сервера
+ */
+export function signGameStart(game: string, now: number = Date.now()): string {
+  return encode({ game, startedAt: now });
+}
+
+/**
+ * Отмечает конец игры: из токена начала получается токен с временем конца.
+ * Уже законченную игру закончить ещё раз нельзя
+ */
+export function signGameFinish(token: string, now: number = Date.now()): string | null {
+  const payload = decode(token);
+  if (!payload || payload.finishedAt !== undefined || payload.startedAt > now) return null;
+  return encode({ ...payload, finishedAt: now });
+}
+
+/**
+ * Проверяет токен конца игры для результата этой игры и возвращает
+ * её начало и длительность по часам сервера
+ */
+export function readFinishedGame(token: string, game: string): FinishedGame | null {
+  const payload = decode(token);
+  if (!payload || payload.game !== game || payload.finishedAt === undefined) return null;
+  return {
+    startedAt: payload.startedAt,
+    finishedAt: payload.finishedAt,
+    durationMs: payload.finishedAt - payload.startedAt,
+  };
+}
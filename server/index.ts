@@ -1,9 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { runMigrations } from "./migrate";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+// Recorded game timelines make score submissions larger than the default 100kb
+app.use(express.json({ limit: "2mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -37,6 +39,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Migrations are opt-in, so a deploy never changes the schema by surprise
+  if (process.env.MIGRATE_ON_BOOT === "true" && await runMigrations()) {
+    log("database migrations applied");
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
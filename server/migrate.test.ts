@@ -0,0 +1,103 @@
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+
+const MIGRATIONS = path.resolve(import.meta.dirname, "..", "migrations", "postgres");
+
+// Схема, которую создавал "drizzle-kit push" до появления миграций
+const PUSHED_BASELINE = `
+  CREATE TABLE "users" (
+    "id" serial PRIMARY KEY NOT NULL,
+    "username" text NOT NULL,
+    "password" text NOT NULL,
+    CONSTRAINT "users_username_unique" UNIQUE("username")
+  );
+  CREATE TABLE "leaderboard_entries" (
+    "id" serial PRIMARY KEY NOT NULL,
+    "nickname" text NOT NULL,
+    "time" integer NOT NULL,
+    "attempts" integer NOT NULL,
+    "difficulty" text NOT NULL,
+    "board_size" integer NOT NULL,
+    "completed_at" timestamp DEFAULT now() NOT NULL
+  );
+  CREATE TABLE "custom_boards" (
+    "id" serial PRIMARY KEY NOT NULL,
+    "name" text NOT NULL,
+    "creator_name" text NOT NULL,
+    "difficulty" text NOT NULL,
+    "board_size" integer NOT NULL,
+    "board_data" jsonb NOT NULL,
+    "targets" integer[] NOT NULL,
+    "is_solved" boolean DEFAULT false NOT NULL,
+    "completion_count" integer DEFAULT 0 NOT NULL,
+    "created_at" timestamp DEFAULT now() NOT NULL
+  );
+  CREATE TABLE "custom_board_leaderboards" (
+    "id" serial PRIMARY KEY NOT NULL,
+    "custom_board_id" integer NOT NULL,
+    "nickname" text NOT NULL,
+    "time" integer NOT NULL,
+    "attempts" integer NOT NULL,
+    "completed_at" timestamp DEFAULT now() NOT NULL
+  );
+  ALTER TABLE "custom_board_leaderboards" ADD CONSTRAINT "custom_board_leaderboards_custom_board_id_custom_boards_id_fk"
+    FOREIGN KEY ("custom_board_id") REFERENCES "public"."custom_boards"("id");
+`;
+
+async function columnsOf(client: PGlite, table: string): Promise<string[]> {
+  const { rows } = await client.query<{ column_name: string }>(
+    "select column_name from information_schema.columns where table_name = $1",
+    [table],
+  );
+  return rows.map(row => row.column_name);
+}
+
+describe("postgres migrations", () => {
+  let client: PGlite;
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("create the schema on an empty database", async () => {
+    client = new PGlite();
+    await migrate(drizzle(client), { migrationsFolder: MIGRATIONS });
+
+    expect(await columnsOf(client, "leaderboard_entries")).toEqual(
+      expect.arrayContaining(["user_id", "seed", "daily_date", "move_log", "flagged"]),
+    );
+    expect(await columnsOf(client, "game_replays")).toContain("timeline");
+  });
+
+  it("upgrade a database pushed from the baseline schema and keep its rows", async () => {
+    client = new PGlite();
+    await client.exec(PUSHED_BASELINE);
+    await client.exec(`
+      INSERT INTO "leaderboard_entries" ("nickname", "time", "attempts", "difficulty", "board_size")
+      VALUES ('old', 42, 7, 'easy', 5);
+    `);
+
+    await migrate(drizzle(client), { migrationsFolder: MIGRATIONS });
+
+    expect(await columnsOf(client, "leaderboard_entries")).toEqual(
+      expect.arrayContaining(["user_id", "seed", "daily_date", "move_log", "flagged"]),
+    );
+    expect(await columnsOf(client, "custom_boards")).toEqual(
+      expect.arrayContaining(["user_id", "difficulty_score", "version", "deleted_at"]),
+    );
+    const { rows } = await client.query<{ nickname: string; flagged: boolean }>(
+      'select "nickname", "flagged" from "leaderboard_entries"',
+    );
+    expect(rows).toEqual([{ nickname: "old", flagged: false }]);
+  });
+
+  it("can be applied again without changes", async () => {
+    client = new PGlite();
+    const db = drizzle(client);
+    await migrate(db, { migrationsFolder: MIGRATIONS });
+    await expect(migrate(db, { migrationsFolder: MIGRATIONS })).resolves.toBeUndefined();
+  });
+});
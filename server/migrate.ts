@@ -0,0 +1,38 @@
+import path from "path";
+import { migrate as migratePostgres } from "drizzle-orm/neon-serverless/migrator";
+import { migrate as migrateSqlite } from "drizzle-orm/libsql/migrator";
+import { connectDatabase, connectSqliteDatabase, isSqliteUrl } from "./db";
+
+// The bundled server lives in dist/, one level below the project root like server/
+const MIGRATIONS_ROOT = path.resolve(import.meta.dirname, "..", "migrations");
+
+/**
+ * Применяет ещё не применённые миграции к базе из DATABASE_URL.
+ * Каталог миграций выбирается по диалекту: migrations/postgres или migrations/sqlite.
+ * Открывает отдельное соединение и закрывает его по окончании.
+ *
+ * @returns false, если база не задана и данные хранятся в памяти
+ */
+export async function runMigrations(connectionString = process.env.DATABASE_URL): Promise<boolean> {
+  if (!connectionString) {
+    return false;
+  }
+
+  if (isSqliteUrl(connectionString)) {
+    const { client, db } = connectSqliteDatabase(connectionString);
+    try {
+      await migrateSqlite(db, { migrationsFolder: path.join(MIGRATIONS_ROOT, "sqlite") });
+    } finally {
+      client.close();
+    }
+  } else {
+    const { pool, db } = connectDatabase(connectionString);
+    try {
+      await migratePostgres(db, { migrationsFolder: path.join(MIGRATIONS_ROOT, "postgres") });
+    } finally {
+      await pool.end();
+    }
+  }
+
+  return true;
+}
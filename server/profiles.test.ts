@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  CLASSIC_HISTORY,
+  CUSTOM_HISTORY,
+  buildPlayerProfile,
+  classicHistoryItem,
+  compareHistory,
+  customHistoryItem,
+  decodeHistoryCursor,
+  encodeHistoryCursor,
+  summarizeResults,
+  toHistoryPage,
+  type ResultStats,
+} from "./profiles";
+
+const at = (minute: number) => new Date(Date.UTC(2026, 4, 1, 12, minute));
+
+function result(time: number, attempts: number, minute: number, difficulty = "easy", boardSize = 5): ResultStats {
+  return { difficulty, boardSize, time, attempts, completedAt: at(minute) };
+}
+
+describe("summarizeResults", () => {
+  it("groups results by difficulty and board size", () => {
+    const groups = summarizeResults([result(60, 3, 0), result(40, 5, 1), result(90, 1, 2, "hard", 10)]);
+
+    expect(groups).toEqual([
+      { difficulty: "easy", boardSize: 5, games: 2, totalTime: 100, totalAttempts: 8, best: result(40, 5, 1) },
+      { difficulty: "hard", boardSize: 10, games: 1, totalTime: 90, totalAttempts: 1, best: result(90, 1, 2, "hard", 10) },
+    ]);
+  });
+
+  it("breaks a tie in time by attempts, then by the earlier result", () => {
+    expect(summarizeResults([result(40, 3, 0), result(40, 2, 1)])[0].best).toEqual(result(40, 2, 1));
+    expect(summarizeResults([result(40, 2, 5), result(40, 2, 1)])[0].best).toEqual(result(40, 2, 1));
+  });
+});
+
+describe("buildPlayerProfile", () => {
+  it("merges the groups of both result tables", () => {
+    const stats = [
+      ...summarizeResults([result(60, 3, 0), result(50, 4, 1)]),
+      ...summarizeResults([result(30, 2, 2), result(45, 1, 3, "medium")]),
+    ];
+    const profile = buildPlayerProfile("alice", true, stats, []);
+
+    expect(profile).toMatchObject({ name: "alice", verified: true, totalGames: 4, averageTime: 46.3, averageAttempts: 2.5 });
+    expect(profile.personalBests).toEqual([
+      { difficulty: "easy", boardSize: 5, time: 30, attempts: 2, games: 3, completedAt: at(2).toISOString() },
+      { difficulty: "medium", boardSize: 5, time: 45, attempts: 1, games: 1, completedAt: at(3).toISOString() },
+    ]);
+  });
+
+  it("has no averages without results", () => {
+    expect(buildPlayerProfile("bob", false, [], [])).toMatchObject({
+      totalGames: 0, averageTime: null, averageAttempts: null, personalBests: [],
+    });
+  });
+});
+
+describe("player history", () => {
+  const classic = (id: number, minute: number, dailyDate: string | null = null) => classicHistoryItem({
+    id, dailyDate, difficulty: "easy", boardSize: 5, time: 30, attempts: 2, completedAt: at(minute),
+  });
+  const custom = (id: number, minute: number) => customHistoryItem({
+    id, customBoardId: 7, difficulty: "hard", boardSize: 10, time: 30, attempts: 2, completedAt: at(minute),
+  });
+
+  it("orders results newest first, then by table and id", () => {
+    const items = [classic(1, 0), custom(1, 0), classic(2, 0), custom(2, 1)];
+    expect([...items].sort(compareHistory).map(({ source, id }) => [source, id])).toEqual([
+      [CUSTOM_HISTORY, 2], [CUSTOM_HISTORY, 1], [CLASSIC_HISTORY, 2], [CLASSIC_HISTORY, 1],
+    ]);
+  });
+
+  it("labels results by mode", () => {
+    expect(classic(1, 0).result.mode).toBe("classic");
+    expect(classic(1, 0, "2026-05-01").result.mode).toBe("daily");
+    expect(custom(1, 0).result).toMatchObject({ mode: "custom", customBoardId: 7 });
+  });
+
+  it("gives a cursor only when there is another page", () => {
+    const page = toHistoryPage([classic(1, 0), custom(1, 2), classic(2, 1)], 2);
+    expect(page.results.map(({ completedAt }) => completedAt)).toEqual([at(2).toISOString(), at(1).toISOString()]);
+    expect(decodeHistoryCursor(page.nextCursor!)).toEqual({ source: CLASSIC_HISTORY, id: 2, completedAt: at(1) });
+
+    expect(toHistoryPage([classic(1, 0)], 2).nextCursor).toBeNull();
+  });
+
+  it("round-trips the cursor and rejects a malformed one", () => {
+    const cursor = { source: CUSTOM_HISTORY, id: 12, completedAt: at(3) };
+    expect(decodeHistoryCursor(encodeHistoryCursor(cursor))).toEqual(cursor);
+    expect(() => decodeHistoryCursor("garbage")).toThrow();
+    expect(() => decodeHistoryCursor(Buffer.from(JSON.stringify([1, 5, 1])).toString("base64url"))).toThrow();
+  });
+});
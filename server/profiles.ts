@@ -0,0 +1,282 @@
+import { and, desc, eq, lt, lte, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import { z } from "zod";
+import type {
+  CustomBoard,
+  CustomBoardLeaderboard,
+  LeaderboardEntry,
+  PersonalBest,
+  PlayerHistoryPage,
+  PlayerProfile,
+  PlayerResult,
+} from "@shared/schema";
+import { DIFFICULTIES } from "@shared/game-rules";
+
+/**
+ * Профиль игрока. Итоги — личные рекорды и средние — считаются в базе
+ * группировкой по сложности и размеру поля, а история результатов отдаётся
+ * по страницам с курсором, как каталог полей: ни для того, ни для другого
+ * не нужно загружать все результаты игрока.
+ *
+ * Результаты лежат в двух таблицах: обычные игры вместе с эстафетой дня
+ * и пользовательские поля. История упорядочена по времени результата
+ * с точностью до миллисекунды, затем по таблице и id; курсор хранит эти
+ * значения у последнего показанного результата.
+ */
+
+// Итоги игрока по одной сложности и размеру поля в одной из таблиц результатов
+export interface PlayerStatsGroup {
+  difficulty: string;
+  boardSize: number;
+  games: number;
+  totalTime: number;
+  totalAttempts: number;
+  best: ResultStats;
+}
+
+// Показатели одного результата, из которых считаются итоги
+export interface ResultStats {
+  difficulty: string;
+  boardSize: number;
+  time: number;
+  attempts: number;
+  completedAt: Date;
+}
+
+// Лучший результат — меньшее время, при равенстве меньше попыток, затем более ранний
+function isBetter(a: ResultStats, b: ResultStats): boolean {
+  return (
+    a.time - b.time ||
+    a.attempts - b.attempts ||
+    a.completedAt.getTime() - b.completedAt.getTime()
+  ) < 0;
+}
+
+const groupKey = ({ difficulty, boardSize }: { difficulty: string; boardSize: number }) => `${difficulty}:${boardSize}`;
+
+/**
+ * Итоги по результатам в памяти, для MemStorage
+ */
+export function summarizeResults(results: ResultStats[]): PlayerStatsGroup[] {
+  const groups = new Map<string, PlayerStatsGroup>();
+  for (const result of results) {
+    const group = groups.get(groupKey(result));
+    if (!group) {
+      groups.set(groupKey(result), {
+        difficulty: result.difficulty,
+        boardSize: result.boardSize,
+        games: 1,
+        totalTime: result.time,
+        totalAttempts: result.attempts,
+        best: result,
+      });
+      continue;
+    }
+    group.games++;
+    group.totalTime += result.time;
+    group.totalAttempts += result.attempts;
+    if (isBetter(result, group.best)) group.best = result;
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Добавляет к сгруппированным в базе итогам лучшие результаты.
+ * bestResults — результаты с наименьшим временем своей группы, среди них
+ * выбирается лучший по попыткам и дате
+ */
+export function attachBests(
+  groups: Omit<PlayerStatsGroup, "best">[],
+  bestResults: ResultStats[],
+): PlayerStatsGroup[] {
+  const bests = new Map<string, ResultStats>();
+  for (const result of bestResults) {
+    const best = bests.get(groupKey(result));
+    if (!best || isBetter(result, best)) bests.set(groupKey(result), result);
+  }
+  return groups.flatMap(group => {
+    const best = bests.get(groupKey(group));
+    return best ? [{ ...group, best }] : [];
+  });
+}
+
+// Из какой таблицы результат: обычные игры и эстафета дня или пользовательские поля
+export type HistorySource = 0 | 1;
+export const CLASSIC_HISTORY: HistorySource = 0;
+export const CUSTOM_HISTORY: HistorySource = 1;
+
+// Результат истории вместе с тем, по чему он упорядочен
+export interface HistoryItem {
+  source: HistorySource;
+  id: number;
+  completedAt: Date;
+  result: PlayerResult;
+}
+
+export type HistoryCursor = Omit<HistoryItem, "result">;
+
+// Колонки результата, нужные истории
+type ClassicHistoryRow = Pick<LeaderboardEntry, "id" | "dailyDate" | "difficulty" | "boardSize" | "time" | "attempts" | "completedAt">;
+type CustomHistoryRow = Pick<CustomBoardLeaderboard, "id" | "customBoardId" | "time" | "attempts" | "completedAt"> & {
+  difficulty: string; // параметры версии поля, на которой показан результат
+  boardSize: number;
+};
+
+export function classicHistoryItem(entry: ClassicHistoryRow): HistoryItem {
+  return {
+    source: CLASSIC_HISTORY,
+    id: entry.id,
+    completedAt: entry.completedAt,
+    result: {
+      mode: entry.dailyDate ? "daily" : "classic",
+      difficulty: entry.difficulty,
+      boardSize: entry.boardSize,
+      time: entry.time,
+      attempts: entry.attempts,
+      customBoardId: null,
+      completedAt: entry.completedAt.toISOString(),
+    },
+  };
+}
+
+export function customHistoryItem(entry: CustomHistoryRow): HistoryItem {
+  return {
+    source: CUSTOM_HISTORY,
+    id: entry.id,
+    completedAt: entry.completedAt,
+    result: {
+      mode: "custom",
+      difficulty: entry.difficulty,
+      boardSize: entry.boardSize,
+      time: entry.time,
+      attempts: entry.attempts,
+      customBoardId: entry.customBoardId,
+      completedAt: entry.completedAt.toISOString(),
+    },
+  };
+}
+
+// Курсор — base64url от [completedAt в мс, source, id]; ошибка разбора — ZodError
+const historyCursorSchema = z
+  .string()
+  .transform((cursor, ctx) => {
+    try {
+      return JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+      return z.NEVER;
+    }
+  })
+  .pipe(z.tuple([z.number().int(), z.union([z.literal(CLASSIC_HISTORY), z.literal(CUSTOM_HISTORY)]), z.number().int()]));
+
+export function encodeHistoryCursor({ completedAt, source, id }: HistoryCursor): string {
+  return Buffer.from(JSON.stringify([completedAt.getTime(), source, id])).toString("base64url");
+}
+
+export function decodeHistoryCursor(cursor: string): HistoryCursor {
+  const [completedAt, source, id] = historyCursorSchema.parse(cursor);
+  return { completedAt: new Date(completedAt), source, id };
+}
+
+// Порядок истории: новые сверху, затем по таблице и id
+export function compareHistory(a: HistoryCursor, b: HistoryCursor): number {
+  return b.completedAt.getTime() - a.completedAt.getTime() || b.source - a.source || b.id - a.id;
+}
+
+/**
+ * Результаты таблицы source, которые в порядке истории идут после курсора.
+ * completedAt — время результата с точностью до миллисекунды в этой базе,
+ * column — колонка времени, через неё значение курсора передаётся в базу
+ */
+export function historyAfter(
+  completedAt: SQL | AnyColumn,
+  column: AnyColumn,
+  id: AnyColumn,
+  source: HistorySource,
+  cursor: HistoryCursor,
+): SQL {
+  const time = sql`${completedAt}`;
+  const at = sql.param(cursor.completedAt, column);
+  if (source < cursor.source) return lte(time, at);
+  if (source > cursor.source) return lt(time, at);
+  return or(lt(time, at), and(eq(time, at), lt(id, cursor.id))) as SQL;
+}
+
+export function historyOrder(completedAt: SQL | AnyColumn, id: AnyColumn): SQL[] {
+  return [desc(completedAt), desc(id)];
+}
+
+/**
+ * Собирает страницу из результатов обеих таблиц, каждая не больше limit + 1:
+ * лишний результат только показывает, что есть следующая страница
+ */
+export function toHistoryPage(items: HistoryItem[], limit: number): PlayerHistoryPage {
+  const sorted = [...items].sort(compareHistory);
+  const page = sorted.slice(0, limit);
+  return {
+    results: page.map(item => item.result),
+    nextCursor: sorted.length > limit ? encodeHistoryCursor(page[page.length - 1]) : null,
+  };
+}
+
+/**
+ * Собирает профиль игрока: личные рекорды по сложности и размеру поля,
+ * средние показатели и созданные игроком поля
+ *
+ * @param name - Имя игрока
+ * @param verified - Имя принадлежит зарегистрированному аккаунту
+ * @param stats - Итоги по обеим таблицам результатов
+ * @param boards - Поля, созданные игроком
+ */
+export function buildPlayerProfile(
+  name: string,
+  verified: boolean,
+  stats: PlayerStatsGroup[],
+  boards: CustomBoard[],
+): PlayerProfile {
+  const merged = new Map<string, PlayerStatsGroup>();
+  for (const group of stats) {
+    const other = merged.get(groupKey(group));
+    merged.set(groupKey(group), other
+      ? {
+          ...group,
+          games: group.games + other.games,
+          totalTime: group.totalTime + other.totalTime,
+          totalAttempts: group.totalAttempts + other.totalAttempts,
+          best: isBetter(group.best, other.best) ? group.best : other.best,
+        }
+      : group);
+  }
+
+  const groups = Array.from(merged.values());
+  const totalGames = groups.reduce((sum, group) => sum + group.games, 0);
+  const average = (total: number) => (totalGames > 0 ? Math.round((total / totalGames) * 10) / 10 : null);
+
+  const personalBests: PersonalBest[] = groups.map(group => ({
+    difficulty: group.difficulty,
+    boardSize: group.boardSize,
+    time: group.best.time,
+    attempts: group.best.attempts,
+    games: group.games,
+    completedAt: group.best.completedAt.toISOString(),
+  }));
+
+  return {
+    name,
+    verified,
+    totalGames,
+    averageTime: average(groups.reduce((sum, group) => sum + group.totalTime, 0)),
+    averageAttempts: average(groups.reduce((sum, group) => sum + group.totalAttempts, 0)),
+    personalBests: personalBests.sort((a, b) =>
+      a.boardSize - b.boardSize ||
+      (DIFFICULTIES as readonly string[]).indexOf(a.difficulty) - (DIFFICULTIES as readonly string[]).indexOf(b.difficulty)
+    ),
+    authoredBoards: boards.map(({ id, name, difficulty, boardSize, completionCount, createdAt }) => ({
+      id,
+      name,
+      difficulty,
+      boardSize,
+      completionCount,
+      createdAt,
+    })),
+  };
+}
@@ -0,0 +1,238 @@
+import { EventEmitter } from "events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+import { RACE_COUNTDOWN_MS, RACE_RECONNECT_GRACE_MS, scoreClaim, type RaceServerMessage } from "@shared/race";
+import { evaluatePath, type Cell, type Position } from "@shared/game-rules";
+import { RaceRooms } from "./race";
+
+// Ровно то, чем RaceRooms пользуется у сокета: события, send, close и readyState
+class FakeSocket extends EventEmitter {
+  readyState: number = WebSocket.OPEN;
+  sent: RaceServerMessage[] = [];
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = WebSocket.CLOSED;
+    this.emit("close");
+  }
+
+  message(data: unknown) {
+    this.emit("message", Buffer.from(JSON.stringify(data)));
+  }
+}
+
+// Прямой путь на поле, который даёт цель: поле генерирует сервер, поэтому путь ищется перебором
+function findPath(board: Cell[][], target: number): Position[] {
+  const directions = [[0, 1], [1, 0], [0, -1], [-1, 0]];
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board.length; col++) {
+      for (const [dRow, dCol] of directions) {
+        for (let length = 3; length <= board.length; length += 2) {
+          const path = Array.from({ length }, (_, i) => ({ row: row + dRow * i, col: col + dCol * i }));
+          const evaluation = evaluatePath(board, path);
+          if (evaluation.ok && evaluation.result.ok && evaluation.result.value === target) return path;
+        }
+      }
+    }
+  }
+  throw new Error(`No path to ${target}`);
+}
+
+function connect(rooms: RaceRooms, code: string, token: string): FakeSocket {
+  const socket = new FakeSocket();
+  rooms.connect(code, token, socket as unknown as WebSocket);
+  return socket;
+}
+
+describe("RaceRooms", () => {
+  let rooms: RaceRooms;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    rooms = new RaceRooms();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function startRace(mode: "race" | "claim") {
+    const host = rooms.create("host", { mode, difficulty: "easy", boardSize: 5, watchDelay: 0 });
+    const guest = rooms.join(host.code, "guest");
+    if (!guest.ok) throw new Error(guest.reason);
+
+    const hostSocket = connect(rooms, host.code, host.token);
+    const guestSocket = connect(rooms, host.code, guest.ticket.token);
+    hostSocket.message({ type: "start" });
+    return { code: host.code, hostSocket, guestSocket, guestToken: guest.ticket.token };
+  }
+
+  it("finishes a race once every player has left without finishing", () => {
+    const { code, hostSocket, guestSocket } = startRace("race");
+    vi.advanceTimersByTime(RACE_COUNTDOWN_MS);
+    expect(rooms.getState(code)?.status).toBe("playing");
+
+    hostSocket.close();
+    guestSocket.close();
+    expect(rooms.getState(code)?.status).toBe("playing");
+    vi.advanceTimersByTime(RACE_RECONNECT_GRACE_MS);
+    expect(rooms.getState(code)?.status).toBe("finished");
+  });
+
+  it("finishes a race when everyone left during the countdown", () => {
+    const { code, hostSocket, guestSocket } = startRace("race");
+    hostSocket.close();
+    guestSocket.close();
+
+    vi.advanceTimersByTime(RACE_COUNTDOWN_MS);
+    expect(rooms.getState(code)?.status).toBe("playing");
+    vi.advanceTimersByTime(RACE_RECONNECT_GRACE_MS);
+    expect(rooms.getState(code)?.status).toBe("finished");
+  });
+
+  it("finishes a claim game once every player has left", () => {
+    const { code, hostSocket, guestSocket } = startRace("claim");
+    vi.advanceTimersByTime(RACE_COUNTDOWN_MS);
+
+    hostSocket.close();
+    guestSocket.close();
+    vi.advanceTimersByTime(RACE_RECONNECT_GRACE_MS);
+    expect(rooms.getState(code)?.status).toBe("finished");
+  });
+
+  it("waits for a player who reconnects within the grace period", () => {
+    const { code, hostSocket, guestSocket, guestToken } = startRace("race");
+    vi.advanceTimersByTime(RACE_COUNTDOWN_MS);
+
+    guestSocket.close();
+    expect(rooms.getState(code)?.players.find(player => player.nickname === "guest")?.connected).toBe(false);
+    vi.advanceTimersByTime(RACE_RECONNECT_GRACE_MS - 1);
+    connect(rooms, code, guestToken);
+
+    hostSocket.close();
+    vi.advanceTimersByTime(RACE_RECONNECT_GRACE_MS * 2);
+    expect(rooms.getState(code)?.status).toBe("playing");
+    expect(rooms.getState(code)?.players.find(player => player.nickname === "guest")?.connected).toBe(true);
+  });
+
+  it("stops waiting for a player who joined but never connected", () => {
+    const host = rooms.create("host", { mode: "race", difficulty: "easy", boardSize: 5, watchDelay: 0 });
+    rooms.join(host.code, "absent");
+    const hostSocket = connect(rooms, host.code, host.token);
+    hostSocket.message({ type: "start" });
+    vi.advanceTimersByTime(RACE_COUNTDOWN_MS);
+
+    hostSocket.close();
+    vi.advanceTimersByTime(RACE_RECONNECT_GRACE_MS);
+    expect(rooms.getState(host.code)?.status).toBe("finished");
+  });
+
+  describe("claim mode", () => {
+    function startClaim() {
+      const race = startRace("claim");
+      vi.advanceTimersByTime(RACE_COUNTDOWN_MS);
+      const { board, targets } = rooms.getState(race.code)!;
+      return { ...race, board: board!, targets };
+    }
+
+    const claimReplies = (socket: FakeSocket) => socket.sent.filter(message => message.type === "claim");
+
+    it("scores a claimed target by its path and gives it to nobody else", () => {
+      const { code, hostSocket, guestSocket, board, targets } = startClaim();
+      const path = findPath(board, targets[0]);
+
+      hostSocket.message({ type: "claim", path });
+      guestSocket.message({ type: "claim", path });
+
+      expect(claimReplies(hostSocket)).toEqual([{ type: "claim", ok: true, target: targets[0], points: scoreClaim(board, path) }]);
+      expect(claimReplies(guestSocket)).toEqual([{ type: "claim", ok: false, reason: "already-claimed" }]);
+      expect(rooms.getState(code)).toMatchObject({
+        claims: [{ target: targets[0], nickname: "host", points: scoreClaim(board, path), path }],
+        players: [{ nickname: "host", score: scoreClaim(board, path), found: 1 }, { nickname: "guest", score: 0 }],
+      });
+    });
+
+    it("rejects paths that do not give a target", () => {
+      const { hostSocket } = startClaim();
+      hostSocket.message({ type: "claim", path: [{ row: 0, col: 0 }, { row: 1, col: 1 }] });
+      expect(claimReplies(hostSocket)).toEqual([{ type: "claim", ok: false, reason: "invalid-path" }]);
+    });
+
+    it("ranks by score and finishes once every target is claimed", () => {
+      const { code, hostSocket, guestSocket, board, targets } = startClaim();
+      const paths = targets.map(target => findPath(board, target));
+      const [last, ...rest] = paths;
+      rest.forEach(path => guestSocket.message({ type: "claim", path }));
+      expect(rooms.getState(code)?.status).toBe(targets.length > 1 ? "playing" : "finished");
+
+      hostSocket.message({ type: "claim", path: last });
+      const guestScore = rest.reduce((sum, path) => sum + scoreClaim(board, path), 0);
+      const hostScore = scoreClaim(board, last);
+      const state = rooms.getState(code)!;
+      expect(state.status).toBe("finished");
+      expect(state.players).toEqual(expect.arrayContaining([
+        expect.objectContaining({ nickname: "guest", score: guestScore, found: rest.length }),
+        expect.objectContaining({ nickname: "host", score: hostScore, found: 1 }),
+      ]));
+      const scores = state.players.map(player => player.score);
+      expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    });
+  });
+
+  describe("spectator delay", () => {
+    function createDelayedRoom() {
+      const host = rooms.create("host", { mode: "race", difficulty: "easy", boardSize: 5, watchDelay: 15 });
+      const hostSocket = connect(rooms, host.code, host.token);
+      return { code: host.code, hostSocket };
+    }
+
+    it("is the smallest delay for every spectator", () => {
+      const { code, hostSocket } = createDelayedRoom();
+      const spectator = new FakeSocket();
+      rooms.watch(code, spectator as unknown as WebSocket, 0);
+
+      hostSocket.message({ type: "start" });
+      vi.advanceTimersByTime(14_999);
+      expect(spectator.sent).toEqual([]);
+
+      vi.advanceTimersByTime(1);
+      expect(spectator.sent[0]).toMatchObject({ type: "room", room: { status: "lobby", watchDelay: 15 } });
+    });
+
+    it("lets a spectator ask for a longer delay", () => {
+      const { code } = createDelayedRoom();
+      const spectator = new FakeSocket();
+      rooms.watch(code, spectator as unknown as WebSocket, 30_000);
+
+      vi.advanceTimersByTime(15_000);
+      expect(spectator.sent).toEqual([]);
+      vi.advanceTimersByTime(15_000);
+      expect(spectator.sent).toHaveLength(1);
+    });
+
+    it("also holds back the room state for requests without a token", () => {
+      const { code, hostSocket } = createDelayedRoom();
+      hostSocket.message({ type: "start" });
+      vi.advanceTimersByTime(RACE_COUNTDOWN_MS);
+      expect(rooms.getState(code)).toMatchObject({ status: "lobby", board: null, targets: [] });
+
+      vi.advanceTimersByTime(15_000 - RACE_COUNTDOWN_MS);
+      expect(rooms.getState(code)?.status).toBe("countdown");
+
+      vi.advanceTimersByTime(RACE_COUNTDOWN_MS);
+      const state = rooms.getState(code);
+      expect(state?.status).toBe("playing");
+      expect(state?.board).not.toBeNull();
+    });
+
+    it("is not applied to rooms without one", () => {
+      const { code, hostSocket } = startRace("race");
+      vi.advanceTimersByTime(RACE_COUNTDOWN_MS);
+      expect(rooms.getState(code)?.status).toBe("playing");
+      hostSocket.close();
+    });
+  });
+});
@@ -0,0 +1,528 @@
+import type { Server } from "http";
+import { randomBytes, randomInt } from "crypto";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import {
+  MAX_RACE_PLAYERS,
+  MAX_RACE_SPECTATORS,
+  RACE_COUNTDOWN_MS,
+  RACE_CODE_ALPHABET,
+  RACE_CODE_LENGTH,
+  RACE_RECONNECT_GRACE_MS,
+  RACE_SOCKET_PATH,
+  isRaceWatchDelay,
+  raceClientMessageSchema,
+  scoreClaim,
+  type CreateRace,
+  type RaceClaim,
+  type RaceMode,
+  type RacePlayer,
+  type RaceRoomState,
+  type RaceServerMessage,
+  type RaceStatus,
+  type RaceTicket,
+  type RaceWatchDelay,
+  type RaceWatchMessage,
+} from "@shared/race";
+import { evaluatePath, type BoardSize, type Cell, type Difficulty, type Position } from "@shared/game-rules";
+import { generateGame, generateSeed } from "@shared/board-generator";
+import { withRanks } from "./ranking";
+
+// Комнату, к которой давно никто не подключён, удаляем при создании следующей
+const IDLE_ROOM_TTL_MS = 30 * 60 * 1000;
+
+// Сообщения игрока короткие: путь из нескольких десятков ячеек
+const MAX_MESSAGE_BYTES = 16 * 1024;
+
+// Закрытие старого соединения, когда игрок подключился заново, например из другой вкладки
+const REPLACED_CLOSE_CODE = 4000;
+
+interface RaceSeat {
+  nickname: string;
+  token: string;
+  socket: WebSocket | null;
+  left: boolean; // отключился и не вернулся за RACE_RECONNECT_GRACE_MS
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  foundTargets: Set<number>;
+  finishedIn: number | null;
+  score: number;
+  lastClaimAt: number | null;
+  selection: Position[]; // видно только зрителям
+}
+
+interface RaceSpectator {
+  socket: WebSocket;
+  delayMs: number;
+}
+
+// Состояние комнаты в момент at; по ним GET /api/race/rooms/:code отвечает с задержкой комнаты
+interface RaceSnapshot {
+  at: number;
+  state: RaceRoomState;
+}
+
+interface RaceRoom {
+  code: string;
+  hostToken: string;
+  mode: RaceMode;
+  status: RaceStatus;
+  difficulty: Difficulty;
+  boardSize: BoardSize;
+  watchDelay: RaceWatchDelay;
+  board: Cell[][] | null;
+  targets: number[];
+  startedAt: number | null;
+  claims: RaceClaim[];
+  seats: RaceSeat[]; // в порядке входа
+  spectators: RaceSpectator[];
+  snapshots: RaceSnapshot[]; // от старых к новым, первый — самый свежий из уже показанных
+  lastActivity: number;
+}
+
+export type RaceJoinResult =
+  | { ok: true; ticket: RaceTicket }
+  | { ok: false; reason: "not-found" | "started" | "full" | "name-taken" };
+
+type ClaimRejection = Extract<RaceServerMessage, { type: "claim"; ok: false }>["reason"];
+
+function createSeat(nickname: string): RaceSeat {
+  return {
+    nickname,
+    token: randomBytes(18).toString("base64url"),
+    socket: null,
+    left: false,
+    reconnectTimer: null,
+    foundTargets: new Set(),
+    finishedIn: null,
+    score: 0,
+    lastClaimAt: null,
+    selection: [],
+  };
+}
+
+// Гонка: финишировавшие по времени, затем остальные по числу найденных целей
+function compareRaceSeats(a: RaceSeat, b: RaceSeat): number {
+  const aTime = a.finishedIn ?? Infinity;
+  const bTime = b.finishedIn ?? Infinity;
+  if (aTime !== bTime) return aTime - bTime;
+  return b.foundTargets.size - a.foundTargets.size;
+}
+
+// Захват: по очкам, затем по числу целей; при равенстве выше тот, кто раньше набрал свои очки
+function compareClaimSeats(a: RaceSeat, b: RaceSeat): number {
+  if (a.score !== b.score) return b.score - a.score;
+  if (a.foundTargets.size !== b.foundTargets.size) return b.foundTargets.size - a.foundTargets.size;
+  return (a.lastClaimAt ?? Infinity) - (b.lastClaimAt ?? Infinity);
+}
+
+/**
+ * Таблица комнаты по правилам её режима; при полном равенстве
+ * выше тот, кто раньше вошёл в комнату
+ */
+function rankSeats(room: RaceRoom): (RacePlayer & { rank: number })[] {
+  const compare = room.mode === "claim" ? compareClaimSeats : compareRaceSeats;
+  const players = room.seats.map((seat, order) => ({ seat, order }));
+  players.sort((a, b) => compare(a.seat, b.seat) || a.order - b.order);
+
+  return withRanks(players.map(({ seat }) => ({
+    nickname: seat.nickname,
+    isHost: seat.token === room.hostToken,
+    connected: seat.socket !== null,
+    found: seat.foundTargets.size,
+    finishedIn: seat.finishedIn,
+    score: seat.score,
+  })), 0);
+}
+
+/**
+ * Комнаты гонок. Живут только в памяти процесса: гонка короткая,
+ * а в общие лидерборды её результаты не попадают
+ */
+export class RaceRooms {
+  private rooms = new Map<string, RaceRoom>();
+
+  create(nickname: string, { mode, difficulty, boardSize, watchDelay }: CreateRace): RaceTicket {
+    this.sweep();
+
+    let code: string;
+    do {
+      code = Array.from({ length: RACE_CODE_LENGTH }, () => RACE_CODE_ALPHABET[randomInt(RACE_CODE_ALPHABET.length)]).join("");
+    } while (this.rooms.has(code));
+
+    const host = createSeat(nickname);
+    const room: RaceRoom = {
+      code,
+      hostToken: host.token,
+      mode,
+      status: "lobby",
+      difficulty,
+      boardSize,
+      watchDelay,
+      board: null,
+      targets: [],
+      startedAt: null,
+      claims: [],
+      seats: [host],
+      spectators: [],
+      snapshots: [],
+      lastActivity: Date.now(),
+    };
+    this.record(room, this.toState(room));
+    this.rooms.set(code, room);
+    return { code, nickname, token: host.token };
+  }
+
+  join(code: string, nickname: string): RaceJoinResult {
+    const room = this.rooms.get(code);
+    if (!room) return { ok: false, reason: "not-found" };
+    if (room.status !== "lobby") return { ok: false, reason: "started" };
+    if (room.seats.length >= MAX_RACE_PLAYERS) return { ok: false, reason: "full" };
+    if (room.seats.some(seat => seat.nickname.toLowerCase() === nickname.toLowerCase())) {
+      return { ok: false, reason: "name-taken" };
+    }
+
+    const seat = createSeat(nickname);
+    room.seats.push(seat);
+    room.lastActivity = Date.now();
+    this.broadcast(room);
+    return { ok: true, ticket: { code, nickname, token: seat.token } };
+  }
+
+  // Состояние для всех, у кого нет токена: с той же задержкой, что и трансляция
+  getState(code: string): RaceRoomState | undefined {
+    const room = this.rooms.get(code);
+    if (!room) return undefined;
+    if (room.watchDelay === 0) return this.toState(room);
+
+    this.dropShownSnapshots(room);
+    return room.snapshots[0].state;
+  }
+
+  canConnect(code: string, token: string): boolean {
+    return !!this.rooms.get(code)?.seats.some(seat => seat.token === token);
+  }
+
+  canWatch(code: string): boolean {
+    const room = this.rooms.get(code);
+    return !!room && room.spectators.length < MAX_RACE_SPECTATORS;
+  }
+
+  // Зритель ничего не отправляет, только получает состояние комнаты и выделения игроков
+  watch(code: string, socket: WebSocket, delayMs: number) {
+    const room = this.rooms.get(code);
+    if (!room) {
+      socket.close();
+      return;
+    }
+
+    // Задержку комнаты зритель может только увеличить
+    const spectator: RaceSpectator = { socket, delayMs: Math.max(delayMs, room.watchDelay * 1000) };
+    room.spectators.push(spectator);
+    socket.on("close", () => {
+      room.spectators = room.spectators.filter(candidate => candidate !== spectator);
+    });
+
+    this.spectate(spectator, this.toWatchMessage(room));
+  }
+
+  connect(code: string, token: string, socket: WebSocket) {
+    const room = this.rooms.get(code);
+    const seat = room?.seats.find(candidate => candidate.token === token);
+    if (!room || !seat) {
+      socket.close();
+      return;
+    }
+
+    seat.socket?.close(REPLACED_CLOSE_CODE, "Connected elsewhere");
+    seat.socket = socket;
+    seat.left = false;
+    if (seat.reconnectTimer) {
+      clearTimeout(seat.reconnectTimer);
+      seat.reconnectTimer = null;
+    }
+    room.lastActivity = Date.now();
+
+    socket.on("message", (data) => this.handleMessage(room, seat, data));
+    socket.on("close", () => {
+      if (seat.socket !== socket) return;
+      seat.socket = null;
+      seat.selection = [];
+      room.lastActivity = Date.now();
+      this.awaitReturn(room, seat);
+      this.broadcast(room);
+    });
+
+    this.broadcast(room);
+  }
+
+  private handleMessage(room: RaceRoom, seat: RaceSeat, data: RawData) {
+    let message;
+    try {
+      message = raceClientMessageSchema.parse(JSON.parse(data.toString()));
+    } catch {
+      this.send(seat, { type: "error", message: "Invalid message" });
+      return;
+    }
+
+    room.lastActivity = Date.now();
+    if (message.type === "start") {
+      this.start(room, seat);
+    } else if (message.type === "select") {
+      this.select(room, seat, message.path);
+    } else {
+      this.claim(room, seat, message.path);
+    }
+  }
+
+  // Выделение не проверяется: зрители видят его как есть, а засчитывается только claim
+  private select(room: RaceRoom, seat: RaceSeat, path: Position[]) {
+    if (room.status !== "playing" || seat.finishedIn !== null) return;
+    seat.selection = path;
+    this.broadcastToSpectators(room, { type: "select", nickname: seat.nickname, path });
+  }
+
+  // Лобби → обратный отсчёт → игра → итоги. Поле генерирует сервер, поэтому
+  // у всех игроков оно одинаковое и до конца отсчёта никому не известно
+  private start(room: RaceRoom, seat: RaceSeat) {
+    if (seat.token !== room.hostToken) {
+      this.send(seat, { type: "error", message: "Only the host can start the race" });
+      return;
+    }
+    if (room.status !== "lobby") {
+      this.send(seat, { type: "error", message: "The race has already started" });
+      return;
+    }
+
+    room.status = "countdown";
+    room.startedAt = Date.now() + RACE_COUNTDOWN_MS;
+    this.broadcast(room);
+
+    setTimeout(() => {
+      const { board, targets } = generateGame(generateSeed(), room.boardSize, room.difficulty);
+      room.board = board;
+      room.targets = targets;
+      room.status = "playing";
+      room.lastActivity = Date.now();
+      // Кто так и не подключился, получает то же время, что и отключившийся
+      for (const candidate of room.seats) {
+        if (candidate.socket === null && !candidate.left && !candidate.reconnectTimer) this.awaitReturn(room, candidate);
+      }
+      // Все могли уйти ещё до старта
+      this.finishIfDone(room);
+      this.broadcast(room);
+    }, RACE_COUNTDOWN_MS);
+  }
+
+  // Оборвавшееся соединение — ещё не уход: игра ждёт игрока, пока не выйдет время
+  // на возвращение, и только потом перестаёт его ждать
+  private awaitReturn(room: RaceRoom, seat: RaceSeat) {
+    seat.reconnectTimer = setTimeout(() => {
+      seat.reconnectTimer = null;
+      seat.left = true;
+      this.finishIfDone(room);
+      this.broadcast(room);
+    }, RACE_RECONNECT_GRACE_MS);
+  }
+
+  // Путь проверяется на поле сервера; клиенту верим только в том, какие ячейки он выбрал.
+  // Сообщения обрабатываются по одному в порядке прихода, поэтому из одновременных
+  // заявок на одну цель в захвате выигрывает первая дошедшая до сервера
+  private claim(room: RaceRoom, seat: RaceSeat, path: Position[]) {
+    const checked = this.checkClaim(room, seat, path);
+    if (typeof checked === "string") {
+      this.send(seat, { type: "claim", ok: false, reason: checked });
+      return;
+    }
+
+    const { target, points } = checked;
+    const now = Date.now();
+    seat.foundTargets.add(target);
+    seat.lastClaimAt = now;
+    if (room.mode === "claim") {
+      seat.score += points;
+      room.claims.push({ target, nickname: seat.nickname, points, path });
+    } else if (seat.foundTargets.size === room.targets.length) {
+      seat.finishedIn = now - room.startedAt!;
+    }
+
+    this.send(seat, { type: "claim", ok: true, target, points });
+    this.finishIfDone(room);
+    this.broadcast(room);
+  }
+
+  private checkClaim(room: RaceRoom, seat: RaceSeat, path: Position[]): ClaimRejection | { target: number; points: number } {
+    if (room.status !== "playing" || !room.board || seat.finishedIn !== null) return "not-playing";
+
+    const evaluation = evaluatePath(room.board, path);
+    if (!evaluation.ok || !evaluation.result.ok) return "invalid-path";
+
+    const target = evaluation.result.value;
+    if (!room.targets.includes(target)) return "not-a-target";
+    if (seat.foundTargets.has(target)) return "already-found";
+    if (room.claims.some(claim => claim.target === target)) return "already-claimed";
+    return { target, points: room.mode === "claim" ? scoreClaim(room.board, path) : 0 };
+  }
+
+  // Гонка заканчивается, когда финишировали все, кто остался в комнате;
+  // захват — когда разобраны все цели или в комнате никого не осталось
+  private finishIfDone(room: RaceRoom) {
+    if (room.status !== "playing") return;
+
+    const isDone = room.mode === "claim"
+      ? room.claims.length === room.targets.length || room.seats.every(seat => seat.left)
+      : this.allRacersFinished(room);
+    if (isDone) {
+      room.status = "finished";
+      for (const seat of room.seats) seat.selection = [];
+    }
+  }
+
+  // Ушедшие игроки гонку не задерживают: если все ушли, не финишировав,
+  // гонка тоже закончена, а не остаётся идущей навсегда
+  private allRacersFinished(room: RaceRoom): boolean {
+    return room.seats.every(seat => seat.finishedIn !== null || seat.left);
+  }
+
+  private toState(room: RaceRoom): RaceRoomState {
+    return {
+      code: room.code,
+      mode: room.mode,
+      status: room.status,
+      difficulty: room.difficulty,
+      boardSize: room.boardSize,
+      watchDelay: room.watchDelay,
+      board: room.board,
+      targets: room.targets,
+      startedAt: room.startedAt,
+      claims: room.claims,
+      players: rankSeats(room),
+    };
+  }
+
+  private broadcast(room: RaceRoom) {
+    const state = this.toState(room);
+    this.record(room, state);
+    for (const seat of room.seats) {
+      this.send(seat, {
+        type: "room",
+        room: state,
+        you: {
+          nickname: seat.nickname,
+          isHost: seat.token === room.hostToken,
+          foundTargets: Array.from(seat.foundTargets),
+        },
+        serverTime: Date.now(),
+      });
+    }
+    this.broadcastToSpectators(room, this.toWatchMessage(room));
+  }
+
+  private toWatchMessage(room: RaceRoom): RaceWatchMessage {
+    return {
+      type: "room",
+      room: this.toState(room),
+      players: room.seats.map(seat => ({
+        nickname: seat.nickname,
+        selection: seat.selection,
+        foundTargets: Array.from(seat.foundTargets),
+      })),
+      serverTime: Date.now(),
+    };
+  }
+
+  private broadcastToSpectators(room: RaceRoom, message: RaceWatchMessage) {
+    room.spectators.forEach(spectator => this.spectate(spectator, message));
+  }
+
+  // Сообщение сериализуется сразу: к моменту отправки с задержкой комната уже изменится
+  private spectate(spectator: RaceSpectator, message: RaceWatchMessage) {
+    const data = JSON.stringify(message);
+    const deliver = () => {
+      if (spectator.socket.readyState === WebSocket.OPEN) spectator.socket.send(data);
+    };
+    if (spectator.delayMs > 0) {
+      setTimeout(deliver, spectator.delayMs);
+    } else {
+      deliver();
+    }
+  }
+
+  private record(room: RaceRoom, state: RaceRoomState) {
+    if (room.watchDelay === 0) return;
+    room.snapshots.push({ at: Date.now(), state });
+    this.dropShownSnapshots(room);
+  }
+
+  // Старше задержки нужен только последний снимок: его и показываем
+  private dropShownSnapshots(room: RaceRoom) {
+    const shownAt = Date.now() - room.watchDelay * 1000;
+    while (room.snapshots.length > 1 && room.snapshots[1].at <= shownAt) {
+      room.snapshots.shift();
+    }
+  }
+
+  private send(seat: RaceSeat, message: RaceServerMessage) {
+    if (seat.socket?.readyState === WebSocket.OPEN) {
+      seat.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private sweep() {
+    const now = Date.now();
+    this.rooms.forEach((room, code) => {
+      if (room.seats.every(seat => seat.socket === null) && now - room.lastActivity > IDLE_ROOM_TTL_MS) {
+        room.spectators.forEach(spectator => spectator.socket.close());
+        this.rooms.delete(code);
+      }
+    });
+  }
+}
+
+export const raceRooms = new RaceRooms();
+
+/**
+ * Принимает WebSocket-подключения к гонкам на том же HTTP-сервере, что и API.
+ * Подключение к /ws/race?room=<код>&token=<токен> пускается, только если
+ * токен выдан этой комнатой; /ws/race?room=<код>&watch=<задержка> подключает
+ * зрителя. Остальные upgrade-запросы (например, HMR Vite) обрабатывают их
+ * собственные обработчики.
+ */
+export function setupRaceSocket(server: Server, rooms: RaceRooms = raceRooms) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+  server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== RACE_SOCKET_PATH) {
+      // Больше некому ответить на этот запрос — закрываем соединение
+      if (server.listenerCount("upgrade") === 1) socket.destroy();
+      return;
+    }
+
+    const code = (url.searchParams.get("room") ?? "").toUpperCase();
+    const watch = url.searchParams.get("watch");
+    if (watch !== null) {
+      const delay = Number(watch);
+      if (!isRaceWatchDelay(delay)) {
+        socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+        return;
+      }
+      if (!rooms.getState(code)) {
+        socket.end("HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n");
+        return;
+      }
+      if (!rooms.canWatch(code)) {
+        socket.end("HTTP/1.1 409 Conflict\r\nConnection: close\r\n\r\n");
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => rooms.watch(code, ws, delay * 1000));
+      return;
+    }
+
+    const token = url.searchParams.get("token") ?? "";
+    if (!rooms.canConnect(code, token)) {
+      socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => rooms.connect(code, token, ws));
+  });
+}
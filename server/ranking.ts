@@ -0,0 +1,111 @@
+import {
+  ATTEMPT_PENALTY_SECONDS,
+  type LeaderboardPeriod,
+  type LeaderboardSort,
+} from "@shared/schema";
+import { asc, sql, type AnyColumn, type SQL } from "drizzle-orm";
+
+// Сколько соседей показывать выше и ниже результата игрока
+export const PLACEMENT_NEIGHBOURS = 2;
+
+// Колонки, по которым ранжируются результаты, одинаковые в PostgreSQL и SQLite
+export interface RankedTable {
+  id: AnyColumn;
+  time: AnyColumn;
+  attempts: AnyColumn;
+  completedAt: AnyColumn;
+}
+
+// Поля результата, по которым он ранжируется в памяти
+export interface RankedRow {
+  id: number;
+  time: number;
+  attempts: number;
+  completedAt: Date;
+}
+
+/**
+ * Порядок рейтинга. Всегда заканчивается временем сохранения и id,
+ * поэтому одинаковые результаты ранжируются детерминированно:
+ * раньше показанный результат стоит выше.
+ */
+export function rankingOrder(table: RankedTable, sort: LeaderboardSort): SQL[] {
+  const tieBreak = [asc(table.completedAt), asc(table.id)];
+  switch (sort) {
+    case "attempts":
+      return [asc(table.attempts), asc(table.time), ...tieBreak];
+    case "score":
+      return [
+        asc(sql`${table.time} + ${table.attempts} * ${ATTEMPT_PENALTY_SECONDS}`),
+        asc(table.time),
+        ...tieBreak,
+      ];
+    case "time":
+    default:
+      return [asc(table.time), asc(table.attempts), ...tieBreak];
+  }
+}
+
+/**
+ * Тот же порядок, что и rankingOrder, для записей в памяти
+ */
+export function compareRanking(sort: LeaderboardSort) {
+  const tieBreak = (a: RankedRow, b: RankedRow) =>
+    a.completedAt.getTime() - b.completedAt.getTime() || a.id - b.id;
+  switch (sort) {
+    case "attempts":
+      return (a: RankedRow, b: RankedRow) =>
+        a.attempts - b.attempts || a.time - b.time || tieBreak(a, b);
+    case "score":
+      return (a: RankedRow, b: RankedRow) =>
+        (a.time + a.attempts * ATTEMPT_PENALTY_SECONDS) - (b.time + b.attempts * ATTEMPT_PENALTY_SECONDS) ||
+        a.time - b.time ||
+        tieBreak(a, b);
+    case "time":
+    default:
+      return (a: RankedRow, b: RankedRow) =>
+        a.time - b.time || a.attempts - b.attempts || tieBreak(a, b);
+  }
+}
+
+/**
+ * Начало окна рейтинга в UTC: начало суток, недели (с понедельника) или месяца.
+ * Для рейтинга за всё время возвращает null.
+ */
+export function getPeriodStart(period: LeaderboardPeriod, now: Date = new Date()): Date | null {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  switch (period) {
+    case "today":
+      return start;
+    case "week":
+      start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+      return start;
+    case "month":
+      start.setUTCDate(1);
+      return start;
+    case "all":
+    default:
+      return null;
+  }
+}
+
+/**
+ * Номер первой записи, которую нужно показать, чтобы результат
+ * оказался в середине списка соседей
+ */
+export function placementOffset(rank: number): number {
+  return Math.max(0, rank - 1 - PLACEMENT_NEIGHBOURS);
+}
+
+/**
+ * Результат без журнала ходов. Журнал раскрывает точные пути решения,
+ * поэтому остаётся на сервере для проверки и в ответы не попадает.
+ * Подходит и для строки результата, и для набора колонок таблицы в select
+ */
+export function withoutMoveLog<T extends { moveLog: unknown }>({ moveLog, ...rest }: T): Omit<T, "moveLog"> {
+  return rest;
+}
+
+export function withRanks<T>(entries: T[], offset: number) {
+  return entries.map((entry, index) => ({ ...entry, rank: offset + index + 1 }));
+}
@@ -0,0 +1,91 @@
+import type {
+  CustomBoardLeaderboard,
+  CustomBoardVersion,
+  GameReplay,
+  GameReplayDetails,
+  LeaderboardEntry,
+  Move,
+  ReplayEvent,
+} from "@shared/schema";
+import { generateGame } from "@shared/board-generator";
+import { isBoardSize, isDifficulty, type Cell } from "@shared/game-rules";
+import { timelineFromMoveLog } from "@shared/replay";
+
+/**
+ * Записанный ход игры, а для игр без записи — восстановленный по журналу
+ * ходов. Без записи и без журнала повторять нечего
+ */
+function resolveTimeline(
+  board: Cell[][],
+  targets: number[],
+  replay: GameReplay | undefined,
+  moveLog: unknown,
+): { timeline: ReplayEvent[]; recorded: boolean } | undefined {
+  if (replay) return { timeline: replay.timeline, recorded: true };
+  if (!Array.isArray(moveLog) || moveLog.length === 0) return undefined;
+  return { timeline: timelineFromMoveLog(board, targets, moveLog as Move[]), recorded: false };
+}
+
+/**
+ * Повтор обычной или ежедневной игры: поле заново строится по seed
+ * результата, как при проверке журнала ходов
+ */
+export function buildClassicReplay(entry: LeaderboardEntry, replay: GameReplay | undefined): GameReplayDetails | undefined {
+  if (!entry.seed || !isBoardSize(entry.boardSize) || !isDifficulty(entry.difficulty)) return undefined;
+
+  const { board, targets } = generateGame(entry.seed, entry.boardSize, entry.difficulty);
+  const resolved = resolveTimeline(board, targets, replay, entry.moveLog);
+  if (!resolved) return undefined;
+
+  return {
+    source: "classic",
+    entryId: entry.id,
+    nickname: entry.nickname,
+    time: entry.time,
+    attempts: entry.attempts,
+    flagged: entry.flagged,
+    completedAt: entry.completedAt,
+    difficulty: entry.difficulty,
+    boardSize: entry.boardSize,
+    seed: entry.seed,
+    dailyDate: entry.dailyDate,
+    customBoardId: null,
+    boardName: null,
+    board,
+    targets,
+    ...resolved,
+  };
+}
+
+/**
+ * Повтор игры на пользовательском поле: поле берётся из той версии,
+ * на которой был показан результат, даже если автор его потом изменил
+ */
+export function buildCustomReplay(
+  entry: CustomBoardLeaderboard,
+  version: CustomBoardVersion,
+  replay: GameReplay | undefined,
+): GameReplayDetails | undefined {
+  const board = version.boardData as Cell[][];
+  const resolved = resolveTimeline(board, version.targets, replay, entry.moveLog);
+  if (!resolved) return undefined;
+
+  return {
+    source: "custom",
+    entryId: entry.id,
+    nickname: entry.nickname,
+    time: entry.time,
+    attempts: entry.attempts,
+    flagged: entry.flagged,
+    completedAt: entry.completedAt,
+    difficulty: version.difficulty,
+    boardSize: version.boardSize,
+    seed: null,
+    dailyDate: null,
+    customBoardId: entry.customBoardId,
+    boardName: version.name,
+    board,
+    targets: version.targets,
+    ...resolved,
+  };
+}
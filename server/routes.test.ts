@@ -0,0 +1,57 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Хранилище создаётся при импорте routes.ts, поэтому данные держим в памяти ещё до него
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = "memory";
+});
+
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { getDailyDate, getDailySeed } from "./daily";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+// Результат обычной игры без dailyDate, как у тренировки
+const practice = (seed: string) =>
+  storage.createLeaderboardEntry({ nickname: "practice", time: 30, attempts: 1, difficulty: "easy", boardSize: 5, seed, moveLog: null });
+
+describe("GET /api/leaderboard/:id/replay", () => {
+  it("hides practice runs on a daily board that is still open", async () => {
+    const today = await practice(getDailySeed(getDailyDate()));
+    const yesterday = await practice(getDailySeed(getDailyDate(new Date(Date.now() - DAY_MS))));
+
+    for (const { id } of [today, yesterday]) {
+      const res = await fetch(`${baseUrl}/api/leaderboard/${id}/replay`);
+      expect(res.status).toBe(403);
+    }
+  });
+
+  it("lets other games through", async () => {
+    const closed = await practice(getDailySeed(getDailyDate(new Date(Date.now() - 3 * DAY_MS))));
+    const generated = await practice("practice-seed");
+
+    for (const { id } of [closed, generated]) {
+      const res = await fetch(`${baseUrl}/api/leaderboard/${id}/replay`);
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({ message: "This game has no replay" });
+    }
+  });
+});
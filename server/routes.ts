@@ -1,60 +1,494 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertLeaderboardEntrySchema, insertCustomBoardSchema, insertCustomBoardLeaderboardSchema } from "@shared/schema";
+import {
+  leaderboardSubmissionSchema,
+  insertCustomBoardSchema,
+  updateCustomBoardSchema,
+  customBoardLeaderboardSubmissionSchema,
+  insertCustomBoardRatingSchema,
+  insertCustomBoardCommentSchema,
+  insertBoardCollectionSchema,
+  updateBoardCollectionSchema,
+  insertTournamentSchema,
+  updateTournamentSchema,
+  leaderboardQuerySchema,
+  customBoardQuerySchema,
+  playerHistoryQuerySchema,
+  customBoardTagsSchema,
+  gameStartSchema,
+  gameFinishSchema,
+  type CustomBoard,
+  type DailyAttempt,
+  type PublicCustomBoard,
+} from "@shared/schema";
+import { isBoardSize, isDifficulty, type BoardSize, type Cell, type Difficulty } from "@shared/game-rules";
+import { generateGame } from "@shared/board-generator";
+import { rateBoard } from "@shared/difficulty";
+import { validateCustomBoard } from "@shared/board-validation";
+import {
+  MAX_IMPORTED_BOARDS,
+  boardFileSchema,
+  describeBoardFileError,
+  fromBoardFile,
+  toBoardFile,
+  type BoardImportResult,
+} from "@shared/board-file";
+import { checkTimeline, replayMoveLog } from "./verification";
+import { classicGameKey, customGameKey, dailyGameKey, readFinishedGame, signGameFinish, signGameStart } from "./game-starts";
+import { buildClassicReplay, buildCustomReplay } from "./replays";
+import { isModerator, isReservedName, resolvePlayer, setupAuth } from "./auth";
+import { canEditBoard, createEditToken, sendBoardValidationError, toPublicBoard } from "./custom-boards";
+import { canEditCollection, rankCollection } from "./collections";
+import {
+  buildTournamentDetails,
+  canEditTournament,
+  getRoundBoardIds,
+  getTournamentStatus,
+  hideUpcomingBoards,
+  toTournamentSummary,
+} from "./tournaments";
+import { raceRooms, setupRaceSocket } from "./race";
+import { createRaceSchema, joinRaceSchema } from "@shared/race";
+import { buildPlayerProfile } from "./profiles";
+import { isUniqueViolation } from "./db";
+import { withoutMoveLog } from "./ranking";
+import {
+  computeStreak,
+  getDailyDate,
+  getDailySeed,
+  isAcceptedDailyDate,
+  isDailyClosed,
+  isOpenDailySeed,
+  recordDailyStart,
+} from "./daily";
 import { z } from "zod";
 
+// Custom board leaderboards show the current version unless another one is asked for
+const boardVersionQuerySchema = z.object({
+  version: z.coerce.number().int().min(1).optional(),
+});
+
+// Board files are checked one by one, so the body only has to be a list of them
+const boardImportSchema = z.object({
+  boards: z.array(z.unknown()).min(1).max(MAX_IMPORTED_BOARDS),
+});
+
+// How many tags GET /api/custom-boards/tags returns
+const POPULAR_TAGS_LIMIT = 30;
+
+// Route params that hold row ids; the largest one still fits an integer column
+const ID_PARAMS = ["id", "entryId", "userId"];
+const MAX_ID = 2_147_483_647;
+
+// Boards are sent with their tags and without the edit token hash
+async function toPublicBoards(boards: CustomBoard[]): Promise<PublicCustomBoard[]> {
+  const tags = await storage.getCustomBoardTags(boards.map(board => board.id));
+  return boards.map(board => toPublicBoard(board, tags.get(board.id) ?? []));
+}
+
+async function toTaggedBoard(board: CustomBoard): Promise<PublicCustomBoard> {
+  const [publicBoard] = await toPublicBoards([board]);
+  return publicBoard;
+}
+
+// Boards that cannot go into a collection or a tournament: missing, deleted or not published
+async function findUnavailableBoards(ids: number[]): Promise<number[]> {
+  const boards = await storage.getCustomBoardsByIds(ids);
+  const available = new Set(boards.filter(board => board.isSolved).map(board => board.id));
+  return ids.filter(id => !available.has(id));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Get leaderboard
+  // Sessions, /api/register, /api/login, /api/logout and /api/me
+  setupAuth(app);
+
+  // parseInt("abc") is NaN, which each storage used to answer differently (404 or 500)
+  for (const name of ID_PARAMS) {
+    app.param(name, (_req, res, next, value: string) => {
+      if (/^\d+$/.test(value) && Number(value) <= MAX_ID) return next();
+      res.status(400).json({ message: `Invalid ${name}` });
+    });
+  }
+
+  // Get one page of the leaderboard
   app.get("/api/leaderboard", async (req, res) => {
     try {
-      const { difficulty, boardSize } = req.query;
+      const { difficulty, boardSize, seed } = req.query;
+      const query = leaderboardQuerySchema.parse(req.query);
       const leaderboard = await storage.getLeaderboard(
-        difficulty as string,
-        boardSize ? parseInt(boardSize as string) : undefined
+        {
+          difficulty: difficulty as string,
+          boardSize: boardSize ? parseInt(boardSize as string) : undefined,
+          seed: seed ? (seed as string) : undefined,
+        },
+        query
       );
       res.json(leaderboard);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch leaderboard" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid query", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch leaderboard" });
+      }
+    }
+  });
+
+  // Get the rank of an entry with its neighbours. Daily entries are ranked
+  // on their daily board, regular ones within their difficulty and size
+  app.get("/api/leaderboard/:id/rank", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { sort, period } = leaderboardQuerySchema.parse(req.query);
+      const entry = await storage.getLeaderboardEntry(id);
+      if (!entry) {
+        res.status(404).json({ message: "Entry not found" });
+        return;
+      }
+
+      const placement = await storage.getLeaderboardPlacement(
+        {
+          difficulty: entry.difficulty,
+          boardSize: entry.boardSize,
+          dailyDate: entry.dailyDate ?? undefined,
+        },
+        id,
+        { sort, period }
+      );
+      if (!placement) {
+        res.status(404).json({ message: "Entry is not ranked" });
+        return;
+      }
+      res.json(placement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid query", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch rank" });
+      }
+    }
+  });
+
+  // Get the replay of an entry; flagged entries can be replayed too, so they can be inspected
+  app.get("/api/leaderboard/:id/replay", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const entry = await storage.getLeaderboardEntry(id);
+      if (!entry) {
+        res.status(404).json({ message: "Entry not found" });
+        return;
+      }
+      // Practice runs on the daily board carry no dailyDate but solve the same board
+      if ((entry.dailyDate && !isDailyClosed(entry.dailyDate)) || (entry.seed !== null && isOpenDailySeed(entry.seed))) {
+        res.status(403).json({ message: "Daily replays open once the daily board is closed" });
+        return;
+      }
+
+      const replay = buildClassicReplay(entry, await storage.getGameReplay("classic", id));
+      if (!replay) {
+        res.status(404).json({ message: "This game has no replay" });
+        return;
+      }
+      res.json(replay);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch replay" });
     }
   });
 
   // Submit score to leaderboard
   app.post("/api/leaderboard", async (req, res) => {
     try {
-      const validatedData = insertLeaderboardEntrySchema.parse(req.body);
-      const entry = await storage.createLeaderboardEntry(validatedData);
-      res.json(entry);
+      const { timeline, gameToken, ...validatedData } = leaderboardSubmissionSchema.parse(req.body);
+      if (!isDifficulty(validatedData.difficulty) || !isBoardSize(validatedData.boardSize)) {
+        res.status(400).json({ message: "Unknown difficulty or board size" });
+        return;
+      }
+
+      // Names of registered players are reserved for their owners
+      const player = await resolvePlayer(req, validatedData.nickname);
+      if (!player) {
+        res.status(403).json({ message: "This name belongs to a registered player" });
+        return;
+      }
+      validatedData.nickname = player.nickname;
+
+      // A daily run must be played on that day's board, once per player
+      const { seed, difficulty, boardSize, dailyDate } = validatedData;
+      const gameKey = dailyDate ? dailyGameKey(dailyDate, difficulty, boardSize) : classicGameKey(seed, difficulty, boardSize);
+      if (dailyDate) {
+        if (!isAcceptedDailyDate(dailyDate) || seed !== getDailySeed(dailyDate)) {
+          res.status(400).json({ message: "Not the daily board" });
+          return;
+        }
+        const existing = await storage.getDailyEntry(
+          validatedData.nickname,
+          dailyDate,
+          validatedData.difficulty,
+          validatedData.boardSize
+        );
+        if (existing) {
+          res.status(409).json({ message: "Daily attempt already used" });
+          return;
+        }
+      }
+
+      // The game is timed by the server between its signed start and finish
+      const game = readFinishedGame(gameToken, gameKey);
+      if (!game) {
+        res.status(400).json({ message: "Invalid game token" });
+        return;
+      }
+
+      // The ranked daily attempt is the one this session was handed first, and only one run counts for it
+      const dailyStart = dailyDate ? req.session.dailyStarts?.[gameKey] : undefined;
+      if (dailyDate && (!dailyStart || dailyStart.startedAt !== game.startedAt)) {
+        res.status(400).json({ message: "Daily attempt was not started in this session" });
+        return;
+      }
+      if (dailyStart?.used) {
+        res.status(409).json({ message: "Daily attempt already used" });
+        return;
+      }
+
+      // Rebuild the board from its seed and replay the move log on it
+      // instead of trusting the reported time and attempts
+      const { board, targets } = generateGame(validatedData.seed, validatedData.boardSize, validatedData.difficulty);
+      const replay = replayMoveLog(board, targets, validatedData.moveLog, validatedData.time, game.durationMs);
+      if (!replay.ok) {
+        res.status(422).json({ message: replay.reason });
+        return;
+      }
+      // A timeline that disagrees with the verified move log is not kept: the score
+      // still counts and its replay is rebuilt from the move log
+      const recorded = timeline && checkTimeline(board, targets, timeline).ok ? timeline : undefined;
+
+      const entry = await storage.createLeaderboardEntry({
+        ...validatedData,
+        userId: player.userId,
+        time: replay.time,
+        attempts: replay.attempts,
+        flagged: replay.flagged,
+      });
+      if (dailyStart) {
+        dailyStart.used = true;
+      }
+      if (recorded) {
+        await storage.createGameReplay({ leaderboardEntryId: entry.id, customBoardLeaderboardId: null, timeline: recorded });
+      }
+
+      if (entry.dailyDate) {
+        const streak = computeStreak(await storage.getDailyDates(entry.nickname));
+        res.json({ ...withoutMoveLog(entry), streak });
+        return;
+      }
+      res.json(withoutMoveLog(entry));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else if (isUniqueViolation(error)) {
+        // Another submission for the same daily board was saved in the meantime
+        res.status(409).json({ message: "Daily attempt already used" });
       } else {
         res.status(500).json({ message: "Failed to save score" });
       }
     }
   });
 
-  // Get custom boards
-  app.get("/api/custom-boards", async (req, res) => {
+  // Start a game: the server signs its own start time, so that the time
+  // of the result does not rest on the clock of the browser
+  app.post("/api/games/start", async (req, res) => {
+    try {
+      const start = gameStartSchema.parse(req.body);
+      if ("customBoardId" in start) {
+        const board = await storage.getCustomBoard(start.customBoardId);
+        if (!board) {
+          res.status(404).json({ message: "Board not found" });
+          return;
+        }
+        res.json({ gameToken: signGameStart(customGameKey(board.id)) });
+        return;
+      }
+
+      if (!isDifficulty(start.difficulty) || !isBoardSize(start.boardSize)) {
+        res.status(400).json({ message: "Unknown difficulty or board size" });
+        return;
+      }
+      res.json({ gameToken: signGameStart(classicGameKey(start.seed, start.difficulty, start.boardSize)) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to start game" });
+      }
+    }
+  });
+
+  // Finish a started game; the score is then sent with the returned token
+  app.post("/api/games/finish", (req, res) => {
+    try {
+      const { gameToken } = gameFinishSchema.parse(req.body);
+      const finished = signGameFinish(gameToken);
+      if (!finished) {
+        res.status(400).json({ message: "Invalid game token" });
+        return;
+      }
+      res.json({ gameToken: finished });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to finish game" });
+      }
+    }
+  });
+
+  // Get today's daily board for a difficulty and board size
+  app.get("/api/daily", async (req, res) => {
+    try {
+      const difficulty = req.query.difficulty ?? "easy";
+      const boardSize = req.query.boardSize ? parseInt(req.query.boardSize as string) : 5;
+      if (!isDifficulty(difficulty) || !isBoardSize(boardSize)) {
+        res.status(400).json({ message: "Unknown difficulty or board size" });
+        return;
+      }
+
+      const date = getDailyDate();
+      const { seed, board, targets } = generateGame(getDailySeed(date), boardSize, difficulty);
+      res.json({ date, seed, difficulty, boardSize, board, targets });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch daily board" });
+    }
+  });
+
+  // Hand out today's daily board for play. The first hand-out to a session starts its
+  // ranked attempt, which is timed from then on; later ones continue it until a result
+  // is saved, and after that the board can only be practised
+  app.post("/api/daily/start", (req, res) => {
+    try {
+      const { difficulty = "easy", boardSize = 5 } = req.body ?? {};
+      if (!isDifficulty(difficulty) || !isBoardSize(boardSize)) {
+        res.status(400).json({ message: "Unknown difficulty or board size" });
+        return;
+      }
+
+      const now = new Date();
+      const date = getDailyDate(now);
+      const { seed, board, targets } = generateGame(getDailySeed(date), boardSize, difficulty);
+      const key = dailyGameKey(date, difficulty, boardSize);
+      const start = recordDailyStart((req.session.dailyStarts ??= {}), key, date, now);
+
+      const attempt: DailyAttempt = start.used
+        ? {
+            date, seed, difficulty, boardSize, board, targets,
+            ranked: false,
+            gameToken: signGameStart(classicGameKey(seed, difficulty, boardSize), now.getTime()),
+            elapsedMs: 0,
+          }
+        : {
+            date, seed, difficulty, boardSize, board, targets,
+            ranked: true,
+            gameToken: signGameStart(key, start.startedAt),
+            elapsedMs: now.getTime() - start.startedAt,
+          };
+      res.json(attempt);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start daily board" });
+    }
+  });
+
+  // Get leaderboard of a daily board (today's unless a date is given)
+  app.get("/api/daily/leaderboard", async (req, res) => {
     try {
-      const { difficulty, boardSize } = req.query;
-      const boards = await storage.getCustomBoards(
-        difficulty as string,
-        boardSize ? parseInt(boardSize as string) : undefined
+      const { difficulty, boardSize, date } = req.query;
+      const query = leaderboardQuerySchema.parse(req.query);
+      const leaderboard = await storage.getLeaderboard(
+        {
+          dailyDate: date ? (date as string) : getDailyDate(),
+          difficulty: (difficulty as string) || "easy",
+          boardSize: boardSize ? parseInt(boardSize as string) : 5,
+        },
+        query
       );
-      res.json(boards);
+      res.json(leaderboard);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid query", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch daily leaderboard" });
+      }
+    }
+  });
+
+  // Get a player's streak of consecutive daily challenges
+  app.get("/api/daily/streak/:nickname", async (req, res) => {
+    try {
+      const dates = await storage.getDailyDates(req.params.nickname);
+      res.json(computeStreak(dates));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch daily streak" });
+    }
+  });
+
+  // Get player profile with personal bests, averages and authored boards
+  app.get("/api/players/:name", async (req, res) => {
+    try {
+      // Registered names are matched case-insensitively, so use the stored spelling
+      const user = await storage.getUserByUsername(req.params.name);
+      const name = user ? user.username : req.params.name;
+      const [stats, boards] = await Promise.all([
+        storage.getPlayerStats(name),
+        storage.getCustomBoardsByCreator(name),
+      ]);
+
+      if (!user && stats.length === 0 && boards.length === 0) {
+        res.status(404).json({ message: "Player not found" });
+        return;
+      }
+
+      res.json(buildPlayerProfile(name, !!user, stats, boards));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch player profile" });
+    }
+  });
+
+  // Get a player's results, newest first, one page at a time
+  app.get("/api/players/:name/history", async (req, res) => {
+    try {
+      const query = playerHistoryQuerySchema.parse(req.query);
+      const user = await storage.getUserByUsername(req.params.name);
+      const name = user ? user.username : req.params.name;
+      res.json(await storage.getPlayerHistory(name, query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch player history" });
+      }
+    }
+  });
+
+  // Search the custom board catalogue, one page at a time
+  app.get("/api/custom-boards", async (req, res) => {
+    try {
+      const query = customBoardQuerySchema.parse(req.query);
+      const page = await storage.getCustomBoards(query);
+      res.json({ ...page, boards: await toPublicBoards(page.boards) });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch custom boards" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid query", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch custom boards" });
+      }
     }
   });
 
-  // Get top 100 popular custom boards (MUST be before /:id route)
-  app.get("/api/custom-boards/top", async (req, res) => {
+  // Get the tags used most often on published boards
+  app.get("/api/custom-boards/tags", async (req, res) => {
     try {
-      const boards = await storage.getTop100PopularBoards();
-      res.json(boards);
+      const tags = await storage.getPopularTags(POPULAR_TAGS_LIMIT);
+      res.json(tags);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch top boards" });
+      res.status(500).json({ message: "Failed to fetch tags" });
     }
   });
 
@@ -67,18 +501,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.status(404).json({ message: "Board not found" });
         return;
       }
-      res.json(board);
+      res.json(await toTaggedBoard(board));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch custom board" });
     }
   });
 
+  // Get every version of a custom board, oldest first
+  app.get("/api/custom-boards/:id/versions", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const board = await storage.getCustomBoard(id);
+      if (!board) {
+        res.status(404).json({ message: "Board not found" });
+        return;
+      }
+      const versions = await storage.getCustomBoardVersions(id);
+      res.json(versions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch board versions" });
+    }
+  });
+
+  // Download a custom board as a board file
+  app.get("/api/custom-boards/:id/export", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const board = await storage.getCustomBoard(id);
+      if (!board) {
+        res.status(404).json({ message: "Board not found" });
+        return;
+      }
+      const tags = await storage.getCustomBoardTags([id]);
+      res.attachment(`board-${id}.json`);
+      res.json(toBoardFile({
+        name: board.name,
+        creatorName: board.creatorName,
+        difficulty: board.difficulty as Difficulty,
+        boardSize: board.boardSize as BoardSize,
+        boardData: board.boardData as Cell[][],
+        targets: board.targets,
+        tags: tags.get(id) ?? [],
+        createdAt: board.createdAt,
+      }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export custom board" });
+    }
+  });
+
   // Create custom board
   app.post("/api/custom-boards", async (req, res) => {
     try {
       const validatedData = insertCustomBoardSchema.parse(req.body);
-      const board = await storage.createCustomBoard(validatedData);
-      res.json(board);
+      const { tags } = customBoardTagsSchema.parse(req.body);
+      const validation = validateCustomBoard(validatedData);
+      if (!validation.ok) {
+        sendBoardValidationError(res, validation);
+        return;
+      }
+      const player = await resolvePlayer(req, validatedData.creatorName);
+      if (!player) {
+        res.status(403).json({ message: "This name belongs to a registered player" });
+        return;
+      }
+
+      // The score and the solved flag are always computed here, never taken from the client
+      const { score } = rateBoard(validation.board, validatedData.targets);
+      // Anonymous authors can edit or delete the board later only with this token
+      const editToken = createEditToken();
+      const board = await storage.createCustomBoard({
+        ...validatedData,
+        creatorName: player.nickname,
+        userId: player.userId,
+        isSolved: true,
+        difficultyScore: score,
+        editTokenHash: editToken.hash,
+      });
+      await storage.setCustomBoardTags(board.id, tags);
+      res.json({ ...toPublicBoard(board, tags), editToken: editToken.token });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -88,25 +588,253 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Publish many board files at once; moderators only. Each file is checked
+  // on its own, and the result for every file is reported by its index
+  app.post("/api/custom-boards/import", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        res.status(401).json({ message: "Sign in to import boards" });
+        return;
+      }
+      if (!isModerator(req)) {
+        res.status(403).json({ message: "Only moderators can import boards" });
+        return;
+      }
+
+      const { boards } = boardImportSchema.parse(req.body);
+      const results: BoardImportResult[] = [];
+      for (let index = 0; index < boards.length; index++) {
+        const data = boards[index];
+        const parsed = boardFileSchema.safeParse(data);
+        if (!parsed.success) {
+          results.push({ index, ok: false, message: describeBoardFileError(data, parsed.error) });
+          continue;
+        }
+
+        const imported = fromBoardFile(parsed.data);
+        const validation = validateCustomBoard(imported);
+        if (!validation.ok) {
+          results.push(validation.reason === "malformed"
+            ? { index, ok: false, message: "Invalid board", errors: validation.errors }
+            : { index, ok: false, message: "Some targets cannot be reached", unreachableTargets: validation.unreachableTargets });
+          continue;
+        }
+
+        // A board keeps the author named in its file; without one it belongs to the moderator.
+        // A registered player's name is reserved for boards they publish themselves
+        if (imported.creatorName && await isReservedName(imported.creatorName)) {
+          results.push({ index, ok: false, message: "This name belongs to a registered player" });
+          continue;
+        }
+
+        const { score } = rateBoard(validation.board, imported.targets);
+        const editToken = createEditToken();
+        const board = await storage.createCustomBoard({
+          name: imported.name,
+          creatorName: imported.creatorName ?? req.user.username,
+          difficulty: imported.difficulty,
+          boardSize: imported.boardSize,
+          boardData: validation.board,
+          targets: imported.targets,
+          userId: imported.creatorName ? null : req.user.id,
+          isSolved: true,
+          difficultyScore: score,
+          editTokenHash: editToken.hash,
+        });
+        await storage.setCustomBoardTags(board.id, imported.tags);
+        results.push({ index, ok: true, id: board.id, editToken: editToken.token });
+      }
+
+      res.json({ imported: results.filter(result => result.ok).length, results });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to import custom boards" });
+      }
+    }
+  });
+
+  // Edit a custom board as its author; every edit creates a new version
+  app.patch("/api/custom-boards/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const board = await storage.getCustomBoard(id);
+      if (!board) {
+        res.status(404).json({ message: "Board not found" });
+        return;
+      }
+      if (!canEditBoard(req, board, req.body?.editToken)) {
+        res.status(403).json({ message: "Only the author can edit this board" });
+        return;
+      }
+
+      const changes = updateCustomBoardSchema.parse(req.body);
+      const { tags } = customBoardTagsSchema.partial().parse(req.body);
+      const changesBoard = Object.keys(changes).length > 0;
+      if (!changesBoard && tags === undefined) {
+        res.status(400).json({ message: "Nothing to change" });
+        return;
+      }
+      // A tournament round counts results on the version it was saved with, so that version has to stay playable
+      if (changesBoard && await storage.hasOpenTournamentRound(id, new Date())) {
+        res.status(409).json({ message: "This board is used in a tournament round that has not ended yet" });
+        return;
+      }
+
+      // Tags are not part of a version, so changing only them keeps the current leaderboard
+      let updated: CustomBoard | undefined = board;
+      if (changesBoard) {
+        // The merged board is checked as a whole, so no edit leaves an invalid board published
+        const targets = changes.targets ?? board.targets;
+        const validation = validateCustomBoard({
+          boardData: changes.boardData ?? board.boardData,
+          boardSize: changes.boardSize ?? board.boardSize,
+          difficulty: changes.difficulty ?? board.difficulty,
+          targets,
+        });
+        if (!validation.ok) {
+          sendBoardValidationError(res, validation);
+          return;
+        }
+
+        const { score } = rateBoard(validation.board, targets);
+        updated = await storage.updateCustomBoard(id, { ...changes, isSolved: true, difficultyScore: score });
+      }
+      if (!updated) {
+        res.status(404).json({ message: "Board not found" });
+        return;
+      }
+      if (tags !== undefined) {
+        await storage.setCustomBoardTags(id, tags);
+      }
+      res.json(await toTaggedBoard(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update custom board" });
+      }
+    }
+  });
+
+  // Delete a custom board as its author; results played on it are kept
+  app.delete("/api/custom-boards/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const board = await storage.getCustomBoard(id);
+      if (!board) {
+        res.status(404).json({ message: "Board not found" });
+        return;
+      }
+      if (!canEditBoard(req, board, req.body?.editToken)) {
+        res.status(403).json({ message: "Only the author can delete this board" });
+        return;
+      }
+
+      await storage.deleteCustomBoard(id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete custom board" });
+    }
+  });
+
   // Mark custom board as solved
   app.patch("/api/custom-boards/:id/solved", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const board = await storage.updateCustomBoardSolved(id);
-      res.json(board);
+      const board = await storage.getCustomBoard(id);
+      if (!board) {
+        res.status(404).json({ message: "Board not found" });
+        return;
+      }
+      if (!canEditBoard(req, board, req.body?.editToken)) {
+        res.status(403).json({ message: "Only the author can edit this board" });
+        return;
+      }
+      const validation = validateCustomBoard(board);
+      if (!validation.ok) {
+        sendBoardValidationError(res, validation);
+        return;
+      }
+
+      const updated = await storage.updateCustomBoardSolved(id);
+      res.json(await toTaggedBoard(updated));
     } catch (error) {
       res.status(500).json({ message: "Failed to update custom board" });
     }
   });
 
-  // Get leaderboard for a custom board
+  // Get one page of the leaderboard for a custom board
   app.get("/api/custom-boards/:id/leaderboard", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const leaderboard = await storage.getCustomBoardLeaderboard(id);
+      const query = leaderboardQuerySchema.parse(req.query);
+      const { version } = boardVersionQuerySchema.parse(req.query);
+      const board = await storage.getCustomBoard(id);
+      if (!board) {
+        res.status(404).json({ message: "Board not found" });
+        return;
+      }
+      const leaderboard = await storage.getCustomBoardLeaderboard(id, version ?? board.version, query);
       res.json(leaderboard);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch custom board leaderboard" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid query", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch custom board leaderboard" });
+      }
+    }
+  });
+
+  // Get the rank of an entry on a custom board with its neighbours
+  app.get("/api/custom-boards/:id/leaderboard/:entryId/rank", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const entryId = parseInt(req.params.entryId);
+      const { sort, period } = leaderboardQuerySchema.parse(req.query);
+      const { version } = boardVersionQuerySchema.parse(req.query);
+      const board = await storage.getCustomBoard(id);
+      if (!board) {
+        res.status(404).json({ message: "Board not found" });
+        return;
+      }
+      const placement = await storage.getCustomBoardLeaderboardPlacement(id, version ?? board.version, entryId, { sort, period });
+      if (!placement) {
+        res.status(404).json({ message: "Entry is not ranked" });
+        return;
+      }
+      res.json(placement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid query", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch rank" });
+      }
+    }
+  });
+
+  // Get the replay of an entry on a custom board, on the board version it was played on
+  app.get("/api/custom-boards/:id/leaderboard/:entryId/replay", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const entryId = parseInt(req.params.entryId);
+      const entry = await storage.getCustomBoardLeaderboardEntry(entryId);
+      if (!entry || entry.customBoardId !== id) {
+        res.status(404).json({ message: "Entry not found" });
+        return;
+      }
+
+      const versions = await storage.getCustomBoardVersions(id);
+      const version = versions.find(version => version.version === entry.boardVersion);
+      const replay = version && buildCustomReplay(entry, version, await storage.getGameReplay("custom", entryId));
+      if (!replay) {
+        res.status(404).json({ message: "This game has no replay" });
+        return;
+      }
+      res.json(replay);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch replay" });
     }
   });
 
@@ -114,15 +842,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/custom-boards/:id/leaderboard", async (req, res) => {
     try {
       const customBoardId = parseInt(req.params.id);
-      const validatedData = insertCustomBoardLeaderboardSchema.parse({
+      const { timeline, gameToken, ...validatedData } = customBoardLeaderboardSubmissionSchema.parse({
         ...req.body,
         customBoardId,
       });
+
+      const board = await storage.getCustomBoard(customBoardId);
+      if (!board) {
+        res.status(404).json({ message: "Board not found" });
+        return;
+      }
+
+      const player = await resolvePlayer(req, validatedData.nickname);
+      if (!player) {
+        res.status(403).json({ message: "This name belongs to a registered player" });
+        return;
+      }
+
+      const game = readFinishedGame(gameToken, customGameKey(customBoardId));
+      if (!game) {
+        res.status(400).json({ message: "Invalid game token" });
+        return;
+      }
+
+      const replay = replayMoveLog(
+        board.boardData as Cell[][],
+        board.targets,
+        validatedData.moveLog,
+        validatedData.time,
+        game.durationMs,
+      );
+      if (!replay.ok) {
+        res.status(422).json({ message: replay.reason });
+        return;
+      }
+      const recorded = timeline && checkTimeline(board.boardData as Cell[][], board.targets, timeline).ok ? timeline : undefined;
+
+      const entry = await storage.createCustomBoardLeaderboardEntry({
+        ...validatedData,
+        boardVersion: board.version,
+        nickname: player.nickname,
+        userId: player.userId,
+        time: replay.time,
+        attempts: replay.attempts,
+        flagged: replay.flagged,
+      });
+      if (recorded) {
+        await storage.createGameReplay({ leaderboardEntryId: null, customBoardLeaderboardId: entry.id, timeline: recorded });
+      }
+      if (!replay.flagged) {
+        await storage.incrementCustomBoardCompletionCount(customBoardId);
+      }
       
-      const entry = await storage.createCustomBoardLeaderboardEntry(validatedData);
-      await storage.incrementCustomBoardCompletionCount(customBoardId);
-      
-      res.json(entry);
+      res.json(withoutMoveLog(entry));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -132,6 +904,485 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rate a custom board from 1 to 5 stars; only players who completed it can rate
+  app.put("/api/custom-boards/:id/rating", async (req, res) => {
+    try {
+      const customBoardId = parseInt(req.params.id);
+      const validatedData = insertCustomBoardRatingSchema.parse(req.body);
+
+      const board = await storage.getCustomBoard(customBoardId);
+      if (!board) {
+        res.status(404).json({ message: "Board not found" });
+        return;
+      }
+
+      const player = await resolvePlayer(req, validatedData.nickname);
+      if (!player) {
+        res.status(403).json({ message: "This name belongs to a registered player" });
+        return;
+      }
+      if (!await storage.hasCompletedCustomBoard(customBoardId, player.nickname)) {
+        res.status(403).json({ message: "Only players who completed the board can rate it" });
+        return;
+      }
+
+      const rated = await storage.rateCustomBoard({
+        ...validatedData,
+        customBoardId,
+        nickname: player.nickname,
+        userId: player.userId,
+      });
+      if (!rated) {
+        res.status(404).json({ message: "Board not found" });
+        return;
+      }
+      res.json(await toTaggedBoard(rated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to rate board" });
+      }
+    }
+  });
+
+  // Get comments on a custom board, newest first
+  app.get("/api/custom-boards/:id/comments", async (req, res) => {
+    try {
+      const comments = await storage.getCustomBoardComments(parseInt(req.params.id));
+      res.json(comments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  // Comment on a custom board; only players who completed it can comment
+  app.post("/api/custom-boards/:id/comments", async (req, res) => {
+    try {
+      const customBoardId = parseInt(req.params.id);
+      const validatedData = insertCustomBoardCommentSchema.parse(req.body);
+
+      const board = await storage.getCustomBoard(customBoardId);
+      if (!board) {
+        res.status(404).json({ message: "Board not found" });
+        return;
+      }
+
+      const player = await resolvePlayer(req, validatedData.nickname);
+      if (!player) {
+        res.status(403).json({ message: "This name belongs to a registered player" });
+        return;
+      }
+      if (!await storage.hasCompletedCustomBoard(customBoardId, player.nickname)) {
+        res.status(403).json({ message: "Only players who completed the board can comment" });
+        return;
+      }
+
+      const comment = await storage.createCustomBoardComment({
+        ...validatedData,
+        customBoardId,
+        nickname: player.nickname,
+        userId: player.userId,
+      });
+      res.json(comment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to save comment" });
+      }
+    }
+  });
+
+  // Get all board collections, newest first
+  app.get("/api/collections", async (req, res) => {
+    try {
+      const collections = await storage.getBoardCollections();
+      res.json(collections);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch collections" });
+    }
+  });
+
+  // Get a collection with its boards in playing order
+  app.get("/api/collections/:id", async (req, res) => {
+    try {
+      const collection = await storage.getBoardCollection(parseInt(req.params.id));
+      if (!collection) {
+        res.status(404).json({ message: "Collection not found" });
+        return;
+      }
+
+      const boards = await toPublicBoards(await storage.getCustomBoardsByIds(collection.boardIds));
+      const byId = new Map(boards.map(board => [board.id, board]));
+      res.json({
+        ...collection,
+        boards: collection.boardIds.flatMap(id => byId.get(id) ?? []),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch collection" });
+    }
+  });
+
+  // Create a collection; collections belong to accounts, so only signed-in players can create them
+  app.post("/api/collections", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        res.status(401).json({ message: "Sign in to create a collection" });
+        return;
+      }
+
+      const validatedData = insertBoardCollectionSchema.parse(req.body);
+      const unavailable = await findUnavailableBoards(validatedData.boardIds);
+      if (unavailable.length > 0) {
+        res.status(400).json({ message: "Some boards are not available", boardIds: unavailable });
+        return;
+      }
+
+      const collection = await storage.createBoardCollection({
+        ...validatedData,
+        creatorName: req.user.username,
+        userId: req.user.id,
+      });
+      res.json(collection);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create collection" });
+      }
+    }
+  });
+
+  // Edit a collection as its author; a new list of boards replaces the old one
+  app.patch("/api/collections/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const collection = await storage.getBoardCollection(id);
+      if (!collection) {
+        res.status(404).json({ message: "Collection not found" });
+        return;
+      }
+      if (!canEditCollection(req, collection)) {
+        res.status(403).json({ message: "Only the author can edit this collection" });
+        return;
+      }
+
+      const changes = updateBoardCollectionSchema.parse(req.body);
+      if (Object.keys(changes).length === 0) {
+        res.status(400).json({ message: "Nothing to change" });
+        return;
+      }
+      if (changes.boardIds) {
+        const unavailable = await findUnavailableBoards(changes.boardIds);
+        if (unavailable.length > 0) {
+          res.status(400).json({ message: "Some boards are not available", boardIds: unavailable });
+          return;
+        }
+      }
+
+      const updated = await storage.updateBoardCollection(id, changes);
+      if (!updated) {
+        res.status(404).json({ message: "Collection not found" });
+        return;
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update collection" });
+      }
+    }
+  });
+
+  // Delete a collection as its author; its boards and their results stay
+  app.delete("/api/collections/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const collection = await storage.getBoardCollection(id);
+      if (!collection) {
+        res.status(404).json({ message: "Collection not found" });
+        return;
+      }
+      if (!canEditCollection(req, collection)) {
+        res.status(403).json({ message: "Only the author can delete this collection" });
+        return;
+      }
+
+      await storage.deleteBoardCollection(id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete collection" });
+    }
+  });
+
+  // Get the shared leaderboard of a collection: players who completed every board, by total time
+  app.get("/api/collections/:id/leaderboard", async (req, res) => {
+    try {
+      const collection = await storage.getBoardCollection(parseInt(req.params.id));
+      if (!collection) {
+        res.status(404).json({ message: "Collection not found" });
+        return;
+      }
+
+      const bests = await storage.getBestCustomBoardTimes(collection.boardIds);
+      res.json(rankCollection(collection.boardIds, bests));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch collection leaderboard" });
+    }
+  });
+
+  // Get all tournaments, newest first
+  app.get("/api/tournaments", async (req, res) => {
+    try {
+      const now = new Date();
+      const tournaments = await storage.getTournaments();
+      res.json(tournaments.map(tournament => toTournamentSummary(tournament, now)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tournaments" });
+    }
+  });
+
+  // Get a tournament with its bracket: players of every round, their results and who advanced
+  app.get("/api/tournaments/:id", async (req, res) => {
+    try {
+      const tournament = await storage.getTournament(parseInt(req.params.id));
+      if (!tournament) {
+        res.status(404).json({ message: "Tournament not found" });
+        return;
+      }
+
+      const now = new Date();
+      const details = await buildTournamentDetails(
+        tournament,
+        (round, userIds) => storage.getTournamentRoundTimes(round, userIds),
+        now,
+      );
+      res.json(canEditTournament(req, tournament) ? details : hideUpcomingBoards(details, now));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tournament" });
+    }
+  });
+
+  // Create a tournament; the signed-in player who creates it becomes its organiser
+  app.post("/api/tournaments", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        res.status(401).json({ message: "Sign in to create a tournament" });
+        return;
+      }
+
+      const validatedData = insertTournamentSchema.parse(req.body);
+      const unavailable = await findUnavailableBoards(getRoundBoardIds(validatedData.rounds));
+      if (unavailable.length > 0) {
+        res.status(400).json({ message: "Some boards are not available", boardIds: unavailable });
+        return;
+      }
+
+      const tournament = await storage.createTournament({
+        ...validatedData,
+        creatorName: req.user.username,
+        userId: req.user.id,
+      });
+      res.json(tournament);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create tournament" });
+      }
+    }
+  });
+
+  // Edit a tournament as its organiser; rounds can be changed only until the first one starts
+  app.patch("/api/tournaments/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const tournament = await storage.getTournament(id);
+      if (!tournament) {
+        res.status(404).json({ message: "Tournament not found" });
+        return;
+      }
+      if (!canEditTournament(req, tournament)) {
+        res.status(403).json({ message: "Only the organiser can edit this tournament" });
+        return;
+      }
+
+      const changes = updateTournamentSchema.parse(req.body);
+      if (Object.keys(changes).length === 0) {
+        res.status(400).json({ message: "Nothing to change" });
+        return;
+      }
+      if (changes.rounds) {
+        if (getTournamentStatus(tournament.rounds, new Date()) !== "registration") {
+          res.status(409).json({ message: "The tournament has already started" });
+          return;
+        }
+        const unavailable = await findUnavailableBoards(getRoundBoardIds(changes.rounds));
+        if (unavailable.length > 0) {
+          res.status(400).json({ message: "Some boards are not available", boardIds: unavailable });
+          return;
+        }
+      }
+
+      const updated = await storage.updateTournament(id, changes);
+      if (!updated) {
+        res.status(404).json({ message: "Tournament not found" });
+        return;
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update tournament" });
+      }
+    }
+  });
+
+  // Delete a tournament as its organiser; the results played in its rounds stay
+  app.delete("/api/tournaments/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const tournament = await storage.getTournament(id);
+      if (!tournament) {
+        res.status(404).json({ message: "Tournament not found" });
+        return;
+      }
+      if (!canEditTournament(req, tournament)) {
+        res.status(403).json({ message: "Only the organiser can delete this tournament" });
+        return;
+      }
+
+      await storage.deleteTournament(id);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete tournament" });
+    }
+  });
+
+  // Sign up for a tournament; results are matched to players by account, so signing in is required
+  app.post("/api/tournaments/:id/players", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        res.status(401).json({ message: "Sign in to take part in a tournament" });
+        return;
+      }
+
+      const tournament = await storage.getTournament(parseInt(req.params.id));
+      if (!tournament) {
+        res.status(404).json({ message: "Tournament not found" });
+        return;
+      }
+      if (getTournamentStatus(tournament.rounds, new Date()) !== "registration") {
+        res.status(409).json({ message: "Registration is closed" });
+        return;
+      }
+      if (tournament.players.some(player => player.userId === req.user.id)) {
+        res.status(409).json({ message: "Already registered" });
+        return;
+      }
+
+      const player = await storage.addTournamentPlayer({
+        tournamentId: tournament.id,
+        userId: req.user.id,
+        nickname: req.user.username,
+      });
+      res.json(player);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to register for tournament" });
+    }
+  });
+
+  // Withdraw from a tournament, or remove a player as its organiser, until the first round starts
+  app.delete("/api/tournaments/:id/players/:userId", async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const tournament = await storage.getTournament(parseInt(req.params.id));
+      if (!tournament) {
+        res.status(404).json({ message: "Tournament not found" });
+        return;
+      }
+      if (!canEditTournament(req, tournament) && !(req.isAuthenticated() && req.user.id === userId)) {
+        res.status(403).json({ message: "Only the player or the organiser can do this" });
+        return;
+      }
+      if (getTournamentStatus(tournament.rounds, new Date()) !== "registration") {
+        res.status(409).json({ message: "The tournament has already started" });
+        return;
+      }
+
+      await storage.removeTournamentPlayer(tournament.id, userId);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove player" });
+    }
+  });
+
+  // Create a race room; the host gets a token to connect to the race socket
+  app.post("/api/race/rooms", async (req, res) => {
+    try {
+      const validatedData = createRaceSchema.parse(req.body);
+      const player = await resolvePlayer(req, validatedData.nickname);
+      if (!player) {
+        res.status(403).json({ message: "This name belongs to a registered player" });
+        return;
+      }
+      res.json(raceRooms.create(player.nickname, validatedData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create race" });
+      }
+    }
+  });
+
+  // Get a race room: its players, status and, once started, the board
+  app.get("/api/race/rooms/:code", (req, res) => {
+    const room = raceRooms.getState(req.params.code.toUpperCase());
+    if (!room) {
+      res.status(404).json({ message: "Race not found" });
+      return;
+    }
+    res.json(room);
+  });
+
+  // Join a race room that has not started yet
+  app.post("/api/race/rooms/:code/join", async (req, res) => {
+    try {
+      const { nickname } = joinRaceSchema.parse(req.body);
+      const player = await resolvePlayer(req, nickname);
+      if (!player) {
+        res.status(403).json({ message: "This name belongs to a registered player" });
+        return;
+      }
+
+      const joined = raceRooms.join(req.params.code.toUpperCase(), player.nickname);
+      if (joined.ok) {
+        res.json(joined.ticket);
+      } else if (joined.reason === "not-found") {
+        res.status(404).json({ message: "Race not found" });
+      } else {
+        const messages = {
+          started: "The race has already started",
+          full: "The race is full",
+          "name-taken": "This name is already taken in the race",
+        };
+        res.status(409).json({ message: messages[joined.reason], reason: joined.reason });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to join race" });
+      }
+    }
+  });
+
   const httpServer = createServer(app);
+  // Live race events go over a WebSocket on the same server as the API
+  setupRaceSocket(httpServer);
   return httpServer;
 }
@@ -0,0 +1,160 @@
+import type { Move } from "@shared/schema";
+import { createRandom, generateGame, generateGameInBand, type GeneratedGame } from "@shared/board-generator";
+import { enumerateLegalPaths } from "@shared/solver";
+import { DIFFICULTY_BANDS } from "@shared/difficulty";
+import { BOARD_SIZES, DIFFICULTIES, type Difficulty } from "@shared/game-rules";
+import { replayMoveLog } from "./verification";
+import type { IStorage } from "./storage";
+
+// Автор демонстрационных полей; по нему повторный запуск узнаёт, что данные уже есть
+export const DEMO_CREATOR = "Демо";
+
+const DEMO_PLAYERS = ["Алиса", "Борис", "Вера", "Глеб", "Дина"];
+
+const difficultyNames: Record<Difficulty, string> = {
+  easy: "лёгкое",
+  medium: "среднее",
+  hard: "сложное",
+};
+
+// Теги демонстрационных полей, чтобы в каталоге работал фильтр по тегу
+function demoTags(difficulty: Difficulty, boardSize: number): string[] {
+  const tags = [difficulty === "easy" ? "beginner" : difficulty === "medium" ? "division" : "powers"];
+  if (boardSize === BOARD_SIZES[0]) tags.push("speedrun");
+  if (boardSize === BOARD_SIZES[BOARD_SIZES.length - 1]) tags.push("marathon");
+  return tags;
+}
+
+export interface SeedSummary {
+  customBoards: number;
+  leaderboardEntries: number;
+  customBoardEntries: number;
+  customBoardRatings: number;
+}
+
+/**
+ * Собирает правдоподобный журнал ходов игрока: по одному решению на цель
+ * в случайном порядке, иногда с промахом, и паузами от 3 до 15 секунд.
+ * Промахи — настоящие пути поля, значение которых не входит в цели.
+ */
+function playGame(game: GeneratedGame, player: string): Move[] {
+  const random = createRandom(`${game.seed}-${player}`);
+  const targets = new Set(game.targets);
+  const solutions = new Map<number, Move["path"]>();
+  const decoys: Move["path"][] = [];
+
+  for (const path of enumerateLegalPaths(game.board)) {
+    if (!targets.has(path.value)) {
+      decoys.push(path.cells);
+    } else if (!solutions.has(path.value)) {
+      solutions.set(path.value, path.cells);
+    }
+  }
+
+  const order = Array.from(solutions.values());
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  const moveLog: Move[] = [];
+  let at = 0;
+  for (const path of order) {
+    if (decoys.length > 0 && random() < 0.3) {
+      at += Math.round(3000 + random() * 12000);
+      moveLog.push({ path: decoys[Math.floor(random() * decoys.length)], at });
+    }
+    at += Math.round(3000 + random() * 12000);
+    moveLog.push({ path, at });
+  }
+
+  return moveLog;
+}
+
+/**
+ * Заполняет хранилище демонстрационными данными: результатами обычных игр
+ * и пользовательскими полями с результатами. Поля строятся генератором,
+ * а результаты — проверенными воспроизведением журналами ходов,
+ * поэтому они выглядят и ранжируются как настоящие.
+ * Если демонстрационные поля уже есть, ничего не делает.
+ */
+export async function seedDemoData(storage: IStorage): Promise<SeedSummary | null> {
+  const existing = await storage.getCustomBoardsByCreator(DEMO_CREATOR);
+  if (existing.length > 0) {
+    return null;
+  }
+
+  const summary: SeedSummary = { customBoards: 0, leaderboardEntries: 0, customBoardEntries: 0, customBoardRatings: 0 };
+
+  for (const boardSize of BOARD_SIZES) {
+    for (const difficulty of DIFFICULTIES) {
+      const game = generateGame(`demo-${difficulty}-${boardSize}`, boardSize, difficulty);
+      for (const player of DEMO_PLAYERS) {
+        const moveLog = playGame(game, player);
+        const replay = replayMoveLog(game.board, game.targets, moveLog, 0);
+        if (!replay.ok) continue;
+
+        await storage.createLeaderboardEntry({
+          nickname: player,
+          time: replay.time,
+          attempts: replay.attempts,
+          difficulty,
+          boardSize,
+          seed: game.seed,
+          moveLog,
+          flagged: replay.flagged,
+        });
+        summary.leaderboardEntries++;
+      }
+
+      // Цели пользовательского поля хранятся в integer[], дробные PostgreSQL не примет
+      const custom = generateGameInBand(
+        `demo-board-${difficulty}-${boardSize}`,
+        boardSize,
+        difficulty,
+        DIFFICULTY_BANDS[difficulty],
+        { integerTargets: true },
+      );
+      const board = await storage.createCustomBoard({
+        name: `Демо: ${difficultyNames[difficulty]} поле ${boardSize}×${boardSize}`,
+        creatorName: DEMO_CREATOR,
+        difficulty,
+        boardSize,
+        boardData: custom.board,
+        targets: custom.targets,
+        isSolved: true,
+        difficultyScore: custom.score,
+      });
+      await storage.setCustomBoardTags(board.id, demoTags(difficulty, boardSize));
+      summary.customBoards++;
+
+      for (const player of DEMO_PLAYERS.slice(0, 3)) {
+        const moveLog = playGame(custom, player);
+        const replay = replayMoveLog(custom.board, custom.targets, moveLog, 0);
+        if (!replay.ok) continue;
+
+        await storage.createCustomBoardLeaderboardEntry({
+          customBoardId: board.id,
+          nickname: player,
+          time: replay.time,
+          attempts: replay.attempts,
+          moveLog,
+          flagged: replay.flagged,
+        });
+        await storage.incrementCustomBoardCompletionCount(board.id);
+        summary.customBoardEntries++;
+
+        // Оценки разные, чтобы сортировка по рейтингу была заметна
+        await storage.rateCustomBoard({
+          customBoardId: board.id,
+          nickname: player,
+          userId: null,
+          stars: 1 + Math.floor(createRandom(`${custom.seed}-${player}-rating`)() * 5),
+        });
+        summary.customBoardRatings++;
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,930 @@
+import {
+  users,
+  leaderboardEntries,
+  customBoards,
+  customBoardLeaderboards,
+  customBoardVersions,
+  customBoardRatings,
+  customBoardComments,
+  customBoardTags,
+  boardCollections,
+  boardCollectionItems,
+  tournaments,
+  tournamentRounds,
+  tournamentPlayers,
+  gameReplays,
+} from "@shared/sqlite-schema";
+import type {
+  User,
+  InsertUser,
+  LeaderboardEntry,
+  InsertLeaderboardEntry,
+  CustomBoard,
+  UpdateCustomBoard,
+  CustomBoardVersion,
+  CustomBoardLeaderboard,
+  PublicCustomBoardLeaderboard,
+  InsertCustomBoardLeaderboard,
+  CustomBoardComment,
+  CustomBoardPage,
+  CustomBoardQuery,
+  BoardCollection,
+  BoardCollectionSummary,
+  UpdateBoardCollection,
+  TagCount,
+  Tournament,
+  TournamentPlayer,
+  TournamentRecord,
+  TournamentRound,
+  UpdateTournament,
+  GameReplay,
+  ReplaySource,
+  PublicLeaderboardEntry,
+  LeaderboardPage,
+  LeaderboardPlacement,
+  LeaderboardQuery,
+  LeaderboardPeriod,
+  LeaderboardRanking,
+  PlayerHistoryPage,
+  PlayerHistoryQuery,
+} from "@shared/schema";
+import { UniqueViolationError, connectSqliteDatabase, type SqliteDatabase } from "./db";
+import {
+  PLACEMENT_NEIGHBOURS,
+  getPeriodStart,
+  placementOffset,
+  rankingOrder,
+  withRanks,
+  withoutMoveLog,
+} from "./ranking";
+import { groupBoardTags, snapshotBoard } from "./custom-boards";
+import { attachBoardIds, toCollectionItems } from "./collections";
+import { attachRoundsAndPlayers, getRoundBoardIds, toTournamentRounds } from "./tournaments";
+import { catalogueConditions, catalogueOrder, toCataloguePage } from "./board-catalogue";
+import {
+  CLASSIC_HISTORY,
+  CUSTOM_HISTORY,
+  attachBests,
+  classicHistoryItem,
+  customHistoryItem,
+  decodeHistoryCursor,
+  historyAfter,
+  historyOrder,
+  toHistoryPage,
+  type PlayerStatsGroup,
+} from "./profiles";
+import type {
+  BestBoardTime,
+  IStorage,
+  LeaderboardFilter,
+  NewBoardCollection,
+  NewCustomBoard,
+  NewCustomBoardComment,
+  NewCustomBoardRating,
+  NewGameReplay,
+  NewTournament,
+  NewTournamentPlayer,
+  RoundTime,
+} from "./storage";
+import { eq, and, or, asc, desc, gt, gte, lt, sql, inArray, isNotNull, isNull, getTableColumns, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+
+const MemoryStore = createMemoryStore(session);
+
+// Колонки результатов для лидербордов: всё, кроме журнала ходов
+const publicLeaderboardColumns = withoutMoveLog(getTableColumns(leaderboardEntries));
+const publicCustomBoardLeaderboardColumns = withoutMoveLog(getTableColumns(customBoardLeaderboards));
+
+/**
+ * Реализация хранилища данных в одном файле SQLite через Drizzle ORM.
+ * Запросы те же, что и в DatabaseStorage, но по схеме из sqlite-schema.ts.
+ *
+ * @class SqliteStorage
+ * @implements {IStorage}
+ * @param connectionString - Адрес вида sqlite:./data.db или file:./data.db
+ */
+export class SqliteStorage implements IStorage {
+  sessionStore: session.Store;
+  private db: SqliteDatabase;
+
+  constructor(connectionString: string) {
+    this.db = connectSqliteDatabase(connectionString).db;
+    // Сессии живут в памяти процесса и сбрасываются при перезапуске
+    this.sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  // lower() в SQLite понимает только латиницу, поэтому кириллические имена
+  // сравниваются без учёта регистра уже в JS среди имён той же длины
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const name = username.toLowerCase();
+    const candidates = await this.db
+      .select()
+      .from(users)
+      .where(sql`length(${users.username}) = ${username.length}`);
+    return candidates.find(user => user.username.toLowerCase() === name);
+  }
+
+  // Индекс по lower(username) не различает кириллицу, поэтому имя проверяется
+  // в той же пишущей транзакции, что и вставка: одновременная регистрация ждёт её конца
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return await this.db.transaction(async (tx) => {
+      const name = insertUser.username.toLowerCase();
+      const candidates = await tx
+        .select({ username: users.username })
+        .from(users)
+        .where(sql`length(${users.username}) = ${insertUser.username.length}`);
+      if (candidates.some(user => user.username.toLowerCase() === name)) {
+        throw new UniqueViolationError(`Username "${insertUser.username}" already exists`);
+      }
+
+      const [user] = await tx
+        .insert(users)
+        .values(insertUser)
+        .returning();
+      return user;
+    });
+  }
+
+  async createLeaderboardEntry(insertEntry: InsertLeaderboardEntry & { flagged?: boolean; userId?: number | null }): Promise<LeaderboardEntry> {
+    const [entry] = await this.db
+      .insert(leaderboardEntries)
+      .values(insertEntry)
+      .returning();
+    return entry;
+  }
+
+  async getLeaderboardEntry(id: number): Promise<LeaderboardEntry | undefined> {
+    const [entry] = await this.db.select().from(leaderboardEntries).where(eq(leaderboardEntries.id, id));
+    return entry || undefined;
+  }
+
+  private leaderboardConditions(filter: LeaderboardFilter, period: LeaderboardPeriod) {
+    const conditions = [];
+    
+    // Flagged runs stay in the table for audit but are not ranked
+    conditions.push(eq(leaderboardEntries.flagged, false));
+    
+    if (filter.difficulty) {
+      conditions.push(eq(leaderboardEntries.difficulty, filter.difficulty));
+    }
+    if (filter.boardSize !== undefined) {
+      conditions.push(eq(leaderboardEntries.boardSize, filter.boardSize));
+    }
+    if (filter.seed) {
+      conditions.push(eq(leaderboardEntries.seed, filter.seed));
+    }
+    if (filter.dailyDate) {
+      conditions.push(eq(leaderboardEntries.dailyDate, filter.dailyDate));
+    }
+    
+    const periodStart = getPeriodStart(period);
+    if (periodStart) {
+      conditions.push(gte(leaderboardEntries.completedAt, periodStart));
+    }
+    
+    return and(...conditions);
+  }
+
+  private async countLeaderboard(where: SQL | undefined): Promise<number> {
+    const [{ count }] = await this.db
+      .select({ count: sql<number>`cast(count(*) as int)` })
+      .from(leaderboardEntries)
+      .where(where);
+    return count;
+  }
+
+  async getLeaderboard(filter: LeaderboardFilter, query: LeaderboardQuery): Promise<LeaderboardPage<PublicLeaderboardEntry>> {
+    const where = this.leaderboardConditions(filter, query.period);
+    const offset = (query.page - 1) * query.pageSize;
+    
+    const entries = await this.db
+      .select(publicLeaderboardColumns)
+      .from(leaderboardEntries)
+      .where(where)
+      .orderBy(...rankingOrder(leaderboardEntries, query.sort))
+      .limit(query.pageSize)
+      .offset(offset);
+    
+    return {
+      entries: withRanks(entries, offset),
+      total: await this.countLeaderboard(where),
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async getLeaderboardPlacement(
+    filter: LeaderboardFilter,
+    entryId: number,
+    ranking: LeaderboardRanking,
+  ): Promise<LeaderboardPlacement<PublicLeaderboardEntry> | undefined> {
+    const where = this.leaderboardConditions(filter, ranking.period);
+    const order = rankingOrder(leaderboardEntries, ranking.sort);
+    
+    const ranked = this.db.$with("ranked").as(
+      this.db
+        .select({
+          id: leaderboardEntries.id,
+          rank: sql<number>`cast(row_number() over (order by ${sql.join(order, sql`, `)}) as int)`.as("rank"),
+        })
+        .from(leaderboardEntries)
+        .where(where)
+    );
+    const [row] = await this.db.with(ranked).select().from(ranked).where(eq(ranked.id, entryId));
+    if (!row) return undefined;
+    
+    const offset = placementOffset(row.rank);
+    const neighbours = await this.db
+      .select(publicLeaderboardColumns)
+      .from(leaderboardEntries)
+      .where(where)
+      .orderBy(...order)
+      .limit(PLACEMENT_NEIGHBOURS * 2 + 1)
+      .offset(offset);
+    
+    return {
+      rank: row.rank,
+      total: await this.countLeaderboard(where),
+      neighbours: withRanks(neighbours, offset),
+    };
+  }
+
+  async getDailyEntry(nickname: string, dailyDate: string, difficulty: string, boardSize: number): Promise<LeaderboardEntry | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(leaderboardEntries)
+      .where(and(
+        eq(leaderboardEntries.nickname, nickname),
+        eq(leaderboardEntries.dailyDate, dailyDate),
+        eq(leaderboardEntries.difficulty, difficulty),
+        eq(leaderboardEntries.boardSize, boardSize),
+      ));
+    return entry || undefined;
+  }
+
+  async getDailyDates(nickname: string): Promise<string[]> {
+    const rows = await this.db
+      .selectDistinct({ dailyDate: leaderboardEntries.dailyDate })
+      .from(leaderboardEntries)
+      .where(and(
+        eq(leaderboardEntries.nickname, nickname),
+        isNotNull(leaderboardEntries.dailyDate),
+        eq(leaderboardEntries.flagged, false),
+      ));
+    
+    return rows.map(row => row.dailyDate as string);
+  }
+
+  async createCustomBoard(insertBoard: NewCustomBoard): Promise<CustomBoard> {
+    return await this.db.transaction(async (tx) => {
+      const [board] = await tx
+        .insert(customBoards)
+        .values(insertBoard)
+        .returning();
+      await tx.insert(customBoardVersions).values(snapshotBoard(board));
+      return board;
+    });
+  }
+
+  async getCustomBoards(query: CustomBoardQuery): Promise<CustomBoardPage<CustomBoard>> {
+    const boards = await this.db
+      .select()
+      .from(customBoards)
+      .where(catalogueConditions(customBoards, query, sql`json_array_length(${customBoards.targets})`, customBoardTags))
+      .orderBy(...catalogueOrder(customBoards, query.sort))
+      .limit(query.limit + 1);
+    return toCataloguePage(boards, query.limit);
+  }
+
+  async getCustomBoard(id: number): Promise<CustomBoard | undefined> {
+    const [board] = await this.db
+      .select()
+      .from(customBoards)
+      .where(and(eq(customBoards.id, id), isNull(customBoards.deletedAt)));
+    return board || undefined;
+  }
+
+  async updateCustomBoard(id: number, changes: UpdateCustomBoard & { difficultyScore: number | null; isSolved?: boolean }): Promise<CustomBoard | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [board] = await tx
+        .update(customBoards)
+        .set({ ...changes, version: sql`${customBoards.version} + 1` })
+        .where(and(eq(customBoards.id, id), isNull(customBoards.deletedAt)))
+        .returning();
+      if (!board) return undefined;
+      
+      await tx.insert(customBoardVersions).values(snapshotBoard(board));
+      return board;
+    });
+  }
+
+  async deleteCustomBoard(id: number): Promise<void> {
+    await this.db
+      .update(customBoards)
+      .set({ deletedAt: new Date() })
+      .where(eq(customBoards.id, id));
+  }
+
+  async getCustomBoardVersions(id: number): Promise<CustomBoardVersion[]> {
+    return await this.db
+      .select()
+      .from(customBoardVersions)
+      .where(eq(customBoardVersions.customBoardId, id))
+      .orderBy(asc(customBoardVersions.version));
+  }
+
+  async updateCustomBoardSolved(id: number): Promise<CustomBoard> {
+    const [board] = await this.db
+      .update(customBoards)
+      .set({ isSolved: true })
+      .where(eq(customBoards.id, id))
+      .returning();
+    return board;
+  }
+
+  async createCustomBoardLeaderboardEntry(insertEntry: InsertCustomBoardLeaderboard & { flagged?: boolean; userId?: number | null; boardVersion?: number }): Promise<CustomBoardLeaderboard> {
+    const [entry] = await this.db
+      .insert(customBoardLeaderboards)
+      .values(insertEntry)
+      .returning();
+    return entry;
+  }
+
+  async getCustomBoardLeaderboardEntry(id: number): Promise<CustomBoardLeaderboard | undefined> {
+    const [entry] = await this.db.select().from(customBoardLeaderboards).where(eq(customBoardLeaderboards.id, id));
+    return entry || undefined;
+  }
+
+  private customBoardLeaderboardConditions(customBoardId: number, boardVersion: number, period: LeaderboardPeriod) {
+    const conditions = [
+      eq(customBoardLeaderboards.customBoardId, customBoardId),
+      eq(customBoardLeaderboards.boardVersion, boardVersion),
+      eq(customBoardLeaderboards.flagged, false),
+    ];
+    
+    const periodStart = getPeriodStart(period);
+    if (periodStart) {
+      conditions.push(gte(customBoardLeaderboards.completedAt, periodStart));
+    }
+    
+    return and(...conditions);
+  }
+
+  private async countCustomBoardLeaderboard(where: SQL | undefined): Promise<number> {
+    const [{ count }] = await this.db
+      .select({ count: sql<number>`cast(count(*) as int)` })
+      .from(customBoardLeaderboards)
+      .where(where);
+    return count;
+  }
+
+  async getCustomBoardLeaderboard(customBoardId: number, boardVersion: number, query: LeaderboardQuery): Promise<LeaderboardPage<PublicCustomBoardLeaderboard>> {
+    const where = this.customBoardLeaderboardConditions(customBoardId, boardVersion, query.period);
+    const offset = (query.page - 1) * query.pageSize;
+    
+    const entries = await this.db
+      .select(publicCustomBoardLeaderboardColumns)
+      .from(customBoardLeaderboards)
+      .where(where)
+      .orderBy(...rankingOrder(customBoardLeaderboards, query.sort))
+      .limit(query.pageSize)
+      .offset(offset);
+    
+    return {
+      entries: withRanks(entries, offset),
+      total: await this.countCustomBoardLeaderboard(where),
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async getCustomBoardLeaderboardPlacement(
+    customBoardId: number,
+    boardVersion: number,
+    entryId: number,
+    ranking: LeaderboardRanking,
+  ): Promise<LeaderboardPlacement<PublicCustomBoardLeaderboard> | undefined> {
+    const where = this.customBoardLeaderboardConditions(customBoardId, boardVersion, ranking.period);
+    const order = rankingOrder(customBoardLeaderboards, ranking.sort);
+    
+    const ranked = this.db.$with("ranked").as(
+      this.db
+        .select({
+          id: customBoardLeaderboards.id,
+          rank: sql<number>`cast(row_number() over (order by ${sql.join(order, sql`, `)}) as int)`.as("rank"),
+        })
+        .from(customBoardLeaderboards)
+        .where(where)
+    );
+    const [row] = await this.db.with(ranked).select().from(ranked).where(eq(ranked.id, entryId));
+    if (!row) return undefined;
+    
+    const offset = placementOffset(row.rank);
+    const neighbours = await this.db
+      .select(publicCustomBoardLeaderboardColumns)
+      .from(customBoardLeaderboards)
+      .where(where)
+      .orderBy(...order)
+      .limit(PLACEMENT_NEIGHBOURS * 2 + 1)
+      .offset(offset);
+    
+    return {
+      rank: row.rank,
+      total: await this.countCustomBoardLeaderboard(where),
+      neighbours: withRanks(neighbours, offset),
+    };
+  }
+
+  async incrementCustomBoardCompletionCount(customBoardId: number): Promise<void> {
+    await this.db
+      .update(customBoards)
+      .set({ completionCount: sql`${customBoards.completionCount} + 1` })
+      .where(eq(customBoards.id, customBoardId));
+  }
+
+  async getPlayerStats(nickname: string): Promise<PlayerStatsGroup[]> {
+    const classic = and(eq(leaderboardEntries.nickname, nickname), eq(leaderboardEntries.flagged, false));
+    const classicGroups = await this.db
+      .select({
+        difficulty: leaderboardEntries.difficulty,
+        boardSize: leaderboardEntries.boardSize,
+        games: sql<number>`cast(count(*) as int)`,
+        totalTime: sql<number>`cast(sum(${leaderboardEntries.time}) as int)`,
+        totalAttempts: sql<number>`cast(sum(${leaderboardEntries.attempts}) as int)`,
+        bestTime: sql<number>`min(${leaderboardEntries.time})`,
+      })
+      .from(leaderboardEntries)
+      .where(classic)
+      .groupBy(leaderboardEntries.difficulty, leaderboardEntries.boardSize);
+    const classicBests = classicGroups.length === 0 ? [] : await this.db
+      .select({
+        difficulty: leaderboardEntries.difficulty,
+        boardSize: leaderboardEntries.boardSize,
+        time: leaderboardEntries.time,
+        attempts: leaderboardEntries.attempts,
+        completedAt: leaderboardEntries.completedAt,
+      })
+      .from(leaderboardEntries)
+      .where(and(classic, or(...classicGroups.map(group => and(
+        eq(leaderboardEntries.difficulty, group.difficulty),
+        eq(leaderboardEntries.boardSize, group.boardSize),
+        eq(leaderboardEntries.time, group.bestTime),
+      )))));
+
+    const custom = and(eq(customBoardLeaderboards.nickname, nickname), eq(customBoardLeaderboards.flagged, false));
+    const customGroups = await this.db
+      .select({
+        difficulty: customBoardVersions.difficulty,
+        boardSize: customBoardVersions.boardSize,
+        games: sql<number>`cast(count(*) as int)`,
+        totalTime: sql<number>`cast(sum(${customBoardLeaderboards.time}) as int)`,
+        totalAttempts: sql<number>`cast(sum(${customBoardLeaderboards.attempts}) as int)`,
+        bestTime: sql<number>`min(${customBoardLeaderboards.time})`,
+      })
+      .from(customBoardLeaderboards)
+      .innerJoin(customBoardVersions, and(
+        eq(customBoardLeaderboards.customBoardId, customBoardVersions.customBoardId),
+        eq(customBoardLeaderboards.boardVersion, customBoardVersions.version),
+      ))
+      .where(custom)
+      .groupBy(customBoardVersions.difficulty, customBoardVersions.boardSize);
+    const customBests = customGroups.length === 0 ? [] : await this.db
+      .select({
+        difficulty: customBoardVersions.difficulty,
+        boardSize: customBoardVersions.boardSize,
+        time: customBoardLeaderboards.time,
+        attempts: customBoardLeaderboards.attempts,
+        completedAt: customBoardLeaderboards.completedAt,
+      })
+      .from(customBoardLeaderboards)
+      .innerJoin(customBoardVersions, and(
+        eq(customBoardLeaderboards.customBoardId, customBoardVersions.customBoardId),
+        eq(customBoardLeaderboards.boardVersion, customBoardVersions.version),
+      ))
+      .where(and(custom, or(...customGroups.map(group => and(
+        eq(customBoardVersions.difficulty, group.difficulty),
+        eq(customBoardVersions.boardSize, group.boardSize),
+        eq(customBoardLeaderboards.time, group.bestTime),
+      )))));
+
+    return [...attachBests(classicGroups, classicBests), ...attachBests(customGroups, customBests)];
+  }
+
+  // История по страницам: из каждой таблицы берётся не больше limit + 1 результатов после курсора
+  async getPlayerHistory(nickname: string, query: PlayerHistoryQuery): Promise<PlayerHistoryPage> {
+    const cursor = query.cursor ? decodeHistoryCursor(query.cursor) : null;
+    const classicAt = leaderboardEntries.completedAt;
+    const customAt = customBoardLeaderboards.completedAt;
+
+    const classic = await this.db
+      .select({
+        id: leaderboardEntries.id,
+        dailyDate: leaderboardEntries.dailyDate,
+        difficulty: leaderboardEntries.difficulty,
+        boardSize: leaderboardEntries.boardSize,
+        time: leaderboardEntries.time,
+        attempts: leaderboardEntries.attempts,
+        completedAt: leaderboardEntries.completedAt,
+      })
+      .from(leaderboardEntries)
+      .where(and(
+        eq(leaderboardEntries.nickname, nickname),
+        eq(leaderboardEntries.flagged, false),
+        cursor ? historyAfter(classicAt, leaderboardEntries.completedAt, leaderboardEntries.id, CLASSIC_HISTORY, cursor) : undefined,
+      ))
+      .orderBy(...historyOrder(classicAt, leaderboardEntries.id))
+      .limit(query.limit + 1);
+
+    const custom = await this.db
+      .select({
+        id: customBoardLeaderboards.id,
+        customBoardId: customBoardLeaderboards.customBoardId,
+        difficulty: customBoardVersions.difficulty,
+        boardSize: customBoardVersions.boardSize,
+        time: customBoardLeaderboards.time,
+        attempts: customBoardLeaderboards.attempts,
+        completedAt: customBoardLeaderboards.completedAt,
+      })
+      .from(customBoardLeaderboards)
+      .innerJoin(customBoardVersions, and(
+        eq(customBoardLeaderboards.customBoardId, customBoardVersions.customBoardId),
+        eq(customBoardLeaderboards.boardVersion, customBoardVersions.version),
+      ))
+      .where(and(
+        eq(customBoardLeaderboards.nickname, nickname),
+        eq(customBoardLeaderboards.flagged, false),
+        cursor ? historyAfter(customAt, customBoardLeaderboards.completedAt, customBoardLeaderboards.id, CUSTOM_HISTORY, cursor) : undefined,
+      ))
+      .orderBy(...historyOrder(customAt, customBoardLeaderboards.id))
+      .limit(query.limit + 1);
+
+    return toHistoryPage([...classic.map(classicHistoryItem), ...custom.map(customHistoryItem)], query.limit);
+  }
+
+  async getCustomBoardsByCreator(creatorName: string): Promise<CustomBoard[]> {
+    return await this.db
+      .select()
+      .from(customBoards)
+      .where(and(eq(customBoards.creatorName, creatorName), isNull(customBoards.deletedAt)))
+      .orderBy(desc(customBoards.createdAt));
+  }
+
+  // Оценивать поле и оставлять комментарии могут только игроки, прошедшие его
+  async hasCompletedCustomBoard(customBoardId: number, nickname: string): Promise<boolean> {
+    const [entry] = await this.db
+      .select({ id: customBoardLeaderboards.id })
+      .from(customBoardLeaderboards)
+      .where(and(
+        eq(customBoardLeaderboards.customBoardId, customBoardId),
+        eq(customBoardLeaderboards.nickname, nickname),
+        eq(customBoardLeaderboards.flagged, false),
+      ))
+      .limit(1);
+    return !!entry;
+  }
+
+  // Счётчики оценок пересчитываются по таблице, поэтому повторная оценка их не искажает
+  async rateCustomBoard(rating: NewCustomBoardRating): Promise<CustomBoard | undefined> {
+    return await this.db.transaction(async (tx) => {
+      await tx
+        .insert(customBoardRatings)
+        .values(rating)
+        .onConflictDoUpdate({
+          target: [customBoardRatings.customBoardId, customBoardRatings.nickname],
+          set: { stars: rating.stars, userId: rating.userId, ratedAt: new Date() },
+        });
+
+      const [totals] = await tx
+        .select({
+          count: sql<number>`cast(count(*) as int)`,
+          sum: sql<number>`cast(coalesce(sum(${customBoardRatings.stars}), 0) as int)`,
+        })
+        .from(customBoardRatings)
+        .where(eq(customBoardRatings.customBoardId, rating.customBoardId));
+
+      const [board] = await tx
+        .update(customBoards)
+        .set({ ratingCount: totals.count, ratingSum: totals.sum })
+        .where(and(eq(customBoards.id, rating.customBoardId), isNull(customBoards.deletedAt)))
+        .returning();
+      return board;
+    });
+  }
+
+  async getCustomBoardComments(customBoardId: number): Promise<CustomBoardComment[]> {
+    return await this.db
+      .select()
+      .from(customBoardComments)
+      .where(eq(customBoardComments.customBoardId, customBoardId))
+      .orderBy(desc(customBoardComments.createdAt), desc(customBoardComments.id));
+  }
+
+  async createCustomBoardComment(insertComment: NewCustomBoardComment): Promise<CustomBoardComment> {
+    const [comment] = await this.db
+      .insert(customBoardComments)
+      .values(insertComment)
+      .returning();
+    return comment;
+  }
+
+  async getCustomBoardsByIds(ids: number[]): Promise<CustomBoard[]> {
+    if (ids.length === 0) return [];
+    return await this.db
+      .select()
+      .from(customBoards)
+      .where(and(inArray(customBoards.id, ids), isNull(customBoards.deletedAt)));
+  }
+
+  async getCustomBoardTags(customBoardIds: number[]): Promise<Map<number, string[]>> {
+    if (customBoardIds.length === 0) return new Map();
+    const rows = await this.db
+      .select()
+      .from(customBoardTags)
+      .where(inArray(customBoardTags.customBoardId, customBoardIds))
+      .orderBy(asc(customBoardTags.id));
+    return groupBoardTags(rows);
+  }
+
+  // Теги поля заменяются целиком
+  async setCustomBoardTags(customBoardId: number, tags: string[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(customBoardTags).where(eq(customBoardTags.customBoardId, customBoardId));
+      if (tags.length > 0) {
+        await tx.insert(customBoardTags).values(tags.map(tag => ({ customBoardId, tag })));
+      }
+    });
+  }
+
+  // Считаются только поля, которые видны в каталоге
+  async getPopularTags(limit: number): Promise<TagCount[]> {
+    return await this.db
+      .select({
+        tag: customBoardTags.tag,
+        count: sql<number>`cast(count(*) as int)`,
+      })
+      .from(customBoardTags)
+      .innerJoin(customBoards, eq(customBoardTags.customBoardId, customBoards.id))
+      .where(and(eq(customBoards.isSolved, true), isNull(customBoards.deletedAt)))
+      .groupBy(customBoardTags.tag)
+      .orderBy(desc(sql`count(*)`), asc(customBoardTags.tag))
+      .limit(limit);
+  }
+
+  async createBoardCollection({ boardIds, ...insertCollection }: NewBoardCollection): Promise<BoardCollectionSummary> {
+    const collection = await this.db.transaction(async (tx) => {
+      const [collection] = await tx
+        .insert(boardCollections)
+        .values(insertCollection)
+        .returning();
+      await tx.insert(boardCollectionItems).values(toCollectionItems(collection.id, boardIds));
+      return collection;
+    });
+    const [summary] = await this.withBoardIds([collection]);
+    return summary;
+  }
+
+  async getBoardCollections(): Promise<BoardCollectionSummary[]> {
+    const collections = await this.db
+      .select()
+      .from(boardCollections)
+      .orderBy(desc(boardCollections.id));
+    return await this.withBoardIds(collections);
+  }
+
+  async getBoardCollection(id: number): Promise<BoardCollectionSummary | undefined> {
+    const [collection] = await this.db
+      .select()
+      .from(boardCollections)
+      .where(eq(boardCollections.id, id));
+    if (!collection) return undefined;
+
+    const [summary] = await this.withBoardIds([collection]);
+    return summary;
+  }
+
+  // Новый список полей заменяет прежний целиком
+  async updateBoardCollection(id: number, { boardIds, ...changes }: UpdateBoardCollection): Promise<BoardCollectionSummary | undefined> {
+    const collection = await this.db.transaction(async (tx) => {
+      const [collection] = Object.keys(changes).length > 0
+        ? await tx.update(boardCollections).set(changes).where(eq(boardCollections.id, id)).returning()
+        : await tx.select().from(boardCollections).where(eq(boardCollections.id, id));
+      if (!collection) return undefined;
+
+      if (boardIds) {
+        await tx.delete(boardCollectionItems).where(eq(boardCollectionItems.collectionId, id));
+        await tx.insert(boardCollectionItems).values(toCollectionItems(id, boardIds));
+      }
+      return collection;
+    });
+    if (!collection) return undefined;
+
+    const [summary] = await this.withBoardIds([collection]);
+    return summary;
+  }
+
+  async deleteBoardCollection(id: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(boardCollectionItems).where(eq(boardCollectionItems.collectionId, id));
+      await tx.delete(boardCollections).where(eq(boardCollections.id, id));
+    });
+  }
+
+  async getBestCustomBoardTimes(customBoardIds: number[]): Promise<BestBoardTime[]> {
+    if (customBoardIds.length === 0) return [];
+    return await this.db
+      .select({
+        nickname: customBoardLeaderboards.nickname,
+        customBoardId: customBoardLeaderboards.customBoardId,
+        time: sql<number>`cast(min(${customBoardLeaderboards.time}) as int)`,
+      })
+      .from(customBoardLeaderboards)
+      .innerJoin(customBoards, and(
+        eq(customBoardLeaderboards.customBoardId, customBoards.id),
+        eq(customBoardLeaderboards.boardVersion, customBoards.version),
+      ))
+      .where(and(
+        inArray(customBoardLeaderboards.customBoardId, customBoardIds),
+        eq(customBoardLeaderboards.flagged, false),
+      ))
+      .groupBy(customBoardLeaderboards.nickname, customBoardLeaderboards.customBoardId);
+  }
+
+  // Удалённые поля из подборок не показываются
+  private async withBoardIds(collections: BoardCollection[]): Promise<BoardCollectionSummary[]> {
+    if (collections.length === 0) return [];
+    const items = await this.db
+      .select({
+        collectionId: boardCollectionItems.collectionId,
+        customBoardId: boardCollectionItems.customBoardId,
+      })
+      .from(boardCollectionItems)
+      .innerJoin(customBoards, eq(boardCollectionItems.customBoardId, customBoards.id))
+      .where(and(
+        inArray(boardCollectionItems.collectionId, collections.map(collection => collection.id)),
+        isNull(customBoards.deletedAt),
+      ))
+      .orderBy(asc(boardCollectionItems.position));
+    return attachBoardIds(collections, items);
+  }
+
+  async createTournament({ rounds, ...insertTournament }: NewTournament): Promise<TournamentRecord> {
+    const boards = await this.getCustomBoardsByIds(getRoundBoardIds(rounds));
+    const tournament = await this.db.transaction(async (tx) => {
+      const [tournament] = await tx
+        .insert(tournaments)
+        .values(insertTournament)
+        .returning();
+      await tx.insert(tournamentRounds).values(toTournamentRounds(tournament.id, rounds, boards));
+      return tournament;
+    });
+    const [record] = await this.withRoundsAndPlayers([tournament]);
+    return record;
+  }
+
+  async getTournaments(): Promise<TournamentRecord[]> {
+    const rows = await this.db
+      .select()
+      .from(tournaments)
+      .orderBy(desc(tournaments.id));
+    return await this.withRoundsAndPlayers(rows);
+  }
+
+  async getTournament(id: number): Promise<TournamentRecord | undefined> {
+    const [tournament] = await this.db
+      .select()
+      .from(tournaments)
+      .where(eq(tournaments.id, id));
+    if (!tournament) return undefined;
+
+    const [record] = await this.withRoundsAndPlayers([tournament]);
+    return record;
+  }
+
+  // Новый список раундов заменяет прежний целиком
+  async updateTournament(id: number, { rounds, ...changes }: UpdateTournament): Promise<TournamentRecord | undefined> {
+    const boards = rounds ? await this.getCustomBoardsByIds(getRoundBoardIds(rounds)) : [];
+    const tournament = await this.db.transaction(async (tx) => {
+      const [tournament] = Object.keys(changes).length > 0
+        ? await tx.update(tournaments).set(changes).where(eq(tournaments.id, id)).returning()
+        : await tx.select().from(tournaments).where(eq(tournaments.id, id));
+      if (!tournament) return undefined;
+
+      if (rounds) {
+        await tx.delete(tournamentRounds).where(eq(tournamentRounds.tournamentId, id));
+        await tx.insert(tournamentRounds).values(toTournamentRounds(id, rounds, boards));
+      }
+      return tournament;
+    });
+    if (!tournament) return undefined;
+
+    const [record] = await this.withRoundsAndPlayers([tournament]);
+    return record;
+  }
+
+  async deleteTournament(id: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(tournamentPlayers).where(eq(tournamentPlayers.tournamentId, id));
+      await tx.delete(tournamentRounds).where(eq(tournamentRounds.tournamentId, id));
+      await tx.delete(tournaments).where(eq(tournaments.id, id));
+    });
+  }
+
+  async addTournamentPlayer(player: NewTournamentPlayer): Promise<TournamentPlayer> {
+    const [row] = await this.db
+      .insert(tournamentPlayers)
+      .values(player)
+      .returning();
+    return row;
+  }
+
+  async removeTournamentPlayer(tournamentId: number, userId: number): Promise<void> {
+    await this.db
+      .delete(tournamentPlayers)
+      .where(and(eq(tournamentPlayers.tournamentId, tournamentId), eq(tournamentPlayers.userId, userId)));
+  }
+
+  async hasOpenTournamentRound(customBoardId: number, now: Date): Promise<boolean> {
+    const [round] = await this.db
+      .select({ id: tournamentRounds.id })
+      .from(tournamentRounds)
+      .where(and(eq(tournamentRounds.customBoardId, customBoardId), gt(tournamentRounds.endsAt, now)))
+      .limit(1);
+    return round !== undefined;
+  }
+
+  // Засчитываются результаты, сыгранные из аккаунта участника за время раунда
+  // и на той версии поля, что была при сохранении раунда
+  async getTournamentRoundTimes(round: TournamentRound, userIds: number[]): Promise<RoundTime[]> {
+    if (userIds.length === 0) return [];
+
+    if (round.customBoardId !== null) {
+      return await this.db
+        .select({
+          userId: sql<number>`${customBoardLeaderboards.userId}`,
+          time: sql<number>`cast(min(${customBoardLeaderboards.time}) as int)`,
+        })
+        .from(customBoardLeaderboards)
+        .where(and(
+          eq(customBoardLeaderboards.customBoardId, round.customBoardId),
+          round.boardVersion !== null ? eq(customBoardLeaderboards.boardVersion, round.boardVersion) : undefined,
+          eq(customBoardLeaderboards.flagged, false),
+          inArray(customBoardLeaderboards.userId, userIds),
+          gte(customBoardLeaderboards.completedAt, round.startsAt),
+          lt(customBoardLeaderboards.completedAt, round.endsAt),
+        ))
+        .groupBy(customBoardLeaderboards.userId);
+    }
+
+    const { seed, difficulty, boardSize } = round;
+    if (seed === null || difficulty === null || boardSize === null) return [];
+    return await this.db
+      .select({
+        userId: sql<number>`${leaderboardEntries.userId}`,
+        time: sql<number>`cast(min(${leaderboardEntries.time}) as int)`,
+      })
+      .from(leaderboardEntries)
+      .where(and(
+        eq(leaderboardEntries.seed, seed),
+        eq(leaderboardEntries.difficulty, difficulty),
+        eq(leaderboardEntries.boardSize, boardSize),
+        eq(leaderboardEntries.flagged, false),
+        inArray(leaderboardEntries.userId, userIds),
+        gte(leaderboardEntries.completedAt, round.startsAt),
+        lt(leaderboardEntries.completedAt, round.endsAt),
+      ))
+      .groupBy(leaderboardEntries.userId);
+  }
+
+  private async withRoundsAndPlayers(rows: Tournament[]): Promise<TournamentRecord[]> {
+    if (rows.length === 0) return [];
+    const ids = rows.map(tournament => tournament.id);
+    const rounds = await this.db
+      .select()
+      .from(tournamentRounds)
+      .where(inArray(tournamentRounds.tournamentId, ids))
+      .orderBy(asc(tournamentRounds.position));
+    const players = await this.db
+      .select()
+      .from(tournamentPlayers)
+      .where(inArray(tournamentPlayers.tournamentId, ids))
+      .orderBy(asc(tournamentPlayers.id));
+    return attachRoundsAndPlayers(rows, rounds, players);
+  }
+
+  async createGameReplay(replay: NewGameReplay): Promise<GameReplay> {
+    const [created] = await this.db.insert(gameReplays).values(replay).returning();
+    return created;
+  }
+
+  async getGameReplay(source: ReplaySource, entryId: number): Promise<GameReplay | undefined> {
+    const column = source === "classic" ? gameReplays.leaderboardEntryId : gameReplays.customBoardLeaderboardId;
+    const [replay] = await this.db.select().from(gameReplays).where(eq(column, entryId));
+    return replay || undefined;
+  }
+}
@@ -0,0 +1,415 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import { customBoardQuerySchema, type CustomBoardQuery, type LeaderboardQuery } from "@shared/schema";
+import { DatabaseStorage, MemStorage, createStorage, type IStorage } from "./storage";
+import { SqliteStorage } from "./sqlite-storage";
+import { runMigrations } from "./migrate";
+import { isUniqueViolation } from "./db";
+
+const MIGRATIONS = path.resolve(import.meta.dirname, "..", "migrations", "postgres");
+
+interface Backend {
+  name: string;
+  open(): Promise<{ storage: IStorage; close(): Promise<void> }>;
+}
+
+// Одни и те же проверки для всех хранилищ: routes.ts не должен знать, какое из них выбрано
+const backends: Backend[] = [
+  {
+    name: "MemStorage",
+    async open() {
+      return { storage: new MemStorage(), close: async () => {} };
+    },
+  },
+  {
+    name: "SqliteStorage",
+    async open() {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "relay-storage-"));
+      const url = `sqlite:${path.join(dir, "test.db")}`;
+      await runMigrations(url);
+      return {
+        storage: new SqliteStorage(url),
+        close: async () => fs.rmSync(dir, { recursive: true, force: true }),
+      };
+    },
+  },
+  {
+    name: "DatabaseStorage",
+    async open() {
+      const client = new PGlite();
+      const db = drizzle(client, { schema });
+      await migrate(db, { migrationsFolder: MIGRATIONS });
+      return { storage: new DatabaseStorage(db), close: () => client.close() };
+    },
+  },
+];
+
+const byTime: LeaderboardQuery = { sort: "time", period: "all", page: 1, pageSize: 10 };
+const moveLog = [{ path: [{ row: 0, col: 0 }], value: 1 }];
+
+const board = {
+  name: "Test board",
+  creatorName: "creator",
+  difficulty: "easy",
+  boardSize: 5,
+  boardData: [[{ row: 0, col: 0, value: 1, type: "number" }]],
+  targets: [1, 12],
+};
+
+describe.each(backends)("$name", (backend) => {
+  let storage: IStorage;
+  let close: () => Promise<void>;
+
+  beforeAll(async () => {
+    ({ storage, close } = await backend.open());
+  });
+
+  afterAll(async () => {
+    await close();
+  });
+
+  describe("users", () => {
+    it("finds a user by name regardless of case", async () => {
+      const user = await storage.createUser({ username: "Alice", password: "hash" });
+      expect(await storage.getUser(user.id)).toMatchObject({ username: "Alice" });
+      expect(await storage.getUserByUsername("aLICE")).toMatchObject({ id: user.id });
+      expect(await storage.getUserByUsername("bob")).toBeUndefined();
+    });
+
+    it("rejects a name that differs only in case", async () => {
+      await expect(storage.createUser({ username: "ALICE", password: "hash" })).rejects.toSatisfy(isUniqueViolation);
+    });
+
+    it("returns undefined for a missing id", async () => {
+      expect(await storage.getUser(999_999)).toBeUndefined();
+    });
+  });
+
+  describe("leaderboard", () => {
+    beforeAll(async () => {
+      for (const [nickname, time, attempts] of [["slow", 90, 3], ["fast", 30, 9], ["mid", 60, 1]] as const) {
+        await storage.createLeaderboardEntry({
+          nickname, time, attempts, difficulty: "easy", boardSize: 5, seed: "contract", moveLog,
+        });
+      }
+      await storage.createLeaderboardEntry({
+        nickname: "other", time: 10, attempts: 1, difficulty: "hard", boardSize: 10, seed: "contract", moveLog,
+      });
+    });
+
+    it("ranks entries by time and filters by board", async () => {
+      const page = await storage.getLeaderboard({ difficulty: "easy", boardSize: 5 }, byTime);
+      expect(page.total).toBe(3);
+      expect(page.entries.map(entry => [entry.nickname, entry.rank])).toEqual([["fast", 1], ["mid", 2], ["slow", 3]]);
+    });
+
+    it("ranks by attempts when asked", async () => {
+      const page = await storage.getLeaderboard({ difficulty: "easy", boardSize: 5 }, { ...byTime, sort: "attempts" });
+      expect(page.entries.map(entry => entry.nickname)).toEqual(["mid", "slow", "fast"]);
+    });
+
+    it("splits the ranking into pages", async () => {
+      const page = await storage.getLeaderboard({ difficulty: "easy", boardSize: 5 }, { ...byTime, page: 2, pageSize: 2 });
+      expect(page).toMatchObject({ total: 3, page: 2, pageSize: 2 });
+      expect(page.entries.map(entry => [entry.nickname, entry.rank])).toEqual([["slow", 3]]);
+    });
+
+    it("keeps the move log out of leaderboard pages and placements", async () => {
+      const page = await storage.getLeaderboard({}, byTime);
+      expect(page.entries.every(entry => !("moveLog" in entry))).toBe(true);
+
+      const [, mid] = (await storage.getLeaderboard({ difficulty: "easy", boardSize: 5 }, byTime)).entries;
+      const placement = await storage.getLeaderboardPlacement({ difficulty: "easy", boardSize: 5 }, mid.id, byTime);
+      expect(placement).toMatchObject({ rank: 2, total: 3 });
+      expect(placement!.neighbours.every(entry => !("moveLog" in entry))).toBe(true);
+    });
+
+    it("keeps the move log of a single entry for verification", async () => {
+      const [entry] = (await storage.getLeaderboard({ difficulty: "hard" }, byTime)).entries;
+      expect(await storage.getLeaderboardEntry(entry.id)).toMatchObject({ nickname: "other", moveLog });
+    });
+
+    it("returns undefined for a missing entry", async () => {
+      expect(await storage.getLeaderboardEntry(999_999)).toBeUndefined();
+      expect(await storage.getLeaderboardPlacement({}, 999_999, byTime)).toBeUndefined();
+    });
+  });
+
+  describe("daily challenge", () => {
+    const daily = {
+      nickname: "daily", time: 40, attempts: 2, difficulty: "medium", boardSize: 5,
+      seed: "daily-seed", dailyDate: "2026-03-10", moveLog,
+    };
+
+    it("stores one attempt per player, day and board", async () => {
+      await storage.createLeaderboardEntry(daily);
+      await expect(storage.createLeaderboardEntry({ ...daily, time: 20 })).rejects.toSatisfy(isUniqueViolation);
+
+      expect(await storage.getDailyEntry("daily", "2026-03-10", "medium", 5)).toMatchObject({ time: 40 });
+      expect(await storage.getDailyDates("daily")).toEqual(["2026-03-10"]);
+    });
+
+    it("allows the same player on another day or board", async () => {
+      await storage.createLeaderboardEntry({ ...daily, dailyDate: "2026-03-11" });
+      await storage.createLeaderboardEntry({ ...daily, difficulty: "hard" });
+      expect(await storage.getDailyDates("daily")).toEqual(expect.arrayContaining(["2026-03-10", "2026-03-11"]));
+    });
+  });
+
+  describe("custom boards", () => {
+    let boardId: number;
+
+    beforeAll(async () => {
+      ({ id: boardId } = await storage.createCustomBoard({ ...board, isSolved: true }));
+    });
+
+    it("returns a stored board", async () => {
+      expect(await storage.getCustomBoard(boardId)).toMatchObject({
+        name: "Test board", targets: [1, 12], version: 1, completionCount: 0,
+      });
+      expect(await storage.getCustomBoard(999_999)).toBeUndefined();
+    });
+
+    it("ranks results on the board without their move logs", async () => {
+      await storage.createCustomBoardLeaderboardEntry({ customBoardId: boardId, nickname: "b", time: 50, attempts: 2, moveLog });
+      const { id } = await storage.createCustomBoardLeaderboardEntry({ customBoardId: boardId, nickname: "a", time: 20, attempts: 4, moveLog });
+
+      const page = await storage.getCustomBoardLeaderboard(boardId, 1, byTime);
+      expect(page.entries.map(entry => [entry.nickname, entry.rank])).toEqual([["a", 1], ["b", 2]]);
+      expect(page.entries.every(entry => !("moveLog" in entry))).toBe(true);
+
+      expect(await storage.getCustomBoardLeaderboardPlacement(boardId, 1, id, byTime)).toMatchObject({ rank: 1, total: 2 });
+      expect(await storage.getCustomBoardLeaderboardEntry(id)).toMatchObject({ moveLog });
+      expect(await storage.hasCompletedCustomBoard(boardId, "a")).toBe(true);
+      expect(await storage.hasCompletedCustomBoard(boardId, "nobody")).toBe(false);
+    });
+
+    it("returns an empty leaderboard for a missing board", async () => {
+      expect(await storage.getCustomBoardLeaderboard(999_999, 1, byTime)).toMatchObject({ entries: [], total: 0 });
+    });
+
+    it("counts completions", async () => {
+      await storage.incrementCustomBoardCompletionCount(boardId);
+      await storage.incrementCustomBoardCompletionCount(boardId);
+      expect(await storage.getCustomBoard(boardId)).toMatchObject({ completionCount: 2 });
+    });
+
+    it("keeps tags in the order they were set", async () => {
+      await storage.setCustomBoardTags(boardId, ["primes", "quick"]);
+      expect((await storage.getCustomBoardTags([boardId])).get(boardId)).toEqual(["primes", "quick"]);
+
+      await storage.setCustomBoardTags(boardId, ["quick"]);
+      expect((await storage.getCustomBoardTags([boardId])).get(boardId)).toEqual(["quick"]);
+    });
+
+    it("keeps one rating per player and totals the stars", async () => {
+      await storage.rateCustomBoard({ customBoardId: boardId, nickname: "a", userId: null, stars: 5 });
+      await storage.rateCustomBoard({ customBoardId: boardId, nickname: "b", userId: null, stars: 2 });
+      expect(await storage.getCustomBoard(boardId)).toMatchObject({ ratingCount: 2, ratingSum: 7 });
+
+      const rated = await storage.rateCustomBoard({ customBoardId: boardId, nickname: "a", userId: null, stars: 3 });
+      expect(rated).toMatchObject({ ratingCount: 2, ratingSum: 5 });
+    });
+
+    it("counts best times for collections on the current board version only", async () => {
+      const { id } = await storage.createCustomBoard({ ...board, isSolved: true });
+      await storage.createCustomBoardLeaderboardEntry({ customBoardId: id, nickname: "old", time: 10, attempts: 1, moveLog });
+      await storage.createCustomBoardLeaderboardEntry({ customBoardId: id, nickname: "both", time: 15, attempts: 1, moveLog });
+      expect(await storage.getBestCustomBoardTimes([id])).toHaveLength(2);
+
+      await storage.updateCustomBoard(id, { name: "Edited", difficultyScore: null });
+      await storage.createCustomBoardLeaderboardEntry({
+        customBoardId: id, nickname: "both", time: 30, attempts: 1, moveLog, boardVersion: 2,
+      });
+
+      expect(await storage.getBestCustomBoardTimes([id])).toEqual([{ nickname: "both", customBoardId: id, time: 30 }]);
+    });
+
+    it("hides deleted boards", async () => {
+      const { id } = await storage.createCustomBoard({ ...board, isSolved: true });
+      await storage.deleteCustomBoard(id);
+      expect(await storage.getCustomBoard(id)).toBeUndefined();
+      expect(await storage.getCustomBoardsByIds([boardId, id])).toEqual([expect.objectContaining({ id: boardId })]);
+    });
+  });
+
+  describe("board catalogue", () => {
+    // Поиск по автору отделяет поля этих проверок от остальных
+    const catalogue = (query: Partial<CustomBoardQuery> = {}) =>
+      customBoardQuerySchema.parse({ search: "CATALOGUER", ...query });
+    const names = async (query: Partial<CustomBoardQuery> = {}) =>
+      (await storage.getCustomBoards(catalogue(query))).boards.map(({ name }) => name);
+
+    beforeAll(async () => {
+      const create = (name: string, fields: Partial<typeof board> & { isSolved?: boolean } = {}) =>
+        storage.createCustomBoard({ ...board, creatorName: "cataloguer", isSolved: true, name, ...fields });
+
+      await create("plain", { targets: [1, 2] });
+      const { id: popular } = await create("popular", { difficulty: "hard", boardSize: 10, targets: [1, 2, 3] });
+      const { id: liked } = await create("liked", { targets: [1] });
+      await create("unsolved", { isSolved: false });
+
+      await storage.setCustomBoardTags(popular, ["primes"]);
+      for (let i = 0; i < 3; i++) await storage.incrementCustomBoardCompletionCount(popular);
+      await storage.incrementCustomBoardCompletionCount(liked);
+      await storage.rateCustomBoard({ customBoardId: popular, nickname: "a", userId: null, stars: 5 });
+      await storage.rateCustomBoard({ customBoardId: liked, nickname: "a", userId: null, stars: 4 });
+      await storage.rateCustomBoard({ customBoardId: liked, nickname: "b", userId: null, stars: 4 });
+    });
+
+    it("lists solved boards, newest first, matching the search in any case", async () => {
+      expect(await names()).toEqual(["liked", "popular", "plain"]);
+    });
+
+    it("sorts by completions and by the Bayesian rating", async () => {
+      expect(await names({ sort: "popular" })).toEqual(["popular", "liked", "plain"]);
+      expect(await names({ sort: "rating" })).toEqual(["popular", "liked", "plain"]);
+    });
+
+    it("filters by board, tag, targets, rating and completions", async () => {
+      expect(await names({ difficulty: "easy" })).toEqual(["liked", "plain"]);
+      expect(await names({ boardSize: 10 })).toEqual(["popular"]);
+      expect(await names({ tag: "primes" })).toEqual(["popular"]);
+      expect(await names({ minTargets: 2 })).toEqual(["popular", "plain"]);
+      expect(await names({ maxTargets: 1 })).toEqual(["liked"]);
+      expect(await names({ minRating: 4.5 })).toEqual(["popular"]);
+      expect(await names({ minCompletions: 1 })).toEqual(["liked", "popular"]);
+    });
+
+    it.each(["newest", "popular", "rating"] as const)("pages the %s order with a cursor", async (sort) => {
+      const paged: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await storage.getCustomBoards(catalogue({ sort, cursor, limit: 1 }));
+        paged.push(...page.boards.map(({ name }) => name));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+      expect(paged).toEqual(await names({ sort }));
+    });
+
+    it("rejects a malformed cursor", async () => {
+      await expect(storage.getCustomBoards(catalogue({ cursor: "not-a-cursor" }))).rejects.toThrow();
+    });
+  });
+
+  describe("player profile", () => {
+    beforeAll(async () => {
+      const { id: customBoardId } = await storage.createCustomBoard({ ...board, isSolved: true });
+      for (const [time, attempts] of [[80, 4], [50, 2], [50, 1]]) {
+        await storage.createLeaderboardEntry({
+          nickname: "profiled", time, attempts, difficulty: "easy", boardSize: 5, seed: "profile", moveLog,
+        });
+      }
+      await storage.createLeaderboardEntry({
+        nickname: "profiled", time: 5, attempts: 1, difficulty: "easy", boardSize: 5, seed: "profile", moveLog, flagged: true,
+      });
+      for (const time of [40, 70]) {
+        await storage.createCustomBoardLeaderboardEntry({ customBoardId, nickname: "profiled", time, attempts: 3, moveLog });
+      }
+    });
+
+    it("sums results and picks the best one without flagged results", async () => {
+      const stats = await storage.getPlayerStats("profiled");
+      const totals = stats.reduce((sum, group) => ({
+        games: sum.games + group.games,
+        totalTime: sum.totalTime + group.totalTime,
+      }), { games: 0, totalTime: 0 });
+      expect(totals).toEqual({ games: 5, totalTime: 290 });
+
+      const classic = stats.find(group => group.games === 3);
+      expect(classic).toMatchObject({ difficulty: "easy", boardSize: 5, totalAttempts: 7, best: { time: 50, attempts: 1 } });
+      expect(await storage.getPlayerStats("nobody")).toEqual([]);
+    });
+
+    it("pages the history across both result tables, newest first", async () => {
+      const results = [];
+      let cursor: string | undefined;
+      do {
+        const page = await storage.getPlayerHistory("profiled", { cursor, limit: 2 });
+        expect(page.results.length).toBeLessThanOrEqual(2);
+        results.push(...page.results);
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+
+      expect(results.map(result => result.time).sort()).toEqual([40, 50, 50, 70, 80]);
+      expect(results.filter(result => result.mode === "custom")).toHaveLength(2);
+      const times = results.map(result => Date.parse(result.completedAt));
+      expect(times).toEqual([...times].sort((a, b) => b - a));
+    });
+
+    it("rejects a malformed cursor", async () => {
+      await expect(storage.getPlayerHistory("profiled", { cursor: "not-a-cursor", limit: 2 })).rejects.toThrow();
+    });
+  });
+
+  describe("tournaments", () => {
+    const hour = 60 * 60 * 1000;
+
+    it("counts round times on the board version the round was saved with", async () => {
+      const player = await storage.createUser({ username: "entrant", password: "hash" });
+      const { id: customBoardId } = await storage.createCustomBoard({ ...board, isSolved: true });
+      const startsAt = new Date(Date.now() - hour);
+      const endsAt = new Date(Date.now() + hour);
+      const tournament = await storage.createTournament({
+        name: "Cup", creatorName: "entrant", userId: player.id, rounds: [{ customBoardId, startsAt, endsAt }],
+      });
+      const [round] = tournament.rounds;
+      expect(round).toMatchObject({ customBoardId, boardVersion: 1 });
+
+      await storage.createCustomBoardLeaderboardEntry({ customBoardId, nickname: "entrant", userId: player.id, time: 20, attempts: 1, moveLog });
+      await storage.updateCustomBoard(customBoardId, { name: "Edited", difficultyScore: null });
+      await storage.createCustomBoardLeaderboardEntry({
+        customBoardId, nickname: "entrant", userId: player.id, time: 10, attempts: 1, moveLog, boardVersion: 2,
+      });
+
+      expect(await storage.getTournamentRoundTimes(round, [player.id])).toEqual([{ userId: player.id, time: 20 }]);
+
+      const updated = await storage.updateTournament(tournament.id, { rounds: [{ customBoardId, startsAt, endsAt }] });
+      expect(updated?.rounds[0]).toMatchObject({ boardVersion: 2 });
+      expect(await storage.getTournamentRoundTimes(updated!.rounds[0], [player.id])).toEqual([{ userId: player.id, time: 10 }]);
+    });
+
+    it("knows which boards are used by a round that has not ended", async () => {
+      const player = await storage.createUser({ username: "organiser", password: "hash" });
+      const { id: customBoardId } = await storage.createCustomBoard({ ...board, isSolved: true });
+      const { id: freeBoardId } = await storage.createCustomBoard({ ...board, isSolved: true });
+      const endsAt = new Date(Date.now() + hour);
+      await storage.createTournament({
+        name: "Cup", creatorName: "organiser", userId: player.id, rounds: [{ customBoardId, startsAt: new Date(Date.now() + hour / 2), endsAt }],
+      });
+
+      expect(await storage.hasOpenTournamentRound(customBoardId, new Date())).toBe(true);
+      expect(await storage.hasOpenTournamentRound(customBoardId, endsAt)).toBe(false);
+      expect(await storage.hasOpenTournamentRound(freeBoardId, new Date())).toBe(false);
+    });
+  });
+});
+
+describe("createStorage", () => {
+  it("keeps data in memory without DATABASE_URL outside production", () => {
+    expect(createStorage({ NODE_ENV: "development" })).toBeInstanceOf(MemStorage);
+  });
+
+  it("refuses to start in production without DATABASE_URL", () => {
+    expect(() => createStorage({ NODE_ENV: "production" })).toThrow(/DATABASE_URL/);
+  });
+
+  it("keeps data in memory in production only when asked to", () => {
+    expect(createStorage({ NODE_ENV: "production", STORAGE_BACKEND: "memory" })).toBeInstanceOf(MemStorage);
+  });
+
+  it("picks SQLite by the address scheme", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "relay-storage-"));
+    try {
+      expect(createStorage({ NODE_ENV: "production", DATABASE_URL: `sqlite:${path.join(dir, "test.db")}` })).toBeInstanceOf(SqliteStorage);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -3,17 +3,99 @@ import {
   leaderboardEntries, 
   customBoards,
   customBoardLeaderboards,
+  customBoardVersions,
+  customBoardRatings,
+  customBoardComments,
+  customBoardTags,
+  boardCollections,
+  boardCollectionItems,
+  tournaments,
+  tournamentRounds,
+  tournamentPlayers,
+  gameReplays,
   type User, 
   type InsertUser, 
   type LeaderboardEntry, 
   type InsertLeaderboardEntry,
   type CustomBoard,
   type InsertCustomBoard,
+  type UpdateCustomBoard,
+  type CustomBoardVersion,
   type CustomBoardLeaderboard,
-  type InsertCustomBoardLeaderboard
+  type PublicCustomBoardLeaderboard,
+  type InsertCustomBoardLeaderboard,
+  type CustomBoardComment,
+  type CustomBoardRating,
+  type InsertCustomBoardComment,
+  type InsertCustomBoardRating,
+  type CustomBoardPage,
+  type CustomBoardQuery,
+  type CustomBoardTag,
+  type BoardCollection,
+  type BoardCollectionItem,
+  type BoardCollectionSummary,
+  type InsertBoardCollection,
+  type UpdateBoardCollection,
+  type TagCount,
+  type Tournament,
+  type TournamentPlayer,
+  type TournamentRecord,
+  type TournamentRound,
+  type InsertTournament,
+  type UpdateTournament,
+  type GameReplay,
+  type ReplaySource,
+  type PublicLeaderboardEntry,
+  type LeaderboardPage,
+  type LeaderboardPlacement,
+  type LeaderboardQuery,
+  type LeaderboardPeriod,
+  type LeaderboardRanking,
+  type PlayerHistoryPage,
+  type PlayerHistoryQuery,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { UniqueViolationError, connectDatabase, isSqliteUrl, type Database } from "./db";
+import { SqliteStorage } from "./sqlite-storage";
+import { groupBoardTags, snapshotBoard } from "./custom-boards";
+import { attachBoardIds, toCollectionItems } from "./collections";
+import { attachRoundsAndPlayers, getRoundBoardIds, toTournamentRounds } from "./tournaments";
+import {
+  CLASSIC_HISTORY,
+  CUSTOM_HISTORY,
+  attachBests,
+  classicHistoryItem,
+  compareHistory,
+  customHistoryItem,
+  decodeHistoryCursor,
+  historyAfter,
+  historyOrder,
+  summarizeResults,
+  toHistoryPage,
+  type PlayerStatsGroup,
+} from "./profiles";
+import { catalogueConditions, catalogueFilter, catalogueOrder, compareCatalogue, toCataloguePage } from "./board-catalogue";
+import {
+  PLACEMENT_NEIGHBOURS,
+  compareRanking,
+  getPeriodStart,
+  placementOffset,
+  rankingOrder,
+  withRanks,
+  withoutMoveLog,
+  type RankedRow,
+} from "./ranking";
+import { eq, and, or, asc, desc, gt, gte, lt, sql, inArray, isNotNull, isNull, getTableColumns, type SQL } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import fs from "fs";
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+// Колонки результатов для лидербордов: всё, кроме журнала ходов
+const publicLeaderboardColumns = withoutMoveLog(getTableColumns(leaderboardEntries));
+const publicCustomBoardLeaderboardColumns = withoutMoveLog(getTableColumns(customBoardLeaderboards));
 
 /**
  * Интерфейс для работы с хранилищем данных
@@ -25,21 +107,101 @@ import { eq, and, desc, sql } from "drizzle-orm";
  * @license Apache-2.0
  */
 export interface IStorage {
+  sessionStore: session.Store;
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  createLeaderboardEntry(entry: InsertLeaderboardEntry): Promise<LeaderboardEntry>;
-  getLeaderboard(difficulty?: string, boardSize?: number): Promise<LeaderboardEntry[]>;
-  createCustomBoard(board: InsertCustomBoard): Promise<CustomBoard>;
-  getCustomBoards(difficulty?: string, boardSize?: number): Promise<CustomBoard[]>;
+  createLeaderboardEntry(entry: InsertLeaderboardEntry & { flagged?: boolean; userId?: number | null }): Promise<LeaderboardEntry>;
+  getLeaderboardEntry(id: number): Promise<LeaderboardEntry | undefined>;
+  getLeaderboard(filter: LeaderboardFilter, query: LeaderboardQuery): Promise<LeaderboardPage<PublicLeaderboardEntry>>;
+  getLeaderboardPlacement(filter: LeaderboardFilter, entryId: number, ranking: LeaderboardRanking): Promise<LeaderboardPlacement<PublicLeaderboardEntry> | undefined>;
+  getDailyEntry(nickname: string, dailyDate: string, difficulty: string, boardSize: number): Promise<LeaderboardEntry | undefined>;
+  getDailyDates(nickname: string): Promise<string[]>;
+  createCustomBoard(board: NewCustomBoard): Promise<CustomBoard>;
+  getCustomBoards(query: CustomBoardQuery): Promise<CustomBoardPage<CustomBoard>>;
   getCustomBoard(id: number): Promise<CustomBoard | undefined>;
+  updateCustomBoard(id: number, changes: UpdateCustomBoard & { difficultyScore: number | null; isSolved?: boolean }): Promise<CustomBoard | undefined>;
+  deleteCustomBoard(id: number): Promise<void>;
+  getCustomBoardVersions(id: number): Promise<CustomBoardVersion[]>;
   updateCustomBoardSolved(id: number): Promise<CustomBoard>;
-  getTop100PopularBoards(): Promise<CustomBoard[]>;
-  createCustomBoardLeaderboardEntry(entry: InsertCustomBoardLeaderboard): Promise<CustomBoardLeaderboard>;
-  getCustomBoardLeaderboard(customBoardId: number): Promise<CustomBoardLeaderboard[]>;
+  createCustomBoardLeaderboardEntry(entry: InsertCustomBoardLeaderboard & { flagged?: boolean; userId?: number | null; boardVersion?: number }): Promise<CustomBoardLeaderboard>;
+  getCustomBoardLeaderboardEntry(id: number): Promise<CustomBoardLeaderboard | undefined>;
+  getCustomBoardLeaderboard(customBoardId: number, boardVersion: number, query: LeaderboardQuery): Promise<LeaderboardPage<PublicCustomBoardLeaderboard>>;
+  getCustomBoardLeaderboardPlacement(customBoardId: number, boardVersion: number, entryId: number, ranking: LeaderboardRanking): Promise<LeaderboardPlacement<PublicCustomBoardLeaderboard> | undefined>;
   incrementCustomBoardCompletionCount(customBoardId: number): Promise<void>;
+  getPlayerStats(nickname: string): Promise<PlayerStatsGroup[]>;
+  getPlayerHistory(nickname: string, query: PlayerHistoryQuery): Promise<PlayerHistoryPage>;
+  getCustomBoardsByCreator(creatorName: string): Promise<CustomBoard[]>;
+  hasCompletedCustomBoard(customBoardId: number, nickname: string): Promise<boolean>;
+  rateCustomBoard(rating: NewCustomBoardRating): Promise<CustomBoard | undefined>;
+  getCustomBoardComments(customBoardId: number): Promise<CustomBoardComment[]>;
+  createCustomBoardComment(comment: NewCustomBoardComment): Promise<CustomBoardComment>;
+  getCustomBoardsByIds(ids: number[]): Promise<CustomBoard[]>;
+  getCustomBoardTags(customBoardIds: number[]): Promise<Map<number, string[]>>;
+  setCustomBoardTags(customBoardId: number, tags: string[]): Promise<void>;
+  getPopularTags(limit: number): Promise<TagCount[]>;
+  createBoardCollection(collection: NewBoardCollection): Promise<BoardCollectionSummary>;
+  getBoardCollections(): Promise<BoardCollectionSummary[]>;
+  getBoardCollection(id: number): Promise<BoardCollectionSummary | undefined>;
+  updateBoardCollection(id: number, changes: UpdateBoardCollection): Promise<BoardCollectionSummary | undefined>;
+  deleteBoardCollection(id: number): Promise<void>;
+  getBestCustomBoardTimes(customBoardIds: number[]): Promise<BestBoardTime[]>;
+  createTournament(tournament: NewTournament): Promise<TournamentRecord>;
+  getTournaments(): Promise<TournamentRecord[]>;
+  getTournament(id: number): Promise<TournamentRecord | undefined>;
+  updateTournament(id: number, changes: UpdateTournament): Promise<TournamentRecord | undefined>;
+  deleteTournament(id: number): Promise<void>;
+  addTournamentPlayer(player: NewTournamentPlayer): Promise<TournamentPlayer>;
+  removeTournamentPlayer(tournamentId: number, userId: number): Promise<void>;
+  hasOpenTournamentRound(customBoardId: number, now: Date): Promise<boolean>;
+  getTournamentRoundTimes(round: TournamentRound, userIds: number[]): Promise<RoundTime[]>;
+  createGameReplay(replay: NewGameReplay): Promise<GameReplay>;
+  getGameReplay(source: ReplaySource, entryId: number): Promise<GameReplay | undefined>;
+}
+
+// Какие результаты попадают в рейтинг обычных игр
+export interface LeaderboardFilter {
+  difficulty?: string;
+  boardSize?: number;
+  seed?: string;
+  dailyDate?: string;
+}
+
+// Новое поле вместе с полями, которые заполняет сервер
+export type NewCustomBoard = InsertCustomBoard & {
+  isSolved?: boolean;
+  difficultyScore?: number;
+  userId?: number | null;
+  editTokenHash?: string | null;
+};
+
+// Оценка и комментарий вместе с полем и игроком, которых определяет сервер
+export type NewCustomBoardRating = InsertCustomBoardRating & { customBoardId: number; userId: number | null };
+export type NewCustomBoardComment = InsertCustomBoardComment & { customBoardId: number; userId: number | null };
+
+// Подборка вместе с автором, которого определяет сервер
+export type NewBoardCollection = InsertBoardCollection & { creatorName: string; userId: number };
+
+// Лучшее время игрока на текущей версии пользовательского поля, как в лидерборде поля
+export interface BestBoardTime {
+  nickname: string;
+  customBoardId: number;
+  time: number;
+}
+
+// Турнир вместе с организатором, которого определяет сервер
+export type NewTournament = InsertTournament & { creatorName: string; userId: number };
+export type NewTournamentPlayer = Omit<TournamentPlayer, "id" | "registeredAt">;
+
+// Лучшее время участника турнира в раунде
+export interface RoundTime {
+  userId: number;
+  time: number;
 }
 
+// Запись игры вместе с результатом в лидерборде, к которому она относится
+export type NewGameReplay = Omit<GameReplay, "id" | "createdAt">;
+
 /**
  * Реализация хранилища данных с использованием PostgreSQL через Drizzle ORM
  * 
@@ -50,84 +212,239 @@ export interface IStorage {
  * @license Apache-2.0
  */
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+  private db: Database;
+
+  /**
+   * @param connection - Адрес PostgreSQL или уже открытая база; во втором случае
+   * сессии хранятся в памяти процесса (так хранилище проверяется на PGlite в тестах)
+   */
+  constructor(connection?: string | Database) {
+    if (typeof connection === "object") {
+      this.db = connection;
+      this.sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+      return;
+    }
+
+    const { pool, db } = connectDatabase(connection);
+    this.db = db;
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
   async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
+  // Имена сравниваются без учёта регистра, чтобы нельзя было занять "Alice" рядом с "alice"
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.username}) = lower(${username})`);
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values(insertUser)
       .returning();
     return user;
   }
 
-  async createLeaderboardEntry(insertEntry: InsertLeaderboardEntry): Promise<LeaderboardEntry> {
-    const [entry] = await db
+  async createLeaderboardEntry(insertEntry: InsertLeaderboardEntry & { flagged?: boolean; userId?: number | null }): Promise<LeaderboardEntry> {
+    const [entry] = await this.db
       .insert(leaderboardEntries)
       .values(insertEntry)
       .returning();
     return entry;
   }
 
-  async getLeaderboard(difficulty?: string, boardSize?: number): Promise<LeaderboardEntry[]> {
+  async getLeaderboardEntry(id: number): Promise<LeaderboardEntry | undefined> {
+    const [entry] = await this.db.select().from(leaderboardEntries).where(eq(leaderboardEntries.id, id));
+    return entry || undefined;
+  }
+
+  private leaderboardConditions(filter: LeaderboardFilter, period: LeaderboardPeriod) {
     const conditions = [];
-    if (difficulty) {
-      conditions.push(eq(leaderboardEntries.difficulty, difficulty));
+    
+    // Flagged runs stay in the table for audit but are not ranked
+    conditions.push(eq(leaderboardEntries.flagged, false));
+    
+    if (filter.difficulty) {
+      conditions.push(eq(leaderboardEntries.difficulty, filter.difficulty));
     }
-    if (boardSize !== undefined) {
-      conditions.push(eq(leaderboardEntries.boardSize, boardSize));
+    if (filter.boardSize !== undefined) {
+      conditions.push(eq(leaderboardEntries.boardSize, filter.boardSize));
+    }
+    if (filter.seed) {
+      conditions.push(eq(leaderboardEntries.seed, filter.seed));
+    }
+    if (filter.dailyDate) {
+      conditions.push(eq(leaderboardEntries.dailyDate, filter.dailyDate));
     }
     
-    const entries = conditions.length > 0
-      ? await db.select().from(leaderboardEntries).where(and(...conditions)).orderBy(leaderboardEntries.time).limit(10)
-      : await db.select().from(leaderboardEntries).orderBy(leaderboardEntries.time).limit(10);
+    const periodStart = getPeriodStart(period);
+    if (periodStart) {
+      conditions.push(gte(leaderboardEntries.completedAt, periodStart));
+    }
     
-    return entries;
+    return and(...conditions);
   }
 
-  async createCustomBoard(insertBoard: InsertCustomBoard): Promise<CustomBoard> {
-    const [board] = await db
-      .insert(customBoards)
-      .values(insertBoard)
-      .returning();
-    return board;
+  private async countLeaderboard(where: SQL | undefined): Promise<number> {
+    const [{ count }] = await this.db
+      .select({ count: sql<number>`cast(count(*) as int)` })
+      .from(leaderboardEntries)
+      .where(where);
+    return count;
   }
 
-  async getCustomBoards(difficulty?: string, boardSize?: number): Promise<CustomBoard[]> {
-    const conditions = [];
+  async getLeaderboard(filter: LeaderboardFilter, query: LeaderboardQuery): Promise<LeaderboardPage<PublicLeaderboardEntry>> {
+    const where = this.leaderboardConditions(filter, query.period);
+    const offset = (query.page - 1) * query.pageSize;
     
-    conditions.push(eq(customBoards.isSolved, true));
+    const entries = await this.db
+      .select(publicLeaderboardColumns)
+      .from(leaderboardEntries)
+      .where(where)
+      .orderBy(...rankingOrder(leaderboardEntries, query.sort))
+      .limit(query.pageSize)
+      .offset(offset);
     
-    if (difficulty) {
-      conditions.push(eq(customBoards.difficulty, difficulty));
-    }
-    if (boardSize !== undefined) {
-      conditions.push(eq(customBoards.boardSize, boardSize));
-    }
+    return {
+      entries: withRanks(entries, offset),
+      total: await this.countLeaderboard(where),
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async getLeaderboardPlacement(
+    filter: LeaderboardFilter,
+    entryId: number,
+    ranking: LeaderboardRanking,
+  ): Promise<LeaderboardPlacement<PublicLeaderboardEntry> | undefined> {
+    const where = this.leaderboardConditions(filter, ranking.period);
+    const order = rankingOrder(leaderboardEntries, ranking.sort);
+    
+    const ranked = this.db.$with("ranked").as(
+      this.db
+        .select({
+          id: leaderboardEntries.id,
+          rank: sql<number>`cast(row_number() over (order by ${sql.join(order, sql`, `)}) as int)`.as("rank"),
+        })
+        .from(leaderboardEntries)
+        .where(where)
+    );
+    const [row] = await this.db.with(ranked).select().from(ranked).where(eq(ranked.id, entryId));
+    if (!row) return undefined;
     
-    const boards = await db
+    const offset = placementOffset(row.rank);
+    const neighbours = await this.db
+      .select(publicLeaderboardColumns)
+      .from(leaderboardEntries)
+      .where(where)
+      .orderBy(...order)
+      .limit(PLACEMENT_NEIGHBOURS * 2 + 1)
+      .offset(offset);
+    
+    return {
+      rank: row.rank,
+      total: await this.countLeaderboard(where),
+      neighbours: withRanks(neighbours, offset),
+    };
+  }
+
+  async getDailyEntry(nickname: string, dailyDate: string, difficulty: string, boardSize: number): Promise<LeaderboardEntry | undefined> {
+    const [entry] = await this.db
       .select()
-      .from(customBoards)
-      .where(and(...conditions))
-      .orderBy(desc(customBoards.createdAt));
+      .from(leaderboardEntries)
+      .where(and(
+        eq(leaderboardEntries.nickname, nickname),
+        eq(leaderboardEntries.dailyDate, dailyDate),
+        eq(leaderboardEntries.difficulty, difficulty),
+        eq(leaderboardEntries.boardSize, boardSize),
+      ));
+    return entry || undefined;
+  }
+
+  async getDailyDates(nickname: string): Promise<string[]> {
+    const rows = await this.db
+      .selectDistinct({ dailyDate: leaderboardEntries.dailyDate })
+      .from(leaderboardEntries)
+      .where(and(
+        eq(leaderboardEntries.nickname, nickname),
+        isNotNull(leaderboardEntries.dailyDate),
+        eq(leaderboardEntries.flagged, false),
+      ));
     
-    return boards;
+    return rows.map(row => row.dailyDate as string);
+  }
+
+  async createCustomBoard(insertBoard: NewCustomBoard): Promise<CustomBoard> {
+    return await this.db.transaction(async (tx) => {
+      const [board] = await tx
+        .insert(customBoards)
+        .values(insertBoard)
+        .returning();
+      await tx.insert(customBoardVersions).values(snapshotBoard(board));
+      return board;
+    });
+  }
+
+  async getCustomBoards(query: CustomBoardQuery): Promise<CustomBoardPage<CustomBoard>> {
+    const boards = await this.db
+      .select()
+      .from(customBoards)
+      .where(catalogueConditions(customBoards, query, sql`coalesce(array_length(${customBoards.targets}, 1), 0)`, customBoardTags))
+      .orderBy(...catalogueOrder(customBoards, query.sort))
+      .limit(query.limit + 1);
+    return toCataloguePage(boards, query.limit);
   }
 
   async getCustomBoard(id: number): Promise<CustomBoard | undefined> {
-    const [board] = await db.select().from(customBoards).where(eq(customBoards.id, id));
+    const [board] = await this.db
+      .select()
+      .from(customBoards)
+      .where(and(eq(customBoards.id, id), isNull(customBoards.deletedAt)));
     return board || undefined;
   }
 
+  // Каждое изменение — новая версия; прежние версии остаются в истории вместе со своими результатами
+  async updateCustomBoard(id: number, changes: UpdateCustomBoard & { difficultyScore: number | null; isSolved?: boolean }): Promise<CustomBoard | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [board] = await tx
+        .update(customBoards)
+        .set({ ...changes, version: sql`${customBoards.version} + 1` })
+        .where(and(eq(customBoards.id, id), isNull(customBoards.deletedAt)))
+        .returning();
+      if (!board) return undefined;
+      
+      await tx.insert(customBoardVersions).values(snapshotBoard(board));
+      return board;
+    });
+  }
+
+  // Поле скрывается, но его версии и результаты остаются в профилях игроков
+  async deleteCustomBoard(id: number): Promise<void> {
+    await this.db
+      .update(customBoards)
+      .set({ deletedAt: new Date() })
+      .where(eq(customBoards.id, id));
+  }
+
+  async getCustomBoardVersions(id: number): Promise<CustomBoardVersion[]> {
+    return await this.db
+      .select()
+      .from(customBoardVersions)
+      .where(eq(customBoardVersions.customBoardId, id))
+      .orderBy(asc(customBoardVersions.version));
+  }
+
   async updateCustomBoardSolved(id: number): Promise<CustomBoard> {
-    const [board] = await db
+    const [board] = await this.db
       .update(customBoards)
       .set({ isSolved: true })
       .where(eq(customBoards.id, id))
@@ -135,42 +452,1362 @@ export class DatabaseStorage implements IStorage {
     return board;
   }
 
-  async getTop100PopularBoards(): Promise<CustomBoard[]> {
-    const boards = await db
-      .select()
-      .from(customBoards)
-      .where(eq(customBoards.isSolved, true))
-      .orderBy(desc(customBoards.completionCount))
-      .limit(100);
-    
-    return boards;
-  }
-
-  async createCustomBoardLeaderboardEntry(insertEntry: InsertCustomBoardLeaderboard): Promise<CustomBoardLeaderboard> {
-    const [entry] = await db
+  async createCustomBoardLeaderboardEntry(insertEntry: InsertCustomBoardLeaderboard & { flagged?: boolean; userId?: number | null; boardVersion?: number }): Promise<CustomBoardLeaderboard> {
+    const [entry] = await this.db
       .insert(customBoardLeaderboards)
       .values(insertEntry)
       .returning();
     return entry;
   }
 
-  async getCustomBoardLeaderboard(customBoardId: number): Promise<CustomBoardLeaderboard[]> {
-    const entries = await db
-      .select()
+  async getCustomBoardLeaderboardEntry(id: number): Promise<CustomBoardLeaderboard | undefined> {
+    const [entry] = await this.db.select().from(customBoardLeaderboards).where(eq(customBoardLeaderboards.id, id));
+    return entry || undefined;
+  }
+
+  private customBoardLeaderboardConditions(customBoardId: number, boardVersion: number, period: LeaderboardPeriod) {
+    const conditions = [
+      eq(customBoardLeaderboards.customBoardId, customBoardId),
+      eq(customBoardLeaderboards.boardVersion, boardVersion),
+      eq(customBoardLeaderboards.flagged, false),
+    ];
+    
+    const periodStart = getPeriodStart(period);
+    if (periodStart) {
+      conditions.push(gte(customBoardLeaderboards.completedAt, periodStart));
+    }
+    
+    return and(...conditions);
+  }
+
+  private async countCustomBoardLeaderboard(where: SQL | undefined): Promise<number> {
+    const [{ count }] = await this.db
+      .select({ count: sql<number>`cast(count(*) as int)` })
+      .from(customBoardLeaderboards)
+      .where(where);
+    return count;
+  }
+
+  async getCustomBoardLeaderboard(customBoardId: number, boardVersion: number, query: LeaderboardQuery): Promise<LeaderboardPage<PublicCustomBoardLeaderboard>> {
+    const where = this.customBoardLeaderboardConditions(customBoardId, boardVersion, query.period);
+    const offset = (query.page - 1) * query.pageSize;
+    
+    const entries = await this.db
+      .select(publicCustomBoardLeaderboardColumns)
+      .from(customBoardLeaderboards)
+      .where(where)
+      .orderBy(...rankingOrder(customBoardLeaderboards, query.sort))
+      .limit(query.pageSize)
+      .offset(offset);
+    
+    return {
+      entries: withRanks(entries, offset),
+      total: await this.countCustomBoardLeaderboard(where),
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async getCustomBoardLeaderboardPlacement(
+    customBoardId: number,
+    boardVersion: number,
+    entryId: number,
+    ranking: LeaderboardRanking,
+  ): Promise<LeaderboardPlacement<PublicCustomBoardLeaderboard> | undefined> {
+    const where = this.customBoardLeaderboardConditions(customBoardId, boardVersion, ranking.period);
+    const order = rankingOrder(customBoardLeaderboards, ranking.sort);
+    
+    const ranked = this.db.$with("ranked").as(
+      this.db
+        .select({
+          id: customBoardLeaderboards.id,
+          rank: sql<number>`cast(row_number() over (order by ${sql.join(order, sql`, `)}) as int)`.as("rank"),
+        })
+        .from(customBoardLeaderboards)
+        .where(where)
+    );
+    const [row] = await this.db.with(ranked).select().from(ranked).where(eq(ranked.id, entryId));
+    if (!row) return undefined;
+    
+    const offset = placementOffset(row.rank);
+    const neighbours = await this.db
+      .select(publicCustomBoardLeaderboardColumns)
       .from(customBoardLeaderboards)
-      .where(eq(customBoardLeaderboards.customBoardId, customBoardId))
-      .orderBy(customBoardLeaderboards.time)
-      .limit(10);
+      .where(where)
+      .orderBy(...order)
+      .limit(PLACEMENT_NEIGHBOURS * 2 + 1)
+      .offset(offset);
     
-    return entries;
+    return {
+      rank: row.rank,
+      total: await this.countCustomBoardLeaderboard(where),
+      neighbours: withRanks(neighbours, offset),
+    };
   }
 
   async incrementCustomBoardCompletionCount(customBoardId: number): Promise<void> {
-    await db
+    await this.db
       .update(customBoards)
       .set({ completionCount: sql`${customBoards.completionCount} + 1` })
       .where(eq(customBoards.id, customBoardId));
   }
+
+  async getPlayerStats(nickname: string): Promise<PlayerStatsGroup[]> {
+    const classic = and(eq(leaderboardEntries.nickname, nickname), eq(leaderboardEntries.flagged, false));
+    const classicGroups = await this.db
+      .select({
+        difficulty: leaderboardEntries.difficulty,
+        boardSize: leaderboardEntries.boardSize,
+        games: sql<number>`cast(count(*) as int)`,
+        totalTime: sql<number>`cast(sum(${leaderboardEntries.time}) as int)`,
+        totalAttempts: sql<number>`cast(sum(${leaderboardEntries.attempts}) as int)`,
+        bestTime: sql<number>`min(${leaderboardEntries.time})`,
+      })
+      .from(leaderboardEntries)
+      .where(classic)
+      .groupBy(leaderboardEntries.difficulty, leaderboardEntries.boardSize);
+    const classicBests = classicGroups.length === 0 ? [] : await this.db
+      .select({
+        difficulty: leaderboardEntries.difficulty,
+        boardSize: leaderboardEntries.boardSize,
+        time: leaderboardEntries.time,
+        attempts: leaderboardEntries.attempts,
+        completedAt: leaderboardEntries.completedAt,
+      })
+      .from(leaderboardEntries)
+      .where(and(classic, or(...classicGroups.map(group => and(
+        eq(leaderboardEntries.difficulty, group.difficulty),
+        eq(leaderboardEntries.boardSize, group.boardSize),
+        eq(leaderboardEntries.time, group.bestTime),
+      )))));
+
+    const custom = and(eq(customBoardLeaderboards.nickname, nickname), eq(customBoardLeaderboards.flagged, false));
+    const customGroups = await this.db
+      .select({
+        difficulty: customBoardVersions.difficulty,
+        boardSize: customBoardVersions.boardSize,
+        games: sql<number>`cast(count(*) as int)`,
+        totalTime: sql<number>`cast(sum(${customBoardLeaderboards.time}) as int)`,
+        totalAttempts: sql<number>`cast(sum(${customBoardLeaderboards.attempts}) as int)`,
+        bestTime: sql<number>`min(${customBoardLeaderboards.time})`,
+      })
+      .from(customBoardLeaderboards)
+      .innerJoin(customBoardVersions, and(
+        eq(customBoardLeaderboards.customBoardId, customBoardVersions.customBoardId),
+        eq(customBoardLeaderboards.boardVersion, customBoardVersions.version),
+      ))
+      .where(custom)
+      .groupBy(customBoardVersions.difficulty, customBoardVersions.boardSize);
+    const customBests = customGroups.length === 0 ? [] : await this.db
+      .select({
+        difficulty: customBoardVersions.difficulty,
+        boardSize: customBoardVersions.boardSize,
+        time: customBoardLeaderboards.time,
+        attempts: customBoardLeaderboards.attempts,
+        completedAt: customBoardLeaderboards.completedAt,
+      })
+      .from(customBoardLeaderboards)
+      .innerJoin(customBoardVersions, and(
+        eq(customBoardLeaderboards.customBoardId, customBoardVersions.customBoardId),
+        eq(customBoardLeaderboards.boardVersion, customBoardVersions.version),
+      ))
+      .where(and(custom, or(...customGroups.map(group => and(
+        eq(customBoardVersions.difficulty, group.difficulty),
+        eq(customBoardVersions.boardSize, group.boardSize),
+        eq(customBoardLeaderboards.time, group.bestTime),
+      )))));
+
+    return [...attachBests(classicGroups, classicBests), ...attachBests(customGroups, customBests)];
+  }
+
+  // История по страницам: из каждой таблицы берётся не больше limit + 1 результатов после курсора
+  async getPlayerHistory(nickname: string, query: PlayerHistoryQuery): Promise<PlayerHistoryPage> {
+    const cursor = query.cursor ? decodeHistoryCursor(query.cursor) : null;
+    const classicAt = sql`date_trunc('milliseconds', ${leaderboardEntries.completedAt})`;
+    const customAt = sql`date_trunc('milliseconds', ${customBoardLeaderboards.completedAt})`;
+
+    const classic = await this.db
+      .select({
+        id: leaderboardEntries.id,
+        dailyDate: leaderboardEntries.dailyDate,
+        difficulty: leaderboardEntries.difficulty,
+        boardSize: leaderboardEntries.boardSize,
+        time: leaderboardEntries.time,
+        attempts: leaderboardEntries.attempts,
+        completedAt: leaderboardEntries.completedAt,
+      })
+      .from(leaderboardEntries)
+      .where(and(
+        eq(leaderboardEntries.nickname, nickname),
+        eq(leaderboardEntries.flagged, false),
+        cursor ? historyAfter(classicAt, leaderboardEntries.completedAt, leaderboardEntries.id, CLASSIC_HISTORY, cursor) : undefined,
+      ))
+      .orderBy(...historyOrder(classicAt, leaderboardEntries.id))
+      .limit(query.limit + 1);
+
+    const custom = await this.db
+      .select({
+        id: customBoardLeaderboards.id,
+        customBoardId: customBoardLeaderboards.customBoardId,
+        difficulty: customBoardVersions.difficulty,
+        boardSize: customBoardVersions.boardSize,
+        time: customBoardLeaderboards.time,
+        attempts: customBoardLeaderboards.attempts,
+        completedAt: customBoardLeaderboards.completedAt,
+      })
+      .from(customBoardLeaderboards)
+      .innerJoin(customBoardVersions, and(
+        eq(customBoardLeaderboards.customBoardId, customBoardVersions.customBoardId),
+        eq(customBoardLeaderboards.boardVersion, customBoardVersions.version),
+      ))
+      .where(and(
+        eq(customBoardLeaderboards.nickname, nickname),
+        eq(customBoardLeaderboards.flagged, false),
+        cursor ? historyAfter(customAt, customBoardLeaderboards.completedAt, customBoardLeaderboards.id, CUSTOM_HISTORY, cursor) : undefined,
+      ))
+      .orderBy(...historyOrder(customAt, customBoardLeaderboards.id))
+      .limit(query.limit + 1);
+
+    return toHistoryPage([...classic.map(classicHistoryItem), ...custom.map(customHistoryItem)], query.limit);
+  }
+
+  async getCustomBoardsByCreator(creatorName: string): Promise<CustomBoard[]> {
+    return await this.db
+      .select()
+      .from(customBoards)
+      .where(and(eq(customBoards.creatorName, creatorName), isNull(customBoards.deletedAt)))
+      .orderBy(desc(customBoards.createdAt));
+  }
+
+  // Оценивать поле и оставлять комментарии могут только игроки, прошедшие его
+  async hasCompletedCustomBoard(customBoardId: number, nickname: string): Promise<boolean> {
+    const [entry] = await this.db
+      .select({ id: customBoardLeaderboards.id })
+      .from(customBoardLeaderboards)
+      .where(and(
+        eq(customBoardLeaderboards.customBoardId, customBoardId),
+        eq(customBoardLeaderboards.nickname, nickname),
+        eq(customBoardLeaderboards.flagged, false),
+      ))
+      .limit(1);
+    return !!entry;
+  }
+
+  // Счётчики оценок пересчитываются по таблице, поэтому повторная оценка их не искажает
+  async rateCustomBoard(rating: NewCustomBoardRating): Promise<CustomBoard | undefined> {
+    return await this.db.transaction(async (tx) => {
+      await tx
+        .insert(customBoardRatings)
+        .values(rating)
+        .onConflictDoUpdate({
+          target: [customBoardRatings.customBoardId, customBoardRatings.nickname],
+          set: { stars: rating.stars, userId: rating.userId, ratedAt: new Date() },
+        });
+
+      const [totals] = await tx
+        .select({
+          count: sql<number>`cast(count(*) as int)`,
+          sum: sql<number>`cast(coalesce(sum(${customBoardRatings.stars}), 0) as int)`,
+        })
+        .from(customBoardRatings)
+        .where(eq(customBoardRatings.customBoardId, rating.customBoardId));
+
+      const [board] = await tx
+        .update(customBoards)
+        .set({ ratingCount: totals.count, ratingSum: totals.sum })
+        .where(and(eq(customBoards.id, rating.customBoardId), isNull(customBoards.deletedAt)))
+        .returning();
+      return board;
+    });
+  }
+
+  async getCustomBoardComments(customBoardId: number): Promise<CustomBoardComment[]> {
+    return await this.db
+      .select()
+      .from(customBoardComments)
+      .where(eq(customBoardComments.customBoardId, customBoardId))
+      .orderBy(desc(customBoardComments.createdAt), desc(customBoardComments.id));
+  }
+
+  async createCustomBoardComment(insertComment: NewCustomBoardComment): Promise<CustomBoardComment> {
+    const [comment] = await this.db
+      .insert(customBoardComments)
+      .values(insertComment)
+      .returning();
+    return comment;
+  }
+
+  async getCustomBoardsByIds(ids: number[]): Promise<CustomBoard[]> {
+    if (ids.length === 0) return [];
+    return await this.db
+      .select()
+      .from(customBoards)
+      .where(and(inArray(customBoards.id, ids), isNull(customBoards.deletedAt)));
+  }
+
+  async getCustomBoardTags(customBoardIds: number[]): Promise<Map<number, string[]>> {
+    if (customBoardIds.length === 0) return new Map();
+    const rows = await this.db
+      .select()
+      .from(customBoardTags)
+      .where(inArray(customBoardTags.customBoardId, customBoardIds))
+      .orderBy(asc(customBoardTags.id));
+    return groupBoardTags(rows);
+  }
+
+  // Теги поля заменяются целиком
+  async setCustomBoardTags(customBoardId: number, tags: string[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(customBoardTags).where(eq(customBoardTags.customBoardId, customBoardId));
+      if (tags.length > 0) {
+        await tx.insert(customBoardTags).values(tags.map(tag => ({ customBoardId, tag })));
+      }
+    });
+  }
+
+  // Считаются только поля, которые видны в каталоге
+  async getPopularTags(limit: number): Promise<TagCount[]> {
+    return await this.db
+      .select({
+        tag: customBoardTags.tag,
+        count: sql<number>`cast(count(*) as int)`,
+      })
+      .from(customBoardTags)
+      .innerJoin(customBoards, eq(customBoardTags.customBoardId, customBoards.id))
+      .where(and(eq(customBoards.isSolved, true), isNull(customBoards.deletedAt)))
+      .groupBy(customBoardTags.tag)
+      .orderBy(desc(sql`count(*)`), asc(customBoardTags.tag))
+      .limit(limit);
+  }
+
+  async createBoardCollection({ boardIds, ...insertCollection }: NewBoardCollection): Promise<BoardCollectionSummary> {
+    const collection = await this.db.transaction(async (tx) => {
+      const [collection] = await tx
+        .insert(boardCollections)
+        .values(insertCollection)
+        .returning();
+      await tx.insert(boardCollectionItems).values(toCollectionItems(collection.id, boardIds));
+      return collection;
+    });
+    const [summary] = await this.withBoardIds([collection]);
+    return summary;
+  }
+
+  async getBoardCollections(): Promise<BoardCollectionSummary[]> {
+    const collections = await this.db
+      .select()
+      .from(boardCollections)
+      .orderBy(desc(boardCollections.id));
+    return await this.withBoardIds(collections);
+  }
+
+  async getBoardCollection(id: number): Promise<BoardCollectionSummary | undefined> {
+    const [collection] = await this.db
+      .select()
+      .from(boardCollections)
+      .where(eq(boardCollections.id, id));
+    if (!collection) return undefined;
+
+    const [summary] = await this.withBoardIds([collection]);
+    return summary;
+  }
+
+  // Новый список полей заменяет прежний целиком
+  async updateBoardCollection(id: number, { boardIds, ...changes }: UpdateBoardCollection): Promise<BoardCollectionSummary | undefined> {
+    const collection = await this.db.transaction(async (tx) => {
+      const [collection] = Object.keys(changes).length > 0
+        ? await tx.update(boardCollections).set(changes).where(eq(boardCollections.id, id)).returning()
+        : await tx.select().from(boardCollections).where(eq(boardCollections.id, id));
+      if (!collection) return undefined;
+
+      if (boardIds) {
+        await tx.delete(boardCollectionItems).where(eq(boardCollectionItems.collectionId, id));
+        await tx.insert(boardCollectionItems).values(toCollectionItems(id, boardIds));
+      }
+      return collection;
+    });
+    if (!collection) return undefined;
+
+    const [summary] = await this.withBoardIds([collection]);
+    return summary;
+  }
+
+  async deleteBoardCollection(id: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(boardCollectionItems).where(eq(boardCollectionItems.collectionId, id));
+      await tx.delete(boardCollections).where(eq(boardCollections.id, id));
+    });
+  }
+
+  async getBestCustomBoardTimes(customBoardIds: number[]): Promise<BestBoardTime[]> {
+    if (customBoardIds.length === 0) return [];
+    return await this.db
+      .select({
+        nickname: customBoardLeaderboards.nickname,
+        customBoardId: customBoardLeaderboards.customBoardId,
+        time: sql<number>`cast(min(${customBoardLeaderboards.time}) as int)`,
+      })
+      .from(customBoardLeaderboards)
+      .innerJoin(customBoards, and(
+        eq(customBoardLeaderboards.customBoardId, customBoards.id),
+        eq(customBoardLeaderboards.boardVersion, customBoards.version),
+      ))
+      .where(and(
+        inArray(customBoardLeaderboards.customBoardId, customBoardIds),
+        eq(customBoardLeaderboards.flagged, false),
+      ))
+      .groupBy(customBoardLeaderboards.nickname, customBoardLeaderboards.customBoardId);
+  }
+
+  // Удалённые поля из подборок не показываются
+  private async withBoardIds(collections: BoardCollection[]): Promise<BoardCollectionSummary[]> {
+    if (collections.length === 0) return [];
+    const items = await this.db
+      .select({
+        collectionId: boardCollectionItems.collectionId,
+        customBoardId: boardCollectionItems.customBoardId,
+      })
+      .from(boardCollectionItems)
+      .innerJoin(customBoards, eq(boardCollectionItems.customBoardId, customBoards.id))
+      .where(and(
+        inArray(boardCollectionItems.collectionId, collections.map(collection => collection.id)),
+        isNull(customBoards.deletedAt),
+      ))
+      .orderBy(asc(boardCollectionItems.position));
+    return attachBoardIds(collections, items);
+  }
+
+  async createTournament({ rounds, ...insertTournament }: NewTournament): Promise<TournamentRecord> {
+    const boards = await this.getCustomBoardsByIds(getRoundBoardIds(rounds));
+    const tournament = await this.db.transaction(async (tx) => {
+      const [tournament] = await tx
+        .insert(tournaments)
+        .values(insertTournament)
+        .returning();
+      await tx.insert(tournamentRounds).values(toTournamentRounds(tournament.id, rounds, boards));
+      return tournament;
+    });
+    const [record] = await this.withRoundsAndPlayers([tournament]);
+    return record;
+  }
+
+  async getTournaments(): Promise<TournamentRecord[]> {
+    const rows = await this.db
+      .select()
+      .from(tournaments)
+      .orderBy(desc(tournaments.id));
+    return await this.withRoundsAndPlayers(rows);
+  }
+
+  async getTournament(id: number): Promise<TournamentRecord | undefined> {
+    const [tournament] = await this.db
+      .select()
+      .from(tournaments)
+      .where(eq(tournaments.id, id));
+    if (!tournament) return undefined;
+
+    const [record] = await this.withRoundsAndPlayers([tournament]);
+    return record;
+  }
+
+  // Новый список раундов заменяет прежний целиком
+  async updateTournament(id: number, { rounds, ...changes }: UpdateTournament): Promise<TournamentRecord | undefined> {
+    const boards = rounds ? await this.getCustomBoardsByIds(getRoundBoardIds(rounds)) : [];
+    const tournament = await this.db.transaction(async (tx) => {
+      const [tournament] = Object.keys(changes).length > 0
+        ? await tx.update(tournaments).set(changes).where(eq(tournaments.id, id)).returning()
+        : await tx.select().from(tournaments).where(eq(tournaments.id, id));
+      if (!tournament) return undefined;
+
+      if (rounds) {
+        await tx.delete(tournamentRounds).where(eq(tournamentRounds.tournamentId, id));
+        await tx.insert(tournamentRounds).values(toTournamentRounds(id, rounds, boards));
+      }
+      return tournament;
+    });
+    if (!tournament) return undefined;
+
+    const [record] = await this.withRoundsAndPlayers([tournament]);
+    return record;
+  }
+
+  async deleteTournament(id: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(tournamentPlayers).where(eq(tournamentPlayers.tournamentId, id));
+      await tx.delete(tournamentRounds).where(eq(tournamentRounds.tournamentId, id));
+      await tx.delete(tournaments).where(eq(tournaments.id, id));
+    });
+  }
+
+  async addTournamentPlayer(player: NewTournamentPlayer): Promise<TournamentPlayer> {
+    const [row] = await this.db
+      .insert(tournamentPlayers)
+      .values(player)
+      .returning();
+    return row;
+  }
+
+  async removeTournamentPlayer(tournamentId: number, userId: number): Promise<void> {
+    await this.db
+      .delete(tournamentPlayers)
+      .where(and(eq(tournamentPlayers.tournamentId, tournamentId), eq(tournamentPlayers.userId, userId)));
+  }
+
+  async hasOpenTournamentRound(customBoardId: number, now: Date): Promise<boolean> {
+    const [round] = await this.db
+      .select({ id: tournamentRounds.id })
+      .from(tournamentRounds)
+      .where(and(eq(tournamentRounds.customBoardId, customBoardId), gt(tournamentRounds.endsAt, now)))
+      .limit(1);
+    return round !== undefined;
+  }
+
+  // Засчитываются результаты, сыгранные из аккаунта участника за время раунда
+  // и на той версии поля, что была при сохранении раунда
+  async getTournamentRoundTimes(round: TournamentRound, userIds: number[]): Promise<RoundTime[]> {
+    if (userIds.length === 0) return [];
+
+    if (round.customBoardId !== null) {
+      return await this.db
+        .select({
+          userId: sql<number>`${customBoardLeaderboards.userId}`,
+          time: sql<number>`cast(min(${customBoardLeaderboards.time}) as int)`,
+        })
+        .from(customBoardLeaderboards)
+        .where(and(
+          eq(customBoardLeaderboards.customBoardId, round.customBoardId),
+          round.boardVersion !== null ? eq(customBoardLeaderboards.boardVersion, round.boardVersion) : undefined,
+          eq(customBoardLeaderboards.flagged, false),
+          inArray(customBoardLeaderboards.userId, userIds),
+          gte(customBoardLeaderboards.completedAt, round.startsAt),
+          lt(customBoardLeaderboards.completedAt, round.endsAt),
+        ))
+        .groupBy(customBoardLeaderboards.userId);
+    }
+
+    const { seed, difficulty, boardSize } = round;
+    if (seed === null || difficulty === null || boardSize === null) return [];
+    return await this.db
+      .select({
+        userId: sql<number>`${leaderboardEntries.userId}`,
+        time: sql<number>`cast(min(${leaderboardEntries.time}) as int)`,
+      })
+      .from(leaderboardEntries)
+      .where(and(
+        eq(leaderboardEntries.seed, seed),
+        eq(leaderboardEntries.difficulty, difficulty),
+        eq(leaderboardEntries.boardSize, boardSize),
+        eq(leaderboardEntries.flagged, false),
+        inArray(leaderboardEntries.userId, userIds),
+        gte(leaderboardEntries.completedAt, round.startsAt),
+        lt(leaderboardEntries.completedAt, round.endsAt),
+      ))
+      .groupBy(leaderboardEntries.userId);
+  }
+
+  private async withRoundsAndPlayers(rows: Tournament[]): Promise<TournamentRecord[]> {
+    if (rows.length === 0) return [];
+    const ids = rows.map(tournament => tournament.id);
+    const rounds = await this.db
+      .select()
+      .from(tournamentRounds)
+      .where(inArray(tournamentRounds.tournamentId, ids))
+      .orderBy(asc(tournamentRounds.position));
+    const players = await this.db
+      .select()
+      .from(tournamentPlayers)
+      .where(inArray(tournamentPlayers.tournamentId, ids))
+      .orderBy(asc(tournamentPlayers.id));
+    return attachRoundsAndPlayers(rows, rounds, players);
+  }
+
+  async createGameReplay(replay: NewGameReplay): Promise<GameReplay> {
+    const [created] = await this.db.insert(gameReplays).values(replay).returning();
+    return created;
+  }
+
+  async getGameReplay(source: ReplaySource, entryId: number): Promise<GameReplay | undefined> {
+    const column = source === "classic" ? gameReplays.leaderboardEntryId : gameReplays.customBoardLeaderboardId;
+    const [replay] = await this.db.select().from(gameReplays).where(eq(column, entryId));
+    return replay || undefined;
+  }
+}
+
+// Содержимое хранилища в памяти; в таком виде оно сохраняется в JSON-файл
+interface MemStorageData {
+  users: User[];
+  leaderboardEntries: LeaderboardEntry[];
+  customBoards: CustomBoard[];
+  customBoardVersions: CustomBoardVersion[];
+  customBoardLeaderboards: CustomBoardLeaderboard[];
+  customBoardRatings: CustomBoardRating[];
+  customBoardComments: CustomBoardComment[];
+  customBoardTags: CustomBoardTag[];
+  boardCollections: BoardCollection[];
+  boardCollectionItems: BoardCollectionItem[];
+  tournaments: Tournament[];
+  tournamentRounds: TournamentRound[];
+  tournamentPlayers: TournamentPlayer[];
+  gameReplays: GameReplay[];
+}
+
+/**
+ * Реализация хранилища данных в памяти процесса. Нужна для локальной
+ * разработки и демо без PostgreSQL. Фильтры и порядок сортировки
+ * совпадают с DatabaseStorage.
+ *
+ * @class MemStorage
+ * @implements {IStorage}
+ * @param filePath - JSON-файл, в который сохраняются данные; без него данные живут до перезапуска
+ */
+export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  private data: MemStorageData = {
+    users: [],
+    leaderboardEntries: [],
+    customBoards: [],
+    customBoardVersions: [],
+    customBoardLeaderboards: [],
+    customBoardRatings: [],
+    customBoardComments: [],
+    customBoardTags: [],
+    boardCollections: [],
+    boardCollectionItems: [],
+    tournaments: [],
+    tournamentRounds: [],
+    tournamentPlayers: [],
+    gameReplays: [],
+  };
+
+  constructor(private readonly filePath?: string) {
+    // Просроченные сессии удаляются раз в сутки
+    this.sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+
+    if (filePath && fs.existsSync(filePath)) {
+      this.load(filePath);
+    }
+  }
+
+  private load(filePath: string) {
+    const saved = JSON.parse(fs.readFileSync(filePath, "utf-8")) as MemStorageData;
+
+    // JSON хранит даты строками
+    this.data = {
+      users: saved.users ?? [],
+      leaderboardEntries: (saved.leaderboardEntries ?? []).map(entry => ({
+        ...entry,
+        completedAt: new Date(entry.completedAt),
+      })),
+      customBoards: (saved.customBoards ?? []).map(board => ({
+        ...board,
+        ratingCount: board.ratingCount ?? 0,
+        ratingSum: board.ratingSum ?? 0,
+        deletedAt: board.deletedAt ? new Date(board.deletedAt) : null,
+        createdAt: new Date(board.createdAt),
+      })),
+      customBoardVersions: (saved.customBoardVersions ?? []).map(version => ({
+        ...version,
+        createdAt: new Date(version.createdAt),
+      })),
+      customBoardLeaderboards: (saved.customBoardLeaderboards ?? []).map(entry => ({
+        ...entry,
+        completedAt: new Date(entry.completedAt),
+      })),
+      customBoardRatings: (saved.customBoardRatings ?? []).map(rating => ({
+        ...rating,
+        ratedAt: new Date(rating.ratedAt),
+      })),
+      customBoardComments: (saved.customBoardComments ?? []).map(comment => ({
+        ...comment,
+        createdAt: new Date(comment.createdAt),
+      })),
+      customBoardTags: saved.customBoardTags ?? [],
+      boardCollections: (saved.boardCollections ?? []).map(collection => ({
+        ...collection,
+        createdAt: new Date(collection.createdAt),
+      })),
+      boardCollectionItems: saved.boardCollectionItems ?? [],
+      tournaments: (saved.tournaments ?? []).map(tournament => ({
+        ...tournament,
+        createdAt: new Date(tournament.createdAt),
+      })),
+      tournamentRounds: (saved.tournamentRounds ?? []).map(round => ({
+        ...round,
+        startsAt: new Date(round.startsAt),
+        endsAt: new Date(round.endsAt),
+      })),
+      tournamentPlayers: (saved.tournamentPlayers ?? []).map(player => ({
+        ...player,
+        registeredAt: new Date(player.registeredAt),
+      })),
+      gameReplays: (saved.gameReplays ?? []).map(replay => ({
+        ...replay,
+        createdAt: new Date(replay.createdAt),
+      })),
+    };
+  }
+
+  private persist() {
+    if (!this.filePath) return;
+
+    // Запись через временный файл, чтобы сбой не оставил файл наполовину записанным
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.data));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private nextId(rows: { id: number }[]): number {
+    return rows.reduce((max, row) => Math.max(max, row.id), 0) + 1;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const user = this.data.users.find(user => user.id === id);
+    return user ? { ...user } : undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const name = username.toLowerCase();
+    const user = this.data.users.find(user => user.username.toLowerCase() === name);
+    return user ? { ...user } : undefined;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    // Та же проверка, что и уникальный индекс по lower(username) в PostgreSQL
+    const name = insertUser.username.toLowerCase();
+    if (this.data.users.some(user => user.username.toLowerCase() === name)) {
+      throw new UniqueViolationError(`Username "${insertUser.username}" already exists`);
+    }
+
+    const user: User = {
+      id: this.nextId(this.data.users),
+      username: insertUser.username,
+      password: insertUser.password,
+    };
+    this.data.users.push(user);
+    this.persist();
+    return { ...user };
+  }
+
+  async createLeaderboardEntry(insertEntry: InsertLeaderboardEntry & { flagged?: boolean; userId?: number | null }): Promise<LeaderboardEntry> {
+    // Та же проверка, что и уникальный индекс leaderboard_entries_daily_player_idx
+    if (insertEntry.dailyDate && this.data.leaderboardEntries.some(entry =>
+      entry.nickname === insertEntry.nickname &&
+      entry.dailyDate === insertEntry.dailyDate &&
+      entry.difficulty === insertEntry.difficulty &&
+      entry.boardSize === insertEntry.boardSize
+    )) {
+      throw new UniqueViolationError(`Daily attempt of "${insertEntry.nickname}" already exists`);
+    }
+
+    const entry: LeaderboardEntry = {
+      id: this.nextId(this.data.leaderboardEntries),
+      nickname: insertEntry.nickname,
+      userId: insertEntry.userId ?? null,
+      time: insertEntry.time,
+      attempts: insertEntry.attempts,
+      difficulty: insertEntry.difficulty,
+      boardSize: insertEntry.boardSize,
+      seed: insertEntry.seed ?? null,
+      dailyDate: insertEntry.dailyDate ?? null,
+      moveLog: insertEntry.moveLog ?? null,
+      flagged: insertEntry.flagged ?? false,
+      completedAt: new Date(),
+    };
+    this.data.leaderboardEntries.push(entry);
+    this.persist();
+    return { ...entry };
+  }
+
+  async getLeaderboardEntry(id: number): Promise<LeaderboardEntry | undefined> {
+    const entry = this.data.leaderboardEntries.find(entry => entry.id === id);
+    return entry ? { ...entry } : undefined;
+  }
+
+  // Отфильтрованные и отсортированные результаты, как в leaderboardConditions и rankingOrder
+  private rankedLeaderboard(filter: LeaderboardFilter, ranking: LeaderboardRanking): LeaderboardEntry[] {
+    const periodStart = getPeriodStart(ranking.period);
+    return this.data.leaderboardEntries
+      .filter(entry =>
+        !entry.flagged &&
+        (!filter.difficulty || entry.difficulty === filter.difficulty) &&
+        (filter.boardSize === undefined || entry.boardSize === filter.boardSize) &&
+        (!filter.seed || entry.seed === filter.seed) &&
+        (!filter.dailyDate || entry.dailyDate === filter.dailyDate) &&
+        (!periodStart || entry.completedAt >= periodStart)
+      )
+      .sort(compareRanking(ranking.sort));
+  }
+
+  async getLeaderboard(filter: LeaderboardFilter, query: LeaderboardQuery): Promise<LeaderboardPage<PublicLeaderboardEntry>> {
+    return this.paginate(this.rankedLeaderboard(filter, query), query);
+  }
+
+  async getLeaderboardPlacement(
+    filter: LeaderboardFilter,
+    entryId: number,
+    ranking: LeaderboardRanking,
+  ): Promise<LeaderboardPlacement<PublicLeaderboardEntry> | undefined> {
+    return this.place(this.rankedLeaderboard(filter, ranking), entryId);
+  }
+
+  async getDailyEntry(nickname: string, dailyDate: string, difficulty: string, boardSize: number): Promise<LeaderboardEntry | undefined> {
+    const entry = this.data.leaderboardEntries.find(entry =>
+      entry.nickname === nickname &&
+      entry.dailyDate === dailyDate &&
+      entry.difficulty === difficulty &&
+      entry.boardSize === boardSize
+    );
+    return entry ? { ...entry } : undefined;
+  }
+
+  async getDailyDates(nickname: string): Promise<string[]> {
+    const dates = new Set<string>();
+    for (const entry of this.data.leaderboardEntries) {
+      if (entry.nickname === nickname && entry.dailyDate !== null && !entry.flagged) {
+        dates.add(entry.dailyDate);
+      }
+    }
+    return Array.from(dates);
+  }
+
+  async createCustomBoard(insertBoard: NewCustomBoard): Promise<CustomBoard> {
+    const board: CustomBoard = {
+      id: this.nextId(this.data.customBoards),
+      name: insertBoard.name,
+      creatorName: insertBoard.creatorName,
+      userId: insertBoard.userId ?? null,
+      difficulty: insertBoard.difficulty,
+      boardSize: insertBoard.boardSize,
+      boardData: insertBoard.boardData,
+      targets: insertBoard.targets,
+      isSolved: insertBoard.isSolved ?? false,
+      completionCount: 0,
+      ratingCount: 0,
+      ratingSum: 0,
+      difficultyScore: insertBoard.difficultyScore ?? null,
+      version: 1,
+      editTokenHash: insertBoard.editTokenHash ?? null,
+      deletedAt: null,
+      createdAt: new Date(),
+    };
+    this.data.customBoards.push(board);
+    this.addVersion(board);
+    this.persist();
+    return { ...board };
+  }
+
+  private addVersion(board: CustomBoard) {
+    this.data.customBoardVersions.push({
+      ...snapshotBoard(board),
+      id: this.nextId(this.data.customBoardVersions),
+      createdAt: new Date(),
+    });
+  }
+
+  // Поле, если оно существует и не удалено
+  private findBoard(id: number): CustomBoard | undefined {
+    return this.data.customBoards.find(board => board.id === id && board.deletedAt === null);
+  }
+
+  async getCustomBoards(query: CustomBoardQuery): Promise<CustomBoardPage<CustomBoard>> {
+    const boards = this.data.customBoards
+      .filter(catalogueFilter(query, this.data.customBoardTags))
+      .sort(compareCatalogue(query.sort))
+      .slice(0, query.limit + 1)
+      .map(board => ({ ...board }));
+    return toCataloguePage(boards, query.limit);
+  }
+
+  async getCustomBoard(id: number): Promise<CustomBoard | undefined> {
+    const board = this.findBoard(id);
+    return board ? { ...board } : undefined;
+  }
+
+  async updateCustomBoard(id: number, changes: UpdateCustomBoard & { difficultyScore: number | null; isSolved?: boolean }): Promise<CustomBoard | undefined> {
+    const board = this.findBoard(id);
+    if (!board) return undefined;
+
+    Object.assign(board, changes, { version: board.version + 1 });
+    this.addVersion(board);
+    this.persist();
+    return { ...board };
+  }
+
+  async deleteCustomBoard(id: number): Promise<void> {
+    const board = this.findBoard(id);
+    if (!board) return;
+
+    board.deletedAt = new Date();
+    this.persist();
+  }
+
+  async getCustomBoardVersions(id: number): Promise<CustomBoardVersion[]> {
+    return this.data.customBoardVersions
+      .filter(version => version.customBoardId === id)
+      .sort((a, b) => a.version - b.version)
+      .map(version => ({ ...version }));
+  }
+
+  async updateCustomBoardSolved(id: number): Promise<CustomBoard> {
+    const board = this.data.customBoards.find(board => board.id === id);
+    if (!board) {
+      throw new Error(`Custom board ${id} not found`);
+    }
+
+    board.isSolved = true;
+    this.persist();
+    return { ...board };
+  }
+
+  async createCustomBoardLeaderboardEntry(insertEntry: InsertCustomBoardLeaderboard & { flagged?: boolean; userId?: number | null; boardVersion?: number }): Promise<CustomBoardLeaderboard> {
+    // Та же проверка, что и внешний ключ в PostgreSQL
+    if (!this.data.customBoards.some(board => board.id === insertEntry.customBoardId)) {
+      throw new Error(`Custom board ${insertEntry.customBoardId} not found`);
+    }
+
+    const entry: CustomBoardLeaderboard = {
+      id: this.nextId(this.data.customBoardLeaderboards),
+      customBoardId: insertEntry.customBoardId,
+      boardVersion: insertEntry.boardVersion ?? 1,
+      nickname: insertEntry.nickname,
+      userId: insertEntry.userId ?? null,
+      time: insertEntry.time,
+      attempts: insertEntry.attempts,
+      moveLog: insertEntry.moveLog ?? null,
+      flagged: insertEntry.flagged ?? false,
+      completedAt: new Date(),
+    };
+    this.data.customBoardLeaderboards.push(entry);
+    this.persist();
+    return { ...entry };
+  }
+
+  async getCustomBoardLeaderboardEntry(id: number): Promise<CustomBoardLeaderboard | undefined> {
+    const entry = this.data.customBoardLeaderboards.find(entry => entry.id === id);
+    return entry ? { ...entry } : undefined;
+  }
+
+  private rankedCustomBoardLeaderboard(customBoardId: number, boardVersion: number, ranking: LeaderboardRanking): CustomBoardLeaderboard[] {
+    const periodStart = getPeriodStart(ranking.period);
+    return this.data.customBoardLeaderboards
+      .filter(entry =>
+        entry.customBoardId === customBoardId &&
+        entry.boardVersion === boardVersion &&
+        !entry.flagged &&
+        (!periodStart || entry.completedAt >= periodStart)
+      )
+      .sort(compareRanking(ranking.sort));
+  }
+
+  async getCustomBoardLeaderboard(customBoardId: number, boardVersion: number, query: LeaderboardQuery): Promise<LeaderboardPage<PublicCustomBoardLeaderboard>> {
+    return this.paginate(this.rankedCustomBoardLeaderboard(customBoardId, boardVersion, query), query);
+  }
+
+  async getCustomBoardLeaderboardPlacement(
+    customBoardId: number,
+    boardVersion: number,
+    entryId: number,
+    ranking: LeaderboardRanking,
+  ): Promise<LeaderboardPlacement<PublicCustomBoardLeaderboard> | undefined> {
+    return this.place(this.rankedCustomBoardLeaderboard(customBoardId, boardVersion, ranking), entryId);
+  }
+
+  async incrementCustomBoardCompletionCount(customBoardId: number): Promise<void> {
+    const board = this.data.customBoards.find(board => board.id === customBoardId);
+    if (!board) return;
+
+    board.completionCount++;
+    this.persist();
+  }
+
+  async getPlayerStats(nickname: string): Promise<PlayerStatsGroup[]> {
+    return [
+      ...summarizeResults(this.playerEntries(nickname)),
+      ...summarizeResults(this.playerCustomBoardEntries(nickname)),
+    ];
+  }
+
+  async getPlayerHistory(nickname: string, query: PlayerHistoryQuery): Promise<PlayerHistoryPage> {
+    const cursor = query.cursor ? decodeHistoryCursor(query.cursor) : null;
+    const items = [
+      ...this.playerEntries(nickname).map(classicHistoryItem),
+      ...this.playerCustomBoardEntries(nickname).map(customHistoryItem),
+    ];
+    return toHistoryPage(items.filter(item => !cursor || compareHistory(cursor, item) < 0), query.limit);
+  }
+
+  private playerEntries(nickname: string): LeaderboardEntry[] {
+    return this.data.leaderboardEntries.filter(entry => entry.nickname === nickname && !entry.flagged);
+  }
+
+  // Результаты на пользовательских полях с параметрами версии поля, на которой они показаны
+  private playerCustomBoardEntries(nickname: string) {
+    const versions = new Map(this.data.customBoardVersions.map(version => [`${version.customBoardId}:${version.version}`, version]));
+    return this.data.customBoardLeaderboards.flatMap(entry => {
+      const version = versions.get(`${entry.customBoardId}:${entry.boardVersion}`);
+      if (entry.nickname !== nickname || entry.flagged || !version) return [];
+      return [{ ...entry, difficulty: version.difficulty, boardSize: version.boardSize }];
+    });
+  }
+
+  async getCustomBoardsByCreator(creatorName: string): Promise<CustomBoard[]> {
+    return this.data.customBoards
+      .filter(board => board.creatorName === creatorName && board.deletedAt === null)
+      .sort(compareCatalogue("newest"))
+      .map(board => ({ ...board }));
+  }
+
+  async hasCompletedCustomBoard(customBoardId: number, nickname: string): Promise<boolean> {
+    return this.data.customBoardLeaderboards.some(entry =>
+      entry.customBoardId === customBoardId && entry.nickname === nickname && !entry.flagged
+    );
+  }
+
+  async rateCustomBoard(rating: NewCustomBoardRating): Promise<CustomBoard | undefined> {
+    const board = this.findBoard(rating.customBoardId);
+    if (!board) return undefined;
+
+    const existing = this.data.customBoardRatings.find(row =>
+      row.customBoardId === rating.customBoardId && row.nickname === rating.nickname
+    );
+    if (existing) {
+      Object.assign(existing, { stars: rating.stars, userId: rating.userId, ratedAt: new Date() });
+    } else {
+      this.data.customBoardRatings.push({
+        id: this.nextId(this.data.customBoardRatings),
+        customBoardId: rating.customBoardId,
+        nickname: rating.nickname,
+        userId: rating.userId,
+        stars: rating.stars,
+        ratedAt: new Date(),
+      });
+    }
+
+    const ratings = this.data.customBoardRatings.filter(row => row.customBoardId === board.id);
+    board.ratingCount = ratings.length;
+    board.ratingSum = ratings.reduce((sum, row) => sum + row.stars, 0);
+    this.persist();
+    return { ...board };
+  }
+
+  async getCustomBoardComments(customBoardId: number): Promise<CustomBoardComment[]> {
+    return this.data.customBoardComments
+      .filter(comment => comment.customBoardId === customBoardId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .map(comment => ({ ...comment }));
+  }
+
+  async createCustomBoardComment(insertComment: NewCustomBoardComment): Promise<CustomBoardComment> {
+    const comment: CustomBoardComment = {
+      id: this.nextId(this.data.customBoardComments),
+      customBoardId: insertComment.customBoardId,
+      nickname: insertComment.nickname,
+      userId: insertComment.userId,
+      text: insertComment.text,
+      createdAt: new Date(),
+    };
+    this.data.customBoardComments.push(comment);
+    this.persist();
+    return { ...comment };
+  }
+
+  async getCustomBoardsByIds(ids: number[]): Promise<CustomBoard[]> {
+    return this.data.customBoards
+      .filter(board => ids.includes(board.id) && board.deletedAt === null)
+      .map(board => ({ ...board }));
+  }
+
+  async getCustomBoardTags(customBoardIds: number[]): Promise<Map<number, string[]>> {
+    return groupBoardTags(this.data.customBoardTags.filter(row => customBoardIds.includes(row.customBoardId)));
+  }
+
+  async setCustomBoardTags(customBoardId: number, tags: string[]): Promise<void> {
+    const kept = this.data.customBoardTags.filter(row => row.customBoardId !== customBoardId);
+    let id = this.nextId(this.data.customBoardTags);
+    this.data.customBoardTags = [...kept, ...tags.map(tag => ({ id: id++, customBoardId, tag }))];
+    this.persist();
+  }
+
+  async getPopularTags(limit: number): Promise<TagCount[]> {
+    const counts = new Map<string, number>();
+    for (const row of this.data.customBoardTags) {
+      const board = this.findBoard(row.customBoardId);
+      if (!board || !board.isSolved) continue;
+      counts.set(row.tag, (counts.get(row.tag) ?? 0) + 1);
+    }
+    return Array.from(counts, ([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0))
+      .slice(0, limit);
+  }
+
+  async createBoardCollection({ boardIds, ...insertCollection }: NewBoardCollection): Promise<BoardCollectionSummary> {
+    const collection: BoardCollection = {
+      id: this.nextId(this.data.boardCollections),
+      name: insertCollection.name,
+      description: insertCollection.description ?? "",
+      creatorName: insertCollection.creatorName,
+      userId: insertCollection.userId,
+      createdAt: new Date(),
+    };
+    this.data.boardCollections.push(collection);
+    this.setCollectionItems(collection.id, boardIds);
+    this.persist();
+    return this.withBoardIds(collection);
+  }
+
+  async getBoardCollections(): Promise<BoardCollectionSummary[]> {
+    return this.data.boardCollections
+      .slice()
+      .sort((a, b) => b.id - a.id)
+      .map(collection => this.withBoardIds(collection));
+  }
+
+  async getBoardCollection(id: number): Promise<BoardCollectionSummary | undefined> {
+    const collection = this.data.boardCollections.find(collection => collection.id === id);
+    return collection ? this.withBoardIds(collection) : undefined;
+  }
+
+  async updateBoardCollection(id: number, { boardIds, ...changes }: UpdateBoardCollection): Promise<BoardCollectionSummary | undefined> {
+    const collection = this.data.boardCollections.find(collection => collection.id === id);
+    if (!collection) return undefined;
+
+    Object.assign(collection, changes);
+    if (boardIds) {
+      this.setCollectionItems(id, boardIds);
+    }
+    this.persist();
+    return this.withBoardIds(collection);
+  }
+
+  async deleteBoardCollection(id: number): Promise<void> {
+    this.data.boardCollectionItems = this.data.boardCollectionItems.filter(item => item.collectionId !== id);
+    this.data.boardCollections = this.data.boardCollections.filter(collection => collection.id !== id);
+    this.persist();
+  }
+
+  async getBestCustomBoardTimes(customBoardIds: number[]): Promise<BestBoardTime[]> {
+    const versions = new Map(this.data.customBoards.map(board => [board.id, board.version]));
+    const bests = new Map<string, BestBoardTime>();
+    for (const entry of this.data.customBoardLeaderboards) {
+      if (entry.flagged || !customBoardIds.includes(entry.customBoardId)) continue;
+      if (entry.boardVersion !== versions.get(entry.customBoardId)) continue;
+
+      const key = `${entry.customBoardId}:${entry.nickname}`;
+      const best = bests.get(key);
+      if (!best || entry.time < best.time) {
+        bests.set(key, { nickname: entry.nickname, customBoardId: entry.customBoardId, time: entry.time });
+      }
+    }
+    return Array.from(bests.values());
+  }
+
+  private setCollectionItems(collectionId: number, boardIds: number[]) {
+    const kept = this.data.boardCollectionItems.filter(item => item.collectionId !== collectionId);
+    let id = this.nextId(this.data.boardCollectionItems);
+    this.data.boardCollectionItems = [
+      ...kept,
+      ...toCollectionItems(collectionId, boardIds).map(item => ({ ...item, id: id++ })),
+    ];
+  }
+
+  // Удалённые поля из подборок не показываются
+  private withBoardIds(collection: BoardCollection): BoardCollectionSummary {
+    const items = this.data.boardCollectionItems
+      .filter(item => item.collectionId === collection.id && this.findBoard(item.customBoardId))
+      .sort((a, b) => a.position - b.position);
+    const [summary] = attachBoardIds([{ ...collection }], items);
+    return summary;
+  }
+
+  async createTournament({ rounds, ...insertTournament }: NewTournament): Promise<TournamentRecord> {
+    const boards = await this.getCustomBoardsByIds(getRoundBoardIds(rounds));
+    const tournament: Tournament = {
+      id: this.nextId(this.data.tournaments),
+      name: insertTournament.name,
+      description: insertTournament.description ?? "",
+      creatorName: insertTournament.creatorName,
+      userId: insertTournament.userId,
+      createdAt: new Date(),
+    };
+    this.data.tournaments.push(tournament);
+    this.setTournamentRounds(tournament.id, rounds, boards);
+    this.persist();
+    return this.withRoundsAndPlayers(tournament);
+  }
+
+  async getTournaments(): Promise<TournamentRecord[]> {
+    return this.data.tournaments
+      .slice()
+      .sort((a, b) => b.id - a.id)
+      .map(tournament => this.withRoundsAndPlayers(tournament));
+  }
+
+  async getTournament(id: number): Promise<TournamentRecord | undefined> {
+    const tournament = this.data.tournaments.find(tournament => tournament.id === id);
+    return tournament ? this.withRoundsAndPlayers(tournament) : undefined;
+  }
+
+  async updateTournament(id: number, { rounds, ...changes }: UpdateTournament): Promise<TournamentRecord | undefined> {
+    const tournament = this.data.tournaments.find(tournament => tournament.id === id);
+    if (!tournament) return undefined;
+
+    const boards = rounds ? await this.getCustomBoardsByIds(getRoundBoardIds(rounds)) : [];
+    Object.assign(tournament, changes);
+    if (rounds) {
+      this.setTournamentRounds(id, rounds, boards);
+    }
+    this.persist();
+    return this.withRoundsAndPlayers(tournament);
+  }
+
+  async deleteTournament(id: number): Promise<void> {
+    this.data.tournamentPlayers = this.data.tournamentPlayers.filter(player => player.tournamentId !== id);
+    this.data.tournamentRounds = this.data.tournamentRounds.filter(round => round.tournamentId !== id);
+    this.data.tournaments = this.data.tournaments.filter(tournament => tournament.id !== id);
+    this.persist();
+  }
+
+  async addTournamentPlayer(player: NewTournamentPlayer): Promise<TournamentPlayer> {
+    const row: TournamentPlayer = {
+      id: this.nextId(this.data.tournamentPlayers),
+      ...player,
+      registeredAt: new Date(),
+    };
+    this.data.tournamentPlayers.push(row);
+    this.persist();
+    return { ...row };
+  }
+
+  async removeTournamentPlayer(tournamentId: number, userId: number): Promise<void> {
+    this.data.tournamentPlayers = this.data.tournamentPlayers.filter(
+      player => player.tournamentId !== tournamentId || player.userId !== userId,
+    );
+    this.persist();
+  }
+
+  async hasOpenTournamentRound(customBoardId: number, now: Date): Promise<boolean> {
+    return this.data.tournamentRounds.some(round => round.customBoardId === customBoardId && round.endsAt > now);
+  }
+
+  async getTournamentRoundTimes(round: TournamentRound, userIds: number[]): Promise<RoundTime[]> {
+    const entries: Pick<CustomBoardLeaderboard, "userId" | "time" | "flagged" | "completedAt">[] = round.customBoardId !== null
+      ? this.data.customBoardLeaderboards.filter(entry =>
+          entry.customBoardId === round.customBoardId && (round.boardVersion === null || entry.boardVersion === round.boardVersion),
+        )
+      : this.data.leaderboardEntries.filter(entry =>
+          entry.seed === round.seed && entry.difficulty === round.difficulty && entry.boardSize === round.boardSize,
+        );
+
+    const bests = new Map<number, number>();
+    for (const entry of entries) {
+      if (entry.flagged || entry.userId === null || !userIds.includes(entry.userId)) continue;
+      if (entry.completedAt < round.startsAt || entry.completedAt >= round.endsAt) continue;
+
+      const best = bests.get(entry.userId);
+      if (best === undefined || entry.time < best) bests.set(entry.userId, entry.time);
+    }
+    return Array.from(bests, ([userId, time]) => ({ userId, time }));
+  }
+
+  async createGameReplay(replay: NewGameReplay): Promise<GameReplay> {
+    // Та же проверка, что и внешние ключи с уникальными индексами в PostgreSQL
+    const belongs = replay.leaderboardEntryId !== null
+      ? this.data.leaderboardEntries.some(entry => entry.id === replay.leaderboardEntryId)
+      : this.data.customBoardLeaderboards.some(entry => entry.id === replay.customBoardLeaderboardId);
+    if (!belongs) {
+      throw new Error("Leaderboard entry of the replay not found");
+    }
+    if (this.data.gameReplays.some(existing =>
+      (replay.leaderboardEntryId !== null && existing.leaderboardEntryId === replay.leaderboardEntryId) ||
+      (replay.customBoardLeaderboardId !== null && existing.customBoardLeaderboardId === replay.customBoardLeaderboardId)
+    )) {
+      throw new Error("The entry already has a replay");
+    }
+
+    const created: GameReplay = {
+      id: this.nextId(this.data.gameReplays),
+      ...replay,
+      createdAt: new Date(),
+    };
+    this.data.gameReplays.push(created);
+    this.persist();
+    return { ...created };
+  }
+
+  async getGameReplay(source: ReplaySource, entryId: number): Promise<GameReplay | undefined> {
+    const replay = this.data.gameReplays.find(replay =>
+      source === "classic" ? replay.leaderboardEntryId === entryId : replay.customBoardLeaderboardId === entryId,
+    );
+    return replay ? { ...replay } : undefined;
+  }
+
+  private setTournamentRounds(tournamentId: number, rounds: NewTournament["rounds"], boards: CustomBoard[]) {
+    const kept = this.data.tournamentRounds.filter(round => round.tournamentId !== tournamentId);
+    let id = this.nextId(this.data.tournamentRounds);
+    this.data.tournamentRounds = [
+      ...kept,
+      ...toTournamentRounds(tournamentId, rounds, boards).map(round => ({ ...round, id: id++ })),
+    ];
+  }
+
+  private withRoundsAndPlayers(tournament: Tournament): TournamentRecord {
+    const rounds = this.data.tournamentRounds
+      .filter(round => round.tournamentId === tournament.id)
+      .sort((a, b) => a.position - b.position)
+      .map(round => ({ ...round }));
+    const players = this.data.tournamentPlayers
+      .filter(player => player.tournamentId === tournament.id)
+      .map(player => ({ ...player }));
+    const [record] = attachRoundsAndPlayers([{ ...tournament }], rounds, players);
+    return record;
+  }
+
+  private paginate<T extends RankedRow & { moveLog: unknown }>(ranked: T[], query: LeaderboardQuery): LeaderboardPage<Omit<T, "moveLog">> {
+    const offset = (query.page - 1) * query.pageSize;
+    return {
+      entries: withRanks(ranked.slice(offset, offset + query.pageSize).map(withoutMoveLog), offset),
+      total: ranked.length,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  private place<T extends RankedRow & { moveLog: unknown }>(ranked: T[], entryId: number): LeaderboardPlacement<Omit<T, "moveLog">> | undefined {
+    const index = ranked.findIndex(entry => entry.id === entryId);
+    if (index === -1) return undefined;
+
+    const rank = index + 1;
+    const offset = placementOffset(rank);
+    return {
+      rank,
+      total: ranked.length,
+      neighbours: withRanks(ranked.slice(offset, offset + PLACEMENT_NEIGHBOURS * 2 + 1).map(withoutMoveLog), offset),
+    };
+  }
+}
+
+/**
+ * Выбирает хранилище при запуске по DATABASE_URL: sqlite: или file: —
+ * файл SQLite, иначе PostgreSQL. Без DATABASE_URL или с STORAGE_BACKEND=memory
+ * данные хранятся в памяти; MEMORY_STORAGE_FILE включает их сохранение в JSON-файл.
+ * В production забытый DATABASE_URL означал бы потерю всех результатов при
+ * перезапуске, поэтому там хранилище в памяти нужно выбрать явно.
+ */
+export function createStorage(env: NodeJS.ProcessEnv = process.env): IStorage {
+  const connectionString = env.DATABASE_URL;
+  if (env.STORAGE_BACKEND === "memory") {
+    return new MemStorage(env.MEMORY_STORAGE_FILE);
+  }
+  if (!connectionString) {
+    if (env.NODE_ENV === "production") {
+      throw new Error("DATABASE_URL must be set in production; set STORAGE_BACKEND=memory to keep data in memory");
+    }
+    return new MemStorage(env.MEMORY_STORAGE_FILE);
+  }
+  if (isSqliteUrl(connectionString)) {
+    return new SqliteStorage(connectionString);
+  }
+  return new DatabaseStorage(connectionString);
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { insertTournamentSchema, type TournamentRecord, type TournamentRound } from "@shared/schema";
+import { buildTournamentDetails, hideUpcomingBoards, toTournamentSummary } from "./tournaments";
+
+const now = new Date("2026-05-01T12:00:00Z");
+const hour = 60 * 60 * 1000;
+
+function round(position: number, startsAt: Date, seed: string): TournamentRound {
+  return {
+    id: position + 1,
+    tournamentId: 1,
+    position,
+    customBoardId: null,
+    boardVersion: null,
+    seed,
+    difficulty: "easy",
+    boardSize: 5,
+    startsAt,
+    endsAt: new Date(startsAt.getTime() + hour),
+    advancing: position === 0 ? 1 : null,
+  };
+}
+
+const tournament: TournamentRecord = {
+  id: 1,
+  name: "Cup",
+  description: "",
+  creatorName: "org",
+  userId: 1,
+  createdAt: new Date(now.getTime() - 24 * hour),
+  rounds: [round(0, new Date(now.getTime() - hour / 2), "opened"), round(1, new Date(now.getTime() + hour), "secret")],
+  players: [],
+};
+
+describe("hideUpcomingBoards", () => {
+  it("hides the seed of rounds that have not started yet", async () => {
+    const details = hideUpcomingBoards(await buildTournamentDetails(tournament, async () => [], now), now);
+
+    expect(details.rounds.map(({ seed }) => seed)).toEqual(["opened", null]);
+    expect(details.bracket.map(({ round }) => round.seed)).toEqual(["opened", null]);
+    expect(JSON.stringify(details)).not.toContain("secret");
+  });
+
+  it("keeps the board settings of upcoming rounds", async () => {
+    const details = hideUpcomingBoards(await buildTournamentDetails(tournament, async () => [], now), now);
+    expect(details.rounds[1]).toMatchObject({ difficulty: "easy", boardSize: 5 });
+  });
+
+  it("hides the custom board of rounds that have not started yet", async () => {
+    const custom = (position: number, startsAt: Date, customBoardId: number): TournamentRound => ({
+      ...round(position, startsAt, ""),
+      customBoardId,
+      boardVersion: 2,
+      seed: null,
+      difficulty: null,
+      boardSize: null,
+    });
+    const onBoards = { ...tournament, rounds: [custom(0, tournament.rounds[0].startsAt, 11), custom(1, tournament.rounds[1].startsAt, 12)] };
+    const details = hideUpcomingBoards(await buildTournamentDetails(onBoards, async () => [], now), now);
+
+    expect(details.rounds.map(({ customBoardId, boardVersion }) => ({ customBoardId, boardVersion }))).toEqual([
+      { customBoardId: 11, boardVersion: 2 },
+      { customBoardId: null, boardVersion: null },
+    ]);
+    expect(details.bracket[1].round.customBoardId).toBeNull();
+  });
+});
+
+describe("toTournamentSummary", () => {
+  it("lists a tournament without its rounds", () => {
+    expect(JSON.stringify(toTournamentSummary(tournament, now))).not.toContain("secret");
+  });
+});
+
+describe("insertTournamentSchema", () => {
+  const future = Date.now() + hour;
+
+  it("rejects a round that starts in the past", () => {
+    const result = insertTournamentSchema.safeParse({
+      name: "Cup",
+      rounds: [{ seed: "abc", difficulty: "easy", boardSize: 5, startsAt: Date.now() - hour, endsAt: future }],
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(issue => issue.message)).toContain("A round cannot start in the past");
+  });
+
+  it("accepts rounds in the future", () => {
+    const result = insertTournamentSchema.safeParse({
+      name: "Cup",
+      rounds: [{ seed: "abc", difficulty: "easy", boardSize: 5, startsAt: future, endsAt: future + hour }],
+    });
+    expect(result.success).toBe(true);
+  });
+});
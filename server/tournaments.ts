@@ -0,0 +1,173 @@
+import type { Request } from "express";
+import type {
+  CustomBoard,
+  Tournament,
+  TournamentBracketRound,
+  TournamentDetails,
+  TournamentEntrant,
+  TournamentPlayer,
+  TournamentRecord,
+  TournamentRound,
+  TournamentRoundInput,
+  TournamentRoundStatus,
+  TournamentStatus,
+  TournamentSummary,
+} from "@shared/schema";
+import type { RoundTime } from "./storage";
+
+/**
+ * Может ли автор запроса управлять турниром: турниры создаются только
+ * из аккаунта, поэтому достаточно сравнить пользователя
+ */
+export function canEditTournament(req: Request, tournament: Tournament): boolean {
+  return req.isAuthenticated() && tournament.userId === req.user.id;
+}
+
+export function getRoundBoardIds(rounds: TournamentRoundInput[]): number[] {
+  return rounds.flatMap(round => (round.customBoardId != null ? [round.customBoardId] : []));
+}
+
+/**
+ * Строки раундов для списка из запроса: позиция — порядок раунда,
+ * у финального раунда никто дальше не проходит. Раунд на своём поле
+ * запоминает текущую версию этого поля из boards
+ */
+export function toTournamentRounds(
+  tournamentId: number,
+  rounds: TournamentRoundInput[],
+  boards: Pick<CustomBoard, "id" | "version">[],
+): Omit<TournamentRound, "id">[] {
+  const versions = new Map(boards.map(board => [board.id, board.version]));
+  return rounds.map((round, position) => ({
+    tournamentId,
+    position,
+    customBoardId: round.customBoardId ?? null,
+    boardVersion: round.customBoardId != null ? versions.get(round.customBoardId) ?? null : null,
+    seed: round.seed ?? null,
+    difficulty: round.seed != null ? round.difficulty ?? null : null,
+    boardSize: round.seed != null ? round.boardSize ?? null : null,
+    startsAt: round.startsAt,
+    endsAt: round.endsAt,
+    advancing: position < rounds.length - 1 ? round.advancing ?? null : null,
+  }));
+}
+
+/**
+ * Собирает турниры с их раундами и участниками; rounds должны идти
+ * по позиции, players — по порядку записи
+ */
+export function attachRoundsAndPlayers(
+  tournaments: Tournament[],
+  rounds: TournamentRound[],
+  players: TournamentPlayer[],
+): TournamentRecord[] {
+  return tournaments.map(tournament => ({
+    ...tournament,
+    rounds: rounds.filter(round => round.tournamentId === tournament.id),
+    players: players.filter(player => player.tournamentId === tournament.id),
+  }));
+}
+
+export function getRoundStatus(round: TournamentRound, now: Date): TournamentRoundStatus {
+  if (now < round.startsAt) return "upcoming";
+  return now < round.endsAt ? "active" : "finished";
+}
+
+export function getTournamentStatus(rounds: TournamentRound[], now: Date): TournamentStatus {
+  if (rounds.length === 0 || now < rounds[0].startsAt) return "registration";
+  return now < rounds[rounds.length - 1].endsAt ? "running" : "finished";
+}
+
+/**
+ * Seed раунда или его поле — это само поле: зная его заранее, можно до начала
+ * раунда найти все цели. Поэтому поле будущих раундов видит только организатор
+ */
+export function hideUpcomingBoards(details: TournamentDetails, now: Date): TournamentDetails {
+  const hide = (round: TournamentRound): TournamentRound =>
+    now < round.startsAt ? { ...round, seed: null, customBoardId: null, boardVersion: null } : round;
+  return {
+    ...details,
+    rounds: details.rounds.map(hide),
+    bracket: details.bracket.map(bracketRound => ({ ...bracketRound, round: hide(bracketRound.round) })),
+  };
+}
+
+// В списке нет раундов, поэтому и seed в нём не попадает
+export function toTournamentSummary(tournament: TournamentRecord, now: Date): TournamentSummary {
+  const { rounds, players, ...rest } = tournament;
+  return {
+    ...rest,
+    status: getTournamentStatus(rounds, now),
+    roundCount: rounds.length,
+    playerCount: players.length,
+    startsAt: rounds[0].startsAt,
+    endsAt: rounds[rounds.length - 1].endsAt,
+  };
+}
+
+/**
+ * Таблица раунда: участники с результатом по лучшему времени (при равенстве —
+ * по имени), за ними участники без результата. Когда раунд закончился, первые
+ * advancing игроков с результатом проходят дальше
+ */
+export function rankRound(round: TournamentRound, entrants: TournamentPlayer[], times: RoundTime[], finished: boolean): TournamentEntrant[] {
+  const bests = new Map<number, number>();
+  times.forEach(({ userId, time }) => {
+    const best = bests.get(userId);
+    if (best === undefined || time < best) bests.set(userId, time);
+  });
+
+  const byName = (a: TournamentPlayer, b: TournamentPlayer) => (a.nickname < b.nickname ? -1 : a.nickname > b.nickname ? 1 : 0);
+  const withTime = entrants
+    .filter(player => bests.has(player.userId))
+    .sort((a, b) => bests.get(a.userId)! - bests.get(b.userId)! || byName(a, b));
+  const withoutTime = entrants.filter(player => !bests.has(player.userId)).sort(byName);
+
+  return [
+    ...withTime.map((player, index) => ({
+      nickname: player.nickname,
+      time: bests.get(player.userId)!,
+      rank: index + 1,
+      advanced: finished && round.advancing !== null && index < round.advancing,
+    })),
+    ...withoutTime.map(player => ({ nickname: player.nickname, time: null, rank: null, advanced: false })),
+  ];
+}
+
+/**
+ * Сетка турнира. В первом раунде играют все записавшиеся, в каждом следующем —
+ * прошедшие из предыдущего; пока предыдущий раунд не закончился, участники
+ * раунда неизвестны. Результаты берутся из лидербордов поля раунда за его время
+ */
+export async function buildTournamentDetails(
+  tournament: TournamentRecord,
+  loadTimes: (round: TournamentRound, userIds: number[]) => Promise<RoundTime[]>,
+  now: Date,
+): Promise<TournamentDetails> {
+  const bracket: TournamentBracketRound[] = [];
+  let entrants: TournamentPlayer[] | null = tournament.players;
+
+  for (const round of tournament.rounds) {
+    const status = getRoundStatus(round, now);
+    if (!entrants) {
+      bracket.push({ round, status, entrants: null });
+      continue;
+    }
+
+    const times = status === "upcoming" ? [] : await loadTimes(round, entrants.map(player => player.userId));
+    const ranked = rankRound(round, entrants, times, status === "finished");
+    bracket.push({ round, status, entrants: ranked });
+
+    const advanced = new Set(ranked.filter(entrant => entrant.advanced).map(entrant => entrant.nickname));
+    entrants = status === "finished" ? entrants.filter(player => advanced.has(player.nickname)) : null;
+  }
+
+  const final = bracket[bracket.length - 1];
+  const champion = final?.status === "finished" ? final.entrants?.find(entrant => entrant.rank === 1) : undefined;
+  return {
+    ...tournament,
+    status: getTournamentStatus(tournament.rounds, now),
+    bracket,
+    winner: champion?.nickname ?? null,
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { Move, ReplayEvent } from "@shared/schema";
+import type { Cell } from "@shared/game-rules";
+import { timelineFromMoveLog } from "@shared/replay";
+import { checkTimeline, replayMoveLog } from "./verification";
+
+// 5×5: единицы и плюсы в шахматном порядке, из них получаются цели 2 и 3
+const board: Cell[][] = Array.from({ length: 5 }, (_, row) =>
+  Array.from({ length: 5 }, (_, col) =>
+    (row + col) % 2 === 0
+      ? { row, col, value: 1, type: "number" as const }
+      : { row, col, value: "+", type: "operation" as const },
+  ),
+);
+
+const targets = [2, 3];
+
+const moveLog: Move[] = [
+  { path: [{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 }], at: 2000 },
+  { path: [{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 }, { row: 0, col: 3 }, { row: 0, col: 4 }], at: 5000 },
+];
+
+const timeline = timelineFromMoveLog(board, targets, moveLog);
+
+describe("replayMoveLog", () => {
+  it("accepts a log that finds every target", () => {
+    expect(replayMoveLog(board, targets, moveLog, 5)).toEqual({ ok: true, attempts: 2, time: 5, flagged: false });
+  });
+
+  it("times the game by the server when it knows the duration", () => {
+    expect(replayMoveLog(board, targets, moveLog, 1, 40_000)).toEqual({ ok: true, attempts: 2, time: 40, flagged: false });
+    expect(replayMoveLog(board, targets, moveLog, 1, 1500)).toMatchObject({ ok: true, flagged: true });
+  });
+
+  it("rejects a log that lasts longer than the game", () => {
+    const forged = moveLog.map((move, i) => ({ ...move, at: 60_000 * (i + 1) }));
+    expect(replayMoveLog(board, targets, forged, 1, 30_000)).toEqual({ ok: false, reason: "Move log is longer than the game" });
+  });
+
+  it("rejects a log that misses a target", () => {
+    expect(replayMoveLog(board, targets, moveLog.slice(0, 1), 5)).toEqual({ ok: false, reason: "Not every target was found" });
+  });
+});
+
+describe("checkTimeline", () => {
+  it("accepts a timeline that follows the move log", () => {
+    expect(checkTimeline(board, targets, timeline)).toEqual({ ok: true });
+  });
+
+  it("rejects a target found without a path that gives it", () => {
+    const forged: ReplayEvent[] = [
+      { type: "start", at: 100, cell: { row: 0, col: 0 } },
+      { type: "end", at: 200 },
+      { type: "found", at: 200, target: 2 },
+      { type: "found", at: 200, target: 3 },
+    ];
+    expect(checkTimeline(board, targets, forged)).toMatchObject({ ok: false });
+  });
+
+  it("rejects a target found on the path of another one", () => {
+    const swapped = timeline.map(event => event.type === "found" ? { ...event, target: 5 - event.target } : event);
+    expect(checkTimeline(board, targets, swapped)).toMatchObject({ ok: false });
+  });
+
+  it("rejects a timeline that does not find every target", () => {
+    const partial = timeline.filter(event => !(event.type === "found" && event.target === 3));
+    expect(checkTimeline(board, targets, partial)).toEqual({ ok: false, reason: "Timeline does not find every target" });
+  });
+
+  it("rejects events out of order and cells outside the board", () => {
+    expect(checkTimeline(board, targets, [...timeline].reverse())).toMatchObject({ ok: false });
+    expect(checkTimeline(board, targets, [{ type: "start", at: 0, cell: { row: 7, col: 0 } }, ...timeline]))
+      .toEqual({ ok: false, reason: "Timeline event 1 is outside the board" });
+  });
+});
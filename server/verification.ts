@@ -0,0 +1,125 @@
+import type { Move, ReplayEvent } from "@shared/schema";
+import { evaluatePath, type Cell, type Position } from "@shared/game-rules";
+
+// Быстрее одной секунды на цель человек поле не решает
+const MIN_MS_PER_TARGET = 1000;
+
+// Насколько журнал ходов может быть длиннее игры по часам сервера: запросы
+// начала и конца игры идут по сети, пока в браузере уже тикает таймер
+const GAME_CLOCK_TOLERANCE_MS = 5000;
+
+export type ReplayResult =
+  | { ok: true; attempts: number; time: number; flagged: boolean }
+  | { ok: false; reason: string };
+
+/**
+ * Воспроизводит журнал ходов по правилам игры и проверяет, что все цели
+ * действительно были найдены. Пересчитывает количество попыток и время,
+ * а подозрительно быстрые прохождения помечает флагом.
+ *
+ * Время ходов в журнале задаёт клиент, поэтому если известна длительность
+ * игры по часам сервера, время считается по ней, а журнал, который длится
+ * дольше самой игры, отклоняется.
+ *
+ * @param board - Поле, на котором шла игра
+ * @param targets - Целевые числа поля
+ * @param moveLog - Выборы игрока в порядке их совершения
+ * @param reportedTime - Время в секундах, присланное клиентом
+ * @param measuredMs - Длительность игры по часам сервера, мс
+ */
+export function replayMoveLog(
+  board: Cell[][],
+  targets: number[],
+  moveLog: Move[],
+  reportedTime: number,
+  measuredMs?: number,
+): ReplayResult {
+  const remaining = new Set(targets);
+  let previousAt = 0;
+
+  for (let i = 0; i < moveLog.length; i++) {
+    const move = moveLog[i];
+    if (move.at < previousAt) {
+      return { ok: false, reason: `Move ${i + 1} is out of order` };
+    }
+    previousAt = move.at;
+
+    const evaluation = evaluatePath(board, move.path);
+    if (!evaluation.ok) {
+      return { ok: false, reason: `Move ${i + 1} is not a valid path (${evaluation.error})` };
+    }
+
+    if (evaluation.result.ok) {
+      remaining.delete(evaluation.result.value);
+    }
+  }
+
+  if (remaining.size > 0) {
+    return { ok: false, reason: "Not every target was found" };
+  }
+
+  const loggedMs = moveLog[moveLog.length - 1].at;
+  if (measuredMs !== undefined && loggedMs > measuredMs + GAME_CLOCK_TOLERANCE_MS) {
+    return { ok: false, reason: "Move log is longer than the game" };
+  }
+  const duration = measuredMs ?? loggedMs;
+
+  return {
+    ok: true,
+    attempts: moveLog.length,
+    time: Math.max(reportedTime, Math.floor(duration / 1000)),
+    flagged: duration < MIN_MS_PER_TARGET * new Set(targets).size,
+  };
+}
+
+export type TimelineCheck = { ok: true } | { ok: false; reason: string };
+
+/**
+ * Проверяет запись хода игры для повтора: события идут по времени,
+ * выделения не выходят за поле, каждая цель отмечена один раз сразу после
+ * пути, который её даёт, и найдены все цели — как в журнале ходов.
+ * Результат игры по записи не пересчитывается — для этого есть журнал ходов,
+ * поэтому запись проверяется только после успешного replayMoveLog.
+ *
+ * @param board - Поле, на котором шла игра
+ * @param targets - Целевые числа поля; журнал ходов уже нашёл их все
+ * @param timeline - События игры в порядке записи
+ */
+export function checkTimeline(board: Cell[][], targets: number[], timeline: ReplayEvent[]): TimelineCheck {
+  const isOnBoard = ({ row, col }: Position) => row < board.length && col < board[row].length;
+  const found = new Set<number>();
+  let previousAt = 0;
+  // Последний выделенный путь: цель засчитывается по нему, даже если выделение уже снято
+  let lastPath: Position[] = [];
+
+  for (let i = 0; i < timeline.length; i++) {
+    const event = timeline[i];
+    if (event.at < previousAt) {
+      return { ok: false, reason: `Timeline event ${i + 1} is out of order` };
+    }
+    previousAt = event.at;
+
+    if ((event.type === "start" && !isOnBoard(event.cell)) || (event.type === "move" && !event.path.every(isOnBoard))) {
+      return { ok: false, reason: `Timeline event ${i + 1} is outside the board` };
+    }
+    if (event.type === "start") {
+      lastPath = [event.cell];
+    } else if (event.type === "move") {
+      lastPath = event.path;
+    } else if (event.type === "found") {
+      if (!targets.includes(event.target) || found.has(event.target)) {
+        return { ok: false, reason: `Timeline event ${i + 1} finds an unknown target` };
+      }
+      const evaluation = evaluatePath(board, lastPath);
+      if (!evaluation.ok || !evaluation.result.ok || evaluation.result.value !== event.target) {
+        return { ok: false, reason: `Timeline event ${i + 1} finds a target the selected path does not give` };
+      }
+      found.add(event.target);
+    }
+  }
+
+  if (found.size !== new Set(targets).size) {
+    return { ok: false, reason: "Timeline does not find every target" };
+  }
+  return { ok: true };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { BOARD_CODE_VERSION, decodeBoardCode, encodeBoardCode, type CodedBoard } from "./board-code";
+import { OPERATIONS, type Cell } from "./game-rules";
+
+// Числа 0–99 там, где сумма координат чётная, и все операции по кругу между ними
+function checkerboard(size: number): Cell[][] {
+  return Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, col) => {
+      const index = row * size + col;
+      return (row + col) % 2 === 0
+        ? { row, col, value: index % 100, type: "number" as const }
+        : { row, col, value: OPERATIONS[index % OPERATIONS.length], type: "operation" as const };
+    }),
+  );
+}
+
+const coded: CodedBoard = { difficulty: "medium", boardSize: 5, board: checkerboard(5), targets: [12, -7, 10000, -10000] };
+
+const toBytes = (code: string) => Uint8Array.from(atob(code.replace(/-/g, "+").replace(/_/g, "/")), char => char.charCodeAt(0));
+const toCode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+describe("board codes", () => {
+  it("round-trips a board and its targets", () => {
+    const code = encodeBoardCode(coded);
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeBoardCode(code)).toEqual({ ok: true, board: coded });
+  });
+
+  it.each([10, 15] as const)("round-trips a board of size %i", (boardSize) => {
+    const large = { ...coded, boardSize, board: checkerboard(boardSize) };
+    expect(decodeBoardCode(encodeBoardCode(large))).toEqual({ ok: true, board: large });
+  });
+
+  it("rejects a code with a changed byte by its checksum", () => {
+    const bytes = toBytes(encodeBoardCode(coded));
+    bytes[5] ^= 1;
+    expect(decodeBoardCode(toCode(bytes))).toEqual({ ok: false, reason: "checksum" });
+  });
+
+  it("rejects a truncated code", () => {
+    const code = encodeBoardCode(coded);
+    expect(decodeBoardCode(code.slice(0, -4)).ok).toBe(false);
+    expect(decodeBoardCode("")).toEqual({ ok: false, reason: "malformed" });
+    expect(decodeBoardCode("not a code!")).toEqual({ ok: false, reason: "malformed" });
+  });
+
+  it("reports another format version before checking the checksum", () => {
+    const bytes = toBytes(encodeBoardCode(coded));
+    bytes[0] = BOARD_CODE_VERSION + 1;
+    expect(decodeBoardCode(toCode(bytes))).toEqual({ ok: false, reason: "version" });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Код поля — компактная запись поля и целей для ссылки вида /play#b=<код>
+ *
+ * Такое поле не хранится на сервере: всё нужное для игры лежит в самой ссылке.
+ * Байты кода по порядку:
+ *   1. версия формата;
+ *   2. размер поля (старшие биты) и сложность (младшие);
+ *   3. ячейки построчно, по байту на ячейку: число 0–99 как есть,
+ *      операция — 100 + её номер в OPERATIONS;
+ *   4. число целей и сами цели, по 2 байта на цель: цели поля — целые
+ *      числа от -10000 до 10000, их проверяет validateCustomBoard;
+ *   5. контрольная сумма Флетчера-16 по всем предыдущим байтам.
+ * Байты записываются в base64url без выравнивания.
+ */
+
+import {
+  BOARD_SIZES,
+  DIFFICULTIES,
+  OPERATIONS,
+  isOperation,
+  type BoardSize,
+  type Cell,
+  type Difficulty,
+} from "./game-rules";
+import { getExpectedCellType } from "./board-validation";
+
+export const BOARD_CODE_VERSION = 1;
+
+// Имя параметра во фрагменте ссылки: /play#b=<код>
+export const BOARD_CODE_PARAM = "b";
+
+const OPERATION_OFFSET = 100;
+const TARGET_LENGTH = 2;
+const CHECKSUM_LENGTH = 2;
+
+export interface CodedBoard {
+  difficulty: Difficulty;
+  boardSize: BoardSize;
+  board: Cell[][];
+  targets: number[];
+}
+
+export type BoardCodeDecoding =
+  | { ok: true; board: CodedBoard }
+  | { ok: false; reason: "malformed" | "checksum" | "version" };
+
+// Контрольная сумма Флетчера-16: ловит опечатки и обрезанные ссылки
+function fletcher16(bytes: Uint8Array): number {
+  let sum1 = 0;
+  let sum2 = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    sum1 = (sum1 + bytes[i]) % 255;
+    sum2 = (sum2 + sum1) % 255;
+  }
+  return (sum2 << 8) | sum1;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(code: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(code)) return null;
+  try {
+    const binary = atob(code.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Кодирует поле. Поле должно быть заполнено и устроено по правилам:
+ * код не проверяет достижимость целей
+ */
+export function encodeBoardCode({ difficulty, boardSize, board, targets }: CodedBoard): string {
+  const cellCount = boardSize * boardSize;
+  const bytes = new Uint8Array(2 + cellCount + 1 + targets.length * TARGET_LENGTH + CHECKSUM_LENGTH);
+  const view = new DataView(bytes.buffer);
+
+  bytes[0] = BOARD_CODE_VERSION;
+  bytes[1] = (BOARD_SIZES.indexOf(boardSize) << 4) | DIFFICULTIES.indexOf(difficulty);
+
+  let offset = 2;
+  for (const row of board) {
+    for (const cell of row) {
+      bytes[offset++] = isOperation(cell.value) ? OPERATION_OFFSET + OPERATIONS.indexOf(cell.value) : Number(cell.value);
+    }
+  }
+
+  bytes[offset++] = targets.length;
+  for (const target of targets) {
+    view.setInt16(offset, target);
+    offset += TARGET_LENGTH;
+  }
+
+  view.setUint16(offset, fletcher16(bytes.subarray(0, offset)));
+  return toBase64Url(bytes);
+}
+
+/**
+ * Разбирает код поля. Проверяется только сам формат: соответствие поля
+ * правилам и достижимость целей проверяет validateCustomBoard
+ */
+export function decodeBoardCode(code: string): BoardCodeDecoding {
+  const bytes = fromBase64Url(code);
+  if (!bytes || bytes.length < 3 + CHECKSUM_LENGTH) {
+    return { ok: false, reason: "malformed" };
+  }
+
+  // Код другой версии может быть устроен иначе, в том числе с другой
+  // контрольной суммой, поэтому версия проверяется первой
+  if (bytes[0] !== BOARD_CODE_VERSION) {
+    return { ok: false, reason: "version" };
+  }
+  const view = new DataView(bytes.buffer);
+  const payloadLength = bytes.length - CHECKSUM_LENGTH;
+  if (view.getUint16(payloadLength) !== fletcher16(bytes.subarray(0, payloadLength))) {
+    return { ok: false, reason: "checksum" };
+  }
+
+  const boardSize = BOARD_SIZES[bytes[1] >> 4];
+  const difficulty = DIFFICULTIES[bytes[1] & 0x0f];
+  if (boardSize === undefined || difficulty === undefined || payloadLength < 2 + boardSize * boardSize + 1) {
+    return { ok: false, reason: "malformed" };
+  }
+
+  let offset = 2;
+  const board: Cell[][] = [];
+  for (let row = 0; row < boardSize; row++) {
+    board.push([]);
+    for (let col = 0; col < boardSize; col++) {
+      const byte = bytes[offset++];
+      const value = byte >= OPERATION_OFFSET ? OPERATIONS[byte - OPERATION_OFFSET] : byte;
+      if (value === undefined) {
+        return { ok: false, reason: "malformed" };
+      }
+      board[row].push({ value, type: getExpectedCellType(row, col), row, col });
+    }
+  }
+
+  const targetCount = bytes[offset++];
+  if (payloadLength !== offset + targetCount * TARGET_LENGTH) {
+    return { ok: false, reason: "malformed" };
+  }
+  const targets: number[] = [];
+  for (let i = 0; i < targetCount; i++) {
+    targets.push(view.getInt16(offset));
+    offset += TARGET_LENGTH;
+  }
+
+  return { ok: true, board: { difficulty, boardSize, board, targets } };
+}
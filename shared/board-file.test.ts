@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  BOARD_FILE_FORMAT,
+  BOARD_FILE_VERSION,
+  boardFileSchema,
+  describeBoardFileError,
+  fromBoardFile,
+  toBoardFile,
+} from "./board-file";
+import { validateCustomBoard } from "./board-validation";
+import type { Cell } from "./game-rules";
+
+// 5×5: единицы и плюсы в шахматном порядке, из них получаются цели 2 и 3
+const board: Cell[][] = Array.from({ length: 5 }, (_, row) =>
+  Array.from({ length: 5 }, (_, col) =>
+    (row + col) % 2 === 0
+      ? { row, col, value: 1, type: "number" as const }
+      : { row, col, value: "+", type: "operation" as const },
+  ),
+);
+
+const source = {
+  name: "Ones",
+  creatorName: "author",
+  difficulty: "easy" as const,
+  boardSize: 5 as const,
+  boardData: board,
+  targets: [2, 3],
+  tags: ["quick"],
+  createdAt: new Date("2026-05-01T12:00:00Z"),
+};
+
+// Разбирает файл так же, как импорт: схема, затем проверка поля
+function importFile(data: unknown) {
+  const parsed = boardFileSchema.safeParse(data);
+  if (!parsed.success) return { ok: false as const, message: describeBoardFileError(data, parsed.error) };
+  const imported = fromBoardFile(parsed.data);
+  return { ...validateCustomBoard(imported), imported };
+}
+
+describe("board files", () => {
+  it("round-trips a board through a file", () => {
+    const file = toBoardFile(source);
+    expect(file).toMatchObject({
+      format: BOARD_FILE_FORMAT,
+      version: BOARD_FILE_VERSION,
+      grid: [[1, "+", 1, "+", 1], ["+", 1, "+", 1, "+"], [1, "+", 1, "+", 1], ["+", 1, "+", 1, "+"], [1, "+", 1, "+", 1]],
+      metadata: { name: "Ones", author: "author", tags: ["quick"], createdAt: "2026-05-01T12:00:00.000Z" },
+    });
+
+    const imported = fromBoardFile(boardFileSchema.parse(JSON.parse(JSON.stringify(file))));
+    expect(imported).toEqual({
+      name: "Ones",
+      creatorName: "author",
+      difficulty: "easy",
+      boardSize: 5,
+      boardData: board,
+      targets: [2, 3],
+      tags: ["quick"],
+    });
+    expect(validateCustomBoard(imported)).toMatchObject({ ok: true });
+  });
+
+  it("leaves out the author when the board has none", () => {
+    const file = toBoardFile({ ...source, creatorName: undefined });
+    expect(file.metadata).not.toHaveProperty("author");
+    expect(fromBoardFile(file).creatorName).toBeUndefined();
+  });
+
+  it("names a foreign format or another version", () => {
+    expect(importFile({ format: "something-else" })).toEqual({ ok: false, message: "Not a board file" });
+    expect(importFile({ ...toBoardFile(source), version: 2 })).toEqual({
+      ok: false,
+      message: `Unsupported board file version 2, expected ${BOARD_FILE_VERSION}`,
+    });
+  });
+
+  it("points at the broken part of the file", () => {
+    const file = toBoardFile(source);
+    expect(importFile({ ...file, boardSize: 7 })).toEqual({ ok: false, message: "boardSize: Unknown board size" });
+    expect(importFile({ ...file, metadata: { ...file.metadata, name: " " } })).toMatchObject({
+      ok: false,
+      message: expect.stringContaining("metadata.name"),
+    });
+  });
+
+  it("checks the grid and targets like a board from the editor", () => {
+    const file = toBoardFile(source);
+    expect(importFile({ ...file, grid: file.grid.slice(1) })).toMatchObject({ ok: false, reason: "malformed" });
+    expect(importFile({ ...file, targets: [2, 99] })).toMatchObject({ ok: false, unreachableTargets: [99] });
+  });
+});
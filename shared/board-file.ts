@@ -0,0 +1,124 @@
+/**
+ * Файл поля — переносимый JSON с полем, целями и описанием
+ *
+ * Формат версионируется: format всегда "arithmetic-relay-board", version
+ * растёт при несовместимых изменениях. Сетка хранит только значения ячеек
+ * построчно; тип ячейки следует из шахматного порядка (число там, где сумма
+ * координат чётная). Содержимое файла проверяется так же, как поле
+ * из конструктора, — validateCustomBoard после fromBoardFile.
+ */
+
+import { z } from "zod";
+import { SEED_PATTERN } from "./board-generator";
+import { getExpectedCellType } from "./board-validation";
+import { isBoardSize, isDifficulty, type BoardSize, type Cell, type Difficulty } from "./game-rules";
+import { MAX_BOARD_TAGS, boardTagSchema } from "./schema";
+
+export const BOARD_FILE_FORMAT = "arithmetic-relay-board";
+export const BOARD_FILE_VERSION = 1;
+
+// Больше полей за один запрос массового импорта не принимаем
+export const MAX_IMPORTED_BOARDS = 50;
+
+export const boardFileSchema = z.object({
+  format: z.literal(BOARD_FILE_FORMAT),
+  version: z.literal(BOARD_FILE_VERSION),
+  difficulty: z.string().refine(isDifficulty, "Unknown difficulty"),
+  boardSize: z.number().refine(isBoardSize, "Unknown board size"),
+  grid: z.array(z.array(z.union([z.number(), z.string()]))), // строки сетки: числа и знаки операций
+  targets: z.array(z.number()),
+  seed: z.string().regex(SEED_PATTERN).optional(), // seed, из которого сгенерирована сетка, если есть
+  metadata: z.object({
+    name: z.string().trim().min(1),
+    author: z.string().trim().min(1).optional(),
+    tags: z.array(boardTagSchema).max(MAX_BOARD_TAGS).default([]),
+    createdAt: z.string().datetime().optional(),
+    exportedAt: z.string().datetime().optional(),
+  }),
+});
+
+export type BoardFile = z.infer<typeof boardFileSchema>;
+
+// Что нужно, чтобы сохранить поле в файл
+export interface BoardFileSource {
+  name: string;
+  creatorName?: string;
+  difficulty: Difficulty;
+  boardSize: BoardSize;
+  boardData: Cell[][];
+  targets: number[];
+  tags?: string[];
+  seed?: string;
+  createdAt?: Date;
+}
+
+// Поле, прочитанное из файла, в том виде, в каком его принимают конструктор и сервер
+export interface ImportedBoard {
+  name: string;
+  creatorName?: string;
+  difficulty: Difficulty;
+  boardSize: BoardSize;
+  boardData: Cell[][];
+  targets: number[];
+  tags: string[];
+}
+
+// Итог импорта одного файла из массового импорта; index — место файла в запросе
+export type BoardImportResult =
+  | { index: number; ok: true; id: number; editToken: string }
+  | { index: number; ok: false; message: string; errors?: string[]; unreachableTargets?: number[] };
+
+export function toBoardFile(source: BoardFileSource): BoardFile {
+  return {
+    format: BOARD_FILE_FORMAT,
+    version: BOARD_FILE_VERSION,
+    difficulty: source.difficulty,
+    boardSize: source.boardSize,
+    grid: source.boardData.map(row => row.map(cell => cell.value)),
+    targets: source.targets,
+    ...(source.seed ? { seed: source.seed } : {}),
+    metadata: {
+      name: source.name,
+      ...(source.creatorName ? { author: source.creatorName } : {}),
+      tags: source.tags ?? [],
+      ...(source.createdAt ? { createdAt: source.createdAt.toISOString() } : {}),
+      exportedAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Восстанавливает ячейки поля из сетки файла. Значения не проверяются:
+ * это делает validateCustomBoard
+ */
+export function fromBoardFile(file: BoardFile): ImportedBoard {
+  return {
+    name: file.metadata.name,
+    creatorName: file.metadata.author,
+    difficulty: file.difficulty,
+    boardSize: file.boardSize,
+    boardData: file.grid.map((cells, row) =>
+      cells.map((value, col) => ({ value, type: getExpectedCellType(row, col), row, col }) as Cell)
+    ),
+    targets: file.targets,
+    tags: file.metadata.tags,
+  };
+}
+
+/**
+ * Понятная причина, по которой файл не подходит: чужой формат,
+ * другая версия или ошибки в содержимом
+ */
+export function describeBoardFileError(data: unknown, error: z.ZodError): string {
+  const header = typeof data === "object" && data !== null ? data as Record<string, unknown> : {};
+  if (header.format !== BOARD_FILE_FORMAT) {
+    return "Not a board file";
+  }
+  if (header.version !== BOARD_FILE_VERSION) {
+    return `Unsupported board file version ${String(header.version)}, expected ${BOARD_FILE_VERSION}`;
+  }
+  return error.errors
+    .slice(0, 3)
+    .map(issue => `${issue.path.join(".") || "file"}: ${issue.message}`)
+    .join("; ");
+}
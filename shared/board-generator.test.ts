@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { generateGame, generateGameInBand } from "./board-generator";
+import { DIFFICULTY_BANDS } from "./difficulty";
+import { solveBoard } from "./solver";
+import { getTargetCount } from "./game-rules";
+
+describe("generateGame", () => {
+  it("is deterministic for a seed, size and difficulty", () => {
+    expect(generateGame("abc", 10, "hard")).toEqual(generateGame("abc", 10, "hard"));
+    expect(generateGame("abc", 10, "hard").targets).not.toEqual(generateGame("abd", 10, "hard").targets);
+  });
+
+  it("generates distinct reachable targets", () => {
+    const { board, targets } = generateGame("xyz", 10, "medium");
+    expect(targets).toHaveLength(getTargetCount(10));
+    expect(new Set(targets).size).toBe(targets.length);
+
+    const { solutionCounts } = solveBoard(board, targets);
+    for (const target of targets) {
+      expect(solutionCounts[target]).toBeGreaterThan(0);
+    }
+  });
+
+  it("spreads targets over the board instead of the top-left corner", () => {
+    for (const seed of ["abc", "xyz", "qq12"]) {
+      const { board, targets } = generateGame(seed, 10, "hard");
+      const { solutions } = solveBoard(board, targets);
+      const startsInCorner = (target: number) =>
+        solutions.some(solution => solution.target === target && solution.cells[0].row === 0 && solution.cells[0].col === 0);
+      expect(targets.every(startsInCorner)).toBe(false);
+    }
+  });
+
+  it("keeps only integer targets when asked", () => {
+    // Без options на этом поле есть дробные цели от деления
+    expect(generateGame("abc", 10, "hard").targets.some(target => !Number.isInteger(target))).toBe(true);
+
+    const { targets } = generateGame("abc", 10, "hard", { integerTargets: true });
+    expect(targets).toHaveLength(getTargetCount(10));
+    expect(targets.every(Number.isInteger)).toBe(true);
+  });
+});
+
+describe("generateGameInBand", () => {
+  it("passes the target options to every candidate board", () => {
+    const game = generateGameInBand("band", 5, "hard", DIFFICULTY_BANDS.hard, { integerTargets: true });
+    expect(game.targets.every(Number.isInteger)).toBe(true);
+    expect(generateGame(game.seed, 5, "hard", { integerTargets: true }).targets).toEqual(game.targets);
+  });
+});
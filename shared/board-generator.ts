@@ -0,0 +1,194 @@
+/**
+ * Детерминированная генерация игрового поля
+ *
+ * Поле и цели полностью определяются тройкой (seed, размер, сложность),
+ * поэтому любое поле можно воспроизвести по ссылке и сравнивать результаты
+ * игроков на одном и том же поле.
+ */
+
+import {
+  getOperationsForDifficulty,
+  getTargetCount,
+  type BoardSize,
+  type Cell,
+  type Difficulty,
+} from "./game-rules";
+import { enumerateLegalPaths } from "./solver";
+import { rateBoard, type ScoreBand } from "./difficulty";
+
+// Допустимый вид seed: латиница, цифры, "_" и "-"
+export const SEED_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+const SEED_ALPHABET = "abcdefghijklmnopqrstuvwxyz0123456789";
+const SEED_LENGTH = 8;
+
+// Сколько полей перебирается в поисках поля нужной сложности
+const BAND_SEARCH_TRIES = 12;
+
+export interface GeneratedGame {
+  seed: string;
+  board: Cell[][];
+  targets: number[];
+}
+
+export interface TargetOptions {
+  // Только целые цели: такое поле можно сохранить как пользовательское (цели в integer[])
+  integerTargets?: boolean;
+}
+
+/**
+ * Хеширует строку в 32-битное число (xmur3)
+ */
+function hashSeed(seed: string): number {
+  let hash = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 2246822507);
+  hash = Math.imul(hash ^ (hash >>> 13), 3266489909);
+  return (hash ^= hash >>> 16) >>> 0;
+}
+
+/**
+ * Создаёт генератор псевдослучайных чисел в [0, 1) по seed (mulberry32)
+ */
+export function createRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Создаёт новый случайный seed для поля
+ */
+export function generateSeed(): string {
+  let seed = "";
+  for (let i = 0; i < SEED_LENGTH; i++) {
+    seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  }
+  return seed;
+}
+
+export function isValidSeed(value: unknown): value is string {
+  return typeof value === "string" && SEED_PATTERN.test(value);
+}
+
+/**
+ * Генерирует поле: числа и операции чередуются в шахматном порядке
+ */
+export function generateBoard(seed: string, boardSize: BoardSize, difficulty: Difficulty): Cell[][] {
+  const random = createRandom(`${seed}:${boardSize}:${difficulty}`);
+  const board: Cell[][] = [];
+  const numbers = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+  const operations = getOperationsForDifficulty(difficulty);
+
+  for (let row = 0; row < boardSize; row++) {
+    board[row] = [];
+    for (let col = 0; col < boardSize; col++) {
+      const isNumberCell = (row + col) % 2 === 0;
+      if (isNumberCell) {
+        board[row][col] = {
+          value: numbers[Math.floor(random() * numbers.length)],
+          type: "number",
+          row,
+          col,
+        };
+      } else {
+        board[row][col] = {
+          value: operations[Math.floor(random() * operations.length)],
+          type: "operation",
+          row,
+          col,
+        };
+      }
+    }
+  }
+  return board;
+}
+
+/**
+ * Подбирает целевые числа среди значений путей, которые игрок может выбрать,
+ * поэтому у каждой цели есть хотя бы одно решение. Пути перемешиваются
+ * генератором поля: решатель перечисляет их по строкам, и без перемешивания
+ * все цели находились бы у левого верхнего угла.
+ */
+export function generateTargets(
+  board: Cell[][],
+  boardSize: BoardSize,
+  random: () => number,
+  { integerTargets = false }: TargetOptions = {},
+): number[] {
+  const targets: number[] = [];
+  const usedResults = new Set<number>();
+  const targetCount = getTargetCount(boardSize);
+
+  const paths = enumerateLegalPaths(board);
+  for (let i = paths.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [paths[i], paths[j]] = [paths[j], paths[i]];
+  }
+
+  for (const { value } of paths) {
+    if (targets.length >= targetCount) break;
+    if (integerTargets && !Number.isInteger(value)) continue;
+    if (value > 0 && value <= 1000 && !usedResults.has(value)) {
+      targets.push(value);
+      usedResults.add(value);
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Генерирует поле и цели для заданного seed. Классические игры воспроизводятся
+ * по seed без options, поэтому дробные цели в них остаются.
+ */
+export function generateGame(
+  seed: string,
+  boardSize: BoardSize,
+  difficulty: Difficulty,
+  options: TargetOptions = {},
+): GeneratedGame {
+  const board = generateBoard(seed, boardSize, difficulty);
+  const random = createRandom(`${seed}:${boardSize}:${difficulty}:targets`);
+  return { seed, board, targets: generateTargets(board, boardSize, random, options) };
+}
+
+/**
+ * Генерирует поле, оценка сложности которого попадает в заданный диапазон.
+ * Перебирает производные seed (seed-1, seed-2, ...), поэтому результат
+ * детерминирован и воспроизводится по возвращённому seed через generateGame
+ * с теми же options. Если ни одно поле не попало в диапазон, возвращает ближайшее к нему.
+ */
+export function generateGameInBand(
+  seed: string,
+  boardSize: BoardSize,
+  difficulty: Difficulty,
+  band: ScoreBand,
+  options: TargetOptions = {},
+  maxTries: number = BAND_SEARCH_TRIES,
+): GeneratedGame & { score: number } {
+  let best: (GeneratedGame & { score: number }) | null = null;
+  let bestDistance = Infinity;
+
+  for (let attempt = 0; attempt < maxTries; attempt++) {
+    const candidateSeed = attempt === 0 ? seed : `${seed}-${attempt}`.slice(-32);
+    const game = generateGame(candidateSeed, boardSize, difficulty, options);
+    const { score } = rateBoard(game.board, game.targets);
+    const distance = score < band.min ? band.min - score : score > band.max ? score - band.max : 0;
+
+    if (distance < bestDistance) {
+      best = { ...game, score };
+      bestDistance = distance;
+    }
+    if (distance === 0) break;
+  }
+
+  return best!;
+}
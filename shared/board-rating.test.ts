@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { RATING_PRIOR_MEAN, compareBayesianRatings, getAverageRating } from "./board-rating";
+
+const totals = (ratingSum: number, ratingCount: number) => ({ ratingSum, ratingCount });
+
+describe("getAverageRating", () => {
+  it("rounds the average to one decimal", () => {
+    expect(getAverageRating(14, 3)).toBe(4.7);
+    expect(getAverageRating(5, 1)).toBe(5);
+  });
+
+  it("is null for a board nobody rated", () => {
+    expect(getAverageRating(0, 0)).toBeNull();
+  });
+});
+
+describe("compareBayesianRatings", () => {
+  it("puts a higher rating first", () => {
+    expect(compareBayesianRatings(totals(40, 10), totals(20, 10))).toBeLessThan(0);
+    expect(compareBayesianRatings(totals(20, 10), totals(40, 10))).toBeGreaterThan(0);
+  });
+
+  it("does not let one five-star rating beat many good ones", () => {
+    expect(compareBayesianRatings(totals(5, 1), totals(45, 10))).toBeGreaterThan(0);
+  });
+
+  it("places an unrated board next to boards rated at the prior mean", () => {
+    expect(compareBayesianRatings(totals(0, 0), totals(RATING_PRIOR_MEAN * 4, 4))).toBe(0);
+    expect(compareBayesianRatings(totals(0, 0), totals(8, 4))).toBeLessThan(0);
+    expect(compareBayesianRatings(totals(0, 0), totals(16, 4))).toBeGreaterThan(0);
+  });
+
+  it("sorts a list the same way in either direction", () => {
+    const boards = [totals(5, 1), totals(0, 0), totals(45, 10), totals(2, 2), totals(12, 3)];
+    const sorted = [...boards].sort(compareBayesianRatings);
+    expect(sorted).toEqual([totals(45, 10), totals(12, 3), totals(5, 1), totals(0, 0), totals(2, 2)]);
+    expect([...boards].reverse().sort(compareBayesianRatings)).toEqual(sorted);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Рейтинг пользовательских полей
+ *
+ * Среднее по одной-двум оценкам случайно, поэтому список сортируется
+ * по байесовскому среднему: к оценкам игроков добавляется RATING_PRIOR_WEIGHT
+ * воображаемых оценок RATING_PRIOR_MEAN. Новое поле начинает с середины
+ * списка и поднимается или опускается по мере того, как его оценивают.
+ */
+
+export const RATING_PRIOR_MEAN = 3;
+export const RATING_PRIOR_WEIGHT = 5;
+
+/**
+ * Средняя оценка поля или null, если его ещё никто не оценил
+ */
+export function getAverageRating(ratingSum: number, ratingCount: number): number | null {
+  return ratingCount > 0 ? Math.round((ratingSum / ratingCount) * 10) / 10 : null;
+}
+
+// Сумма и число оценок поля
+export interface RatingTotals {
+  ratingSum: number;
+  ratingCount: number;
+}
+
+/**
+ * Сравнивает байесовские средние двух полей без деления, поэтому сравнение
+ * точное и совпадает с тем, что делает база данных. Отрицательное значение —
+ * рейтинг первого поля выше.
+ */
+export function compareBayesianRatings(a: RatingTotals, b: RatingTotals): number {
+  const priorSum = RATING_PRIOR_MEAN * RATING_PRIOR_WEIGHT;
+  return (b.ratingSum + priorSum) * (a.ratingCount + RATING_PRIOR_WEIGHT) -
+    (a.ratingSum + priorSum) * (b.ratingCount + RATING_PRIOR_WEIGHT);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { validateCustomBoard } from "./board-validation";
+import type { Cell } from "./game-rules";
+
+// 5×5: единицы и плюсы в шахматном порядке, из них получаются цели 2 и 3
+const board: Cell[][] = Array.from({ length: 5 }, (_, row) =>
+  Array.from({ length: 5 }, (_, col) =>
+    (row + col) % 2 === 0
+      ? { row, col, value: 1, type: "number" as const }
+      : { row, col, value: "+", type: "operation" as const },
+  ),
+);
+
+const validate = (targets: number[]) =>
+  validateCustomBoard({ boardData: board, boardSize: 5, difficulty: "easy", targets });
+
+describe("validateCustomBoard", () => {
+  it("accepts reachable integer targets", () => {
+    expect(validate([2, 3])).toMatchObject({ ok: true });
+  });
+
+  it("rejects fractional targets before running the solver", () => {
+    expect(validate([2, 2.5])).toEqual({
+      ok: false,
+      reason: "malformed",
+      errors: ["Target 2.5 must be an integer from -10000 to 10000"],
+    });
+  });
+
+  it("reports unreachable targets", () => {
+    expect(validate([2, 40])).toEqual({ ok: false, reason: "unsolvable", unreachableTargets: [40] });
+  });
+});
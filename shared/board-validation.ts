@@ -0,0 +1,130 @@
+/**
+ * Проверка пользовательского поля
+ *
+ * Поле из конструктора должно быть устроено так же, как сгенерированное:
+ * квадрат заданного размера, числа и операции чередуются в шахматном порядке,
+ * операции подходят к уровню сложности, а каждая цель достижима.
+ * Проверка общая для сервера и конструктора.
+ */
+
+import {
+  getOperationsForDifficulty,
+  isBoardSize,
+  isDifficulty,
+  type Cell,
+} from "./game-rules";
+import { solveBoard } from "./solver";
+
+// Допустимые значения чисел на поле, включая обе границы
+export const CELL_VALUE_RANGE = { min: 0, max: 99 };
+
+// Допустимые значения целей, включая обе границы. Цели только целые: в базе они лежат
+// в колонке integer[], а дробную цель из деления всё равно неудобно вводить
+export const TARGET_RANGE = { min: -10000, max: 10000 };
+
+export const MAX_TARGETS = 50;
+
+// Больше ошибок не показываем: при неверном размере их были бы сотни
+const MAX_REPORTED_ERRORS = 10;
+
+export interface CustomBoardInput {
+  boardData: unknown;
+  boardSize: number;
+  difficulty: string;
+  targets: number[];
+}
+
+export type BoardValidation =
+  | { ok: true; board: Cell[][] }
+  | { ok: false; reason: "malformed"; errors: string[] }
+  | { ok: false; reason: "unsolvable"; unreachableTargets: number[] };
+
+/**
+ * Ожидаемый тип ячейки: числа стоят там, где сумма координат чётная
+ */
+export function getExpectedCellType(row: number, col: number): Cell["type"] {
+  return (row + col) % 2 === 0 ? "number" : "operation";
+}
+
+function validateCells(boardData: unknown, boardSize: number, allowed: readonly string[]): string[] {
+  if (!Array.isArray(boardData) || boardData.length !== boardSize) {
+    return [`Board must have ${boardSize} rows`];
+  }
+
+  const errors: string[] = [];
+  for (let row = 0; row < boardSize; row++) {
+    const cells = boardData[row];
+    if (!Array.isArray(cells) || cells.length !== boardSize) {
+      errors.push(`Row ${row} must have ${boardSize} cells`);
+      continue;
+    }
+
+    for (let col = 0; col < boardSize; col++) {
+      const cell = cells[col];
+      const at = `Cell (${row}, ${col})`;
+      if (typeof cell !== "object" || cell === null || cell.row !== row || cell.col !== col) {
+        errors.push(`${at} is malformed`);
+        continue;
+      }
+
+      const expectedType = getExpectedCellType(row, col);
+      if (cell.type !== expectedType) {
+        errors.push(`${at} must be ${expectedType === "number" ? "a number" : "an operation"}`);
+      } else if (expectedType === "number") {
+        if (
+          !Number.isInteger(cell.value) ||
+          cell.value < CELL_VALUE_RANGE.min ||
+          cell.value > CELL_VALUE_RANGE.max
+        ) {
+          errors.push(`${at} must be an integer from ${CELL_VALUE_RANGE.min} to ${CELL_VALUE_RANGE.max}`);
+        }
+      } else if (!allowed.includes(cell.value)) {
+        errors.push(`${at} must be one of ${allowed.join(" ")}`);
+      }
+    }
+  }
+  return errors;
+}
+
+function validateTargets(targets: number[]): string[] {
+  const errors: string[] = [];
+  if (targets.length === 0 || targets.length > MAX_TARGETS) {
+    errors.push(`Board must have from 1 to ${MAX_TARGETS} targets`);
+  }
+  if (new Set(targets).size !== targets.length) {
+    errors.push("Targets must be distinct");
+  }
+  for (const target of targets) {
+    if (!Number.isInteger(target) || target < TARGET_RANGE.min || target > TARGET_RANGE.max) {
+      errors.push(`Target ${target} must be an integer from ${TARGET_RANGE.min} to ${TARGET_RANGE.max}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Проверяет поле и его цели. Решатель запускается, только если поле
+ * устроено правильно, и возвращает цели, которых нельзя получить ни одним путём.
+ */
+export function validateCustomBoard(input: CustomBoardInput): BoardValidation {
+  if (!isBoardSize(input.boardSize) || !isDifficulty(input.difficulty)) {
+    return { ok: false, reason: "malformed", errors: ["Unknown difficulty or board size"] };
+  }
+
+  const errors = [
+    ...validateCells(input.boardData, input.boardSize, getOperationsForDifficulty(input.difficulty)),
+    ...validateTargets(input.targets),
+  ];
+  if (errors.length > 0) {
+    return { ok: false, reason: "malformed", errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+  }
+
+  const board = input.boardData as Cell[][];
+  const { solutionCounts } = solveBoard(board, input.targets);
+  const unreachableTargets = input.targets.filter(target => solutionCounts[target] === 0);
+  if (unreachableTargets.length > 0) {
+    return { ok: false, reason: "unsolvable", unreachableTargets };
+  }
+
+  return { ok: true, board };
+}
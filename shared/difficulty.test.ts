@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { DIFFICULTY_BANDS, getDifficultyForScore, measureBoard, rateBoard } from "./difficulty";
+import type { Cell, Operation } from "./game-rules";
+
+// 5×5: единицы и одна операция в шахматном порядке. С плюсами цель 2 даёт любой
+// путь из трёх ячеек (16 решений), а цель 3 — только пути через всю строку или столбец (6)
+function checkerboard(operation: Operation): Cell[][] {
+  return Array.from({ length: 5 }, (_, row) =>
+    Array.from({ length: 5 }, (_, col) =>
+      (row + col) % 2 === 0
+        ? { row, col, value: 1, type: "number" as const }
+        : { row, col, value: operation, type: "operation" as const },
+    ),
+  );
+}
+
+describe("measureBoard", () => {
+  it("counts solutions and the shortest path of each target", () => {
+    const metrics = measureBoard(checkerboard("+"), [2, 3]);
+    expect(metrics.averageSolutions).toBe(11);
+    expect(metrics.scarcity).toBeCloseTo((1 / 16 + 1 / 6) / 2);
+    expect(metrics.averageMinPathLength).toBe(4);
+  });
+
+  it("treats an unreachable target as the scarcest and longest", () => {
+    const metrics = measureBoard(checkerboard("+"), [2, 3, 999]);
+    expect(metrics.scarcity).toBeCloseTo((1 / 16 + 1 / 6 + 1) / 3);
+    expect(metrics.averageMinPathLength).toBeCloseTo((3 + 5 + 5) / 3);
+  });
+
+  it("counts paths that nearly give a target as decoys", () => {
+    // Для цели 3 каждый путь со значением 2 почти верен
+    expect(measureBoard(checkerboard("+"), [3]).decoyRatio).toBeGreaterThan(0.5);
+    // Пути, которые дают другую цель, приманками не считаются
+    expect(measureBoard(checkerboard("+"), [2, 3]).decoyRatio).toBe(0);
+  });
+
+  it("weighs operations by how hard they are to compute", () => {
+    expect(measureBoard(checkerboard("+"), [2]).operationWeight).toBe(1);
+    expect(measureBoard(checkerboard("*"), [1]).operationWeight).toBe(2);
+  });
+});
+
+describe("rateBoard", () => {
+  it("rates scarce, long and deceptive targets higher", () => {
+    const easy = rateBoard(checkerboard("+"), [2, 3]);
+    const hard = rateBoard(checkerboard("+"), [3]);
+    expect(hard.score).toBeGreaterThan(easy.score);
+    expect(getDifficultyForScore(easy.score)).toBe("easy");
+    expect(getDifficultyForScore(hard.score)).toBe("hard");
+  });
+
+  it("keeps the score between 0 and 100", () => {
+    for (const targets of [[1], [2, 3], [3], [999]]) {
+      const { score } = rateBoard(checkerboard("+"), targets);
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(100);
+    }
+  });
+});
+
+describe("getDifficultyForScore", () => {
+  it("maps band boundaries to their levels", () => {
+    expect(getDifficultyForScore(0)).toBe("easy");
+    expect(getDifficultyForScore(24)).toBe("easy");
+    expect(getDifficultyForScore(25)).toBe("medium");
+    expect(getDifficultyForScore(44)).toBe("medium");
+    expect(getDifficultyForScore(45)).toBe("hard");
+    expect(getDifficultyForScore(100)).toBe("hard");
+  });
+
+  it("uses bands that cover every score without gaps", () => {
+    const { easy, medium, hard } = DIFFICULTY_BANDS;
+    expect([easy.min, easy.max + 1, medium.max + 1, hard.max]).toEqual([0, medium.min, hard.min, 100]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Оценка сложности поля
+ *
+ * Сложность определяется не набором операций, а тем, насколько трудно
+ * найти решения: сколько их у каждой цели, насколько длинные пути нужно
+ * выбрать, сколько путей дают почти верный результат и какие операции
+ * встречаются на поле. Итоговая оценка — число от 0 до 100.
+ */
+
+import { isOperation, type DraftCell, type Difficulty, type Operation } from "./game-rules";
+import { enumerateLegalPaths, solveBoard } from "./solver";
+
+// Диапазон оценки сложности, включая обе границы
+export interface ScoreBand {
+  min: number;
+  max: number;
+}
+
+// Показатели поля, из которых складывается оценка
+export interface BoardMetrics {
+  averageSolutions: number; // среднее количество решений на цель
+  scarcity: number; // среднее по целям 1 / количество решений; цель без решений даёт 1
+  averageMinPathLength: number; // средняя длина кратчайшего решения цели, в ячейках
+  decoyRatio: number; // доля путей, результат которых близок к цели, но не равен ей
+  operationWeight: number; // средний «вес» операций на поле, от 1 до 4
+}
+
+export interface DifficultyRating {
+  score: number;
+  metrics: BoardMetrics;
+}
+
+// Диапазоны оценки, соответствующие уровням сложности
+export const DIFFICULTY_BANDS: Record<Difficulty, ScoreBand> = {
+  easy: { min: 0, max: 24 },
+  medium: { min: 25, max: 44 },
+  hard: { min: 45, max: 100 },
+};
+
+// Насколько трудно считать в уме каждую операцию
+const OPERATION_WEIGHTS: Record<Operation, number> = {
+  "+": 1,
+  "-": 1,
+  "*": 2,
+  "/": 3,
+  "^": 4,
+};
+
+// Вклад показателей в итоговую оценку
+const SCORE_WEIGHTS = {
+  scarcity: 0.35,
+  pathLength: 0.25,
+  decoys: 0.25,
+  operations: 0.15,
+};
+
+/**
+ * Результат считается почти верным, если отличается от цели не больше
+ * чем на 10% (и не больше чем на 1 для маленьких целей)
+ */
+function isNearMiss(value: number, target: number): boolean {
+  return value !== target && Math.abs(value - target) <= Math.max(1, Math.abs(target) * 0.1);
+}
+
+/**
+ * Считает показатели сложности поля по результатам решателя
+ */
+export function measureBoard(board: DraftCell[][], targets: number[]): BoardMetrics {
+  const legalPaths = enumerateLegalPaths(board);
+  const { solutions, solutionCounts } = solveBoard(board, targets);
+
+  const counts = targets.map(target => solutionCounts[target] ?? 0);
+  const minLengths = targets.map(target => {
+    const lengths = solutions
+      .filter(solution => solution.target === target)
+      .map(solution => solution.cells.length);
+    return lengths.length > 0 ? Math.min(...lengths) : board.length;
+  });
+
+  const targetSet = new Set(targets);
+  const decoys = legalPaths.filter(path =>
+    !targetSet.has(path.value) && targets.some(target => isNearMiss(path.value, target))
+  ).length;
+
+  const operations = board.flat()
+    .map(cell => cell.value)
+    .filter(isOperation);
+  const operationWeight = operations.length > 0
+    ? operations.reduce((sum, operation) => sum + OPERATION_WEIGHTS[operation], 0) / operations.length
+    : 1;
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return {
+    averageSolutions: average(counts),
+    scarcity: average(counts.map(count => (count > 0 ? 1 / count : 1))),
+    averageMinPathLength: average(minLengths),
+    decoyRatio: legalPaths.length > 0 ? decoys / legalPaths.length : 0,
+    operationWeight,
+  };
+}
+
+/**
+ * Оценивает сложность поля от 0 (тривиально) до 100 (очень сложно)
+ */
+export function rateBoard(board: DraftCell[][], targets: number[]): DifficultyRating {
+  const metrics = measureBoard(board, targets);
+  const boardSize = Math.max(board.length, 3);
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+  const pathLength = clamp((metrics.averageMinPathLength - 3) / (boardSize - 3));
+  // Когда почти верен каждый второй путь, отличить решение уже трудно
+  const decoys = clamp(metrics.decoyRatio * 2);
+  const operations = clamp((metrics.operationWeight - 1) / 3);
+
+  const score =
+    SCORE_WEIGHTS.scarcity * metrics.scarcity +
+    SCORE_WEIGHTS.pathLength * pathLength +
+    SCORE_WEIGHTS.decoys * decoys +
+    SCORE_WEIGHTS.operations * operations;
+
+  return { score: Math.round(score * 100), metrics };
+}
+
+/**
+ * Уровень сложности, в диапазон которого попадает оценка
+ */
+export function getDifficultyForScore(score: number): Difficulty {
+  if (score >= DIFFICULTY_BANDS.hard.min) return "hard";
+  if (score >= DIFFICULTY_BANDS.medium.min) return "medium";
+  return "easy";
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildExpression,
+  evaluateExpression,
+  formatExpression,
+  isValidPath,
+  type DraftCell,
+  type Token,
+} from "./game-rules";
+
+// Поле из одной строки: числа и операции по порядку
+function row(values: (Token | null)[]): DraftCell[][] {
+  return [
+    values.map((value, col) => ({
+      row: 0,
+      col,
+      value,
+      type: typeof value === "string" ? "operation" : "number",
+    })),
+  ];
+}
+
+const horizontal = (length: number) => Array.from({ length }, (_, col) => ({ row: 0, col }));
+
+describe("isValidPath", () => {
+  it("accepts empty and single-cell paths", () => {
+    expect(isValidPath([])).toBe(true);
+    expect(isValidPath([{ row: 3, col: 4 }])).toBe(true);
+  });
+
+  it("accepts horizontal and vertical lines in both directions", () => {
+    expect(isValidPath([{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 }])).toBe(true);
+    expect(isValidPath([{ row: 0, col: 2 }, { row: 0, col: 1 }, { row: 0, col: 0 }])).toBe(true);
+    expect(isValidPath([{ row: 1, col: 2 }, { row: 2, col: 2 }, { row: 3, col: 2 }])).toBe(true);
+    expect(isValidPath([{ row: 3, col: 2 }, { row: 2, col: 2 }])).toBe(true);
+  });
+
+  it("rejects diagonal and bent paths", () => {
+    expect(isValidPath([{ row: 0, col: 0 }, { row: 1, col: 1 }])).toBe(false);
+    expect(isValidPath([{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 1, col: 1 }])).toBe(false);
+  });
+
+  it("rejects gaps and repeated cells", () => {
+    expect(isValidPath([{ row: 0, col: 0 }, { row: 0, col: 2 }])).toBe(false);
+    expect(isValidPath([{ row: 0, col: 0 }, { row: 0, col: 0 }])).toBe(false);
+  });
+
+  it("rejects paths that turn back", () => {
+    expect(isValidPath([{ row: 0, col: 1 }, { row: 0, col: 2 }, { row: 0, col: 1 }])).toBe(false);
+  });
+});
+
+describe("buildExpression", () => {
+  it("concatenates adjacent digits into one number", () => {
+    expect(buildExpression(row([1, 2, "+", 3]), horizontal(4))).toEqual({ ok: true, tokens: [12, "+", 3] });
+    expect(buildExpression(row([1, 0, 5]), horizontal(3))).toEqual({ ok: true, tokens: [105] });
+  });
+
+  it("follows the selection order", () => {
+    const path = [{ row: 0, col: 2 }, { row: 0, col: 1 }, { row: 0, col: 0 }];
+    expect(buildExpression(row([4, "*", 7]), path)).toEqual({ ok: true, tokens: [7, "*", 4] });
+  });
+
+  it("reports an empty path", () => {
+    expect(buildExpression(row([1]), [])).toEqual({ ok: false, error: "empty" });
+  });
+
+  it("reports a path that is not a straight line", () => {
+    const board = [...row([1, "+"]), ...row([2, 3]).map(cells => cells.map(cell => ({ ...cell, row: 1 })))];
+    const path = [{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 1, col: 1 }];
+    expect(buildExpression(board, path)).toEqual({ ok: false, error: "not-straight" });
+  });
+
+  it("reports empty and missing cells", () => {
+    expect(buildExpression(row([1, null, 2]), horizontal(3))).toEqual({ ok: false, error: "empty-cell" });
+    expect(buildExpression(row([1]), horizontal(2))).toEqual({ ok: false, error: "empty-cell" });
+  });
+
+  it("requires the path to start with a number", () => {
+    expect(buildExpression(row(["+", 1]), horizontal(2))).toEqual({ ok: false, error: "must-start-with-number" });
+  });
+
+  it("rejects two operations in a row", () => {
+    expect(buildExpression(row([1, "+", "-", 2]), horizontal(4))).toEqual({
+      ok: false,
+      error: "consecutive-operations",
+    });
+  });
+});
+
+describe("evaluateExpression", () => {
+  it("evaluates left to right without operator precedence", () => {
+    expect(evaluateExpression([2, "+", 2, "*", 7])).toEqual({ ok: true, value: 28 });
+    expect(evaluateExpression([10, "-", 4, "/", 2])).toEqual({ ok: true, value: 3 });
+    expect(evaluateExpression([2, "^", 3, "^", 2])).toEqual({ ok: true, value: 64 });
+  });
+
+  it("rounds the result to two decimal places", () => {
+    expect(evaluateExpression([10, "/", 3])).toEqual({ ok: true, value: 3.33 });
+    expect(evaluateExpression([2, "/", 3])).toEqual({ ok: true, value: 0.67 });
+  });
+
+  it("keeps full precision between steps", () => {
+    expect(evaluateExpression([1, "/", 3, "*", 3])).toEqual({ ok: true, value: 1 });
+  });
+
+  it("reports incomplete expressions", () => {
+    expect(evaluateExpression([])).toEqual({ ok: false, error: "incomplete" });
+    expect(evaluateExpression([5])).toEqual({ ok: false, error: "incomplete" });
+    expect(evaluateExpression([5, "+"])).toEqual({ ok: false, error: "incomplete" });
+    expect(evaluateExpression([5, "+", 1, "*"])).toEqual({ ok: false, error: "incomplete" });
+  });
+
+  it("reports division by zero", () => {
+    expect(evaluateExpression([5, "/", 0])).toEqual({ ok: false, error: "division-by-zero" });
+    expect(evaluateExpression([5, "+", 1, "/", 0])).toEqual({ ok: false, error: "division-by-zero" });
+  });
+
+  it("allows dividing zero", () => {
+    expect(evaluateExpression([0, "/", 5])).toEqual({ ok: true, value: 0 });
+  });
+
+  it("reports raising a negative number to a power", () => {
+    expect(evaluateExpression([1, "-", 3, "^", 2])).toEqual({ ok: false, error: "negative-power" });
+  });
+
+  it("allows raising zero to a power", () => {
+    expect(evaluateExpression([0, "^", 0])).toEqual({ ok: true, value: 1 });
+  });
+
+  it("reports results that are not finite", () => {
+    expect(evaluateExpression([99, "^", 99, "^", 99])).toEqual({ ok: false, error: "not-finite" });
+  });
+});
+
+describe("formatExpression", () => {
+  it("returns an empty string for no tokens", () => {
+    expect(formatExpression([])).toBe("");
+  });
+
+  it("shows single numbers and simple expressions as they are", () => {
+    expect(formatExpression([42])).toBe("42");
+    expect(formatExpression([2, "+", 3])).toBe("2 + 3");
+  });
+
+  it("brackets longer expressions in evaluation order", () => {
+    expect(formatExpression([2, "+", 2, "*", 7])).toBe("((2 + 2) * 7)");
+    expect(formatExpression([1, "+", 2, "-", 3, "/", 4])).toBe("(((1 + 2) - 3) / 4)");
+  });
+
+  it("ends unfinished expressions with an ellipsis", () => {
+    expect(formatExpression([2, "+"])).toBe("2 + ...");
+    expect(formatExpression([2, "+", 3, "*"])).toBe("2 + 3 * ...");
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Правила игры «Арифметическая эстафета»
+ *
+ * Единый модуль без зависимостей от фреймворков: типы ячеек, проверка пути,
+ * построение и вычисление выражений. Используется всеми страницами клиента
+ * и сервером, чтобы правила не расходились между режимами.
+ */
+
+export type CellType = "number" | "operation"; // Тип ячейки: число или операция
+export type Operation = "+" | "-" | "*" | "/" | "^"; // Доступные математические операции
+export type Difficulty = "easy" | "medium" | "hard"; // Уровни сложности игры
+export type BoardSize = 5 | 10 | 15; // Доступные размеры игрового поля
+export type Token = number | Operation; // Элемент выражения
+
+// Координаты ячейки на поле
+export interface Position {
+  row: number;
+  col: number;
+}
+
+// Ячейка игрового поля
+export interface Cell extends Position {
+  value: Token;
+  type: CellType;
+}
+
+// Ячейка поля в конструкторе, значение которой может быть ещё не задано
+export interface DraftCell extends Position {
+  value: Token | null;
+  type: CellType;
+}
+
+export const OPERATIONS: readonly Operation[] = ["+", "-", "*", "/", "^"];
+export const DIFFICULTIES: readonly Difficulty[] = ["easy", "medium", "hard"];
+export const BOARD_SIZES: readonly BoardSize[] = [5, 10, 15];
+
+// Ошибки построения выражения по выбранному пути
+export type PathError =
+  | "empty" // путь пуст
+  | "not-straight" // путь не является непрерывной горизонтальной или вертикальной линией
+  | "empty-cell" // в пути есть незаполненная ячейка
+  | "must-start-with-number" // путь начинается с операции
+  | "consecutive-operations"; // две операции подряд
+
+// Ошибки вычисления выражения
+export type EvaluationError =
+  | "incomplete" // выражение не содержит операции или заканчивается операцией
+  | "division-by-zero" // деление на ноль
+  | "negative-power" // возведение отрицательного числа в степень
+  | "not-finite"; // результат вышел за пределы представимых чисел
+
+export type ExpressionResult =
+  | { ok: true; tokens: Token[] }
+  | { ok: false; error: PathError };
+
+export type EvaluationResult =
+  | { ok: true; value: number }
+  | { ok: false; error: EvaluationError };
+
+export type PathEvaluation =
+  | { ok: true; tokens: Token[]; expression: string; result: EvaluationResult }
+  | { ok: false; error: PathError };
+
+export function isOperation(value: unknown): value is Operation {
+  return typeof value === "string" && (OPERATIONS as readonly string[]).includes(value);
+}
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return typeof value === "string" && (DIFFICULTIES as readonly string[]).includes(value);
+}
+
+export function isBoardSize(value: unknown): value is BoardSize {
+  return typeof value === "number" && (BOARD_SIZES as readonly number[]).includes(value);
+}
+
+/**
+ * Возвращает набор операций, доступных на заданном уровне сложности
+ */
+export function getOperationsForDifficulty(difficulty: Difficulty): Operation[] {
+  switch (difficulty) {
+    case "easy":
+      return ["+", "-", "*"];
+    case "medium":
+      return ["+", "-", "*", "/"];
+    case "hard":
+      return ["+", "-", "*", "/", "^"];
+    default:
+      return ["+", "-", "*"];
+  }
+}
+
+/**
+ * Количество целевых чисел для поля заданного размера
+ */
+export function getTargetCount(boardSize: BoardSize): number {
+  return Math.max(4, Math.floor(boardSize / 2));
+}
+
+/**
+ * Проверяет, что путь — непрерывная горизонтальная или вертикальная линия
+ * в порядке выбора ячеек
+ */
+export function isValidPath(cells: Position[]): boolean {
+  if (cells.length < 2) return true;
+
+  const allSameRow = cells.every(cell => cell.row === cells[0].row);
+  const allSameCol = cells.every(cell => cell.col === cells[0].col);
+
+  if (!allSameRow && !allSameCol) return false;
+
+  for (let i = 1; i < cells.length; i++) {
+    const step = allSameRow
+      ? Math.abs(cells[i].col - cells[i - 1].col)
+      : Math.abs(cells[i].row - cells[i - 1].row);
+    if (step !== 1) return false;
+  }
+
+  // Направление не должно меняться: путь 1-2-1 непрерывен, но не является линией
+  if (cells.length > 2) {
+    const key = allSameRow ? "col" : "row";
+    const direction = Math.sign(cells[1][key] - cells[0][key]);
+    for (let i = 2; i < cells.length; i++) {
+      if (Math.sign(cells[i][key] - cells[i - 1][key]) !== direction) return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Строит путь перетаскивания от начальной ячейки до текущей.
+ * Если ячейки не лежат на одной линии, путь состоит только из начальной ячейки.
+ */
+export function buildLinePath(start: Position, end: Position): Position[] {
+  const path: Position[] = [];
+
+  if (start.row === end.row) {
+    const step = start.col <= end.col ? 1 : -1;
+    for (let col = start.col; col !== end.col + step; col += step) {
+      path.push({ row: start.row, col });
+    }
+  } else if (start.col === end.col) {
+    const step = start.row <= end.row ? 1 : -1;
+    for (let row = start.row; row !== end.row + step; row += step) {
+      path.push({ row, col: start.col });
+    }
+  } else {
+    path.push({ row: start.row, col: start.col });
+  }
+
+  return path;
+}
+
+/**
+ * Преобразует путь на поле в последовательность элементов выражения.
+ * Соседние числа склеиваются в одно многозначное (1, 2 → 12).
+ */
+export function buildExpression(board: DraftCell[][], path: Position[]): ExpressionResult {
+  if (path.length === 0) return { ok: false, error: "empty" };
+  if (!isValidPath(path)) return { ok: false, error: "not-straight" };
+
+  const tokens: Token[] = [];
+
+  for (const { row, col } of path) {
+    const value = board[row]?.[col]?.value;
+    if (value === null || value === undefined) return { ok: false, error: "empty-cell" };
+
+    const previous = tokens[tokens.length - 1];
+
+    if (typeof value === "number") {
+      if (typeof previous === "number") {
+        tokens[tokens.length - 1] = parseInt(`${previous}${value}`);
+      } else {
+        tokens.push(value);
+      }
+    } else {
+      if (previous === undefined) return { ok: false, error: "must-start-with-number" };
+      if (typeof previous !== "number") return { ok: false, error: "consecutive-operations" };
+      tokens.push(value);
+    }
+  }
+
+  return { ok: true, tokens };
+}
+
+/**
+ * Вычисляет выражение слева направо без приоритета операций.
+ * Результат округляется до 2 знаков после запятой.
+ */
+export function evaluateExpression(tokens: Token[]): EvaluationResult {
+  if (tokens.length < 3 || tokens.length % 2 === 0) return { ok: false, error: "incomplete" };
+
+  let result = tokens[0] as number;
+
+  for (let i = 1; i < tokens.length; i += 2) {
+    const operation = tokens[i] as Operation;
+    const operand = tokens[i + 1] as number;
+
+    switch (operation) {
+      case "+":
+        result += operand;
+        break;
+      case "-":
+        result -= operand;
+        break;
+      case "*":
+        result *= operand;
+        break;
+      case "/":
+        if (operand === 0) return { ok: false, error: "division-by-zero" };
+        result /= operand;
+        break;
+      case "^":
+        if (result < 0) return { ok: false, error: "negative-power" };
+        result = Math.pow(result, operand);
+        break;
+    }
+  }
+
+  if (!Number.isFinite(result)) return { ok: false, error: "not-finite" };
+
+  return { ok: true, value: Math.round(result * 100) / 100 };
+}
+
+/**
+ * Форматирует выражение для отображения.
+ * Полные выражения получают скобки, показывающие порядок вычисления: ((2 + 2) * 7).
+ * Незаконченные выражения заканчиваются многоточием: 2 + ...
+ */
+export function formatExpression(tokens: Token[]): string {
+  if (tokens.length === 0) return "";
+  if (tokens.length % 2 === 0) return `${tokens.join(" ")} ...`;
+  if (tokens.length <= 3) return tokens.join(" ");
+
+  let formatted = `${tokens[0]}`;
+  for (let i = 1; i < tokens.length - 1; i += 2) {
+    formatted = `(${formatted} ${tokens[i]} ${tokens[i + 1]})`;
+  }
+  return formatted;
+}
+
+/**
+ * Строит, форматирует и вычисляет выражение по выбранному пути
+ */
+export function evaluatePath(board: DraftCell[][], path: Position[]): PathEvaluation {
+  const built = buildExpression(board, path);
+  if (!built.ok) return built;
+
+  return {
+    ok: true,
+    tokens: built.tokens,
+    expression: formatExpression(built.tokens),
+    result: evaluateExpression(built.tokens),
+  };
+}
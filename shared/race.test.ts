@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { OPERATION_POINTS, scoreClaim } from "./race";
+import type { Cell } from "./game-rules";
+
+// Поле из одной строки: числа и операции по порядку
+function row(values: (number | Cell["value"])[]): Cell[][] {
+  return [
+    values.map((value, col) => ({
+      row: 0,
+      col,
+      value,
+      type: typeof value === "string" ? "operation" : "number",
+    }) as Cell),
+  ];
+}
+
+const horizontal = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => ({ row: 0, col: from + i }));
+
+describe("scoreClaim", () => {
+  const board = row([2, "+", 3, "-", 4, "*", 5, "/", 6, "^", 7]);
+
+  it("gives a point per cell and the weight of every operation", () => {
+    expect(scoreClaim(board, horizontal(0, 2))).toBe(3 + OPERATION_POINTS["+"]);
+    expect(scoreClaim(board, horizontal(4, 6))).toBe(3 + OPERATION_POINTS["*"]);
+    expect(scoreClaim(board, horizontal(6, 8))).toBe(3 + OPERATION_POINTS["/"]);
+    expect(scoreClaim(board, horizontal(8, 10))).toBe(3 + OPERATION_POINTS["^"]);
+  });
+
+  it("rewards longer paths with harder operations", () => {
+    expect(scoreClaim(board, horizontal(0, 10))).toBe(11 + 1 + 1 + 2 + 3 + 4);
+    expect(scoreClaim(board, horizontal(0, 4))).toBeLessThan(scoreClaim(board, horizontal(4, 8)));
+  });
+
+  it("does not depend on the direction of the path", () => {
+    expect(scoreClaim(board, horizontal(2, 6).reverse())).toBe(scoreClaim(board, horizontal(2, 6)));
+  });
+});
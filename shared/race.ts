@@ -0,0 +1,186 @@
+/**
+ * Гонка — игра нескольких игроков на одном поле в реальном времени
+ *
+ * Правил два. В гонке (race) каждый ищет все цели сам, побеждает тот,
+ * кто быстрее найдёт последнюю. В захвате (claim) список целей общий:
+ * цель достаётся тому, чей путь сервер принял первым, и вычёркивается
+ * у остальных, а за неё начисляются очки по длине пути и операциям.
+ *
+ * Хозяин создаёт комнату, друзья входят в неё по коду. Комната и место
+ * игрока в ней создаются по HTTP; в ответ игрок получает токен, с которым
+ * подключается к WebSocket /ws/race. Поле выдаёт сервер при старте гонки,
+ * и он же проверяет каждый путь, которым игрок отмечает цель.
+ *
+ * Зрители подключаются к тому же WebSocket по коду комнаты без токена и
+ * видят поле, выделения и найденные цели всех игроков. Трансляцию можно
+ * попросить с задержкой, чтобы игроки не подсматривали в общий экран.
+ */
+
+import { z } from "zod";
+import {
+  isBoardSize,
+  isDifficulty,
+  isOperation,
+  type BoardSize,
+  type Cell,
+  type Difficulty,
+  type Operation,
+  type Position,
+} from "./game-rules";
+
+// Путь WebSocket для гонок
+export const RACE_SOCKET_PATH = "/ws/race";
+
+// Больше игроков в одну комнату не пускаем
+export const MAX_RACE_PLAYERS = 8;
+
+// Больше зрителей в одну комнату не пускаем
+export const MAX_RACE_SPECTATORS = 32;
+
+// Допустимые задержки трансляции для зрителей, секунды. Хозяин выбирает при создании
+// комнаты наименьшую из них, зритель может только увеличить её
+export const RACE_WATCH_DELAYS = [0, 5, 15, 30] as const;
+
+// Обратный отсчёт между стартом и появлением поля, мс
+export const RACE_COUNTDOWN_MS = 3000;
+
+// Сколько отключившийся игрок может вернуться, прежде чем гонка перестанет его ждать, мс
+export const RACE_RECONNECT_GRACE_MS = 30_000;
+
+export const RACE_MODES = ["race", "claim"] as const;
+
+// Очки за захваченную цель: по очку за каждую ячейку пути и ещё вес каждой операции в нём
+export const OPERATION_POINTS: Record<Operation, number> = {
+  "+": 1,
+  "-": 1,
+  "*": 2,
+  "/": 3,
+  "^": 4,
+};
+
+// Код комнаты: заглавные буквы и цифры без похожих друг на друга 0/O и 1/I
+export const RACE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const RACE_CODE_LENGTH = 6;
+
+const raceNicknameSchema = z.string().trim().min(1).max(32);
+
+export const createRaceSchema = z.object({
+  nickname: raceNicknameSchema,
+  mode: z.enum(RACE_MODES).default("race"),
+  difficulty: z.string().refine(isDifficulty),
+  boardSize: z.number().refine(isBoardSize),
+  watchDelay: z.number().refine(isRaceWatchDelay).default(0),
+});
+
+export const joinRaceSchema = z.object({
+  nickname: raceNicknameSchema,
+});
+
+const racePathSchema = z.array(z.object({
+  row: z.number().int().nonnegative(),
+  col: z.number().int().nonnegative(),
+})).max(64);
+
+// Сообщения игрока: старт гонки (только хозяин), текущее выделение для зрителей
+// (пустой путь — выделение снято) и заявка на найденную цель
+export const raceClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("start") }),
+  z.object({ type: z.literal("select"), path: racePathSchema }),
+  z.object({ type: z.literal("claim"), path: racePathSchema.min(1) }),
+]);
+
+export type CreateRace = z.infer<typeof createRaceSchema>;
+export type JoinRace = z.infer<typeof joinRaceSchema>;
+export type RaceClientMessage = z.infer<typeof raceClientMessageSchema>;
+
+export type RaceMode = typeof RACE_MODES[number];
+export type RaceWatchDelay = typeof RACE_WATCH_DELAYS[number];
+export type RaceStatus = "lobby" | "countdown" | "playing" | "finished";
+
+// Игрок в таблице комнаты. found — найденные (в захвате — захваченные) цели;
+// finishedIn — миллисекунды от старта до последней цели, только в гонке; score — очки захвата
+export interface RacePlayer {
+  nickname: string;
+  isHost: boolean;
+  connected: boolean;
+  found: number;
+  finishedIn: number | null;
+  score: number;
+}
+
+// Цель, захваченная игроком в режиме захвата
+export interface RaceClaim {
+  target: number;
+  nickname: string;
+  points: number;
+  path: Position[];
+}
+
+export interface RaceRoomState {
+  code: string;
+  mode: RaceMode;
+  status: RaceStatus;
+  difficulty: Difficulty;
+  boardSize: BoardSize;
+  watchDelay: RaceWatchDelay; // наименьшая задержка трансляции, секунды
+  board: Cell[][] | null; // null, пока не закончился обратный отсчёт
+  targets: number[];
+  startedAt: number | null; // время сервера, мс; во время отсчёта — когда появится поле
+  claims: RaceClaim[]; // в порядке захвата; в гонке всегда пусто
+  players: (RacePlayer & { rank: number })[]; // уже в порядке таблицы комнаты
+}
+
+// Ответ на создание комнаты и вход в неё
+export interface RaceTicket {
+  code: string;
+  nickname: string;
+  token: string;
+}
+
+// Сообщения сервера. room приходит каждому игроку отдельно: в you — его собственные цели
+export type RaceServerMessage =
+  | {
+      type: "room";
+      room: RaceRoomState;
+      you: { nickname: string; isHost: boolean; foundTargets: number[] };
+      serverTime: number;
+    }
+  | { type: "claim"; ok: true; target: number; points: number }
+  | {
+      type: "claim";
+      ok: false;
+      reason: "not-playing" | "invalid-path" | "not-a-target" | "already-found" | "already-claimed";
+    }
+  | { type: "error"; message: string };
+
+// Игрок глазами зрителя: что он сейчас выделяет и какие цели уже нашёл
+export interface RaceWatchedPlayer {
+  nickname: string;
+  selection: Position[];
+  foundTargets: number[];
+}
+
+// Сообщения зрителю. С задержкой приходят все, в том числе первое; serverTime —
+// момент, когда сервер собрал состояние, а не когда его отправил
+export type RaceWatchMessage =
+  | {
+      type: "room";
+      room: RaceRoomState;
+      players: RaceWatchedPlayer[]; // в порядке входа в комнату
+      serverTime: number;
+    }
+  | { type: "select"; nickname: string; path: Position[] };
+
+export function isRaceWatchDelay(value: number): value is RaceWatchDelay {
+  return (RACE_WATCH_DELAYS as readonly number[]).includes(value);
+}
+
+/**
+ * Очки за захват цели путём. Путь должен быть уже проверен
+ */
+export function scoreClaim(board: Cell[][], path: Position[]): number {
+  return path.reduce((points, { row, col }) => {
+    const value = board[row][col].value;
+    return points + 1 + (isOperation(value) ? OPERATION_POINTS[value] : 0);
+  }, 0);
+}
@@ -0,0 +1,88 @@
+/**
+ * Повтор игры — запись того, как игрок выделял пути на поле
+ *
+ * Клиент записывает ход игры как список событий (ReplayEvent): начало
+ * выделения, каждое изменение пути, отпускание и найденные цели, с временем
+ * от начала игры. Сервер хранит запись рядом с результатом в лидерборде,
+ * а страница /replay проигрывает её на поле. Для игр, сыгранных до появления
+ * записи, ход игры восстанавливается по журналу ходов.
+ */
+
+import { timelineSchema, type Move, type ReplayEvent } from "./schema";
+import { evaluatePath, type Cell, type Position } from "./game-rules";
+
+// Сколько выделение восстановленного хода видно на поле до того, как путь засчитан, мс
+const REBUILT_SELECTION_MS = 400;
+
+// Состояние поля в один момент повтора
+export interface ReplayFrame {
+  selection: Position[]; // текущее выделение, пустое, если игрок ничего не выделяет
+  foundTargets: number[]; // найденные цели в порядке нахождения
+}
+
+/**
+ * Восстанавливает ход игры по журналу ходов: каждый ход становится
+ * выделением его пути, которое появляется незадолго до хода и снимается
+ * в момент хода. Цель считается найденной при первом пути с её значением.
+ */
+export function timelineFromMoveLog(board: Cell[][], targets: number[], moveLog: Move[]): ReplayEvent[] {
+  const remaining = new Set(targets);
+  const timeline: ReplayEvent[] = [];
+  let previousAt = 0;
+
+  moveLog.forEach(move => {
+    const startAt = Math.max(previousAt, move.at - REBUILT_SELECTION_MS);
+    timeline.push({ type: "start", at: startAt, cell: move.path[0] });
+    timeline.push({ type: "move", at: startAt, path: move.path });
+    timeline.push({ type: "end", at: move.at });
+
+    const evaluation = evaluatePath(board, move.path);
+    if (evaluation.ok && evaluation.result.ok && remaining.has(evaluation.result.value)) {
+      remaining.delete(evaluation.result.value);
+      timeline.push({ type: "found", at: move.at, target: evaluation.result.value });
+    }
+    previousAt = move.at;
+  });
+
+  return timeline;
+}
+
+// Запись для отправки с результатом: слишком длинную или большую не отправляем,
+// тогда сервер восстановит повтор по журналу ходов
+export function fitTimeline(timeline: ReplayEvent[]): ReplayEvent[] | undefined {
+  return timelineSchema.safeParse(timeline).success ? timeline : undefined;
+}
+
+// Длительность записи — время последнего события, мс
+export function getReplayDuration(timeline: ReplayEvent[]): number {
+  return timeline.length > 0 ? timeline[timeline.length - 1].at : 0;
+}
+
+/**
+ * Состояние поля в момент at: применяет по порядку все события,
+ * случившиеся не позже этого момента
+ */
+export function getReplayFrame(timeline: ReplayEvent[], at: number): ReplayFrame {
+  let selection: Position[] = [];
+  const foundTargets: number[] = [];
+
+  for (let i = 0; i < timeline.length && timeline[i].at <= at; i++) {
+    const event = timeline[i];
+    switch (event.type) {
+      case "start":
+        selection = [event.cell];
+        break;
+      case "move":
+        selection = event.path;
+        break;
+      case "end":
+        selection = [];
+        break;
+      case "found":
+        foundTargets.push(event.target);
+        break;
+    }
+  }
+
+  return { selection, foundTargets };
+}
@@ -1,76 +1,647 @@
-import { pgTable, text, serial, integer, timestamp, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, jsonb, boolean, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { SEED_PATTERN, type GeneratedGame } from "./board-generator";
+import { BOARD_SIZES, isBoardSize, isDifficulty, type BoardSize, type Cell, type Difficulty } from "./game-rules";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
-});
+}, (table) => [
+  // Names are unique regardless of case, so "Alice" cannot be registered next to "alice"
+  uniqueIndex("users_username_lower_idx").on(sql`lower(${table.username})`),
+]);
 
 export const leaderboardEntries = pgTable("leaderboard_entries", {
   id: serial("id").primaryKey(),
   nickname: text("nickname").notNull(),
+  userId: integer("user_id").references(() => users.id), // set when played signed in
   time: integer("time").notNull(), // time in seconds
   attempts: integer("attempts").notNull(), // number of attempts made
   difficulty: text("difficulty").notNull(), // "easy", "medium", "hard"
   boardSize: integer("board_size").notNull(), // 5, 10, 15
+  seed: text("seed"), // seed the board was generated from
+  dailyDate: text("daily_date"), // UTC date (YYYY-MM-DD) of the daily challenge, null for regular games
+  moveLog: jsonb("move_log"), // ordered log of selected paths, kept for audit
+  flagged: boolean("flagged").notNull().default(false), // replay looked implausible
   completedAt: timestamp("completed_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // Rankings are always filtered by category and, for periods, by completion time
+  index("leaderboard_entries_category_idx").on(table.difficulty, table.boardSize, table.completedAt),
+  index("leaderboard_entries_daily_idx").on(table.dailyDate, table.difficulty, table.boardSize),
+  // One ranked attempt per player on each daily board, even for simultaneous submissions
+  uniqueIndex("leaderboard_entries_daily_player_idx")
+    .on(table.nickname, table.dailyDate, table.difficulty, table.boardSize)
+    .where(sql`${table.dailyDate} is not null`),
+]);
 
 export const customBoards = pgTable("custom_boards", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   creatorName: text("creator_name").notNull(),
+  userId: integer("user_id").references(() => users.id), // set when created signed in
   difficulty: text("difficulty").notNull(), // "easy", "medium", "hard"
   boardSize: integer("board_size").notNull(), // 5, 10, 15
   boardData: jsonb("board_data").notNull(), // 2D array of cells
   targets: integer("targets").array().notNull(), // target numbers
   isSolved: boolean("is_solved").notNull().default(false), // has creator solved it?
   completionCount: integer("completion_count").notNull().default(0), // how many times solved
+  ratingCount: integer("rating_count").notNull().default(0), // players who rated the board
+  ratingSum: integer("rating_sum").notNull().default(0), // sum of their stars, kept for sorting by rating
+  difficultyScore: integer("difficulty_score"), // 0-100, estimated by the server from solver metrics
+  version: integer("version").notNull().default(1), // bumped on every edit by the author
+  editTokenHash: text("edit_token_hash"), // sha256 of the edit token returned at creation
+  deletedAt: timestamp("deleted_at"), // set when the author deletes the board
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Snapshot of a custom board as it was in one version
+export const customBoardVersions = pgTable("custom_board_versions", {
+  id: serial("id").primaryKey(),
+  customBoardId: integer("custom_board_id").notNull().references(() => customBoards.id),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  difficulty: text("difficulty").notNull(),
+  boardSize: integer("board_size").notNull(),
+  boardData: jsonb("board_data").notNull(),
+  targets: integer("targets").array().notNull(),
+  difficultyScore: integer("difficulty_score"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("custom_board_versions_board_version_idx").on(table.customBoardId, table.version),
+]);
+
 export const customBoardLeaderboards = pgTable("custom_board_leaderboards", {
   id: serial("id").primaryKey(),
   customBoardId: integer("custom_board_id").notNull().references(() => customBoards.id),
+  boardVersion: integer("board_version").notNull().default(1), // version of the board the game was played on
   nickname: text("nickname").notNull(),
+  userId: integer("user_id").references(() => users.id), // set when played signed in
   time: integer("time").notNull(), // time in seconds
   attempts: integer("attempts").notNull(), // number of attempts made
+  moveLog: jsonb("move_log"), // ordered log of selected paths, kept for audit
+  flagged: boolean("flagged").notNull().default(false), // replay looked implausible
   completedAt: timestamp("completed_at").defaultNow().notNull(),
+}, (table) => [
+  index("custom_board_leaderboards_board_idx").on(table.customBoardId, table.completedAt),
+]);
+
+// Recorded timeline of a finished game; belongs to exactly one leaderboard row
+export const gameReplays = pgTable("game_replays", {
+  id: serial("id").primaryKey(),
+  leaderboardEntryId: integer("leaderboard_entry_id").references(() => leaderboardEntries.id), // set for classic and daily games
+  customBoardLeaderboardId: integer("custom_board_leaderboard_id").references(() => customBoardLeaderboards.id), // set for custom board games
+  timeline: jsonb("timeline").$type<ReplayEvent[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("game_replays_leaderboard_entry_idx").on(table.leaderboardEntryId),
+  uniqueIndex("game_replays_custom_board_leaderboard_idx").on(table.customBoardLeaderboardId),
+]);
+
+// One rating per player and board; rating again replaces the stars
+export const customBoardRatings = pgTable("custom_board_ratings", {
+  id: serial("id").primaryKey(),
+  customBoardId: integer("custom_board_id").notNull().references(() => customBoards.id),
+  nickname: text("nickname").notNull(),
+  userId: integer("user_id").references(() => users.id), // set when rated signed in
+  stars: integer("stars").notNull(), // 1-5
+  ratedAt: timestamp("rated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("custom_board_ratings_board_nickname_idx").on(table.customBoardId, table.nickname),
+]);
+
+export const customBoardComments = pgTable("custom_board_comments", {
+  id: serial("id").primaryKey(),
+  customBoardId: integer("custom_board_id").notNull().references(() => customBoards.id),
+  nickname: text("nickname").notNull(),
+  userId: integer("user_id").references(() => users.id), // set when written signed in
+  text: text("text").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("custom_board_comments_board_idx").on(table.customBoardId, table.createdAt),
+]);
+
+// Tags the author attached to a custom board, stored in lower case
+export const customBoardTags = pgTable("custom_board_tags", {
+  id: serial("id").primaryKey(),
+  customBoardId: integer("custom_board_id").notNull().references(() => customBoards.id),
+  tag: text("tag").notNull(),
+}, (table) => [
+  uniqueIndex("custom_board_tags_board_tag_idx").on(table.customBoardId, table.tag),
+  index("custom_board_tags_tag_idx").on(table.tag),
+]);
+
+// Ordered set of custom boards put together by a registered player
+export const boardCollections = pgTable("board_collections", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  creatorName: text("creator_name").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const boardCollectionItems = pgTable("board_collection_items", {
+  id: serial("id").primaryKey(),
+  collectionId: integer("collection_id").notNull().references(() => boardCollections.id),
+  customBoardId: integer("custom_board_id").notNull().references(() => customBoards.id),
+  position: integer("position").notNull(), // 0-based place of the board in the collection
+}, (table) => [
+  uniqueIndex("board_collection_items_collection_board_idx").on(table.collectionId, table.customBoardId),
+]);
+
+// Tournament run by a registered player: players sign up, then play timed rounds
+export const tournaments = pgTable("tournaments", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  creatorName: text("creator_name").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id), // the organiser
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One round of a tournament, played either on a custom board or on a generated board (seed)
+export const tournamentRounds = pgTable("tournament_rounds", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id),
+  position: integer("position").notNull(), // 0-based order of the round
+  customBoardId: integer("custom_board_id").references(() => customBoards.id), // set for rounds on a custom board
+  boardVersion: integer("board_version"), // version of the custom board when the round was saved; only its results count
+  seed: text("seed"), // set for rounds on a generated board, together with difficulty and board size
+  difficulty: text("difficulty"),
+  boardSize: integer("board_size"),
+  startsAt: timestamp("starts_at").notNull(), // results count from this moment
+  endsAt: timestamp("ends_at").notNull(), // up to this moment, exclusive
+  advancing: integer("advancing"), // best players who go on to the next round; null for the final
+}, (table) => [
+  uniqueIndex("tournament_rounds_tournament_position_idx").on(table.tournamentId, table.position),
+]);
+
+// Registered player signed up for a tournament
+export const tournamentPlayers = pgTable("tournament_players", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  nickname: text("nickname").notNull(), // username at sign-up
+  registeredAt: timestamp("registered_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("tournament_players_tournament_user_idx").on(table.tournamentId, table.userId),
+]);
+
+const positionSchema = z.object({
+  row: z.number().int().nonnegative(),
+  col: z.number().int().nonnegative(),
+});
+
+// One selection made by the player: the path in selection order
+// and the time it was made, in milliseconds since the game started
+export const moveSchema = z.object({
+  path: z.array(positionSchema).min(1),
+  at: z.number().int().nonnegative(),
+});
+
+export const moveLogSchema = z.array(moveSchema).min(1).max(5000);
+
+// Longer recordings are not kept; the replay is then rebuilt from the move log.
+// The size cap keeps a score with the longest move log under the 2mb body limit
+export const MAX_TIMELINE_EVENTS = 10000;
+export const MAX_TIMELINE_BYTES = 256 * 1024; // serialized as JSON
+
+// One step of a recorded game, in milliseconds since the game started: a selection
+// starts on a cell, changes to a new path, is released, or a target is found
+export const replayEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("start"), at: z.number().int().nonnegative(), cell: positionSchema }),
+  z.object({
+    type: z.literal("move"),
+    at: z.number().int().nonnegative(),
+    path: z.array(positionSchema).min(1).max(Math.max(...BOARD_SIZES)),
+  }),
+  z.object({ type: z.literal("end"), at: z.number().int().nonnegative() }),
+  z.object({ type: z.literal("found"), at: z.number().int().nonnegative(), target: z.number() }),
+]);
+
+export const timelineSchema = z.array(replayEventSchema)
+  .min(1)
+  .max(MAX_TIMELINE_EVENTS)
+  .refine(timeline => JSON.stringify(timeline).length <= MAX_TIMELINE_BYTES, "Timeline is too large");
+
+// Leaderboard orderings: by time, by attempts, or by a combined score
+// where every attempt costs ATTEMPT_PENALTY_SECONDS
+export const LEADERBOARD_SORTS = ["time", "attempts", "score"] as const;
+export const ATTEMPT_PENALTY_SECONDS = 5;
+
+// Time windows of a leaderboard: calendar day, week (from Monday)
+// and month in UTC, or all results
+export const LEADERBOARD_PERIODS = ["today", "week", "month", "all"] as const;
+
+// Query parameters shared by all leaderboard endpoints
+export const leaderboardQuerySchema = z.object({
+  sort: z.enum(LEADERBOARD_SORTS).default("time"),
+  period: z.enum(LEADERBOARD_PERIODS).default("all"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+// Orderings of the custom board catalogue: newest first, by rating
+// or by how many players completed the board
+export const CUSTOM_BOARD_SORTS = ["newest", "rating", "popular"] as const;
+export const COMMENT_MAX_LENGTH = 500;
+export const MAX_BOARD_TAGS = 5;
+export const MAX_COLLECTION_BOARDS = 30;
+export const MAX_TOURNAMENT_ROUNDS = 8;
+
+// Tag: lower-case letters and digits, words joined by single hyphens, e.g. "division-heavy"
+export const boardTagSchema = z.string().trim().toLowerCase().min(2).max(24).regex(/^[a-zа-яё0-9]+(-[a-zа-яё0-9]+)*$/);
+
+// Tags sent with a custom board; repeated tags are kept once
+export const customBoardTagsSchema = z.object({
+  tags: z.array(boardTagSchema).max(MAX_BOARD_TAGS).transform(tags => Array.from(new Set(tags))).default([]),
+});
+
+// Query parameters of the custom board catalogue; search matches the name or the author
+export const customBoardQuerySchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  tag: boardTagSchema.optional(),
+  difficulty: z.string().refine(isDifficulty).optional(),
+  boardSize: z.coerce.number().refine(isBoardSize).optional(),
+  minTargets: z.coerce.number().int().min(1).optional(),
+  maxTargets: z.coerce.number().int().min(1).optional(),
+  minRating: z.coerce.number().min(1).max(5).optional(), // average stars
+  minCompletions: z.coerce.number().int().min(0).optional(),
+  sort: z.enum(CUSTOM_BOARD_SORTS).default("newest"),
+  cursor: z.string().max(200).optional(), // nextCursor of the previous page
+  limit: z.coerce.number().int().min(1).max(50).default(24),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+// One page of a player's history, newest first
+export const playerHistoryQuerySchema = z.object({
+  cursor: z.string().max(200).optional(), // nextCursor of the previous page
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: z.string().trim().min(3).max(20).regex(/^[A-Za-zА-Яа-яЁё0-9_-]+$/),
+  password: z.string().min(8).max(128),
+}).pick({
   username: true,
   password: true,
 });
 
-export const insertLeaderboardEntrySchema = createInsertSchema(leaderboardEntries).pick({
+export const insertLeaderboardEntrySchema = createInsertSchema(leaderboardEntries, {
+  seed: z.string().regex(SEED_PATTERN),
+  dailyDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullish(),
+  moveLog: moveLogSchema,
+}).pick({
   nickname: true,
   time: true,
   attempts: true,
   difficulty: true,
   boardSize: true,
+  seed: true,
+  dailyDate: true,
+  moveLog: true,
+}).extend({
+  // Recorded for the replay; older clients do not send it. A broken one is dropped, not the score
+  timeline: timelineSchema.optional().catch(undefined),
+});
+
+// A score as the client sends it: with the token the server signed when the game finished
+export const leaderboardSubmissionSchema = insertLeaderboardEntrySchema.extend({
+  gameToken: z.string().min(1),
 });
 
 export const insertCustomBoardSchema = createInsertSchema(customBoards).omit({
   id: true,
   createdAt: true,
+  isSolved: true,
   completionCount: true,
+  ratingCount: true,
+  ratingSum: true,
+  difficultyScore: true,
+  userId: true,
+  version: true,
+  editTokenHash: true,
+  deletedAt: true,
 });
 
-export const insertCustomBoardLeaderboardSchema = createInsertSchema(customBoardLeaderboards).pick({
+// Fields the author may change; the author name stays fixed
+export const updateCustomBoardSchema = insertCustomBoardSchema.omit({
+  creatorName: true,
+}).partial();
+
+export const insertCustomBoardLeaderboardSchema = createInsertSchema(customBoardLeaderboards, {
+  moveLog: moveLogSchema,
+}).pick({
   customBoardId: true,
   nickname: true,
   time: true,
   attempts: true,
+  moveLog: true,
+}).extend({
+  timeline: timelineSchema.optional().catch(undefined),
+});
+
+export const customBoardLeaderboardSubmissionSchema = insertCustomBoardLeaderboardSchema.extend({
+  gameToken: z.string().min(1),
+});
+
+// Start of a game the server times: a classic board by its seed or a custom board
+export const gameStartSchema = z.union([
+  z.object({
+    seed: z.string().regex(SEED_PATTERN),
+    difficulty: z.string(),
+    boardSize: z.number().int(),
+  }),
+  z.object({ customBoardId: z.number().int().positive() }),
+]);
+
+export const gameFinishSchema = z.object({
+  gameToken: z.string().min(1),
+});
+
+export const insertCustomBoardRatingSchema = createInsertSchema(customBoardRatings, {
+  stars: z.number().int().min(1).max(5),
+}).pick({
+  nickname: true,
+  stars: true,
+});
+
+export const insertCustomBoardCommentSchema = createInsertSchema(customBoardComments, {
+  text: z.string().trim().min(1).max(COMMENT_MAX_LENGTH),
+}).pick({
+  nickname: true,
+  text: true,
+});
+
+export const insertBoardCollectionSchema = createInsertSchema(boardCollections, {
+  name: z.string().trim().min(1).max(80),
+  description: z.string().trim().max(500).default(""),
+}).pick({
+  name: true,
+  description: true,
+}).extend({
+  boardIds: z.array(z.number().int().positive())
+    .min(1)
+    .max(MAX_COLLECTION_BOARDS)
+    .refine(ids => new Set(ids).size === ids.length, "Boards must be distinct"),
 });
 
+export const updateBoardCollectionSchema = insertBoardCollectionSchema.partial();
+
+// A round is played either on a custom board or on a seed with its difficulty and board size
+export const tournamentRoundSchema = createInsertSchema(tournamentRounds, {
+  customBoardId: z.number().int().positive().nullish(),
+  seed: z.string().regex(SEED_PATTERN).nullish(),
+  difficulty: z.string().refine(isDifficulty).nullish(),
+  boardSize: z.number().refine(isBoardSize).nullish(),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  advancing: z.number().int().min(1).nullish(),
+}).pick({
+  customBoardId: true,
+  seed: true,
+  difficulty: true,
+  boardSize: true,
+  startsAt: true,
+  endsAt: true,
+  advancing: true,
+})
+  .refine(round => (round.customBoardId != null) !== (round.seed != null), "Choose either a custom board or a seed")
+  .refine(round => round.seed == null || (round.difficulty != null && round.boardSize != null), "A seed needs a difficulty and a board size")
+  .refine(round => round.endsAt > round.startsAt, "A round must end after it starts")
+  // Checked when the rounds are saved: a round in the past would start already open
+  .refine(round => round.startsAt > new Date(), "A round cannot start in the past");
+
+// Rounds go one after another; every round but the final says how many players advance
+const tournamentRoundsSchema = z.array(tournamentRoundSchema)
+  .min(1)
+  .max(MAX_TOURNAMENT_ROUNDS)
+  .refine(rounds => rounds.every((round, i) => i === 0 || round.startsAt >= rounds[i - 1].endsAt), "Rounds must not overlap")
+  .refine(rounds => rounds.every((round, i) => i === rounds.length - 1 || round.advancing != null), "Every round but the final needs the number of advancing players");
+
+export const insertTournamentSchema = createInsertSchema(tournaments, {
+  name: z.string().trim().min(1).max(80),
+  description: z.string().trim().max(1000).default(""),
+}).pick({
+  name: true,
+  description: true,
+}).extend({
+  rounds: tournamentRoundsSchema,
+});
+
+export const updateTournamentSchema = insertTournamentSchema.partial();
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 export type InsertLeaderboardEntry = z.infer<typeof insertLeaderboardEntrySchema>;
+export type LeaderboardSubmission = z.infer<typeof leaderboardSubmissionSchema>;
 export type LeaderboardEntry = typeof leaderboardEntries.$inferSelect;
 export type InsertCustomBoard = z.infer<typeof insertCustomBoardSchema>;
 export type CustomBoard = typeof customBoards.$inferSelect;
+export type PublicCustomBoard = Omit<CustomBoard, "editTokenHash"> & { tags: string[] };
+export type UpdateCustomBoard = z.infer<typeof updateCustomBoardSchema>;
+export type CustomBoardVersion = typeof customBoardVersions.$inferSelect;
 export type InsertCustomBoardLeaderboard = z.infer<typeof insertCustomBoardLeaderboardSchema>;
+export type CustomBoardLeaderboardSubmission = z.infer<typeof customBoardLeaderboardSubmissionSchema>;
+export type GameStart = z.infer<typeof gameStartSchema>;
 export type CustomBoardLeaderboard = typeof customBoardLeaderboards.$inferSelect;
+export type InsertCustomBoardRating = z.infer<typeof insertCustomBoardRatingSchema>;
+export type CustomBoardRating = typeof customBoardRatings.$inferSelect;
+export type InsertCustomBoardComment = z.infer<typeof insertCustomBoardCommentSchema>;
+export type CustomBoardComment = typeof customBoardComments.$inferSelect;
+export type CustomBoardTag = typeof customBoardTags.$inferSelect;
+export type BoardCollection = typeof boardCollections.$inferSelect;
+export type BoardCollectionItem = typeof boardCollectionItems.$inferSelect;
+export type InsertBoardCollection = z.infer<typeof insertBoardCollectionSchema>;
+export type UpdateBoardCollection = z.infer<typeof updateBoardCollectionSchema>;
+export type Tournament = typeof tournaments.$inferSelect;
+export type TournamentRound = typeof tournamentRounds.$inferSelect;
+export type TournamentPlayer = typeof tournamentPlayers.$inferSelect;
+export type TournamentRoundInput = z.infer<typeof tournamentRoundSchema>;
+export type InsertTournament = z.infer<typeof insertTournamentSchema>;
+export type UpdateTournament = z.infer<typeof updateTournamentSchema>;
+export type CustomBoardSort = typeof CUSTOM_BOARD_SORTS[number];
+export type CustomBoardQuery = z.infer<typeof customBoardQuerySchema>;
+export type PlayerHistoryQuery = z.infer<typeof playerHistoryQuerySchema>;
+export type Move = z.infer<typeof moveSchema>;
+export type ReplayEvent = z.infer<typeof replayEventSchema>;
+export type GameReplay = typeof gameReplays.$inferSelect;
+export type LeaderboardSort = typeof LEADERBOARD_SORTS[number];
+export type LeaderboardPeriod = typeof LEADERBOARD_PERIODS[number];
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+export type LeaderboardRanking = Pick<LeaderboardQuery, "sort" | "period">;
+
+// Entries as shown on leaderboards: the move log stays on the server for audit
+export type PublicLeaderboardEntry = Omit<LeaderboardEntry, "moveLog">;
+export type PublicCustomBoardLeaderboard = Omit<CustomBoardLeaderboard, "moveLog">;
+
+// Entry with its absolute position in the ranking (1-based)
+export type Ranked<T> = T & { rank: number };
+
+// One page of a leaderboard
+export interface LeaderboardPage<T> {
+  entries: Ranked<T>[];
+  total: number; // ranked entries across all pages
+  page: number;
+  pageSize: number;
+}
+
+// Position of one entry with the entries around it
+export interface LeaderboardPlacement<T> {
+  rank: number;
+  total: number;
+  neighbours: Ranked<T>[]; // includes the entry itself
+}
+
+// One page of the custom board catalogue; nextCursor is null on the last page
+export interface CustomBoardPage<T> {
+  boards: T[];
+  nextCursor: string | null;
+}
+
+// Response of POST /api/custom-boards: the edit token is shown only once
+export type CreatedCustomBoard = PublicCustomBoard & { editToken: string };
+
+// Tag with the number of published boards carrying it
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// Collection with the ids of its boards in playing order; deleted boards are left out
+export type BoardCollectionSummary = BoardCollection & { boardIds: number[] };
+
+// Collection as returned by GET /api/collections/:id
+export type BoardCollectionDetails = BoardCollectionSummary & { boards: PublicCustomBoard[] };
+
+// Player who completed every board of a collection
+export interface CollectionStanding {
+  nickname: string;
+  totalTime: number; // sum of the best times, in seconds
+  boardTimes: number[]; // best time on each board, in collection order
+}
+
+// Tournament with its rounds in order and its players in sign-up order
+export type TournamentRecord = Tournament & { rounds: TournamentRound[]; players: TournamentPlayer[] };
+
+// Sign-up is open until the first round starts; the tournament ends with its final round
+export type TournamentStatus = "registration" | "running" | "finished";
+export type TournamentRoundStatus = "upcoming" | "active" | "finished";
+
+// Tournament as listed by GET /api/tournaments
+export type TournamentSummary = Tournament & {
+  status: TournamentStatus;
+  roundCount: number;
+  playerCount: number;
+  startsAt: Date;
+  endsAt: Date;
+};
+
+// Player in a round: best time within the round's window, if any
+export interface TournamentEntrant {
+  nickname: string;
+  time: number | null; // seconds
+  rank: number | null; // null without a result
+  advanced: boolean; // goes on to the next round; known once the round has finished
+}
+
+export interface TournamentBracketRound {
+  round: TournamentRound;
+  status: TournamentRoundStatus;
+  entrants: TournamentEntrant[] | null; // null until the previous round has finished
+}
+
+// Tournament as returned by GET /api/tournaments/:id
+export type TournamentDetails = TournamentRecord & {
+  status: TournamentStatus;
+  bracket: TournamentBracketRound[];
+  winner: string | null;
+};
+
+// Leaderboard a replayed game comes from
+export type ReplaySource = "classic" | "custom";
+
+// Replay as returned by GET /api/leaderboard/:id/replay and
+// GET /api/custom-boards/:id/leaderboard/:entryId/replay
+export interface GameReplayDetails {
+  source: ReplaySource;
+  entryId: number;
+  nickname: string;
+  time: number; // seconds
+  attempts: number;
+  flagged: boolean;
+  completedAt: Date;
+  difficulty: string;
+  boardSize: number;
+  seed: string | null; // classic games
+  dailyDate: string | null;
+  customBoardId: number | null; // custom board games
+  boardName: string | null; // name of the board version the game was played on
+  board: Cell[][];
+  targets: number[];
+  recorded: boolean; // false when the timeline was rebuilt from the move log of an older game
+  timeline: ReplayEvent[];
+}
+
+// Today's daily board as returned by GET /api/daily
+export interface DailyBoard extends GeneratedGame {
+  date: string; // UTC date, YYYY-MM-DD
+  difficulty: Difficulty;
+  boardSize: BoardSize;
+}
+
+// A daily board handed out for play. Only the first attempt of a session is ranked;
+// it keeps running from the first hand-out, elapsedMs ago, when the board is opened again
+export interface DailyAttempt extends DailyBoard {
+  ranked: boolean;
+  gameToken: string; // start token for POST /api/games/finish
+  elapsedMs: number;
+}
+
+// Consecutive days a player has completed a daily board
+export interface DailyStreak {
+  current: number; // days in a row up to today or yesterday
+  best: number; // longest run ever
+  lastPlayed: string | null; // last completed date
+}
+
+// One finished game in a player's history
+export interface PlayerResult {
+  mode: "classic" | "daily" | "custom";
+  difficulty: string;
+  boardSize: number;
+  time: number;
+  attempts: number;
+  customBoardId: number | null;
+  completedAt: string;
+}
+
+// Page of GET /api/players/:name/history; nextCursor is null on the last page
+export interface PlayerHistoryPage {
+  results: PlayerResult[]; // newest first
+  nextCursor: string | null;
+}
+
+// Best result of a player for one difficulty and board size
+export interface PersonalBest {
+  difficulty: string;
+  boardSize: number;
+  time: number;
+  attempts: number;
+  games: number;
+  completedAt: string;
+}
+
+// Public profile as returned by GET /api/players/:name
+export interface PlayerProfile {
+  name: string;
+  verified: boolean; // the name belongs to a registered account
+  totalGames: number;
+  averageTime: number | null;
+  averageAttempts: number | null;
+  personalBests: PersonalBest[];
+  authoredBoards: Pick<CustomBoard, "id" | "name" | "difficulty" | "boardSize" | "completionCount" | "createdAt">[];
+}
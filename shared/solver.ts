@@ -0,0 +1,104 @@
+/**
+ * Решатель поля
+ *
+ * Перебирает ровно те пути, которые игрок может выбрать на поле:
+ * непрерывные горизонтальные и вертикальные линии в обоих направлениях.
+ * Используется генератором целей и подсказками, чтобы цели всегда были
+ * достижимы, а подсказки не показывали невозможных решений.
+ */
+
+import { evaluatePath, type DraftCell, type Position } from "./game-rules";
+
+// Путь, который игрок может выбрать, и значение его выражения
+export interface LegalPath {
+  cells: Position[];
+  expression: string;
+  value: number;
+}
+
+// Решение для одной из целей поля
+export interface Solution {
+  cells: Position[];
+  target: number;
+  expression: string;
+}
+
+export interface BoardSolution {
+  solutions: Solution[];
+  solutionCounts: Record<number, number>; // Количество различных решений для каждой цели
+}
+
+// Направления выбора: вправо, влево, вниз, вверх
+const DIRECTIONS: readonly Position[] = [
+  { row: 0, col: 1 },
+  { row: 0, col: -1 },
+  { row: 1, col: 0 },
+  { row: -1, col: 0 },
+];
+
+/**
+ * Перечисляет все допустимые пути поля, выражение которых вычисляется.
+ * Пути идут в порядке начальной ячейки (по строкам), затем направления и длины.
+ */
+export function enumerateLegalPaths(board: DraftCell[][]): LegalPath[] {
+  const paths: LegalPath[] = [];
+  const rows = board.length;
+
+  for (let startRow = 0; startRow < rows; startRow++) {
+    const cols = board[startRow].length;
+    for (let startCol = 0; startCol < cols; startCol++) {
+      for (const direction of DIRECTIONS) {
+        const cells: Position[] = [{ row: startRow, col: startCol }];
+
+        while (true) {
+          const last = cells[cells.length - 1];
+          const row = last.row + direction.row;
+          const col = last.col + direction.col;
+          if (row < 0 || row >= rows || col < 0 || col >= board[row].length) break;
+          cells.push({ row, col });
+
+          const evaluation = evaluatePath(board, cells);
+          // Ошибка пути (пустая ячейка, две операции подряд) не исправляется удлинением
+          if (!evaluation.ok) break;
+          if (evaluation.result.ok) {
+            paths.push({ cells: [...cells], expression: evaluation.expression, value: evaluation.result.value });
+          }
+        }
+      }
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Находит все решения для целей поля.
+ * Путь и обратный ему путь с тем же выражением считаются одним решением.
+ */
+export function solveBoard(board: DraftCell[][], targets: number[]): BoardSolution {
+  const targetSet = new Set(targets);
+  const solutions: Solution[] = [];
+  const solutionCounts: Record<number, number> = {};
+  const seen = new Set<string>();
+
+  for (const target of targets) {
+    solutionCounts[target] = 0;
+  }
+
+  for (const path of enumerateLegalPaths(board)) {
+    if (!targetSet.has(path.value)) continue;
+
+    const cellsKey = path.cells
+      .map(cell => `${cell.row},${cell.col}`)
+      .sort()
+      .join(";");
+    const key = `${cellsKey}|${path.expression}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    solutions.push({ cells: path.cells, target: path.value, expression: path.expression });
+    solutionCounts[path.value]++;
+  }
+
+  return { solutions, solutionCounts };
+}
@@ -0,0 +1,189 @@
+import { sqliteTable, text, integer, index, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import type { ReplayEvent } from "./schema";
+
+/**
+ * Та же схема, что и в schema.ts, для SQLite. Колонки и их типы в TypeScript
+ * совпадают, поэтому строки из обеих баз имеют одни и те же типы
+ * (User, LeaderboardEntry, CustomBoard, CustomBoardLeaderboard).
+ * При изменении схемы нужно менять оба файла и генерировать миграции для обоих диалектов.
+ */
+
+// Время хранится в миллисекундах, чтобы порядок одинаковых результатов совпадал с PostgreSQL
+const createdTimestamp = (name: string) =>
+  integer(name, { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date());
+
+export const users = sqliteTable("users", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+}, (table) => [
+  // lower() in SQLite folds only Latin letters; SqliteStorage.createUser checks the rest
+  uniqueIndex("users_username_lower_idx").on(sql`lower(${table.username})`),
+]);
+
+export const leaderboardEntries = sqliteTable("leaderboard_entries", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  nickname: text("nickname").notNull(),
+  userId: integer("user_id").references(() => users.id),
+  time: integer("time").notNull(),
+  attempts: integer("attempts").notNull(),
+  difficulty: text("difficulty").notNull(),
+  boardSize: integer("board_size").notNull(),
+  seed: text("seed"),
+  dailyDate: text("daily_date"),
+  moveLog: text("move_log", { mode: "json" }),
+  flagged: integer("flagged", { mode: "boolean" }).notNull().default(false),
+  completedAt: createdTimestamp("completed_at"),
+}, (table) => [
+  index("leaderboard_entries_category_idx").on(table.difficulty, table.boardSize, table.completedAt),
+  index("leaderboard_entries_daily_idx").on(table.dailyDate, table.difficulty, table.boardSize),
+  uniqueIndex("leaderboard_entries_daily_player_idx")
+    .on(table.nickname, table.dailyDate, table.difficulty, table.boardSize)
+    .where(sql`${table.dailyDate} is not null`),
+]);
+
+export const customBoards = sqliteTable("custom_boards", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  creatorName: text("creator_name").notNull(),
+  userId: integer("user_id").references(() => users.id),
+  difficulty: text("difficulty").notNull(),
+  boardSize: integer("board_size").notNull(),
+  boardData: text("board_data", { mode: "json" }).notNull(),
+  targets: text("targets", { mode: "json" }).$type<number[]>().notNull(), // SQLite has no arrays
+  isSolved: integer("is_solved", { mode: "boolean" }).notNull().default(false),
+  completionCount: integer("completion_count").notNull().default(0),
+  ratingCount: integer("rating_count").notNull().default(0),
+  ratingSum: integer("rating_sum").notNull().default(0),
+  difficultyScore: integer("difficulty_score"),
+  version: integer("version").notNull().default(1),
+  editTokenHash: text("edit_token_hash"),
+  deletedAt: integer("deleted_at", { mode: "timestamp_ms" }),
+  createdAt: createdTimestamp("created_at"),
+});
+
+export const customBoardVersions = sqliteTable("custom_board_versions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  customBoardId: integer("custom_board_id").notNull().references(() => customBoards.id),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  difficulty: text("difficulty").notNull(),
+  boardSize: integer("board_size").notNull(),
+  boardData: text("board_data", { mode: "json" }).notNull(),
+  targets: text("targets", { mode: "json" }).$type<number[]>().notNull(),
+  difficultyScore: integer("difficulty_score"),
+  createdAt: createdTimestamp("created_at"),
+}, (table) => [
+  uniqueIndex("custom_board_versions_board_version_idx").on(table.customBoardId, table.version),
+]);
+
+export const customBoardLeaderboards = sqliteTable("custom_board_leaderboards", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  customBoardId: integer("custom_board_id").notNull().references(() => customBoards.id),
+  boardVersion: integer("board_version").notNull().default(1),
+  nickname: text("nickname").notNull(),
+  userId: integer("user_id").references(() => users.id),
+  time: integer("time").notNull(),
+  attempts: integer("attempts").notNull(),
+  moveLog: text("move_log", { mode: "json" }),
+  flagged: integer("flagged", { mode: "boolean" }).notNull().default(false),
+  completedAt: createdTimestamp("completed_at"),
+}, (table) => [
+  index("custom_board_leaderboards_board_idx").on(table.customBoardId, table.completedAt),
+]);
+
+export const gameReplays = sqliteTable("game_replays", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  leaderboardEntryId: integer("leaderboard_entry_id").references(() => leaderboardEntries.id),
+  customBoardLeaderboardId: integer("custom_board_leaderboard_id").references(() => customBoardLeaderboards.id),
+  timeline: text("timeline", { mode: "json" }).$type<ReplayEvent[]>().notNull(),
+  createdAt: createdTimestamp("created_at"),
+}, (table) => [
+  uniqueIndex("game_replays_leaderboard_entry_idx").on(table.leaderboardEntryId),
+  uniqueIndex("game_replays_custom_board_leaderboard_idx").on(table.customBoardLeaderboardId),
+]);
+
+export const customBoardRatings = sqliteTable("custom_board_ratings", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  customBoardId: integer("custom_board_id").notNull().references(() => customBoards.id),
+  nickname: text("nickname").notNull(),
+  userId: integer("user_id").references(() => users.id),
+  stars: integer("stars").notNull(),
+  ratedAt: createdTimestamp("rated_at"),
+}, (table) => [
+  uniqueIndex("custom_board_ratings_board_nickname_idx").on(table.customBoardId, table.nickname),
+]);
+
+export const customBoardComments = sqliteTable("custom_board_comments", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  customBoardId: integer("custom_board_id").notNull().references(() => customBoards.id),
+  nickname: text("nickname").notNull(),
+  userId: integer("user_id").references(() => users.id),
+  text: text("text").notNull(),
+  createdAt: createdTimestamp("created_at"),
+}, (table) => [
+  index("custom_board_comments_board_idx").on(table.customBoardId, table.createdAt),
+]);
+
+export const customBoardTags = sqliteTable("custom_board_tags", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  customBoardId: integer("custom_board_id").notNull().references(() => customBoards.id),
+  tag: text("tag").notNull(),
+}, (table) => [
+  uniqueIndex("custom_board_tags_board_tag_idx").on(table.customBoardId, table.tag),
+  index("custom_board_tags_tag_idx").on(table.tag),
+]);
+
+export const boardCollections = sqliteTable("board_collections", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  creatorName: text("creator_name").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  createdAt: createdTimestamp("created_at"),
+});
+
+export const boardCollectionItems = sqliteTable("board_collection_items", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  collectionId: integer("collection_id").notNull().references(() => boardCollections.id),
+  customBoardId: integer("custom_board_id").notNull().references(() => customBoards.id),
+  position: integer("position").notNull(),
+}, (table) => [
+  uniqueIndex("board_collection_items_collection_board_idx").on(table.collectionId, table.customBoardId),
+]);
+
+export const tournaments = sqliteTable("tournaments", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  creatorName: text("creator_name").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  createdAt: createdTimestamp("created_at"),
+});
+
+export const tournamentRounds = sqliteTable("tournament_rounds", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id),
+  position: integer("position").notNull(),
+  customBoardId: integer("custom_board_id").references(() => customBoards.id),
+  boardVersion: integer("board_version"),
+  seed: text("seed"),
+  difficulty: text("difficulty"),
+  boardSize: integer("board_size"),
+  startsAt: integer("starts_at", { mode: "timestamp_ms" }).notNull(),
+  endsAt: integer("ends_at", { mode: "timestamp_ms" }).notNull(),
+  advancing: integer("advancing"),
+}, (table) => [
+  uniqueIndex("tournament_rounds_tournament_position_idx").on(table.tournamentId, table.position),
+]);
+
+export const tournamentPlayers = sqliteTable("tournament_players", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  nickname: text("nickname").notNull(),
+  registeredAt: createdTimestamp("registered_at"),
+}, (table) => [
+  uniqueIndex("tournament_players_tournament_user_idx").on(table.tournamentId, table.userId),
+]);